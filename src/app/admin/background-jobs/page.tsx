@@ -0,0 +1,337 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { BACKGROUND_JOB_LABELS, BackgroundJobView, describeJobProgress } from '@/lib/background-jobs'
+
+type JobStatus = BackgroundJobView['status']
+type JobType = BackgroundJobView['type']
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  QUEUED: 'bg-yellow-100 text-yellow-800',
+  RUNNING: 'bg-blue-100 text-blue-800',
+  SUCCEEDED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800'
+}
+
+function formatDuration(job: BackgroundJobView): string {
+  if (!job.startedAt) return '—'
+  const end = job.finishedAt ? new Date(job.finishedAt).getTime() : Date.now()
+  const seconds = (end - new Date(job.startedAt).getTime()) / 1000
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`
+}
+
+// Coalesced trust computations list the edits that triggered them
+function triggerCount(job: BackgroundJobView): number {
+  const triggers = (job.payload as { triggers?: string[] } | null)?.triggers
+  return Array.isArray(triggers) ? triggers.length : 0
+}
+
+export default function BackgroundJobsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [jobs, setJobs] = useState<BackgroundJobView[]>([])
+  const [counts, setCounts] = useState<Partial<Record<JobStatus, number>>>({})
+  const [statusFilter, setStatusFilter] = useState<JobStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  // Admin check
+  const ADMIN_EMAILS = ['vaishnav@cloutcareers.com']
+  const isAdmin = session?.user?.email && ADMIN_EMAILS.includes(session.user.email)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !isAdmin) {
+      return
+    }
+
+    fetchJobs()
+  }, [session, status, isAdmin, statusFilter])
+
+  // Keep progress live while anything is queued or running
+  const active = (counts.QUEUED ?? 0) + (counts.RUNNING ?? 0) > 0
+  useEffect(() => {
+    if (!active) return
+    const timer = setInterval(() => fetchJobs(false), 3000)
+    return () => clearInterval(timer)
+  }, [active, statusFilter])
+
+  const fetchJobs = async (showLoading: boolean = true) => {
+    try {
+      if (showLoading) setLoading(true)
+      setError('')
+
+      const query = statusFilter ? `?status=${statusFilter}` : ''
+      const response = await fetch(`/api/admin/background-jobs${query}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch jobs')
+      }
+
+      setJobs(data.jobs)
+      setCounts(data.counts)
+    } catch (error) {
+      console.error('Background jobs fetch error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch jobs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const queueJob = async (type: JobType) => {
+    try {
+      setWorking(true)
+      setError('')
+      setMessage('')
+
+      const response = await fetch('/api/admin/background-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue job')
+      }
+
+      setMessage(`${BACKGROUND_JOB_LABELS[type]} queued`)
+      fetchJobs(false)
+    } catch (error) {
+      console.error('Background job enqueue error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to queue job')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const runQueue = async () => {
+    try {
+      setWorking(true)
+      setError('')
+      setMessage('')
+
+      const response = await fetch('/api/admin/background-jobs/run', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run queued jobs')
+      }
+
+      setMessage(data.processed > 0 ? `Ran ${data.processed} jobs` : 'No jobs were due')
+      fetchJobs(false)
+    } catch (error) {
+      console.error('Background job run error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to run queued jobs')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const retryJob = async (jobId: string) => {
+    try {
+      setError('')
+      setMessage('')
+
+      const response = await fetch(`/api/admin/background-jobs/${jobId}/retry`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry job')
+      }
+
+      setMessage('Job queued for retry')
+      fetchJobs(false)
+    } catch (error) {
+      console.error('Background job retry error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to retry job')
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">Access Denied</h1>
+          <p className="text-gray-600 mb-6">Admin access required.</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+
+          {/* Header */}
+          <div className="border-b border-gray-200 pb-4 mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Background Jobs</h1>
+                <p className="text-gray-600 mt-2">Trust computations and other long-running tasks</p>
+              </div>
+              <Link
+                href="/admin"
+                className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+              >
+                Back to Admin
+              </Link>
+            </div>
+          </div>
+
+          {/* Status counts */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {(['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED'] as JobStatus[]).map(jobStatus => (
+              <div key={jobStatus} className="bg-white shadow rounded-lg p-4">
+                <div className="text-sm text-gray-500">{jobStatus.charAt(0) + jobStatus.slice(1).toLowerCase()}</div>
+                <div className="text-2xl font-semibold text-gray-900">{counts[jobStatus] ?? 0}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Controls */}
+          <div className="flex items-center justify-between mb-6">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as JobStatus | '')}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All</option>
+              <option value="QUEUED">Queued</option>
+              <option value="RUNNING">Running</option>
+              <option value="SUCCEEDED">Succeeded</option>
+              <option value="FAILED">Failed</option>
+            </select>
+            <div className="flex gap-3">
+              <button
+                onClick={() => queueJob('TRUST_COMPUTATION')}
+                disabled={working}
+                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+              >
+                Queue Trust Computation
+              </button>
+              <button
+                onClick={runQueue}
+                disabled={working}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {working ? 'Working...' : 'Run Due Jobs Now'}
+              </button>
+            </div>
+          </div>
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6 text-green-800">
+              {message}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <div className="text-red-600">{error}</div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="text-lg text-gray-600">Loading jobs...</div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              No jobs yet.
+            </div>
+          ) : (
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Job</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Attempts</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Duration</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {jobs.map(job => (
+                    <tr key={job.id}>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{BACKGROUND_JOB_LABELS[job.type]}</div>
+                        {triggerCount(job) > 0 && (
+                          <div className="text-xs text-gray-500">
+                            Triggered by {triggerCount(job)} {triggerCount(job) === 1 ? 'event' : 'events'}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[job.status]}`}>
+                          {job.status}
+                        </span>
+                        {job.status === 'RUNNING' && (
+                          <div className="mt-2 w-40">
+                            <div className="h-1.5 bg-gray-200 rounded">
+                              <div
+                                className="h-1.5 bg-blue-600 rounded"
+                                style={{ width: `${Math.round(job.progress * 100)}%` }}
+                              />
+                            </div>
+                          </div>
+                        )}
+                        <div className="text-xs text-gray-500 mt-1">{describeJobProgress(job)}</div>
+                        {job.status === 'QUEUED' && job.error && (
+                          <div className="text-xs text-red-600 mt-1">Last error: {job.error}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {job.attempts}/{job.maxAttempts}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {new Date(job.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {formatDuration(job)}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {job.status === 'FAILED' && (
+                          <button
+                            onClick={() => retryJob(job.id)}
+                            className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded hover:bg-gray-200"
+                          >
+                            Retry
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,12 +3,21 @@
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import { describeJobProgress, waitForJob } from '@/lib/background-jobs'
 
 interface TrustConfig {
   eigentrustAlpha: number
   maxIterations: number
   convergenceThreshold: number
   adminEmail: string
+  trustAlgorithm: 'STANDARD' | 'MODIFIED'
+  trustHalfLifeDays: number | null
+  pretrustSeeds: PretrustSeed[]
+}
+
+interface PretrustSeed {
+  email: string
+  weight: number
 }
 
 interface TrustStatus {
@@ -37,14 +46,19 @@ export default function EigenTrustAdminPage() {
     eigentrustAlpha: 0.15,
     maxIterations: 100,
     convergenceThreshold: 0.000001,
-    adminEmail: 'vaishnav@cloutcareers.com'
+    adminEmail: 'vaishnav@cloutcareers.com',
+    trustAlgorithm: 'STANDARD',
+    trustHalfLifeDays: null,
+    pretrustSeeds: []
   })
+  const [newSeedEmail, setNewSeedEmail] = useState('')
 
   const [status_, setStatus_] = useState<TrustStatus | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [computing, setComputing] = useState(false)
   const [message, setMessage] = useState('')
+  const [sendingReminders, setSendingReminders] = useState(false)
 
   // Manual trust assignment state
   const [manualAssignment, setManualAssignment] = useState({
@@ -166,6 +180,33 @@ export default function EigenTrustAdminPage() {
     }
   }
 
+  const sendDecayReminders = async () => {
+    try {
+      setSendingReminders(true)
+      setMessage('')
+
+      const response = await fetch('/api/admin/trust-decay', { method: 'POST' })
+      const data = await response.json()
+
+      if (response.ok) {
+        const job = await waitForJob(data.jobId, job => setMessage(`Reminders: ${describeJobProgress(job)}`))
+
+        if (job.status === 'SUCCEEDED') {
+          const result = job.result as { remindersSent: number, staleGivers: number }
+          setMessage(`Reminders sent successfully to ${result.remindersSent} of ${result.staleGivers} users with stale allocations`)
+        } else {
+          setMessage(describeJobProgress(job))
+        }
+      } else {
+        setMessage(data.error || 'Failed to send reminders')
+      }
+    } catch (error) {
+      setMessage('Failed to send reminders')
+    } finally {
+      setSendingReminders(false)
+    }
+  }
+
   const computeTrustScores = async () => {
     try {
       setComputing(true)
@@ -179,11 +220,18 @@ export default function EigenTrustAdminPage() {
       const data = await response.json()
 
       if (response.ok) {
-        setMessage(`Trust scores computed! ${data.iterations} iterations, ${data.computationTime}ms, ${data.usersUpdated} users updated`)
-        setTimeout(() => setMessage(''), 5000)
-
-        // Refresh status
-        fetchData()
+        const job = await waitForJob(data.jobId, job => setMessage(`Trust computation: ${describeJobProgress(job)}`))
+
+        if (job.status === 'SUCCEEDED') {
+          const result = job.result as { iterations: number, numUsers: number, scoresChanged: number }
+          setMessage(`Trust scores computed! ${result.iterations} iterations, ${result.numUsers} users, ${result.scoresChanged} scores changed`)
+          setTimeout(() => setMessage(''), 5000)
+
+          // Refresh status
+          fetchData()
+        } else {
+          setMessage(describeJobProgress(job))
+        }
       } else {
         setMessage(data.error || 'Failed to compute trust scores')
       }
@@ -194,6 +242,34 @@ export default function EigenTrustAdminPage() {
     }
   }
 
+  // Pretrust seed functions
+  const addSeed = () => {
+    if (!newSeedEmail || config.pretrustSeeds.some(seed => seed.email === newSeedEmail)) {
+      return
+    }
+    setConfig(prev => ({
+      ...prev,
+      pretrustSeeds: [...prev.pretrustSeeds, { email: newSeedEmail, weight: 1 }]
+    }))
+    setNewSeedEmail('')
+  }
+
+  const updateSeedWeight = (email: string, weight: number) => {
+    setConfig(prev => ({
+      ...prev,
+      pretrustSeeds: prev.pretrustSeeds.map(seed => seed.email === email ? { ...seed, weight } : seed)
+    }))
+  }
+
+  const removeSeed = (email: string) => {
+    setConfig(prev => ({
+      ...prev,
+      pretrustSeeds: prev.pretrustSeeds.filter(seed => seed.email !== email)
+    }))
+  }
+
+  const totalSeedWeight = config.pretrustSeeds.reduce((sum, seed) => sum + (seed.weight > 0 ? seed.weight : 0), 0)
+
   // User selection functions
   const handleUserSelect = (user: { email: string; displayName: string; cloutScore: number }) => {
     setManualAssignment(prev => ({
@@ -377,6 +453,24 @@ export default function EigenTrustAdminPage() {
               </div>
               <div className="p-6 space-y-6">
 
+                {/* Algorithm */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Algorithm
+                  </label>
+                  <select
+                    value={config.trustAlgorithm}
+                    onChange={(e) => setConfig(prev => ({ ...prev, trustAlgorithm: e.target.value as TrustConfig['trustAlgorithm'] }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="STANDARD">Standard EigenTrust</option>
+                    <option value="MODIFIED">Modified (allocation-independent)</option>
+                  </select>
+                  <p className="text-xs text-gray-600 mt-1">
+                    Modified EigenTrust guarantees a user's own allocations never change their own score (approximately, for users in a strongly connected group over 5,000). Scores are unnormalized.
+                  </p>
+                </div>
+
                 {/* Alpha Parameter */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -396,7 +490,38 @@ export default function EigenTrustAdminPage() {
                     <span>0.5 (More decay)</span>
                   </div>
                   <p className="text-xs text-gray-600 mt-2">
-                    Controls how much trust "teleports" back to admin. Higher = stronger admin influence.
+                    Controls how much trust "teleports" back to the pretrust seeds. Higher = stronger seed influence.
+                  </p>
+                </div>
+
+                {/* Allocation Decay */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Allocation Half-Life (days)
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      max="3650"
+                      placeholder="Decay off"
+                      value={config.trustHalfLifeDays ?? ''}
+                      onChange={(e) => setConfig(prev => ({
+                        ...prev,
+                        trustHalfLifeDays: e.target.value === '' ? null : parseFloat(e.target.value)
+                      }))}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    <button
+                      onClick={sendDecayReminders}
+                      disabled={sendingReminders || !config.trustHalfLifeDays}
+                      className="px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      {sendingReminders ? 'Sending...' : 'Send Reminders'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-2">
+                    Allocations lose half their weight every half-life since the giver last confirmed them; the faded part goes to the pretrust seeds. Leave empty to disable.
                   </p>
                 </div>
 
@@ -437,6 +562,71 @@ export default function EigenTrustAdminPage() {
                   </p>
                 </div>
 
+                {/* Pretrust Seeds */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Pretrust Seeds
+                  </label>
+                  {config.pretrustSeeds.length === 0 ? (
+                    <p className="text-sm text-gray-500 bg-gray-50 rounded-md p-3">
+                      No seeds configured - {config.adminEmail} is the only seed
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {config.pretrustSeeds.map(seed => (
+                        <div key={seed.email} className="flex items-center space-x-2">
+                          <div className="flex-1 text-sm text-gray-900 truncate">{seed.email}</div>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={seed.weight}
+                            onChange={(e) => updateSeedWeight(seed.email, parseFloat(e.target.value) || 0)}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          />
+                          <div className="w-12 text-xs text-gray-500 text-right">
+                            {totalSeedWeight > 0 && seed.weight > 0
+                              ? `${Math.round((seed.weight / totalSeedWeight) * 100)}%`
+                              : '0%'}
+                          </div>
+                          <button
+                            onClick={() => removeSeed(seed.email)}
+                            className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex space-x-2 mt-3">
+                    <select
+                      value={newSeedEmail}
+                      onChange={(e) => setNewSeedEmail(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="">Select a user...</option>
+                      {users
+                        .filter(user => !config.pretrustSeeds.some(seed => seed.email === user.email))
+                        .map(user => (
+                          <option key={user.id} value={user.email}>
+                            {user.displayName} ({user.email})
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      onClick={addSeed}
+                      disabled={!newSeedEmail}
+                      className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md text-sm hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Add Seed
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-2">
+                    Trust teleports back to these users in proportion to their weights. Users who haven't allocated trust default to this distribution.
+                  </p>
+                </div>
+
                 {/* Save Button */}
                 <button
                   onClick={saveConfig}
@@ -241,6 +241,81 @@ export default function AdminDashboard() {
               </div>
             </div>
 
+            {/* Trust Flags */}
+            <div className="bg-white overflow-hidden shadow rounded-lg">
+              <div className="p-6">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <svg className="h-6 w-6 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+                    </svg>
+                  </div>
+                  <div className="ml-4 w-0 flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">Trust Flags</h3>
+                    <p className="text-sm text-gray-500 mt-1">Review suspected sybil rings and quarantine allocations</p>
+                  </div>
+                </div>
+                <div className="mt-6">
+                  <Link
+                    href="/admin/trust-flags"
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                  >
+                    Review Flags
+                  </Link>
+                </div>
+              </div>
+            </div>
+
+            {/* Trust History */}
+            <div className="bg-white overflow-hidden shadow rounded-lg">
+              <div className="p-6">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <svg className="h-6 w-6 text-teal-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                    </svg>
+                  </div>
+                  <div className="ml-4 w-0 flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">Trust History</h3>
+                    <p className="text-sm text-gray-500 mt-1">Compare trust score snapshots over time</p>
+                  </div>
+                </div>
+                <div className="mt-6">
+                  <Link
+                    href="/admin/trust-history"
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500"
+                  >
+                    View History
+                  </Link>
+                </div>
+              </div>
+            </div>
+
+            {/* Background Jobs */}
+            <div className="bg-white overflow-hidden shadow rounded-lg">
+              <div className="p-6">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <svg className="h-6 w-6 text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16M4 18h7" />
+                    </svg>
+                  </div>
+                  <div className="ml-4 w-0 flex-1">
+                    <h3 className="text-lg font-medium text-gray-900">Background Jobs</h3>
+                    <p className="text-sm text-gray-500 mt-1">Job history, progress and retries for trust computation</p>
+                  </div>
+                </div>
+                <div className="mt-6">
+                  <Link
+                    href="/admin/background-jobs"
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-slate-600 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500"
+                  >
+                    View Jobs
+                  </Link>
+                </div>
+              </div>
+            </div>
+
             {/* Discord Bot */}
             <div className="bg-white overflow-hidden shadow rounded-lg">
               <div className="p-6">
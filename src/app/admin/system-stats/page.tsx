@@ -65,6 +65,8 @@ export default function SystemStatsPage() {
   const [stats, setStats] = useState<SystemStats | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
+  const [reconciling, setReconciling] = useState(false)
+  const [reconcileMessage, setReconcileMessage] = useState('')
 
   // Admin check
   const ADMIN_EMAIL = 'vaishnav@cloutcareers.com'
@@ -94,6 +96,29 @@ export default function SystemStatsPage() {
     }
   }
 
+  const reconcileLedger = async () => {
+    try {
+      setReconciling(true)
+      setReconcileMessage('')
+      const response = await fetch('/api/admin/trust-ledger', { method: 'POST' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setReconcileMessage(
+          `Repaired ${data.usersRepaired} users and ${data.relationshipsRepaired} relationships` +
+          (data.overBudgetGiversNormalized > 0 ? `, normalized ${data.overBudgetGiversNormalized} over-budget givers` : '')
+        )
+        fetchStats()
+      } else {
+        setReconcileMessage(data.error || 'Reconciliation failed')
+      }
+    } catch (err) {
+      setReconcileMessage('Reconciliation failed')
+    } finally {
+      setReconciling(false)
+    }
+  }
+
   if (status === 'loading' || loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -156,6 +181,9 @@ export default function SystemStatsPage() {
                 <h1 className="text-3xl font-bold text-gray-900">System Statistics</h1>
                 <p className="text-gray-600 mt-2">Comprehensive system metrics and trust allocation data</p>
                 <p className="text-sm text-gray-500 mt-1">Last updated: {new Date(stats.timestamp).toLocaleString()}</p>
+                {reconcileMessage && (
+                  <p className="text-sm text-indigo-700 mt-1">{reconcileMessage}</p>
+                )}
               </div>
               <div className="space-x-3">
                 <button
@@ -164,6 +192,13 @@ export default function SystemStatsPage() {
                 >
                   Refresh
                 </button>
+                <button
+                  onClick={reconcileLedger}
+                  disabled={reconciling}
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {reconciling ? 'Reconciling...' : 'Reconcile Trust Ledger'}
+                </button>
                 <button
                   onClick={() => router.push('/admin')}
                   className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200"
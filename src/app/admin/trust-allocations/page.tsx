@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react'
 import { redirect } from 'next/navigation'
 import NetworkInfluenceChart from '@/components/NetworkInfluenceChart'
 import AdminInviteUsers from '@/components/AdminInviteUsers'
+import { describeJobProgress, waitForJob } from '@/lib/background-jobs'
 
 interface User {
   id: string
@@ -173,7 +174,13 @@ export default function AdminTrustAllocationsPage() {
         throw new Error(data.error || 'Failed to trigger computation')
       }
 
-      setMessage(`✅ Computation complete! ${data.iterations} iterations, converged: ${data.converged}`)
+      const job = await waitForJob(data.jobId, job => setMessage(`🔄 ${describeJobProgress(job)}`))
+      if (job.status === 'FAILED') {
+        throw new Error(job.error || 'Computation failed')
+      }
+
+      const result = job.result as { iterations: number, converged: boolean }
+      setMessage(`✅ Computation complete! ${result.iterations} iterations, converged: ${result.converged}`)
 
       // Refresh the page data to show updated scores
       setTimeout(() => {
@@ -0,0 +1,311 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+type FlagType = 'COLLUSION_CLUSTER' | 'ALLOCATION_SPIKE' | 'INVITE_BURST'
+type FlagStatus = 'OPEN' | 'QUARANTINED' | 'DISMISSED'
+
+interface FlaggedUser {
+  id: string
+  email: string
+  displayName: string
+  isProfileComplete: boolean
+}
+
+interface TrustFlag {
+  id: string
+  type: FlagType
+  status: FlagStatus
+  severity: number
+  summary: string
+  details: { pairs?: Array<{ giverId: string; receiverId: string }> } & Record<string, unknown>
+  detectedAt: string
+  reviewedAt: string | null
+  quarantinedAllocations: number
+  users: FlaggedUser[]
+}
+
+const TYPE_LABELS: Record<FlagType, string> = {
+  COLLUSION_CLUSTER: 'Collusion Cluster',
+  ALLOCATION_SPIKE: 'Allocation Spike',
+  INVITE_BURST: 'Invite Burst'
+}
+
+const STATUS_STYLES: Record<FlagStatus, string> = {
+  OPEN: 'bg-yellow-100 text-yellow-800',
+  QUARANTINED: 'bg-red-100 text-red-800',
+  DISMISSED: 'bg-gray-100 text-gray-700'
+}
+
+export default function TrustFlagsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [flags, setFlags] = useState<TrustFlag[]>([])
+  const [statusFilter, setStatusFilter] = useState<FlagStatus | ''>('OPEN')
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [actingOn, setActingOn] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  // Admin check
+  const ADMIN_EMAILS = ['vaishnav@cloutcareers.com']
+  const isAdmin = session?.user?.email && ADMIN_EMAILS.includes(session.user.email)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !isAdmin) {
+      return
+    }
+
+    fetchFlags()
+  }, [session, status, isAdmin, statusFilter])
+
+  const fetchFlags = async () => {
+    try {
+      setLoading(true)
+      setError('')
+
+      const query = statusFilter ? `?status=${statusFilter}` : ''
+      const response = await fetch(`/api/admin/trust-flags${query}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch flags')
+      }
+
+      setFlags(data.flags)
+    } catch (error) {
+      console.error('Trust flags fetch error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch flags')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runDetection = async () => {
+    try {
+      setRunning(true)
+      setError('')
+      setMessage('')
+
+      const response = await fetch('/api/admin/trust-flags', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Detection failed')
+      }
+
+      setMessage(`Detection complete: ${data.total} findings, ${data.created} new flags, ${data.updated} refreshed`)
+      fetchFlags()
+    } catch (error) {
+      console.error('Trust anomaly detection error:', error)
+      setError(error instanceof Error ? error.message : 'Detection failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const reviewFlag = async (flagId: string, action: 'quarantine' | 'dismiss' | 'reopen') => {
+    try {
+      setActingOn(flagId)
+      setError('')
+      setMessage('')
+
+      const response = await fetch(`/api/admin/trust-flags/${flagId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update flag')
+      }
+
+      if (action === 'quarantine') {
+        setMessage(`Quarantined ${data.quarantined} allocations. Trust scores will be recomputed shortly.`)
+      } else if (data.released > 0) {
+        setMessage(`Restored ${data.released} allocations. Trust scores will be recomputed shortly.`)
+      }
+      fetchFlags()
+    } catch (error) {
+      console.error('Trust flag review error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update flag')
+    } finally {
+      setActingOn(null)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">Access Denied</h1>
+          <p className="text-gray-600 mb-6">Admin access required.</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+
+          {/* Header */}
+          <div className="border-b border-gray-200 pb-4 mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Trust Flags</h1>
+                <p className="text-gray-600 mt-2">Suspected sybil rings, allocation spikes and invite bursts</p>
+              </div>
+              <div className="flex gap-3">
+                <Link
+                  href="/admin/trust-matrix"
+                  className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50"
+                >
+                  Trust Matrix
+                </Link>
+                <Link
+                  href="/admin"
+                  className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+                >
+                  Back to Admin
+                </Link>
+              </div>
+            </div>
+          </div>
+
+          {/* Controls */}
+          <div className="flex items-center justify-between mb-6">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as FlagStatus | '')}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="OPEN">Open</option>
+              <option value="QUARANTINED">Quarantined</option>
+              <option value="DISMISSED">Dismissed</option>
+              <option value="">All</option>
+            </select>
+            <button
+              onClick={runDetection}
+              disabled={running}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {running ? 'Scanning...' : 'Run Detection'}
+            </button>
+          </div>
+
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6 text-green-800">
+              {message}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <div className="text-red-600">{error}</div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="text-lg text-gray-600">Loading flags...</div>
+            </div>
+          ) : flags.length === 0 ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+              No flags. Run detection to scan the trust graph.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {flags.map(flag => (
+                <div key={flag.id} className="bg-white shadow rounded-lg p-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="text-sm font-semibold text-gray-900">{TYPE_LABELS[flag.type]}</span>
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[flag.status]}`}>
+                          {flag.status}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          Severity {(flag.severity * 100).toFixed(0)}%
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-700">{flag.summary}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Detected {new Date(flag.detectedAt).toLocaleString()}
+                        {' '}· {flag.details.pairs?.length ?? 0} allocations involved
+                        {flag.status === 'QUARANTINED' && ` · ${flag.quarantinedAllocations} quarantined`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 ml-4">
+                      {flag.status === 'OPEN' && (
+                        <>
+                          <button
+                            onClick={() => reviewFlag(flag.id, 'quarantine')}
+                            disabled={actingOn === flag.id}
+                            className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Quarantine
+                          </button>
+                          <button
+                            onClick={() => reviewFlag(flag.id, 'dismiss')}
+                            disabled={actingOn === flag.id}
+                            className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded hover:bg-gray-200 disabled:opacity-50"
+                          >
+                            Dismiss
+                          </button>
+                        </>
+                      )}
+                      {flag.status !== 'OPEN' && (
+                        <button
+                          onClick={() => reviewFlag(flag.id, 'reopen')}
+                          disabled={actingOn === flag.id}
+                          className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          {flag.status === 'QUARANTINED' ? 'Release' : 'Reopen'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {flag.users.map(user => (
+                      <span
+                        key={user.id}
+                        title={user.email}
+                        className={`text-xs px-2 py-1 rounded ${user.isProfileComplete ? 'bg-blue-50 text-blue-800' : 'bg-orange-50 text-orange-800'}`}
+                      >
+                        {user.displayName}{!user.isProfileComplete && ' (placeholder)'}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
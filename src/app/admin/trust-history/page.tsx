@@ -0,0 +1,303 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+interface SnapshotInfo {
+  id: string
+  computedAt: string
+  triggeredBy: string
+  algorithm: string
+  numUsers: number
+  numIterations: number
+  converged: boolean
+  scoresChanged: number | null
+}
+
+interface SnapshotValues {
+  trustScore: number
+  displayScore: number
+  rank: number
+}
+
+interface DiffEntry {
+  userId: string
+  displayName: string
+  email: string
+  from: SnapshotValues | null
+  to: SnapshotValues | null
+  trustScoreChange: number
+  displayScoreChange: number
+  rankChange: number | null
+}
+
+interface SnapshotDiff {
+  from: { id: string; computedAt: string; triggeredBy: string }
+  to: { id: string; computedAt: string; triggeredBy: string }
+  entries: DiffEntry[]
+}
+
+export default function TrustHistoryPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [diffLoading, setDiffLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  // Admin check
+  const ADMIN_EMAILS = ['vaishnav@cloutcareers.com']
+  const isAdmin = session?.user?.email && ADMIN_EMAILS.includes(session.user.email)
+
+  useEffect(() => {
+    if (status === 'loading') return
+
+    if (!session || !isAdmin) {
+      return
+    }
+
+    fetchSnapshots()
+  }, [session, status, isAdmin])
+
+  const fetchSnapshots = async () => {
+    try {
+      setLoading(true)
+      setError('')
+
+      const response = await fetch('/api/admin/trust-snapshots')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch snapshots')
+      }
+
+      setSnapshots(data.snapshots)
+
+      // Default to comparing the two most recent computations
+      if (data.snapshots.length >= 2) {
+        setFromId(data.snapshots[1].id)
+        setToId(data.snapshots[0].id)
+      }
+    } catch (error) {
+      console.error('Trust snapshots fetch error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch snapshots')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDiff = async () => {
+    if (!fromId || !toId) return
+
+    try {
+      setDiffLoading(true)
+      setError('')
+
+      const response = await fetch(`/api/admin/trust-snapshots/diff?from=${fromId}&to=${toId}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to diff snapshots')
+      }
+
+      setDiff(data)
+    } catch (error) {
+      console.error('Trust snapshot diff error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to diff snapshots')
+    } finally {
+      setDiffLoading(false)
+    }
+  }
+
+  const formatSnapshot = (snapshot: SnapshotInfo) =>
+    `${new Date(snapshot.computedAt).toLocaleString()} · ${snapshot.triggeredBy} · ${snapshot.algorithm}`
+
+  const formatChange = (value: number, digits: number = 0) => {
+    if (value === 0) return <span className="text-gray-400">—</span>
+    return (
+      <span className={value > 0 ? 'text-green-600' : 'text-red-600'}>
+        {value > 0 ? '+' : ''}{value.toFixed(digits)}
+      </span>
+    )
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session || !isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">Access Denied</h1>
+          <p className="text-gray-600 mb-6">Admin access required.</p>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const visibleEntries = diff
+    ? diff.entries.filter(entry =>
+        showUnchanged ||
+        entry.displayScoreChange !== 0 ||
+        (entry.rankChange !== null && entry.rankChange !== 0) ||
+        !entry.from || !entry.to
+      )
+    : []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+
+          {/* Header */}
+          <div className="border-b border-gray-200 pb-4 mb-8">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Trust Score History</h1>
+                <p className="text-gray-600 mt-2">Compare the score snapshots of any two trust computations</p>
+              </div>
+              <Link
+                href="/admin"
+                className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+              >
+                Back to Admin
+              </Link>
+            </div>
+          </div>
+
+          {loading && (
+            <div className="text-center py-8">
+              <div className="text-lg text-gray-600">Loading snapshots...</div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <div className="text-red-600">{error}</div>
+            </div>
+          )}
+
+          {!loading && snapshots.length < 2 && (
+            <div className="bg-white shadow rounded-lg p-6 text-gray-600">
+              At least two trust computations are needed before snapshots can be compared.
+            </div>
+          )}
+
+          {!loading && snapshots.length >= 2 && (
+            <div className="bg-white shadow rounded-lg p-6 mb-8">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From (earlier)</label>
+                  <select
+                    value={fromId}
+                    onChange={(e) => setFromId(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{formatSnapshot(snapshot)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To (later)</label>
+                  <select
+                    value={toId}
+                    onChange={(e) => setToId(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{formatSnapshot(snapshot)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="mt-4 flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                  />
+                  Show unchanged users
+                </label>
+                <button
+                  onClick={fetchDiff}
+                  disabled={diffLoading || !fromId || !toId}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {diffLoading ? 'Comparing...' : 'Compare'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {diff && (
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {visibleEntries.length} of {diff.entries.length} users
+                </h3>
+                <p className="text-sm text-gray-600">
+                  {new Date(diff.from.computedAt).toLocaleString()} → {new Date(diff.to.computedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rank</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rank Change</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score (pts)</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Raw Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {visibleEntries.map(entry => (
+                      <tr key={entry.userId}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{entry.displayName}</div>
+                          <div className="text-xs text-gray-500">{entry.email}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {entry.from ? `#${entry.from.rank}` : 'new'} → {entry.to ? `#${entry.to.rank}` : 'removed'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {entry.rankChange === null ? <span className="text-gray-400">—</span> : formatChange(entry.rankChange)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {entry.from?.displayScore ?? 0} → {entry.to?.displayScore ?? 0}{' '}
+                          ({formatChange(entry.displayScoreChange)})
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {formatChange(entry.trustScoreChange, 6)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
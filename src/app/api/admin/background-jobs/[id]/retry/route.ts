@@ -0,0 +1,58 @@
+/**
+ * BACKGROUND JOB RETRY API
+ *
+ * POST: Puts a failed job back in the queue with a fresh set of attempts
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { isAdmin: true }
+    })
+
+    if (!currentUser?.isAdmin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const retried = await prisma.backgroundJob.updateMany({
+      where: { id, status: 'FAILED' },
+      data: {
+        status: 'QUEUED',
+        attempts: 0,
+        progress: 0,
+        progressMessage: null,
+        runAt: new Date(),
+        finishedAt: null
+      }
+    })
+
+    if (retried.count === 0) {
+      return NextResponse.json({ error: 'Only failed jobs can be retried' }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Background job retry error:', error)
+    return NextResponse.json({
+      error: 'Failed to retry job'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * BACKGROUND JOB STATUS API
+ *
+ * GET: One job's status, progress and result (polled while it runs)
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { isAdmin: true }
+    })
+
+    if (!currentUser?.isAdmin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const job = await prisma.backgroundJob.findUnique({ where: { id } })
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ job })
+
+  } catch (error) {
+    console.error('Background job fetch error:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch job'
+    }, { status: 500 })
+  }
+}
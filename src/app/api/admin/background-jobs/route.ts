@@ -0,0 +1,106 @@
+/**
+ * BACKGROUND JOBS API
+ *
+ * GET: Job history, newest first (?status=, ?type=, ?limit=)
+ * POST: Queues a job of the given type
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { BackgroundJobStatus, BackgroundJobType } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { enqueueJob } from '@/lib/job-queue'
+
+const JOB_TYPES = Object.values(BackgroundJobType)
+const JOB_STATUSES = Object.values(BackgroundJobStatus)
+
+async function requireAdmin() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { isAdmin: true }
+  })
+
+  if (!currentUser?.isAdmin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  return null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as BackgroundJobStatus | null
+    const type = searchParams.get('type') as BackgroundJobType | null
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50')))
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+    if (type && !JOB_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'Invalid job type' }, { status: 400 })
+    }
+
+    const [jobs, statusCounts] = await Promise.all([
+      prisma.backgroundJob.findMany({
+        where: {
+          ...(status && { status }),
+          ...(type && { type })
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      }),
+      prisma.backgroundJob.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      })
+    ])
+
+    return NextResponse.json({
+      jobs,
+      counts: Object.fromEntries(statusCounts.map(count => [count.status, count._count._all]))
+    })
+
+  } catch (error) {
+    console.error('Background jobs fetch error:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch background jobs'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    const { type } = await request.json()
+
+    if (!JOB_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'Invalid job type' }, { status: 400 })
+    }
+
+    const job = type === 'TRUST_COMPUTATION'
+      ? await enqueueJob(type, { triggers: ['manual'], warmStart: false }, { coalesce: true })
+      : await enqueueJob(type)
+
+    return NextResponse.json({ success: true, job }, { status: 202 })
+
+  } catch (error) {
+    console.error('Background job enqueue error:', error)
+    return NextResponse.json({
+      error: 'Failed to queue job'
+    }, { status: 500 })
+  }
+}
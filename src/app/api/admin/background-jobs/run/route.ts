@@ -0,0 +1,42 @@
+/**
+ * BACKGROUND JOB RUNNER API
+ *
+ * POST: Works through due jobs in this request instead of waiting for the
+ * next worker poll (useful where the instrumentation worker isn't running)
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { processJobs } from '@/lib/job-queue'
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { isAdmin: true }
+    })
+
+    if (!currentUser?.isAdmin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const processed = await processJobs(5)
+
+    return NextResponse.json({ success: true, processed })
+
+  } catch (error) {
+    console.error('Background job run error:', error)
+    return NextResponse.json({
+      error: 'Failed to run queued jobs'
+    }, { status: 500 })
+  }
+}
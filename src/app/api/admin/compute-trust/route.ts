@@ -8,7 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { computeEigenTrust } from '@/lib/eigentrust-new'
+import { enqueueJob } from '@/lib/job-queue'
 
 export async function POST(request: NextRequest) {
   try {
@@ -29,28 +29,21 @@ export async function POST(request: NextRequest) {
       }, { status: 403 })
     }
 
-    console.log('Starting EigenTrust computation...')
-
-    // Run the trust computation
-    const result = await computeEigenTrust()
-
-    if (!result.success) {
-      return NextResponse.json({
-        error: result.error || 'Trust computation failed'
-      }, { status: 500 })
-    }
+    // Computation runs in the background job queue; poll the job for progress
+    const job = await enqueueJob('TRUST_COMPUTATION', {
+      triggers: ['manual'],
+      warmStart: false
+    }, { coalesce: true })
 
     return NextResponse.json({
-      message: 'Trust scores computed successfully',
-      iterations: result.iterations,
-      converged: result.converged,
-      usersUpdated: result.numUsers
-    })
+      message: 'Trust computation queued',
+      jobId: job.id
+    }, { status: 202 })
 
   } catch (error) {
     console.error('Trust computation error:', error)
     return NextResponse.json({
-      error: 'Failed to compute trust scores',
+      error: 'Failed to queue trust computation',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
+import { syncTrustLedger } from '@/lib/trust-budget'
 
 export async function DELETE(request: NextRequest) {
   try {
@@ -145,10 +146,20 @@ export async function DELETE(request: NextRequest) {
         data: { referredById: null }
       })
 
-      // 13. Finally, delete the user
+      // 13. Finally, delete the user (their TrustAllocations cascade)
+      const givers = await tx.trustAllocation.findMany({
+        where: { receiverId: user.id },
+        select: { giverId: true }
+      })
+
       await tx.user.delete({
         where: { id: user.id }
       })
+
+      // 14. Free up the trust budget of everyone who allocated to them
+      for (const { giverId } of givers) {
+        await syncTrustLedger(tx, giverId)
+      }
     })
 
     return NextResponse.json({
@@ -1,7 +1,8 @@
 /**
  * ADMIN EIGENTRUST CONFIGURATION API
  *
- * Allows admin to configure EigenTrust algorithm parameters.
+ * Allows admin to configure EigenTrust algorithm parameters,
+ * the allocation decay half-life and the weighted pretrust seed users.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -29,13 +30,25 @@ export async function GET(request: NextRequest) {
     }
 
     // Get current configuration
-    const config = await prisma.systemConfig.findFirst()
+    const [config, seeds] = await Promise.all([
+      prisma.systemConfig.findFirst(),
+      prisma.pretrustSeed.findMany({
+        include: { user: { select: { email: true } } },
+        orderBy: { createdAt: 'asc' }
+      })
+    ])
 
     return NextResponse.json({
       eigentrustAlpha: config?.eigentrustAlpha || 0.15,
       maxIterations: config?.maxIterations || 100,
       convergenceThreshold: config?.convergenceThreshold || 1e-6,
-      adminEmail: config?.adminEmail || 'vaishnav@cloutcareers.com'
+      adminEmail: config?.adminEmail || 'vaishnav@cloutcareers.com',
+      trustAlgorithm: config?.trustAlgorithm || 'STANDARD',
+      trustHalfLifeDays: config?.trustHalfLifeDays ?? null,
+      pretrustSeeds: seeds.map(seed => ({
+        email: seed.user.email,
+        weight: seed.weight
+      }))
     })
 
   } catch (error) {
@@ -70,7 +83,10 @@ export async function POST(request: NextRequest) {
       eigentrustAlpha,
       maxIterations,
       convergenceThreshold,
-      adminEmail
+      adminEmail,
+      trustAlgorithm,
+      trustHalfLifeDays,
+      pretrustSeeds
     } = await request.json()
 
     // Validate parameters
@@ -106,20 +122,95 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (trustAlgorithm !== undefined) {
+      if (trustAlgorithm !== 'STANDARD' && trustAlgorithm !== 'MODIFIED') {
+        return NextResponse.json({
+          error: 'trustAlgorithm must be STANDARD or MODIFIED'
+        }, { status: 400 })
+      }
+    }
+
+    // null turns decay off
+    if (trustHalfLifeDays !== undefined && trustHalfLifeDays !== null) {
+      if (typeof trustHalfLifeDays !== 'number' || trustHalfLifeDays < 1 || trustHalfLifeDays > 3650) {
+        return NextResponse.json({
+          error: 'trustHalfLifeDays must be between 1 and 3650 days, or null to disable decay'
+        }, { status: 400 })
+      }
+    }
+
+    // pretrustSeeds is array of: [{ email: string, weight: number }, ...]
+    // An empty array clears the seeds (falls back to adminEmail)
+    let seedUsers: Array<{ userId: string, weight: number }> | undefined
+    if (pretrustSeeds !== undefined) {
+      if (!Array.isArray(pretrustSeeds)) {
+        return NextResponse.json({
+          error: 'pretrustSeeds must be an array'
+        }, { status: 400 })
+      }
+
+      for (const seed of pretrustSeeds) {
+        if (typeof seed.email !== 'string' || typeof seed.weight !== 'number' || seed.weight <= 0) {
+          return NextResponse.json({
+            error: 'Each pretrust seed needs an email and a positive weight'
+          }, { status: 400 })
+        }
+      }
+
+      const emails = pretrustSeeds.map((seed: { email: string }) => seed.email.toLowerCase().trim())
+      if (new Set(emails).size !== emails.length) {
+        return NextResponse.json({
+          error: 'Duplicate pretrust seed emails'
+        }, { status: 400 })
+      }
+
+      const users = await prisma.user.findMany({
+        where: { email: { in: emails, mode: 'insensitive' } },
+        select: { id: true, email: true }
+      })
+      const userByEmail = new Map(users.map(user => [user.email.toLowerCase(), user.id]))
+
+      const missing = emails.filter((email: string) => !userByEmail.has(email))
+      if (missing.length > 0) {
+        return NextResponse.json({
+          error: `Pretrust seed users not found: ${missing.join(', ')}`
+        }, { status: 400 })
+      }
+
+      seedUsers = pretrustSeeds.map((seed: { weight: number }, i: number) => ({
+        userId: userByEmail.get(emails[i])!,
+        weight: seed.weight
+      }))
+    }
+
     // Update configuration
     const updateData: any = {}
     if (eigentrustAlpha !== undefined) updateData.eigentrustAlpha = eigentrustAlpha
     if (maxIterations !== undefined) updateData.maxIterations = maxIterations
     if (convergenceThreshold !== undefined) updateData.convergenceThreshold = convergenceThreshold
     if (adminEmail !== undefined) updateData.adminEmail = adminEmail
+    if (trustAlgorithm !== undefined) updateData.trustAlgorithm = trustAlgorithm
+    if (trustHalfLifeDays !== undefined) updateData.trustHalfLifeDays = trustHalfLifeDays
+
+    const updatedConfig = await prisma.$transaction(async (tx) => {
+      if (seedUsers) {
+        await tx.pretrustSeed.deleteMany({})
+        await tx.pretrustSeed.createMany({ data: seedUsers })
+      }
+
+      return tx.systemConfig.upsert({
+        where: { id: 'system_config' },
+        create: {
+          id: 'system_config',
+          ...updateData
+        },
+        update: updateData
+      })
+    })
 
-    const updatedConfig = await prisma.systemConfig.upsert({
-      where: { id: 'system_config' },
-      create: {
-        id: 'system_config',
-        ...updateData
-      },
-      update: updateData
+    const seeds = await prisma.pretrustSeed.findMany({
+      include: { user: { select: { email: true } } },
+      orderBy: { createdAt: 'asc' }
     })
 
     return NextResponse.json({
@@ -128,7 +219,13 @@ export async function POST(request: NextRequest) {
         eigentrustAlpha: updatedConfig.eigentrustAlpha,
         maxIterations: updatedConfig.maxIterations,
         convergenceThreshold: updatedConfig.convergenceThreshold,
-        adminEmail: updatedConfig.adminEmail
+        adminEmail: updatedConfig.adminEmail,
+        trustAlgorithm: updatedConfig.trustAlgorithm,
+        trustHalfLifeDays: updatedConfig.trustHalfLifeDays,
+        pretrustSeeds: seeds.map(seed => ({
+          email: seed.user.email,
+          weight: seed.weight
+        }))
       }
     })
 
@@ -1,13 +1,13 @@
 /**
  * ADMIN EIGENTRUST COMPUTE API
  *
- * Triggers EigenTrust computation manually from admin interface
+ * Queues an EigenTrust computation manually from admin interface
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { computeEigenTrust } from '@/lib/eigentrust-new'
+import { enqueueJob } from '@/lib/job-queue'
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,42 +20,22 @@ export async function POST(request: NextRequest) {
       }, { status: 403 })
     }
 
-    console.log('Starting EigenTrust computation...')
-
-    // Run the trust computation
-    const result = await computeEigenTrust(
-      0.15,    // decayFactor
-      100,     // maxIterations
-      0.000001, // convergenceThreshold
-      "manual" // triggeredBy
-    )
-
-    if (!result.success) {
-      return NextResponse.json({
-        error: result.error || 'Computation failed'
-      }, { status: 500 })
-    }
+    // Computation runs in the background job queue; poll the job for progress
+    const job = await enqueueJob('TRUST_COMPUTATION', {
+      triggers: ['manual'],
+      warmStart: false
+    }, { coalesce: true })
 
     return NextResponse.json({
       success: true,
-      message: 'Trust scores computed successfully',
-      numUsers: result.numUsers,
-      iterations: result.iterations,
-      converged: result.converged,
-      topScores: result.scores
-        .sort((a, b) => b.trustScore - a.trustScore)
-        .slice(0, 10)
-        .map(s => ({
-          userId: s.userId,
-          displayScore: s.displayScore,
-          rank: s.rank
-        }))
-    })
+      message: 'Trust computation queued',
+      jobId: job.id
+    }, { status: 202 })
 
   } catch (error) {
-    console.error('EigenTrust computation error:', error)
+    console.error('EigenTrust computation queue error:', error)
     return NextResponse.json({
-      error: 'Failed to compute trust scores'
+      error: 'Failed to queue trust computation'
     }, { status: 500 })
   }
 }
\ No newline at end of file
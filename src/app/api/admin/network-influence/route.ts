@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { getLatestRankChanges } from '@/lib/trust-history'
 
 export async function GET(request: NextRequest) {
   try {
@@ -68,6 +69,9 @@ export async function GET(request: NextRequest) {
       }
     })
 
+    // Rank movement since the previous snapshot
+    const rankChanges = await getLatestRankChanges()
+
     // Format data for the UI
     const networkInfluence = trustScores.map(score => ({
       rank: score.rank,
@@ -79,7 +83,8 @@ export async function GET(request: NextRequest) {
       trustScore: score.trustScore,
       displayScore: score.displayScore,
       isAdmin: score.user.isAdmin,
-      influencePercentage: (score.trustScore * 100).toFixed(2)
+      influencePercentage: (score.trustScore * 100).toFixed(2),
+      rankChange: rankChanges.get(score.userId) ?? null
     }))
 
     return NextResponse.json({
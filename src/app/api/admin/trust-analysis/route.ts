@@ -68,9 +68,9 @@ export async function GET(request: NextRequest) {
     const incomingTrustSources = []
     let totalIncomingTrust = 0
 
-    // Trust from relationships where target is User1 (receiving User1TrustAllocated from User2)
+    // Trust from relationships where target is User1 (receiving user2TrustAllocated, given by User2)
     for (const rel of targetUser.relationshipsAsUser1) {
-      if (rel.user1TrustAllocated && rel.user1TrustAllocated > 0) {
+      if (rel.user2TrustAllocated && rel.user2TrustAllocated > 0) {
         const source = {
           fromUser: {
             id: rel.user2.id,
@@ -79,18 +79,18 @@ export async function GET(request: NextRequest) {
               ? `${rel.user2.firstName} ${rel.user2.lastName}`
               : rel.user2.email
           },
-          trustAmount: rel.user1TrustAllocated,
+          trustAmount: rel.user2TrustAllocated,
           relationshipType: 'AsUser1',
           relationshipId: rel.id
         }
         incomingTrustSources.push(source)
-        totalIncomingTrust += rel.user1TrustAllocated
+        totalIncomingTrust += rel.user2TrustAllocated
       }
     }
 
-    // Trust from relationships where target is User2 (receiving User2TrustAllocated from User1)
+    // Trust from relationships where target is User2 (receiving user1TrustAllocated, given by User1)
     for (const rel of targetUser.relationshipsAsUser2) {
-      if (rel.user2TrustAllocated && rel.user2TrustAllocated > 0) {
+      if (rel.user1TrustAllocated && rel.user1TrustAllocated > 0) {
         const source = {
           fromUser: {
             id: rel.user1.id,
@@ -99,12 +99,12 @@ export async function GET(request: NextRequest) {
               ? `${rel.user1.firstName} ${rel.user1.lastName}`
               : rel.user1.email
           },
-          trustAmount: rel.user2TrustAllocated,
+          trustAmount: rel.user1TrustAllocated,
           relationshipType: 'AsUser2',
           relationshipId: rel.id
         }
         incomingTrustSources.push(source)
-        totalIncomingTrust += rel.user2TrustAllocated
+        totalIncomingTrust += rel.user1TrustAllocated
       }
     }
 
@@ -122,7 +122,7 @@ export async function GET(request: NextRequest) {
         name: targetUserName,
         cloutScore: Math.round((targetUser.cloutScore || 0) * 100),
         cloutPercentile: targetUser.cloutPercentile || 0,
-        availableTrust: targetUser.availableTrust || 100,
+        availableTrust: targetUser.availableTrust ?? 100,
         allocatedTrust: targetUser.allocatedTrust || 0
       },
       trustAnalysis: {
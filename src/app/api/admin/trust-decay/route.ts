@@ -0,0 +1,84 @@
+/**
+ * TRUST DECAY API
+ *
+ * GET: Lists givers whose allocations have faded below the stale threshold
+ * POST: Queues a job emailing those givers a reminder to reconfirm their
+ * allocations now (the same job also runs daily on its own)
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { findStaleAllocations, getTrustHalfLifeDays } from '@/lib/trust-decay'
+import { enqueueJob } from '@/lib/job-queue'
+
+async function requireAdmin() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { isAdmin: true }
+  })
+
+  if (!currentUser?.isAdmin) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  return null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    const halfLifeDays = await getTrustHalfLifeDays()
+    if (!halfLifeDays) {
+      return NextResponse.json({ halfLifeDays: null, staleGivers: [] })
+    }
+
+    const staleGivers = await findStaleAllocations(halfLifeDays)
+
+    return NextResponse.json({
+      halfLifeDays,
+      staleGivers: staleGivers.map(giver => ({
+        giverId: giver.giverId,
+        email: giver.email,
+        staleCount: giver.staleReceivers.length,
+        weakestWeight: Math.min(...giver.staleReceivers.map(receiver => receiver.weight))
+      }))
+    })
+
+  } catch (error) {
+    console.error('Trust decay fetch error:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch stale allocations'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireAdmin()
+    if (denied) return denied
+
+    const job = await enqueueJob('TRUST_DECAY_REMINDERS', {}, { maxAttempts: 1 })
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id
+    }, { status: 202 })
+
+  } catch (error) {
+    console.error('Trust decay reminder error:', error)
+    return NextResponse.json({
+      error: 'Failed to queue reminders'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * TRUST FLAG REVIEW API
+ *
+ * POST { action: 'quarantine' | 'dismiss' | 'reopen' }
+ * - quarantine: exclude the flag's allocations from trust computation
+ * - dismiss: mark as a false positive (restores any quarantined allocations)
+ * - reopen: back to OPEN (restores any quarantined allocations)
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { quarantineTrustFlag, resolveTrustFlag } from '@/lib/trust-anomalies'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true, isAdmin: true }
+    })
+
+    if (!currentUser?.isAdmin) {
+      return NextResponse.json({
+        error: 'Admin access required'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { action } = await request.json()
+
+    const flag = await prisma.trustFlag.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!flag) {
+      return NextResponse.json({
+        error: 'Flag not found'
+      }, { status: 404 })
+    }
+
+    switch (action) {
+      case 'quarantine': {
+        const quarantined = await quarantineTrustFlag(id, currentUser.id)
+        return NextResponse.json({ success: true, quarantined })
+      }
+      case 'dismiss': {
+        const released = await resolveTrustFlag(id, currentUser.id, 'DISMISSED')
+        return NextResponse.json({ success: true, released })
+      }
+      case 'reopen': {
+        const released = await resolveTrustFlag(id, currentUser.id, 'OPEN')
+        return NextResponse.json({ success: true, released })
+      }
+      default:
+        return NextResponse.json({
+          error: 'Invalid action'
+        }, { status: 400 })
+    }
+
+  } catch (error) {
+    console.error('Trust flag review error:', error)
+    return NextResponse.json({
+      error: 'Failed to update trust flag'
+    }, { status: 500 })
+  }
+}
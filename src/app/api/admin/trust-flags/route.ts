@@ -0,0 +1,114 @@
+/**
+ * TRUST FLAGS API
+ *
+ * GET: Lists sybil/collusion flags (?status=OPEN|QUARANTINED|DISMISSED)
+ * POST: Runs anomaly detection over the current trust graph now (it also
+ * runs after every trust computation)
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { TrustFlagStatus } from '@prisma/client'
+import { runTrustAnomalyDetection } from '@/lib/trust-anomalies'
+
+const FLAG_STATUSES: TrustFlagStatus[] = ['OPEN', 'QUARANTINED', 'DISMISSED']
+
+async function requireAdmin() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }) }
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { id: true, isAdmin: true }
+  })
+
+  if (!currentUser?.isAdmin) {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) }
+  }
+
+  return { user: currentUser }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin()
+    if (auth.error) return auth.error
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as TrustFlagStatus | null
+
+    if (status && !FLAG_STATUSES.includes(status)) {
+      return NextResponse.json({
+        error: 'Invalid status'
+      }, { status: 400 })
+    }
+
+    const flags = await prisma.trustFlag.findMany({
+      where: status ? { status } : {},
+      orderBy: [{ severity: 'desc' }, { detectedAt: 'desc' }],
+      include: {
+        _count: { select: { quarantinedAllocations: true } }
+      }
+    })
+
+    // Resolve member names for display
+    const userIds = Array.from(new Set(flags.flatMap(flag => flag.userIds)))
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, email: true, firstName: true, lastName: true, isProfileComplete: true }
+    })
+    const usersById = new Map(users.map(user => [user.id, {
+      id: user.id,
+      email: user.email,
+      displayName: user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email,
+      isProfileComplete: user.isProfileComplete
+    }]))
+
+    return NextResponse.json({
+      flags: flags.map(flag => ({
+        id: flag.id,
+        type: flag.type,
+        status: flag.status,
+        severity: flag.severity,
+        summary: flag.summary,
+        details: flag.details,
+        detectedAt: flag.detectedAt,
+        reviewedAt: flag.reviewedAt,
+        quarantinedAllocations: flag._count.quarantinedAllocations,
+        users: flag.userIds.map(id => usersById.get(id)).filter(Boolean)
+      }))
+    })
+
+  } catch (error) {
+    console.error('Trust flags fetch error:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch trust flags'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin()
+    if (auth.error) return auth.error
+
+    const result = await runTrustAnomalyDetection()
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Trust anomaly detection error:', error)
+    return NextResponse.json({
+      error: 'Failed to run anomaly detection'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * TRUST LEDGER RECONCILIATION API
+ *
+ * POST: Repairs User budget fields and Relationship trust fields that have
+ * drifted from TrustAllocation, normalizing over-budget givers.
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { reconcileTrustLedger } from '@/lib/trust-budget'
+import { scheduleTrustRecomputation } from '@/lib/eigentrust-new'
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { isAdmin: true }
+    })
+
+    if (!currentUser?.isAdmin) {
+      return NextResponse.json({
+        error: 'Admin access required'
+      }, { status: 403 })
+    }
+
+    const report = await reconcileTrustLedger()
+
+    // Normalized proportions leave scores unchanged, but keep the log honest
+    if (report.overBudgetGiversNormalized > 0) {
+      scheduleTrustRecomputation("ledger_reconcile")
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...report
+    })
+
+  } catch (error) {
+    console.error('Trust ledger reconciliation error:', error)
+    return NextResponse.json({
+      error: 'Failed to reconcile trust ledger'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * TRUST SNAPSHOT DIFF API
+ *
+ * Compares two trust score snapshots (?from=<computationId>&to=<computationId>)
+ * and returns per-user score and rank changes
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { diffTrustSnapshots } from '@/lib/trust-history'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { isAdmin: true }
+    })
+
+    if (!currentUser?.isAdmin) {
+      return NextResponse.json({
+        error: 'Admin access required'
+      }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    if (!from || !to) {
+      return NextResponse.json({
+        error: 'Both from and to snapshot ids are required'
+      }, { status: 400 })
+    }
+
+    const diff = await diffTrustSnapshots(from, to)
+
+    if (!diff) {
+      return NextResponse.json({
+        error: 'Snapshot not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json(diff)
+
+  } catch (error) {
+    console.error('Trust snapshot diff error:', error)
+    return NextResponse.json({
+      error: 'Failed to diff trust snapshots'
+    }, { status: 500 })
+  }
+}
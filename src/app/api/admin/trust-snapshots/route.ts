@@ -0,0 +1,62 @@
+/**
+ * TRUST SNAPSHOTS API
+ *
+ * Lists EigenTrust computations that have a stored score snapshot,
+ * most recent first, so admins can pick two to diff
+ * Only accessible by admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { isAdmin: true }
+    })
+
+    if (!currentUser?.isAdmin) {
+      return NextResponse.json({
+        error: 'Admin access required'
+      }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500)
+
+    const computations = await prisma.trustComputationLog.findMany({
+      where: { snapshots: { some: {} } },
+      orderBy: { computedAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        computedAt: true,
+        triggeredBy: true,
+        algorithm: true,
+        numUsers: true,
+        numIterations: true,
+        converged: true,
+        scoresChanged: true
+      }
+    })
+
+    return NextResponse.json({ snapshots: computations })
+
+  } catch (error) {
+    console.error('Trust snapshots fetch error:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch trust snapshots'
+    }, { status: 500 })
+  }
+}
@@ -18,6 +18,7 @@ import { authOptions } from '@/lib/auth'
 // Clout point values for different activities
 const CLOUT_POINTS = {
   SUCCESSFUL_REFERRAL: 10,
+  REFERRAL_CHAIN_CONTRIBUTION: 5,
   QUALITY_ENDORSEMENT: 5,
   NETWORK_INVITATION: 3,
   HIRING_MANAGER_SUCCESS: 15,
@@ -1,8 +1,12 @@
 /**
  * API endpoint to compare standard vs modified EigenTrust
+ *
+ * Pretrust comes from the request body if given, otherwise from the
+ * configured pretrust seeds that appear in the graph, otherwise uniform.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { loadPretrustSeeds } from '@/lib/pretrust';
 
 const UNIT_VERTEX = '__UNIT__';
 const EPSILON = 1e-6;
@@ -16,10 +20,31 @@ interface Graph {
   };
 }
 
+type Pretrust = Record<string, number>;
+
+/**
+ * Build the pretrust vector for the given vertices.
+ * Falls back to uniform 1/n when no pretrust weight lands on a vertex.
+ */
+function buildPretrustVector(vertices: string[], pretrust: Pretrust | null): number[] {
+  const n = vertices.length;
+  const weights = vertices.map(v => {
+    const weight = pretrust?.[v];
+    return typeof weight === 'number' && weight > 0 ? weight : 0;
+  });
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  if (total <= 0) {
+    return new Array(n).fill(1.0 / n);
+  }
+
+  return weights.map(w => w / total);
+}
+
 /**
  * Standard EigenTrust
  */
-function computeStandardEigenTrust(graph: Graph): Record<string, number> {
+function computeStandardEigenTrust(graph: Graph, pretrust: Pretrust | null): Record<string, number> {
   const vertices = Object.keys(graph).filter(v => v !== UNIT_VERTEX);
   const n = vertices.length;
 
@@ -28,7 +53,7 @@ function computeStandardEigenTrust(graph: Graph): Record<string, number> {
   const vertexToIndex = new Map<string, number>();
   vertices.forEach((v, i) => vertexToIndex.set(v, i));
 
-  const p = new Array(n).fill(1.0 / n);
+  const p = buildPretrustVector(vertices, pretrust);
   const C = Array(n).fill(null).map(() => Array(n).fill(0));
 
   for (const giver of vertices) {
@@ -96,7 +121,7 @@ function computeStandardEigenTrust(graph: Graph): Record<string, number> {
 /**
  * Helper: Compute standard EigenTrust on a subgraph
  */
-function computeSubgraphEigenTrust(graph: Graph): Record<string, number> {
+function computeSubgraphEigenTrust(graph: Graph, pretrust: Pretrust | null): Record<string, number> {
   const vertices = Object.keys(graph).filter(v => v !== UNIT_VERTEX);
   const n = vertices.length;
 
@@ -105,7 +130,7 @@ function computeSubgraphEigenTrust(graph: Graph): Record<string, number> {
   const vertexToIndex = new Map<string, number>();
   vertices.forEach((v, i) => vertexToIndex.set(v, i));
 
-  const p = new Array(n).fill(1.0 / n);
+  const p = buildPretrustVector(vertices, pretrust);
   const C = Array(n).fill(null).map(() => Array(n).fill(0));
 
   for (const giver of vertices) {
@@ -167,16 +192,17 @@ function computeSubgraphEigenTrust(graph: Graph): Record<string, number> {
 /**
  * Modified EigenTrust: Two-Phase Decoupled Computation
  */
-function computeModifiedEigenTrust(graph: Graph): Record<string, number> {
+function computeModifiedEigenTrust(graph: Graph, pretrust: Pretrust | null): Record<string, number> {
   const vertices = Object.keys(graph).filter(v => v !== UNIT_VERTEX);
   const n = vertices.length;
 
   if (n === 0) return {};
 
+  const p = buildPretrustVector(vertices, pretrust);
   const result: Record<string, number> = {};
 
   // For each vertex k, compute its score independently
-  for (const k of vertices) {
+  for (const [kIndex, k] of vertices.entries()) {
     // Build subgraph excluding k's outgoing allocations
     const subgraph: Graph = {};
     for (const giver of vertices) {
@@ -189,7 +215,7 @@ function computeModifiedEigenTrust(graph: Graph): Record<string, number> {
     }
 
     // Compute EigenTrust on subgraph
-    const subScores = computeSubgraphEigenTrust(subgraph);
+    const subScores = computeSubgraphEigenTrust(subgraph, pretrust);
 
     // Now compute k's score based on incoming edges and the frozen scores
     let kScore = 0;
@@ -211,7 +237,7 @@ function computeModifiedEigenTrust(graph: Graph): Record<string, number> {
     }
 
     // Apply decay factor to pretrust
-    const pretrustValue = 1.0 / n;
+    const pretrustValue = p[kIndex];
     result[k] = (1 - DECAY_FACTOR) * kScore + DECAY_FACTOR * pretrustValue;
   }
 
@@ -220,9 +246,23 @@ function computeModifiedEigenTrust(graph: Graph): Record<string, number> {
   return result;
 }
 
+/**
+ * Configured pretrust seeds keyed by user ID.
+ * Graphs that don't contain real user IDs (e.g. the demo) fall back to uniform.
+ */
+async function loadConfiguredPretrust(): Promise<Pretrust | null> {
+  try {
+    const seeds = await loadPretrustSeeds();
+    return Object.fromEntries(seeds.map(seed => [seed.userId, seed.weight]));
+  } catch (error) {
+    console.error('Failed to load pretrust seeds, using uniform pretrust:', error);
+    return null;
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { graph } = await request.json();
+    const { graph, pretrust } = await request.json();
 
     if (!graph || typeof graph !== 'object') {
       return NextResponse.json(
@@ -231,9 +271,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (pretrust !== undefined && (typeof pretrust !== 'object' || pretrust === null)) {
+      return NextResponse.json(
+        { error: 'Invalid pretrust format' },
+        { status: 400 }
+      );
+    }
+
+    const effectivePretrust: Pretrust | null = pretrust ?? await loadConfiguredPretrust();
+
     // Compute both algorithms
-    const standardScores = computeStandardEigenTrust(graph);
-    const modifiedScores = computeModifiedEigenTrust(graph);
+    const standardScores = computeStandardEigenTrust(graph, effectivePretrust);
+    const modifiedScores = computeModifiedEigenTrust(graph, effectivePretrust);
 
     return NextResponse.json({
       standard: standardScores,
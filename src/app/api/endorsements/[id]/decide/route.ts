@@ -46,7 +46,8 @@ export async function POST(
         id: true,
         status: true,
         endorsedUserEmail: true,
-        endorsedUserId: true
+        endorsedUserId: true,
+        referralId: true
       }
     })
 
@@ -56,6 +57,14 @@ export async function POST(
       }, { status: 404 })
     }
 
+    // Endorsements that came with a job referral follow the candidate's
+    // answer to the referral (referral-consent.ts)
+    if (endorsement.referralId) {
+      return NextResponse.json({
+        error: 'This endorsement is part of a job referral. Use the link in your referral email to accept or decline it.'
+      }, { status: 409 })
+    }
+
     // VALIDATE ENDORSEMENT STATUS
     // Allow changes to any endorsement except those in error states
     const allowedStatuses = ['PENDING_CANDIDATE_ACTION', 'PRIVATE', 'ACTIVE_MATCHING', 'NOT_USING']
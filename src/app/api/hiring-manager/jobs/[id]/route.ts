@@ -9,6 +9,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
+import { isTrustDomain } from '@/lib/trust-domains'
+import { isGuaranteePeriod, isPayoutPolicy, MAX_GUARANTEE_PERIOD_DAYS } from '@/lib/payout-policies'
+import { isChainAttribution, isPathWeighting } from '@/lib/chain-attribution'
+import { isDuplicateReferralPolicy } from '@/lib/duplicate-referrals'
+import { isSupportedCurrency } from '@/lib/money'
 
 export async function PUT(
   request: NextRequest,
@@ -89,6 +94,12 @@ export async function PUT(
       mustHaves,
       referralBudget,
       referralPreference,
+      payoutPolicy,
+      guaranteePeriodDays,
+      chainAttribution,
+      pathWeighting,
+      duplicateReferralPolicy,
+      trustDomain,
       status
     } = body
 
@@ -101,7 +112,12 @@ export async function PUT(
     if (locationCity !== undefined) updateData.locationCity = locationCity
     if (salaryMin !== undefined) updateData.salaryMin = salaryMin || null
     if (salaryMax !== undefined) updateData.salaryMax = salaryMax || null
-    if (currency !== undefined) updateData.currency = currency
+    if (currency !== undefined) {
+      if (!isSupportedCurrency(currency)) {
+        return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 })
+      }
+      updateData.currency = currency
+    }
     if (equityOffered !== undefined) updateData.equityOffered = equityOffered
     if (equityRange !== undefined) updateData.equityRange = equityRange
     if (organizationDescription !== undefined) updateData.organizationDescription = organizationDescription
@@ -117,6 +133,38 @@ export async function PUT(
     if (mustHaves !== undefined) updateData.mustHaves = mustHaves
     if (referralBudget !== undefined) updateData.referralBudget = referralBudget || null
     if (referralPreference !== undefined) updateData.referralPreference = referralPreference
+    if (payoutPolicy !== undefined) {
+      if (!isPayoutPolicy(payoutPolicy)) {
+        return NextResponse.json({ error: 'Invalid payout policy' }, { status: 400 })
+      }
+      updateData.payoutPolicy = payoutPolicy
+    }
+    // Blank while the form is being edited: keep the current period
+    if (guaranteePeriodDays !== undefined && guaranteePeriodDays !== '') {
+      if (!isGuaranteePeriod(guaranteePeriodDays)) {
+        return NextResponse.json({ error: `Guarantee period must be 0-${MAX_GUARANTEE_PERIOD_DAYS} days` }, { status: 400 })
+      }
+      updateData.guaranteePeriodDays = guaranteePeriodDays
+    }
+    if (chainAttribution !== undefined) {
+      if (!isChainAttribution(chainAttribution)) {
+        return NextResponse.json({ error: 'Invalid chain attribution' }, { status: 400 })
+      }
+      updateData.chainAttribution = chainAttribution
+    }
+    if (pathWeighting !== undefined) {
+      if (!isPathWeighting(pathWeighting)) {
+        return NextResponse.json({ error: 'Invalid path weighting' }, { status: 400 })
+      }
+      updateData.pathWeighting = pathWeighting
+    }
+    if (duplicateReferralPolicy !== undefined) {
+      if (!isDuplicateReferralPolicy(duplicateReferralPolicy)) {
+        return NextResponse.json({ error: 'Invalid duplicate referral policy' }, { status: 400 })
+      }
+      updateData.duplicateReferralPolicy = duplicateReferralPolicy
+    }
+    if (trustDomain !== undefined) updateData.trustDomain = isTrustDomain(trustDomain) ? trustDomain : null
 
     // Handle status changes
     if (status !== undefined) {
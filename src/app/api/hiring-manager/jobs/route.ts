@@ -14,6 +14,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
+import { isTrustDomain } from '@/lib/trust-domains'
+import { DEFAULT_GUARANTEE_PERIOD_DAYS, isGuaranteePeriod, isPayoutPolicy } from '@/lib/payout-policies'
+import { isChainAttribution, isPathWeighting } from '@/lib/chain-attribution'
+import { isDuplicateReferralPolicy } from '@/lib/duplicate-referrals'
+import { isSupportedCurrency } from '@/lib/money'
 import { initializeDiscordBot, postJobToDiscord } from '@/lib/discord-service'
 
 export async function POST(request: NextRequest) {
@@ -72,6 +77,12 @@ export async function POST(request: NextRequest) {
       mustHaves,
       referralBudget,
       referralPreference,
+      payoutPolicy,
+      guaranteePeriodDays,
+      chainAttribution,
+      pathWeighting,
+      duplicateReferralPolicy,
+      trustDomain,
       status = 'DRAFT'
     } = body
 
@@ -97,7 +108,7 @@ export async function POST(request: NextRequest) {
         locationCity,
         salaryMin: salaryMin || null,
         salaryMax: salaryMax || null,
-        currency: currency || 'USD',
+        currency: isSupportedCurrency(currency) ? currency : 'USD',
         equityOffered: equityOffered || false,
         equityRange,
         organizationDescription,
@@ -113,6 +124,12 @@ export async function POST(request: NextRequest) {
         mustHaves,
         referralBudget: referralBudget || null,
         referralPreference: referralPreference || 'MANUAL_SCREEN',
+        payoutPolicy: isPayoutPolicy(payoutPolicy) ? payoutPolicy : 'FIXED_70_30',
+        guaranteePeriodDays: isGuaranteePeriod(guaranteePeriodDays) ? guaranteePeriodDays : DEFAULT_GUARANTEE_PERIOD_DAYS,
+        chainAttribution: isChainAttribution(chainAttribution) ? chainAttribution : 'EARLIEST_FORWARD',
+        pathWeighting: isPathWeighting(pathWeighting) ? pathWeighting : 'EQUAL',
+        duplicateReferralPolicy: isDuplicateReferralPolicy(duplicateReferralPolicy) ? duplicateReferralPolicy : 'FIRST_WINS',
+        trustDomain: isTrustDomain(trustDomain) ? trustDomain : null,
         status: status === 'ACTIVE' ? 'ACTIVE' : 'DRAFT',
         publishedAt: status === 'ACTIVE' ? new Date() : null,
         companyId: company.id,
@@ -0,0 +1,70 @@
+/**
+ * JOB FORWARD GRAPH API ENDPOINT
+ *
+ * GET /api/jobs/:jobId/forward-graph
+ * How the job spread: who forwarded it to whom and when, each person's
+ * depth, which branches produced referrals and which were dead ends
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getForwardGraphForJob } from '@/lib/referral-chain'
+import { prisma } from '@/lib/prisma'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { id: jobId } = await params
+
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        title: true,
+        company: { select: { name: true } },
+        owner: { select: { email: true } }
+      }
+    })
+
+    if (!job) {
+      return NextResponse.json({
+        error: 'Job not found'
+      }, { status: 404 })
+    }
+
+    // Check if user is job owner or admin
+    const isOwner = job.owner.email === session.user.email
+    const isAdmin = session.user.email === 'vaishnav@cloutcareers.com'
+
+    if (!isOwner && !isAdmin) {
+      return NextResponse.json({
+        error: 'Not authorized to view forwards for this job'
+      }, { status: 403 })
+    }
+
+    const graph = await getForwardGraphForJob(jobId)
+
+    return NextResponse.json({
+      jobTitle: job.title,
+      companyName: job.company.name,
+      ...graph
+    })
+
+  } catch (error: any) {
+    console.error('Get forward graph error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
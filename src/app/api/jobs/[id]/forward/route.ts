@@ -11,6 +11,7 @@ import { authOptions } from '@/lib/auth'
 import { forwardJob } from '@/lib/referral-chain'
 import { sendDelegationEmail } from '@/lib/email-service'
 import { prisma } from '@/lib/prisma'
+import { findCandidate } from '@/lib/candidate-identity'
 
 export async function POST(
   request: NextRequest,
@@ -50,12 +51,10 @@ export async function POST(
 
     const jobId = params.id
 
-    // If toNodeEmail provided but not toNodeId, look up the user
+    // If toNodeEmail provided but not toNodeId, look up the user (whatever the email's casing)
     let targetNodeId = toNodeId
     if (!targetNodeId && toNodeEmail) {
-      const targetUser = await prisma.user.findUnique({
-        where: { email: toNodeEmail }
-      })
+      const targetUser = await findCandidate(toNodeEmail)
       if (targetUser) {
         targetNodeId = targetUser.id
       }
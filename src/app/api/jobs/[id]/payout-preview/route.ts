@@ -0,0 +1,85 @@
+/**
+ * PAYOUT PREVIEW API ENDPOINT
+ *
+ * GET /api/jobs/:jobId/payout-preview
+ * Everything PotentialEarningsPreview needs to predict the current user's
+ * payout: the job's policy, the chain leading to them, and (for
+ * trust-weighted jobs) the trust scores along it
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { reconstructChain } from '@/lib/referral-chain'
+import { prisma } from '@/lib/prisma'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authentication check
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true }
+    })
+
+    if (!currentUser) {
+      return NextResponse.json({
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const { id: jobId } = await params
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      select: { referralBudget: true, currency: true, payoutPolicy: true }
+    })
+
+    if (!job) {
+      return NextResponse.json({
+        error: 'Job not found'
+      }, { status: 404 })
+    }
+
+    // The reconstructed chain ends with the current user
+    const chainPath = await reconstructChain(jobId, currentUser.id)
+    const upstreamIds = chainPath.slice(0, -1)
+
+    let trust = null
+    if (job.payoutPolicy === 'TRUST_WEIGHTED') {
+      const scores = await prisma.computedTrustScore.findMany({
+        where: { userId: { in: chainPath } },
+        select: { userId: true, trustScore: true }
+      })
+      const trustByUser = new Map(scores.map(score => [score.userId, score.trustScore]))
+
+      trust = {
+        upstream: upstreamIds.map(userId => trustByUser.get(userId) ?? 0),
+        self: trustByUser.get(currentUser.id) ?? 0
+      }
+    }
+
+    return NextResponse.json({
+      referralBudget: job.referralBudget,
+      currency: job.currency,
+      payoutPolicy: job.payoutPolicy,
+      currentChainLength: upstreamIds.length,
+      trust
+    })
+
+  } catch (error) {
+    console.error('Payout preview error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
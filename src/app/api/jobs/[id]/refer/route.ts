@@ -2,13 +2,19 @@
  * JOB REFERRAL API ENDPOINT
  *
  * POST /api/jobs/:jobId/refer
- * Refer a candidate for a job with chain tracking
+ * Refer a candidate for a job with chain tracking. If someone else already
+ * referred the candidate, the job's duplicate policy decides whether this
+ * referral is refused or kept as a duplicate (duplicate-referrals.ts).
+ * The candidate is emailed to accept it before the hiring manager sees it
+ * (referral-consent.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { createReferral } from '@/lib/referral-chain'
+import { findOrCreateCandidate } from '@/lib/candidate-identity'
+import { requestReferralConsent } from '@/lib/referral-consent'
 import { prisma } from '@/lib/prisma'
 
 export async function POST(
@@ -55,25 +61,9 @@ export async function POST(
 
     const jobId = params.id
 
-    // If candidateId not provided, try to find user by email
-    let targetCandidateId = candidateId
-    if (!targetCandidateId) {
-      const candidate = await prisma.user.findUnique({
-        where: { email: candidateEmail }
-      })
-      if (candidate) {
-        targetCandidateId = candidate.id
-      } else {
-        // Create a placeholder user for the candidate if they don't exist
-        const newCandidate = await prisma.user.create({
-          data: {
-            email: candidateEmail,
-            isProfileComplete: false
-          }
-        })
-        targetCandidateId = newCandidate.id
-      }
-    }
+    // If candidateId not provided, find the candidate by normalized email
+    // (a placeholder user is created if they're not on the platform yet)
+    const targetCandidateId = candidateId || (await findOrCreateCandidate(candidateEmail)).id
 
     // Create the referral with chain tracking
     const referral = await createReferral(
@@ -86,10 +76,16 @@ export async function POST(
       notes
     )
 
+    // Ask the candidate to accept before the hiring manager sees it
+    try {
+      await requestReferralConsent(referral.id)
+    } catch (emailError) {
+      console.error('Failed to send referral consent email:', emailError)
+    }
+
     // TODO: Send notification emails
-    // 1. To candidate about the referral
-    // 2. To hiring manager if auto_email enabled
-    // 3. To chain participants (optional)
+    // 1. To hiring manager if auto_email enabled (once the candidate accepts)
+    // 2. To chain participants (optional)
 
     return NextResponse.json({
       message: 'Referral created successfully',
@@ -103,10 +99,13 @@ export async function POST(
         confidenceLevel: referral.confidenceLevel,
         notes: referral.notes,
         status: referral.status,
+        consentStatus: referral.consentStatus,
+        duplicateOfId: referral.duplicateOfId,
+        duplicateResolution: referral.duplicateResolution,
         createdAt: referral.createdAt,
         job: referral.job,
         candidate: referral.candidate,
-        referrerNode: referral.referrerNode
+        referrerNode: referral.referrer
       }
     })
 
@@ -126,8 +125,14 @@ export async function POST(
       }, { status: 404 })
     }
 
-    // Handle duplicate referral
-    if (error.code === 'P2002') {
+    // Handle duplicate referral (turned away under the job's FIRST_WINS policy)
+    if (error.message === 'You have already referred this candidate for this job') {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 409 })
+    }
+
+    if (error.message === 'Candidate already referred for this job' || error.code === 'P2002') {
       return NextResponse.json({
         error: 'This candidate has already been referred for this job'
       }, { status: 409 })
@@ -2,7 +2,11 @@
  * JOB REFERRALS API ENDPOINT
  *
  * GET /api/jobs/:jobId/referrals
- * Get all referrals for a job with chain details
+ * Get all referrals for a job with chain details and referrer trust
+ *
+ * ?domain=DESIGN|...|GENERAL - Trust domain to rate referrers by
+ *   (defaults to the job's trust domain)
+ * ?sort=trust - Order by referrer trust instead of newest first
  */
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -10,6 +14,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { getReferralsForJob } from '@/lib/referral-chain'
 import { prisma } from '@/lib/prisma'
+import { getTrustForDomain } from '@/lib/trust-domain-scores'
+import { isTrustDomain } from '@/lib/trust-domains'
 
 export async function GET(
   request: NextRequest,
@@ -54,7 +60,27 @@ export async function GET(
     // Get referrals with chain details
     const referrals = await getReferralsForJob(jobId)
 
+    // Rate referrers by trust in the job's domain (or the one asked for)
+    const { searchParams } = new URL(request.url)
+    const domainParam = searchParams.get('domain')
+    const domain = domainParam === 'GENERAL'
+      ? null
+      : isTrustDomain(domainParam) ? domainParam : job.trustDomain
+
+    const referrerTrust = await getTrustForDomain(
+      Array.from(new Set(referrals.map(referral => referral.referrerNodeId))),
+      domain
+    )
+
+    if (searchParams.get('sort') === 'trust') {
+      referrals.sort((a, b) =>
+        (referrerTrust.get(b.referrerNodeId)?.trustScore ?? 0) - (referrerTrust.get(a.referrerNodeId)?.trustScore ?? 0))
+    }
+
     return NextResponse.json({
+      domain,
+      jobTrustDomain: job.trustDomain,
+      duplicateReferralPolicy: job.duplicateReferralPolicy,
       referrals: referrals.map(referral => ({
         id: referral.id,
         candidateEmail: referral.candidateEmail,
@@ -65,8 +91,14 @@ export async function GET(
         chainDepth: referral.chainDepth,
         createdAt: referral.createdAt,
         updatedAt: referral.updatedAt,
+        settledAt: referral.settledAt,
+        guaranteeEndsAt: referral.guaranteeEndsAt,
+        departedAt: referral.departedAt,
+        duplicateOfId: referral.duplicateOfId,
+        duplicateResolution: referral.duplicateResolution,
         candidate: referral.candidate,
-        referrerNode: referral.referrerNode,
+        referrerNode: referral.referrer,
+        referrerTrust: referrerTrust.get(referral.referrerNodeId) ?? null,
         chain: referral.chain
       }))
     })
@@ -0,0 +1,130 @@
+/**
+ * JOB SHARE LINK API ENDPOINT
+ *
+ * GET /api/jobs/:jobId/share-link
+ * The current user's signed share link for this job
+ *
+ * POST /api/jobs/:jobId/share-link
+ * Claim someone else's share link as the signed-in recipient, recording
+ * the forward from them. Body: { referralCode, sig }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { claimShareLink, getShareLinkPath } from '@/lib/share-links'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { id: jobId } = await params
+
+    const [currentUser, job] = await Promise.all([
+      prisma.user.findUnique({
+        where: { email: session.user.email },
+        select: { id: true, referralCode: true }
+      }),
+      prisma.job.findUnique({
+        where: { id: jobId },
+        select: { id: true }
+      })
+    ])
+
+    if (!currentUser) {
+      return NextResponse.json({
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    if (!job) {
+      return NextResponse.json({
+        error: 'Job not found'
+      }, { status: 404 })
+    }
+
+    const path = getShareLinkPath(job.id, currentUser)
+    const baseUrl = process.env.NEXTAUTH_URL || `${request.nextUrl.protocol}//${request.nextUrl.host}`
+
+    return NextResponse.json({
+      path,
+      url: `${baseUrl}${path}`
+    })
+
+  } catch (error: any) {
+    console.error('Get share link error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true }
+    })
+
+    if (!currentUser) {
+      return NextResponse.json({
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const { id: jobId } = await params
+    const { referralCode, sig } = await request.json()
+
+    if (typeof referralCode !== 'string' || typeof sig !== 'string') {
+      return NextResponse.json({
+        error: 'referralCode and sig are required'
+      }, { status: 400 })
+    }
+
+    const { job, forwarded } = await claimShareLink({ referralCode, jobId, sig }, currentUser.id)
+
+    return NextResponse.json({
+      success: true,
+      forwarded,
+      job: {
+        id: job.id,
+        title: job.title,
+        companyName: job.company.name
+      }
+    })
+
+  } catch (error: any) {
+    console.error('Claim share link error:', error)
+
+    if (error.message === 'Invalid share link') {
+      return NextResponse.json({
+        error: 'Invalid share link'
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * NOTIFICATION PREFERENCES API
+ *
+ * GET: The current user's email / in-app setting for each notification type
+ * PUT: Change one type. Body: { type: NotificationType, email?: boolean, inApp?: boolean }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isNotificationType } from '@/lib/notification-types'
+import { getNotificationPreferences, updateNotificationPreference } from '@/lib/referral-notifications'
+
+async function getCurrentUserId(): Promise<string | NextResponse> {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { id: true }
+  })
+
+  if (!currentUser) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return currentUser.id
+}
+
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId()
+    if (userId instanceof NextResponse) return userId
+
+    return NextResponse.json({ preferences: await getNotificationPreferences(userId) })
+
+  } catch (error) {
+    console.error('Notification preferences fetch error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (userId instanceof NextResponse) return userId
+
+    const { type, email, inApp } = await request.json()
+
+    if (!isNotificationType(type)) {
+      return NextResponse.json({
+        error: 'Invalid notification type'
+      }, { status: 400 })
+    }
+
+    if ((email !== undefined && typeof email !== 'boolean') || (inApp !== undefined && typeof inApp !== 'boolean')) {
+      return NextResponse.json({
+        error: 'email and inApp must be true or false'
+      }, { status: 400 })
+    }
+
+    await updateNotificationPreference(userId, type, {
+      ...(email !== undefined && { email }),
+      ...(inApp !== undefined && { inApp })
+    })
+
+    return NextResponse.json({ preferences: await getNotificationPreferences(userId) })
+
+  } catch (error) {
+    console.error('Notification preferences update error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
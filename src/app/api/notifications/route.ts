@@ -0,0 +1,100 @@
+/**
+ * NOTIFICATIONS API
+ *
+ * GET: The current user's in-app notifications, newest first (?unread=true)
+ * PATCH: Mark notifications read. Body: { ids: string[] } or { all: true }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+async function getCurrentUserId(): Promise<string | NextResponse> {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { id: true }
+  })
+
+  if (!currentUser) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return currentUser.id
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (userId instanceof NextResponse) return userId
+
+    const { searchParams } = new URL(request.url)
+    const unreadOnly = searchParams.get('unread') === 'true'
+
+    const [notifications, unread] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, ...(unreadOnly && { readAt: null }) },
+        orderBy: { createdAt: 'desc' },
+        take: 50
+      }),
+      prisma.notification.count({ where: { userId, readAt: null } })
+    ])
+
+    return NextResponse.json({
+      notifications: notifications.map(notification => ({
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        link: notification.link,
+        createdAt: notification.createdAt,
+        read: notification.readAt !== null
+      })),
+      counts: { unread }
+    })
+
+  } catch (error) {
+    console.error('Notifications fetch error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId()
+    if (userId instanceof NextResponse) return userId
+
+    const { ids, all } = await request.json()
+
+    if (!all && (!Array.isArray(ids) || ids.length === 0)) {
+      return NextResponse.json({
+        error: 'Provide ids or all: true'
+      }, { status: 400 })
+    }
+
+    const updated = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(!all && { id: { in: ids } })
+      },
+      data: { readAt: new Date() }
+    })
+
+    return NextResponse.json({ success: true, marked: updated.count })
+
+  } catch (error) {
+    console.error('Notifications update error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
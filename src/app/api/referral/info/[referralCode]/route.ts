@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { verifyShareLink } from '@/lib/share-links'
 
 export async function GET(
   request: NextRequest,
@@ -29,10 +30,21 @@ export async function GET(
       }, { status: 404 })
     }
 
+    // Job share links carry the job along with the referral code
+    const { searchParams } = new URL(request.url)
+    const jobId = searchParams.get('job')
+    const sig = searchParams.get('sig')
+    const shareLink = jobId && sig ? await verifyShareLink({ referralCode, jobId, sig }) : null
+
     return NextResponse.json({
       referrer: {
         ...referrer,
         referralCount: referrer._count.referrals
+      },
+      sharedJob: shareLink && {
+        id: shareLink.job.id,
+        title: shareLink.job.title,
+        companyName: shareLink.job.company.name
       }
     })
 
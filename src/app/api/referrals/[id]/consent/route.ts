@@ -0,0 +1,122 @@
+/**
+ * REFERRAL CONSENT API ENDPOINT
+ *
+ * GET /api/referrals/:referralId/consent?sig=...
+ * What the candidate is asked to agree to: the job, who referred them and
+ * what will be shared
+ *
+ * POST /api/referrals/:referralId/consent
+ * Accept (optionally editing what's shared) or decline the referral
+ * Body: { sig, decision: 'ACCEPT' | 'DECLINE', howYouKnow?, notes? }
+ *
+ * Public access: the signed link from the candidate's email is the
+ * credential (see referral-consent.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isConsentDecision, respondToReferral, verifyConsentLink } from '@/lib/referral-consent'
+
+const CONFLICT_ERRORS = [
+  'This referral was declined',
+  'This referral is already in progress with the hiring manager'
+]
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: referralId } = await params
+    const sig = request.nextUrl.searchParams.get('sig') || ''
+
+    const referral = await verifyConsentLink(referralId, sig)
+
+    if (!referral) {
+      return NextResponse.json({
+        error: 'Invalid consent link'
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      id: referral.id,
+      consentStatus: referral.consentStatus,
+      canRespond: referral.consentStatus !== 'DECLINED' && referral.status === 'PENDING',
+      respondedAt: referral.candidateRespondedAt,
+      referrer: {
+        name: `${referral.referrer.firstName || ''} ${referral.referrer.lastName || ''}`.trim() || referral.referrer.email
+      },
+      job: {
+        id: referral.job.id,
+        title: referral.job.title,
+        companyName: referral.job.company.name
+      },
+      shared: {
+        howYouKnow: referral.howYouKnow,
+        notes: referral.notes,
+        confidenceLevel: referral.confidenceLevel
+      },
+      createdAt: referral.createdAt
+    })
+
+  } catch (error) {
+    console.error('Referral consent fetch error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: referralId } = await params
+    const { sig, decision, howYouKnow, notes } = await request.json()
+
+    if (typeof sig !== 'string') {
+      return NextResponse.json({
+        error: 'sig is required'
+      }, { status: 400 })
+    }
+
+    if (!isConsentDecision(decision)) {
+      return NextResponse.json({
+        error: 'Valid decision is required (ACCEPT or DECLINE)'
+      }, { status: 400 })
+    }
+
+    if ((howYouKnow !== undefined && typeof howYouKnow !== 'string') || (notes !== undefined && typeof notes !== 'string')) {
+      return NextResponse.json({
+        error: 'howYouKnow and notes must be text'
+      }, { status: 400 })
+    }
+
+    const { consentStatus } = await respondToReferral(referralId, sig, { decision, howYouKnow, notes })
+
+    return NextResponse.json({
+      message: consentStatus === 'ACCEPTED'
+        ? 'Referral accepted and shared with the hiring manager'
+        : 'Referral declined',
+      consentStatus
+    })
+
+  } catch (error: any) {
+    if (error.message === 'Invalid consent link') {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 400 })
+    }
+
+    if (CONFLICT_ERRORS.includes(error.message)) {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 409 })
+    }
+
+    console.error('Referral consent error:', error)
+    return NextResponse.json({
+      error: 'Server error processing decision'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * EARLY DEPARTURE API ENDPOINT
+ *
+ * POST /api/referrals/:referralId/departure
+ * Report that a hire left during the job's guarantee period. The chain's
+ * held payouts are cancelled (mode CANCEL) or cut to the share of the
+ * period the hire stayed (mode PRORATE), and their clout is reversed.
+ * Body: { departedAt: string, mode: 'CANCEL' | 'PRORATE', reason?: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ClawbackMode, reportEarlyDeparture } from '@/lib/referral-settlement'
+import { prisma } from '@/lib/prisma'
+
+const CLAWBACK_MODES: ClawbackMode[] = ['CANCEL', 'PRORATE']
+
+// Errors from reportEarlyDeparture that are the caller's to fix
+const REJECTED_DEPARTURES = [
+  'Referral has not been settled',
+  'This hire has no guarantee period',
+  'Departure date must fall within the guarantee period',
+  'A departure was already reported for this referral',
+  'Payouts for this referral were already released'
+]
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { id: referralId } = await params
+    const { departedAt, mode, reason } = await request.json()
+
+    if (!CLAWBACK_MODES.includes(mode)) {
+      return NextResponse.json({
+        error: `Invalid mode. Must be one of: ${CLAWBACK_MODES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const departureDate = new Date(departedAt)
+    if (!departedAt || isNaN(departureDate.getTime())) {
+      return NextResponse.json({
+        error: 'A valid departure date is required'
+      }, { status: 400 })
+    }
+
+    const referral = await prisma.referral.findUnique({
+      where: { id: referralId },
+      include: {
+        job: {
+          include: {
+            owner: { select: { email: true } }
+          }
+        }
+      }
+    })
+
+    if (!referral) {
+      return NextResponse.json({
+        error: 'Referral not found'
+      }, { status: 404 })
+    }
+
+    // Check if user is job owner or admin
+    const isOwner = referral.job.owner.email === session.user.email
+    const isAdmin = session.user.email === 'vaishnav@cloutcareers.com'
+
+    if (!isOwner && !isAdmin) {
+      return NextResponse.json({
+        error: 'Not authorized to report a departure for this referral'
+      }, { status: 403 })
+    }
+
+    const result = await reportEarlyDeparture(
+      referralId,
+      departureDate,
+      mode,
+      typeof reason === 'string' && reason.trim() ? reason.trim() : undefined
+    )
+
+    return NextResponse.json({
+      message: mode === 'CANCEL' ? 'Chain payouts cancelled' : 'Chain payouts prorated',
+      departure: {
+        referralId: result.referralId,
+        departedAt: result.departedAt,
+        mode: result.mode,
+        keptFraction: result.keptFraction,
+        clawedBack: result.clawedBack,
+        currency: referral.job.currency,
+        cloutReversed: result.cloutReversed,
+        payouts: result.transactions.map(transaction => ({
+          id: transaction.id,
+          userId: transaction.userId,
+          amount: transaction.amount,
+          status: transaction.status
+        }))
+      }
+    })
+
+  } catch (error: any) {
+    if (REJECTED_DEPARTURES.includes(error.message)) {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 400 })
+    }
+
+    console.error('Report early departure error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * DUPLICATE REFERRAL RESOLUTION API ENDPOINT
+ *
+ * POST /api/referrals/:referralId/duplicate
+ * Decide a duplicate referral waiting on the hiring manager
+ * Body: { decision: 'KEEP_ORIGINAL' | 'USE_DUPLICATE' | 'SHARE_CREDIT' }
+ *
+ * See duplicate-referrals.ts for what each decision means. Only the job
+ * owner (or an admin) can decide.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { resolveDuplicateReferral } from '@/lib/referral-chain'
+import { DUPLICATE_DECISIONS, isDuplicateDecision } from '@/lib/duplicate-referrals'
+import { prisma } from '@/lib/prisma'
+
+const CONFLICT_ERRORS = [
+  'No pending duplicate to resolve',
+  'The original referral has already been paid out',
+  'The original referral has already moved past PENDING'
+]
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { decision } = await request.json()
+
+    if (!isDuplicateDecision(decision)) {
+      return NextResponse.json({
+        error: `Invalid decision. Must be one of: ${DUPLICATE_DECISIONS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const { id: referralId } = await params
+
+    const referral = await prisma.referral.findUnique({
+      where: { id: referralId },
+      select: {
+        id: true,
+        job: { select: { owner: { select: { email: true } } } }
+      }
+    })
+
+    if (!referral) {
+      return NextResponse.json({
+        error: 'Referral not found'
+      }, { status: 404 })
+    }
+
+    // Check if user is job owner or admin
+    const isOwner = referral.job.owner.email === session.user.email
+    const isAdmin = session.user.email === 'vaishnav@cloutcareers.com'
+
+    if (!isOwner && !isAdmin) {
+      return NextResponse.json({
+        error: 'Not authorized to resolve this referral'
+      }, { status: 403 })
+    }
+
+    const { originalId } = await resolveDuplicateReferral(referralId, decision)
+
+    return NextResponse.json({
+      message: 'Duplicate referral resolved',
+      decision,
+      originalId
+    })
+
+  } catch (error: any) {
+    if (CONFLICT_ERRORS.includes(error.message)) {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 409 })
+    }
+
+    console.error('Resolve duplicate referral error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
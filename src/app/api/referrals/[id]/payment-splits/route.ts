@@ -8,7 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { calculatePaymentSplits } from '@/lib/referral-chain'
+import { calculateReferralCredit } from '@/lib/referral-chain'
 import { prisma } from '@/lib/prisma'
 
 export async function GET(
@@ -36,6 +36,8 @@ export async function GET(
             id: true,
             title: true,
             referralBudget: true,
+            payoutPolicy: true,
+            currency: true,
             company: { select: { name: true } },
             owner: { select: { email: true } }
           }
@@ -68,10 +70,21 @@ export async function GET(
 
     // Get payment amount from URL params or use default
     const { searchParams } = new URL(request.url)
-    const totalAmount = parseInt(searchParams.get('amount') || '') || referral.job.referralBudget || 10000
+    const totalAmount = parseFloat(searchParams.get('amount') || '') || referral.job.referralBudget || 10000
 
-    // Calculate payment splits
-    const splits = await calculatePaymentSplits(totalAmount, referral.chainPath)
+    if (totalAmount < 0) {
+      return NextResponse.json({
+        error: 'Amount must be positive'
+      }, { status: 400 })
+    }
+
+    // Calculate payment splits (across every path for ALL_PATHS referrals, and shared duplicates)
+    const { splits, graph, directReferrerIds } = await calculateReferralCredit(
+      referral,
+      totalAmount,
+      referral.job.payoutPolicy,
+      referral.job.currency
+    )
 
     return NextResponse.json({
       referralId: referral.id,
@@ -80,6 +93,14 @@ export async function GET(
       candidateEmail: referral.candidateEmail,
       chainDepth: referral.chainDepth,
       totalAmount,
+      payoutPolicy: referral.job.payoutPolicy,
+      currency: referral.job.currency,
+      attribution: graph && {
+        pathWeighting: graph.weighting,
+        paths: graph.paths.map(path => ({ nodes: path.nodes, weight: path.weight })),
+        truncated: graph.truncated
+      },
+      directReferrerIds,
       splits
     })
 
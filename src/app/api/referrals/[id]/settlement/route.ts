@@ -0,0 +1,162 @@
+/**
+ * REFERRAL SETTLEMENT API ENDPOINT
+ *
+ * GET /api/referrals/:referralId/settlement
+ * The payouts recorded when the referral was hired
+ *
+ * POST /api/referrals/:referralId/settlement
+ * Mark the referral's confirmed payouts as paid (admin only). Payouts
+ * still inside the guarantee period stay pending.
+ * Body: { paymentMethod?: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { markReferralPaid } from '@/lib/referral-settlement'
+import { prisma } from '@/lib/prisma'
+
+const ADMIN_EMAIL = 'vaishnav@cloutcareers.com'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { id: referralId } = await params
+
+    const referral = await prisma.referral.findUnique({
+      where: { id: referralId },
+      select: {
+        id: true,
+        status: true,
+        settledAt: true,
+        guaranteeEndsAt: true,
+        departedAt: true,
+        job: {
+          select: {
+            referralBudget: true,
+            currency: true,
+            payoutPolicy: true,
+            owner: { select: { email: true } }
+          }
+        },
+        earningsTransactions: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            user: { select: { firstName: true, lastName: true, email: true } }
+          }
+        }
+      }
+    })
+
+    if (!referral) {
+      return NextResponse.json({
+        error: 'Referral not found'
+      }, { status: 404 })
+    }
+
+    const isOwner = referral.job.owner.email === session.user.email
+    const isAdmin = session.user.email === ADMIN_EMAIL
+
+    if (!isOwner && !isAdmin) {
+      return NextResponse.json({
+        error: 'Not authorized to view payouts for this referral'
+      }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      referralId: referral.id,
+      status: referral.status,
+      settledAt: referral.settledAt,
+      guaranteeEndsAt: referral.guaranteeEndsAt,
+      departedAt: referral.departedAt,
+      totalAmount: referral.job.referralBudget ?? 0,
+      currency: referral.job.currency,
+      payoutPolicy: referral.job.payoutPolicy,
+      payouts: referral.earningsTransactions.map(transaction => ({
+        id: transaction.id,
+        userId: transaction.userId,
+        name: `${transaction.user.firstName || ''} ${transaction.user.lastName || ''}`.trim() || transaction.user.email,
+        amount: transaction.amount,
+        type: transaction.type,
+        status: transaction.status,
+        paidAt: transaction.paidAt
+      }))
+    })
+
+  } catch (error: any) {
+    console.error('Get referral settlement error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    if (session.user.email !== ADMIN_EMAIL) {
+      return NextResponse.json({
+        error: 'Admin access required'
+      }, { status: 403 })
+    }
+
+    const { id: referralId } = await params
+    const body = await request.json().catch(() => ({}))
+    const paymentMethod = typeof body.paymentMethod === 'string' ? body.paymentMethod : undefined
+
+    const referral = await prisma.referral.findUnique({
+      where: { id: referralId },
+      select: { settledAt: true }
+    })
+
+    if (!referral) {
+      return NextResponse.json({
+        error: 'Referral not found'
+      }, { status: 404 })
+    }
+
+    if (!referral.settledAt) {
+      return NextResponse.json({
+        error: 'Referral has not been settled'
+      }, { status: 400 })
+    }
+
+    const paid = await markReferralPaid(referralId, paymentMethod)
+
+    return NextResponse.json({
+      message: paid.length > 0 ? `Marked ${paid.length} payouts as paid` : 'No confirmed payouts to pay',
+      paid: paid.map(transaction => ({
+        id: transaction.id,
+        userId: transaction.userId,
+        amount: transaction.amount,
+        paidAt: transaction.paidAt
+      }))
+    })
+
+  } catch (error: any) {
+    console.error('Mark referral paid error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
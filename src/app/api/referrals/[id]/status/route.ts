@@ -3,12 +3,27 @@
  *
  * PATCH /api/referrals/:referralId/status
  * Update referral status (e.g., to 'HIRED')
+ * Body: { status: ReferralStatus, note?: string }
+ *
+ * Only moves allowed by the status state machine (referral-status.ts) are
+ * accepted, and each one is recorded in the referral's history. The job
+ * owner (or an admin) can make any allowed move; the candidate can only
+ * withdraw. The candidate, referrer and chain are notified of each change.
+ * Duplicate referrals can't be moved; they follow their original. Nor can
+ * referrals the candidate hasn't accepted (they decline instead of withdrawing).
+ *
+ * Marking a referral HIRED settles it: the referral budget is paid out to
+ * the whole chain (see referral-settlement.ts). Settling is idempotent, so
+ * repeating the request never pays twice, and retrying after a failed
+ * settlement completes it.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { updateReferralStatus } from '@/lib/referral-chain'
+import { settleReferral } from '@/lib/referral-settlement'
+import { canTransition, isReferralStatus, REFERRAL_STATUSES, REFERRAL_STATUS_TRANSITIONS } from '@/lib/referral-status'
 import { prisma } from '@/lib/prisma'
 
 export async function PATCH(
@@ -27,7 +42,7 @@ export async function PATCH(
 
     // Parse request body
     const body = await request.json()
-    const { status } = body
+    const { status, note } = body
 
     if (!status) {
       return NextResponse.json({
@@ -36,10 +51,9 @@ export async function PATCH(
     }
 
     // Validate status
-    const validStatuses = ['PENDING', 'SCREENING', 'INTERVIEWING', 'HIRED', 'REJECTED']
-    if (!validStatuses.includes(status)) {
+    if (!isReferralStatus(status)) {
       return NextResponse.json({
-        error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`
+        error: `Invalid status. Must be one of: ${REFERRAL_STATUSES.join(', ')}`
       }, { status: 400 })
     }
 
@@ -63,26 +77,69 @@ export async function PATCH(
       }, { status: 404 })
     }
 
-    // Check if user is job owner or admin
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true }
+    })
+
+    // Check if user is job owner or admin (or the candidate withdrawing)
     const isOwner = referral.job.owner.email === session.user.email
     const isAdmin = session.user.email === 'vaishnav@cloutcareers.com'
+    const isCandidateWithdrawing = status === 'WITHDRAWN' && currentUser?.id === referral.candidateId
 
-    if (!isOwner && !isAdmin) {
+    if (!isOwner && !isAdmin && !isCandidateWithdrawing) {
       return NextResponse.json({
         error: 'Not authorized to update this referral'
       }, { status: 403 })
     }
 
+    // The job owner can't act on a referral the candidate hasn't accepted (referral-consent.ts)
+    if (referral.consentStatus !== 'ACCEPTED') {
+      return NextResponse.json({
+        error: 'The candidate has not accepted this referral'
+      }, { status: 409 })
+    }
+
+    // Duplicates have no pipeline of their own (duplicate-referrals.ts)
+    if (referral.duplicateOfId) {
+      return NextResponse.json({
+        error: 'Duplicate referrals follow their original referral'
+      }, { status: 409 })
+    }
+
+    // Repeating the current status is a no-op, except that a hire whose
+    // settlement failed gets settled
+    const unchanged = referral.status === status
+
+    if (!unchanged && !canTransition(referral.status, status)) {
+      return NextResponse.json({
+        error: `Cannot change status from ${referral.status} to ${status}`,
+        allowedStatuses: REFERRAL_STATUS_TRANSITIONS[referral.status]
+      }, { status: 409 })
+    }
+
     // Update the referral status
-    const updatedReferral = await updateReferralStatus(referralId, status as any)
+    const updatedReferral = unchanged
+      ? await prisma.referral.findUniqueOrThrow({
+        where: { id: referralId },
+        include: {
+          job: { select: { title: true, company: { select: { name: true } } } },
+          candidate: { select: { firstName: true, lastName: true, email: true } },
+          referrer: { select: { firstName: true, lastName: true, email: true } }
+        }
+      })
+      : await updateReferralStatus(
+        referralId,
+        status,
+        currentUser?.id,
+        typeof note === 'string' && note.trim() ? note.trim() : undefined
+      )
 
-    // TODO: Send notification emails
-    // 1. To candidate about status change
-    // 2. To referrer about status change
-    // 3. To chain participants if hired
+    // Pay the chain
+    const settlement = status === 'HIRED' ? await settleReferral(referralId) : null
 
     return NextResponse.json({
-      message: 'Referral status updated successfully',
+      message: unchanged ? 'Referral already has this status' : 'Referral status updated successfully',
       referral: {
         id: updatedReferral.id,
         status: updatedReferral.status,
@@ -92,11 +149,31 @@ export async function PATCH(
         chainDepth: updatedReferral.chainDepth,
         job: updatedReferral.job,
         candidate: updatedReferral.candidate,
-        referrerNode: updatedReferral.referrerNode
+        referrerNode: updatedReferral.referrer
+      },
+      settlement: settlement && {
+        settled: settlement.settled,
+        settledAt: settlement.settledAt,
+        guaranteeEndsAt: settlement.guaranteeEndsAt,
+        totalAmount: settlement.totalAmount,
+        currency: settlement.currency,
+        payouts: settlement.transactions.map(transaction => ({
+          id: transaction.id,
+          userId: transaction.userId,
+          amount: transaction.amount,
+          type: transaction.type,
+          status: transaction.status
+        }))
       }
     })
 
   } catch (error: any) {
+    if (error.message === 'Referral status was changed by someone else') {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 409 })
+    }
+
     console.error('Update referral status error:', error)
     return NextResponse.json({
       error: 'Server error'
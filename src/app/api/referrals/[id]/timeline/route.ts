@@ -0,0 +1,80 @@
+/**
+ * REFERRAL TIMELINE API ENDPOINT
+ *
+ * GET /api/referrals/:referralId/timeline
+ * The referral's status history: who changed it, when, and why
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getReferralTimeline } from '@/lib/referral-chain'
+import { prisma } from '@/lib/prisma'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { id: referralId } = await params
+
+    const referral = await prisma.referral.findUnique({
+      where: { id: referralId },
+      select: {
+        id: true,
+        status: true,
+        candidate: { select: { email: true } },
+        job: { select: { owner: { select: { email: true } } } }
+      }
+    })
+
+    if (!referral) {
+      return NextResponse.json({
+        error: 'Referral not found'
+      }, { status: 404 })
+    }
+
+    // Job owner, admin, or the candidate themselves
+    const isOwner = referral.job.owner.email === session.user.email
+    const isAdmin = session.user.email === 'vaishnav@cloutcareers.com'
+    const isCandidate = referral.candidate.email === session.user.email
+
+    if (!isOwner && !isAdmin && !isCandidate) {
+      return NextResponse.json({
+        error: 'Not authorized to view this referral'
+      }, { status: 403 })
+    }
+
+    const timeline = await getReferralTimeline(referralId)
+
+    return NextResponse.json({
+      referralId: referral.id,
+      status: referral.status,
+      timeline: timeline.map(change => ({
+        id: change.id,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        note: change.note,
+        createdAt: change.createdAt,
+        changedBy: change.changedBy && {
+          id: change.changedBy.id,
+          name: `${change.changedBy.firstName || ''} ${change.changedBy.lastName || ''}`.trim() || change.changedBy.email
+        }
+      }))
+    })
+
+  } catch (error: any) {
+    console.error('Get referral timeline error:', error)
+    return NextResponse.json({
+      error: 'Server error'
+    }, { status: 500 })
+  }
+}
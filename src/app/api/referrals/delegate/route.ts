@@ -11,6 +11,9 @@ import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
 import { sendDelegationEmail } from '@/lib/email-service'
 import { forwardJob } from '@/lib/referral-chain'
+import { getTrustBudget, setTrustAllocation } from '@/lib/trust-budget'
+import { scheduleTrustRecomputation } from '@/lib/eigentrust-new'
+import { findCandidate, findOrCreateCandidate, normalizeEmail } from '@/lib/candidate-identity'
 
 export async function POST(request: NextRequest) {
   try {
@@ -60,10 +63,8 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
 
-    // CHECK IF DELEGATE IS ALREADY ON CLOUT
-    const delegateUser = await prisma.user.findUnique({
-      where: { email: delegateEmail }
-    })
+    // CHECK IF DELEGATE IS ALREADY ON CLOUT (emails compare case-insensitively)
+    const delegateUser = await findCandidate(delegateEmail)
 
     const isExistingUser = !!delegateUser
 
@@ -73,7 +74,7 @@ export async function POST(request: NextRequest) {
       // User is not on Clout - create invitation and placeholder user for chain tracking
       const existingInvitation = await prisma.invitation.findFirst({
         where: {
-          email: delegateEmail,
+          email: { equals: normalizeEmail(delegateEmail), mode: 'insensitive' },
           senderId: currentUser.id
         }
       })
@@ -81,7 +82,7 @@ export async function POST(request: NextRequest) {
       if (!existingInvitation) {
         await prisma.invitation.create({
           data: {
-            email: delegateEmail,
+            email: normalizeEmail(delegateEmail),
             senderId: currentUser.id,
             trustScore: 10, // Default trust score
             status: 'PENDING'
@@ -89,27 +90,13 @@ export async function POST(request: NextRequest) {
         })
       }
 
-      // Check if user already exists (might have been created by previous forward or auth)
-      const existingUser = await prisma.user.findUnique({
-        where: { email: delegateEmail }
+      // Placeholder for referral chain tracking (someone may have created it at the same moment)
+      const placeholder = await findOrCreateCandidate(delegateEmail, {
+        firstName: delegateName.split(' ')[0] || '',
+        lastName: delegateName.split(' ').slice(1).join(' ') || '',
+        referredById: currentUser.id
       })
-
-      if (!existingUser) {
-        // Create user account for referral chain tracking
-        const newUser = await prisma.user.create({
-          data: {
-            email: delegateEmail,
-            firstName: delegateName.split(' ')[0] || '',
-            lastName: delegateName.split(' ').slice(1).join(' ') || '',
-            isProfileComplete: false,
-            inviteUsed: false, // Will be set to true when they complete signup
-            referredById: currentUser.id
-          }
-        })
-        forwardToUserId = newUser.id
-      } else {
-        forwardToUserId = existingUser.id
-      }
+      forwardToUserId = placeholder.id
     }
 
     // Record the forward in chain tracking for both existing and new users
@@ -143,27 +130,30 @@ export async function POST(request: NextRequest) {
 
       // If not in network, create a confirmed relationship (unidirectional)
       if (!relationship) {
-        await prisma.relationship.create({
-          data: {
-            user1Id: currentUser.id,
-            user2Id: delegateUser.id,
-            user1TrustAllocated: 10, // Default minimal trust for delegation
-            user2TrustAllocated: 0,  // They haven't reciprocated
-            // Legacy fields
-            user1TrustScore: 1,
-            user2TrustScore: 0,
-            status: 'CONFIRMED' // Immediately confirmed (unidirectional)
+        // Default minimal trust for delegation, capped by what's left of the budget
+        const { availableTrust } = await getTrustBudget(currentUser.id)
+        const delegationTrust = Math.min(10, availableTrust)
+
+        await prisma.$transaction(async (tx) => {
+          await tx.relationship.create({
+            data: {
+              user1Id: currentUser.id,
+              user2Id: delegateUser.id,
+              // Legacy fields
+              user1TrustScore: 1,
+              user2TrustScore: 0,
+              status: 'CONFIRMED' // Immediately confirmed (unidirectional)
+            }
+          })
+
+          if (delegationTrust > 0) {
+            await setTrustAllocation(tx, currentUser.id, delegateUser.id, delegationTrust)
           }
         })
 
-        // Update user's trust allocation
-        await prisma.user.update({
-          where: { id: currentUser.id },
-          data: {
-            availableTrust: { decrement: 10 },
-            allocatedTrust: { increment: 10 }
-          }
-        })
+        if (delegationTrust > 0) {
+          scheduleTrustRecomputation("referral_delegate")
+        }
       }
     }
 
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
+import { findCandidate, normalizeEmail } from '@/lib/candidate-identity'
 
 export async function POST(request: NextRequest) {
   try {
@@ -37,7 +38,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const {
       jobId,
-      candidateEmail,
+      candidateEmail: rawCandidateEmail,
       candidateName,
       relationship,
       workTogether,
@@ -52,7 +53,7 @@ export async function POST(request: NextRequest) {
     } = body
 
     // VALIDATE REQUIRED FIELDS
-    if (!jobId || !candidateEmail || !candidateName || !relationship ||
+    if (!jobId || !rawCandidateEmail || !candidateName || !relationship ||
         !workTogether || !strengths || !rolesValueAdd || !workOutput ||
         !hoursInteraction || !complementaryPartner) {
       return NextResponse.json({
@@ -60,6 +61,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    const candidateEmail = normalizeEmail(rawCandidateEmail)
+
     // VERIFY JOB EXISTS
     const job = await prisma.job.findUnique({
       where: { id: jobId },
@@ -75,10 +78,8 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
 
-    // CHECK IF CANDIDATE ALREADY EXISTS
-    const existingUser = await prisma.user.findUnique({
-      where: { email: candidateEmail }
-    })
+    // CHECK IF CANDIDATE ALREADY EXISTS (emails compare case-insensitively)
+    const existingUser = await findCandidate(candidateEmail)
 
     let candidateUserId = null
     if (existingUser) {
@@ -87,7 +88,7 @@ export async function POST(request: NextRequest) {
       // CREATE INVITATION FOR NEW CANDIDATE
       const existingInvitation = await prisma.invitation.findFirst({
         where: {
-          email: candidateEmail,
+          email: { equals: candidateEmail, mode: 'insensitive' },
           senderId: currentUser.id
         }
       })
@@ -108,7 +109,7 @@ export async function POST(request: NextRequest) {
     const existingEndorsement = await prisma.endorsement.findFirst({
       where: {
         endorserId: currentUser.id,
-        endorsedUserEmail: candidateEmail
+        endorsedUserEmail: { equals: candidateEmail, mode: 'insensitive' }
       }
     })
 
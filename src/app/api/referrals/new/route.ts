@@ -10,6 +10,7 @@ import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
 import { sendInvitationEmail, sendJobReferralEmail } from '@/lib/email-service'
+import { normalizeEmail } from '@/lib/candidate-identity'
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,7 +39,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const {
       jobId,
-      candidateEmail,
+      candidateEmail: rawCandidateEmail,
       candidateName,
       message,
       referralReason,
@@ -46,12 +47,15 @@ export async function POST(request: NextRequest) {
       addedToNetwork
     } = body
 
-    if (!jobId || !candidateEmail || !candidateName || !referralReason) {
+    if (!jobId || !rawCandidateEmail || !candidateName || !referralReason) {
       return NextResponse.json({
         error: 'Missing required fields'
       }, { status: 400 })
     }
 
+    // Same person whatever the casing (see candidate-identity.ts)
+    const candidateEmail = normalizeEmail(rawCandidateEmail)
+
     // VERIFY JOB EXISTS
     const job = await prisma.job.findUnique({
       where: { id: jobId },
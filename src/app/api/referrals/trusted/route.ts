@@ -2,14 +2,18 @@
  * TRUSTED NETWORK REFERRAL API
  *
  * This endpoint handles referrals from a user's trusted network.
- * Creates a referral record and notifies relevant parties.
+ * Creates a chain-tracked referral and the endorsement that carries the
+ * recommendation in one write, then asks the candidate to accept it. The
+ * hiring manager only sees it once they do, and the candidate's answer
+ * settles the endorsement too (referral-consent.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
-import { sendJobReferralEmail } from '@/lib/email-service'
+import { createReferral } from '@/lib/referral-chain'
+import { requestReferralConsent } from '@/lib/referral-consent'
 
 export async function POST(request: NextRequest) {
   try {
@@ -98,8 +102,10 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // CREATE ENDORSEMENT FOR THE JOB REFERRAL
-    console.log('Creating endorsement with data:', {
+    // CREATE THE CHAIN-TRACKED REFERRAL AND ITS ENDORSEMENT TOGETHER
+    // Both wait for the candidate; their answer to the referral decides the
+    // endorsement's status too (referral-consent.ts)
+    console.log('Creating referral with endorsement:', {
       endorserId: currentUser.id,
       endorsedUserId: referredUser.id,
       endorsedUserEmail: referredUser.email,
@@ -109,8 +115,15 @@ export async function POST(request: NextRequest) {
       status: 'PENDING_CANDIDATE_ACTION'
     })
 
-    const endorsement = await prisma.endorsement.create({
-      data: {
+    const referral = await createReferral(
+      jobId,
+      referredUser.id,
+      referredUser.email,
+      currentUser.id,
+      referralReason,
+      undefined,
+      message || undefined,
+      {
         endorserId: currentUser.id,
         endorsedUserId: referredUser.id,
         endorsedUserEmail: referredUser.email,
@@ -123,34 +136,41 @@ export async function POST(request: NextRequest) {
         status: 'PENDING_CANDIDATE_ACTION',
         createdAt: new Date()
       }
-    })
+    )
 
-    console.log('Endorsement created successfully:', endorsement.id)
+    console.log('Referral and endorsement created successfully:', referral.id, referral.endorsement?.id)
 
-    // Send notification email to the referred person
+    // Ask the referred person to accept before the hiring manager sees it
     try {
-      await sendJobReferralEmail({
-        recipientEmail: referredUser.email,
-        recipientName: `${referredUser.firstName} ${referredUser.lastName}`.trim() || referredUser.email,
-        referrerName: `${currentUser.firstName} ${currentUser.lastName}`.trim() || currentUser.email,
-        jobTitle: job.title,
-        companyName: job.company.name,
-        referralReason: referralReason,
-        personalMessage: message,
-        jobId: jobId
-      })
+      await requestReferralConsent(referral.id)
     } catch (emailError) {
-      console.error('Failed to send job referral email:', emailError)
+      console.error('Failed to send referral consent email:', emailError)
     }
 
     // TODO: Send notification to hiring manager (requires additional setup)
 
     return NextResponse.json({
       message: 'Referral submitted successfully',
-      endorsementId: endorsement.id
+      referralId: referral.id,
+      endorsementId: referral.endorsement?.id
     })
 
   } catch (error) {
+    if (error instanceof Error && error.message === 'Cannot refer yourself') {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 400 })
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Candidate already referred for this job' ||
+      error.message === 'You have already referred this candidate for this job'
+    )) {
+      return NextResponse.json({
+        error: 'This candidate has already been referred for this job'
+      }, { status: 409 })
+    }
+
     console.error('Trusted referral error - Full details:', error)
     console.error('Error message:', error instanceof Error ? error.message : 'Unknown error')
     if (error instanceof Error && 'code' in error) {
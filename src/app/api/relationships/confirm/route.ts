@@ -12,7 +12,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
-import { computeEigenTrust } from '@/lib/eigentrust-new'
+import { scheduleTrustRecomputation } from '@/lib/eigentrust-new'
 
 export async function POST(request: NextRequest) {
   try {
@@ -85,14 +85,7 @@ export async function POST(request: NextRequest) {
     })
 
     // Trigger trust score recomputation in the background
-    computeEigenTrust(
-      0.15,        // decayFactor
-      100,         // maxIterations
-      0.000001,    // convergenceThreshold
-      "relationship_confirm" // triggeredBy
-    ).catch(error => {
-      console.error('Background trust computation failed:', error)
-    })
+    scheduleTrustRecomputation("relationship_confirm")
 
     return NextResponse.json({
       message: 'Relationship confirmed successfully'
@@ -19,6 +19,7 @@ import { prisma } from '@/lib/prisma'
 import { getResend } from '@/lib/resend'
 import { sendInvitationEmail, sendNetworkInvitationEmail } from '@/lib/email-service'
 import { authOptions } from '@/lib/auth'
+import { getTrustBudget, setTrustAllocation } from '@/lib/trust-budget'
 
 export async function POST(request: NextRequest) {
   try {
@@ -49,9 +50,6 @@ export async function POST(request: NextRequest) {
       where: { email: session.user.email },
       select: {
         id: true,
-        availableTrust: true,
-        totalTrustPoints: true,
-        allocatedTrust: true,
         // Legacy fields for compatibility
         availableInvites: true,
         tier: true,
@@ -78,10 +76,11 @@ export async function POST(request: NextRequest) {
     })
 
     // TRUST ALLOCATION CHECK
-    // Ensure user has enough available trust points
-    if (currentUser.availableTrust < trustAllocation) {
+    // Ensure user has enough available trust points (derived from their TrustAllocations)
+    const budget = await getTrustBudget(currentUser.id)
+    if (budget.availableTrust < trustAllocation) {
       return NextResponse.json({
-        error: `Insufficient trust points. Available: ${currentUser.availableTrust}, Requested: ${trustAllocation}`
+        error: `Insufficient trust points. Available: ${budget.availableTrust}, Requested: ${trustAllocation}`
       }, { status: 400 })
     }
 
@@ -108,13 +107,11 @@ export async function POST(request: NextRequest) {
     if (targetUser) {
       // User already exists in system - create CONFIRMED relationship with immediate trust allocation
       const relationship = await prisma.$transaction(async (tx) => {
-        // Create relationship WITH immediate trust allocation (unidirectional)
+        // Create relationship (unidirectional trust; the other user can add back if they want)
         const rel = await tx.relationship.create({
           data: {
             user1Id: currentUser.id,
             user2Id: targetUser.id,
-            user1TrustAllocated: trustAllocation, // Allocate trust immediately
-            user2TrustAllocated: 0, // Other user starts with 0 (they can add back if they want)
             // Legacy fields for compatibility
             user1TrustScore: Math.round(trustAllocation / 10), // Convert to legacy scale
             user2TrustScore: 0,
@@ -122,14 +119,9 @@ export async function POST(request: NextRequest) {
           }
         })
 
-        // Update user's trust allocation immediately
-        await tx.user.update({
-          where: { id: currentUser.id },
-          data: {
-            availableTrust: currentUser.availableTrust - trustAllocation,
-            allocatedTrust: currentUser.allocatedTrust + trustAllocation
-          }
-        })
+        // Allocate trust immediately; this also fills in user1TrustAllocated
+        // and the sender's available/allocated trust
+        await setTrustAllocation(tx, currentUser.id, targetUser.id, trustAllocation)
 
         return rel
       })
@@ -149,15 +141,8 @@ export async function POST(request: NextRequest) {
       }
 
       // Trigger trust score recomputation since relationship is immediately confirmed
-      const { computeEigenTrust } = await import('@/lib/eigentrust-new')
-      computeEigenTrust(
-        0.15,        // decayFactor
-        100,         // maxIterations
-        0.000001,    // convergenceThreshold
-        "relationship_establish" // triggeredBy
-      ).catch(error => {
-        console.error('Background trust computation failed:', error)
-      })
+      const { scheduleTrustRecomputation } = await import('@/lib/eigentrust-new')
+      scheduleTrustRecomputation("relationship_establish")
 
       return NextResponse.json({
         message: `Successfully added ${targetUser.email} to your trusted network with ${trustAllocation} trust points`,
@@ -202,13 +187,11 @@ export async function POST(request: NextRequest) {
           }
         })
 
-        // Create CONFIRMED relationship WITH immediate trust allocation
+        // Create CONFIRMED relationship (new user starts with 0 trust back)
         await tx.relationship.create({
           data: {
             user1Id: currentUser.id,
             user2Id: newUser.id,
-            user1TrustAllocated: trustAllocation, // Allocate trust immediately
-            user2TrustAllocated: 0, // New user starts with 0
             // Legacy fields for compatibility
             user1TrustScore: Math.round(trustAllocation / 10), // Convert to legacy scale
             user2TrustScore: 0,
@@ -216,14 +199,13 @@ export async function POST(request: NextRequest) {
           }
         })
 
-        // Update sender's trust allocation AND legacy invite tracking
+        // Allocate trust immediately through the ledger
+        await setTrustAllocation(tx, currentUser.id, newUser.id, trustAllocation)
+
+        // Legacy invite tracking
         await tx.user.update({
           where: { id: currentUser.id },
           data: {
-            // Update trust allocation immediately
-            availableTrust: currentUser.availableTrust - trustAllocation,
-            allocatedTrust: currentUser.allocatedTrust + trustAllocation,
-            // Legacy fields for compatibility
             availableInvites: { decrement: 1 },
             totalInvitesUsed: { increment: 1 }
           }
@@ -250,7 +232,9 @@ export async function POST(request: NextRequest) {
         // Don't fail the whole operation if email fails
       }
 
-      // Note: No trust computation needed since pending relationships don't affect trust scores
+      // The new user's TrustAllocation counts right away
+      const { scheduleTrustRecomputation } = await import('@/lib/eigentrust-new')
+      scheduleTrustRecomputation("relationship_establish")
 
       return NextResponse.json({
         message: 'Invitation sent successfully',
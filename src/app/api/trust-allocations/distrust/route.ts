@@ -0,0 +1,180 @@
+/**
+ * DISTRUST SIGNALS API
+ *
+ * GET: Lists the distrust signals the current user has recorded
+ * POST: Records distrust against someone the user has a relationship with
+ * DELETE: Withdraws a distrust signal (?receiverId=)
+ *
+ * Who distrusts a user is never disclosed to them; they only see the
+ * penalty in their score explanation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { scheduleTrustRecomputation } from '@/lib/eigentrust-new'
+import { setTrustAllocation } from '@/lib/trust-budget'
+
+const MAX_REASON_LENGTH = 500
+
+async function getCurrentUser() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return null
+  }
+
+  return prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { id: true }
+  })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const signals = await prisma.distrustSignal.findMany({
+      where: { giverId: currentUser.id },
+      include: {
+        receiver: { select: { id: true, email: true, firstName: true, lastName: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      signals: signals.map(signal => ({
+        receiverId: signal.receiverId,
+        receiverName: signal.receiver.firstName && signal.receiver.lastName
+          ? `${signal.receiver.firstName} ${signal.receiver.lastName}`
+          : signal.receiver.email,
+        reason: signal.reason,
+        createdAt: signal.createdAt
+      }))
+    })
+
+  } catch (error) {
+    console.error('Distrust signals fetch error:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch distrust signals'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { receiverId, reason } = await request.json()
+
+    if (!receiverId || typeof receiverId !== 'string') {
+      return NextResponse.json({
+        error: 'receiverId is required'
+      }, { status: 400 })
+    }
+
+    if (receiverId === currentUser.id) {
+      return NextResponse.json({
+        error: 'Cannot record distrust against yourself'
+      }, { status: 400 })
+    }
+
+    if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+      return NextResponse.json({
+        error: `Reason must be text of at most ${MAX_REASON_LENGTH} characters`
+      }, { status: 400 })
+    }
+
+    // Only people you've actually worked with
+    const relationship = await prisma.relationship.findFirst({
+      where: {
+        status: 'CONFIRMED',
+        OR: [
+          { user1Id: currentUser.id, user2Id: receiverId },
+          { user1Id: receiverId, user2Id: currentUser.id }
+        ]
+      },
+      select: { id: true }
+    })
+
+    if (!relationship) {
+      return NextResponse.json({
+        error: 'You can only record distrust against people in your network'
+      }, { status: 400 })
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.distrustSignal.upsert({
+        where: { giverId_receiverId: { giverId: currentUser.id, receiverId } },
+        create: { giverId: currentUser.id, receiverId, reason: reason || null },
+        update: { reason: reason || null }
+      })
+
+      // Trust and distrust toward the same person are mutually exclusive
+      await setTrustAllocation(tx, currentUser.id, receiverId, 0)
+    })
+
+    scheduleTrustRecomputation("distrust_update")
+
+    return NextResponse.json({
+      success: true,
+      message: 'Distrust recorded'
+    })
+
+  } catch (error) {
+    console.error('Distrust signal error:', error)
+    return NextResponse.json({
+      error: 'Failed to record distrust'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return NextResponse.json({
+        error: 'Not authenticated'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const receiverId = searchParams.get('receiverId')
+
+    if (!receiverId) {
+      return NextResponse.json({
+        error: 'receiverId is required'
+      }, { status: 400 })
+    }
+
+    const result = await prisma.distrustSignal.deleteMany({
+      where: { giverId: currentUser.id, receiverId }
+    })
+
+    if (result.count > 0) {
+      scheduleTrustRecomputation("distrust_update")
+    }
+
+    return NextResponse.json({
+      success: true,
+      removed: result.count
+    })
+
+  } catch (error) {
+    console.error('Distrust signal removal error:', error)
+    return NextResponse.json({
+      error: 'Failed to remove distrust'
+    }, { status: 500 })
+  }
+}
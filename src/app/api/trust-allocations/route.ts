@@ -1,14 +1,21 @@
 /**
  * TRUST ALLOCATIONS API
  *
- * Allows users (including admin) to update their trust allocations
+ * Allows users (including admin) to update their trust allocations.
+ * POST with dryRun: true previews how the change would move scores
+ * without saving anything (throttled per user, 429 when too frequent).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { computeEigenTrust } from '@/lib/eigentrust-new'
+import { TrustDomain } from '@prisma/client'
+import { scheduleTrustRecomputation } from '@/lib/eigentrust-new'
+import { SIMULATION_THROTTLED, simulateAllocationChange } from '@/lib/trust-simulation'
+import { validateAllocationBudget, syncTrustLedger } from '@/lib/trust-budget'
+import { decayWeight, getTrustHalfLifeDays, STALE_WEIGHT } from '@/lib/trust-decay'
+import { isTrustDomain } from '@/lib/trust-domains'
 
 export async function POST(request: NextRequest) {
   try {
@@ -34,9 +41,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Get request data
-    const { allocations } = await request.json()
+    const { allocations, dryRun, topN } = await request.json()
 
-    // allocations is array of: [{ receiverId: string, proportion: number }, ...]
+    // allocations is array of: [{ receiverId: string, proportion: number, domains?: TrustDomain[] }, ...]
     if (!Array.isArray(allocations)) {
       return NextResponse.json({
         error: 'Allocations must be an array'
@@ -44,7 +51,7 @@ export async function POST(request: NextRequest) {
     }
 
     // =========================================================================
-    // BASIC VALIDATION: Just validate format, no sum constraint
+    // VALIDATION: Format, then the giver's budget (proportions sum to ≤ 1)
     // =========================================================================
 
     // Validate allocation format
@@ -60,6 +67,21 @@ export async function POST(request: NextRequest) {
           error: 'Allocation proportions must be between 0 and 1'
         }, { status: 400 })
       }
+
+      // Optional domain tags; none means general trust
+      if (allocation.domains !== undefined &&
+          (!Array.isArray(allocation.domains) || !allocation.domains.every(isTrustDomain))) {
+        return NextResponse.json({
+          error: 'Invalid trust domain'
+        }, { status: 400 })
+      }
+    }
+
+    const budgetError = validateAllocationBudget(allocations)
+    if (budgetError) {
+      return NextResponse.json({
+        error: budgetError
+      }, { status: 400 })
     }
 
     // =========================================================================
@@ -73,41 +95,80 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    // Trust and distrust toward the same person are mutually exclusive
+    const distrusted = await prisma.distrustSignal.findMany({
+      where: {
+        giverId: currentUser.id,
+        receiverId: { in: allocations.filter(a => a.proportion > 0).map(a => a.receiverId) }
+      },
+      select: { receiverId: true }
+    })
+    if (distrusted.length > 0) {
+      return NextResponse.json({
+        error: 'Withdraw your distrust before allocating trust to the same person'
+      }, { status: 400 })
+    }
+
+    // =========================================================================
+    // DRY RUN: Project score changes without persisting
+    // =========================================================================
+
+    if (dryRun) {
+      const simulation = await simulateAllocationChange(
+        currentUser.id,
+        allocations,
+        typeof topN === 'number' && topN > 0 ? Math.min(topN, 50) : 10
+      )
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        ...simulation
+      })
+    }
+
     // =========================================================================
     // SAVE TO DATABASE
     // =========================================================================
 
     await prisma.$transaction(async (tx) => {
+      // Re-saved pairs keep when they were first made (spike detection reads
+      // createdAt), and quarantined pairs stay quarantined
+      const existing = await tx.trustAllocation.findMany({
+        where: { giverId: currentUser.id },
+        select: { receiverId: true, quarantineFlagId: true, createdAt: true }
+      })
+      const existingByReceiver = new Map(existing.map(e => [e.receiverId, e]))
+
       // Delete user's existing allocations
       await tx.trustAllocation.deleteMany({
         where: { giverId: currentUser.id }
       })
 
-      // Insert new allocations
+      // Insert new allocations (saving reconfirms them all, resetting decay)
       for (const allocation of allocations) {
         await tx.trustAllocation.create({
           data: {
             giverId: currentUser.id,
             receiverId: allocation.receiverId,
-            proportion: allocation.proportion
+            proportion: allocation.proportion,
+            domains: Array.from(new Set<TrustDomain>(allocation.domains ?? [])),
+            quarantineFlagId: existingByReceiver.get(allocation.receiverId)?.quarantineFlagId ?? null,
+            createdAt: existingByReceiver.get(allocation.receiverId)?.createdAt
           }
         })
       }
+
+      // Keep budget and relationship fields in step with the allocations
+      await syncTrustLedger(tx, currentUser.id)
     })
 
     // =========================================================================
-    // TRIGGER RECOMPUTATION (asynchronously, don't wait)
+    // TRIGGER RECOMPUTATION (debounced, warm-started, don't wait)
     // =========================================================================
 
-    // Launch in background (don't block the response)
-    computeEigenTrust(
-      0.15,        // decayFactor
-      100,         // maxIterations
-      0.000001,    // convergenceThreshold
-      "user_update" // triggeredBy
-    ).catch(error => {
-      console.error('Background trust computation failed:', error)
-    })
+    // Bursts of edits across users are coalesced into a single run
+    scheduleTrustRecomputation("user_update")
 
     return NextResponse.json({
       success: true,
@@ -115,6 +176,12 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof Error && error.message === SIMULATION_THROTTLED) {
+      return NextResponse.json({
+        error: error.message
+      }, { status: 429 })
+    }
+
     console.error('Trust allocations update error:', error)
     return NextResponse.json({
       error: error instanceof Error ? error.message : 'Server error'
@@ -180,15 +247,26 @@ export async function GET(request: NextRequest) {
       ]
     })
 
+    // How much of each allocation is still in effect
+    const halfLifeDays = await getTrustHalfLifeDays()
+    const now = Date.now()
 
     return NextResponse.json({
-      currentAllocations: allocations.map(allocation => ({
-        receiverId: allocation.receiverId,
-        receiverName: allocation.receiver.firstName && allocation.receiver.lastName
-          ? `${allocation.receiver.firstName} ${allocation.receiver.lastName}`
-          : allocation.receiver.email,
-        proportion: allocation.proportion
-      })),
+      halfLifeDays,
+      currentAllocations: allocations.map(allocation => {
+        const weight = decayWeight(now - allocation.confirmedAt.getTime(), halfLifeDays)
+        return {
+          receiverId: allocation.receiverId,
+          receiverName: allocation.receiver.firstName && allocation.receiver.lastName
+            ? `${allocation.receiver.firstName} ${allocation.receiver.lastName}`
+            : allocation.receiver.email,
+          proportion: allocation.proportion,
+          domains: allocation.domains,
+          confirmedAt: allocation.confirmedAt,
+          decayWeight: weight,
+          stale: weight < STALE_WEIGHT
+        }
+      }),
       allUsers: allUsers.map(user => ({
         id: user.id,
         displayName: user.firstName && user.lastName
@@ -0,0 +1,67 @@
+/**
+ * TRUST SCORE EXPLANATION API
+ *
+ * Explains where a user's computed trust score comes from: direct
+ * contributions from each incoming allocator and the strongest trust
+ * paths from the pretrust seeds.
+ * Users see their own explanation; admins may pass ?userId= for anyone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { explainTrustScore } from '@/lib/trust-explanation'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true, isAdmin: true }
+    })
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedUserId = searchParams.get('userId')
+
+    if (requestedUserId && requestedUserId !== currentUser.id && !currentUser.isAdmin) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    const explanation = await explainTrustScore(requestedUserId || currentUser.id)
+
+    if (!explanation) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(explanation)
+
+  } catch (error) {
+    console.error('Trust explanation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to explain trust score' },
+      { status: 500 }
+    )
+  }
+}
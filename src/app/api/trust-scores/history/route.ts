@@ -0,0 +1,69 @@
+/**
+ * TRUST SCORE HISTORY API
+ *
+ * Returns a user's trust score and rank over time, one point per
+ * EigenTrust computation snapshot.
+ * Users see their own history; admins may pass ?userId= for anyone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getTrustScoreHistory } from '@/lib/trust-history'
+
+const MAX_HISTORY_POINTS = 500
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const currentUser = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true, isAdmin: true }
+    })
+
+    if (!currentUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedUserId = searchParams.get('userId')
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1),
+      MAX_HISTORY_POINTS
+    )
+
+    if (requestedUserId && requestedUserId !== currentUser.id && !currentUser.isAdmin) {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    const userId = requestedUserId || currentUser.id
+    const history = await getTrustScoreHistory(userId, limit)
+
+    return NextResponse.json({
+      userId,
+      history
+    })
+
+  } catch (error) {
+    console.error('Trust score history fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch trust score history' },
+      { status: 500 }
+    )
+  }
+}
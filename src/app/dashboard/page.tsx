@@ -7,9 +7,11 @@ import EndorsementForm from '@/components/EndorsementForm'
 import EndorsementNotifications from '@/components/EndorsementNotifications'
 import NetworkConnectionsCard from '@/components/NetworkConnectionsCard'
 import CloutJourneyCard from '@/components/CloutJourneyCard'
+import TrustScoreExplanation from '@/components/TrustScoreExplanation'
 import PendingNetworkRequests from '@/components/PendingNetworkRequests'
 import TrustNetworkManager from '@/components/TrustNetworkManager'
 import InterestRequestNotifications from '@/components/InterestRequestNotifications'
+import ReferralNotifications from '@/components/ReferralNotifications'
 
 export default function DashboardPage() {
   const { data: session, status } = useSession()
@@ -57,8 +59,10 @@ export default function DashboardPage() {
       )}
 
       <div className="mb-8"><CloutJourneyCard /></div>
+      <div className="mb-8"><TrustScoreExplanation /></div>
       <div className="mb-8"><TrustNetworkManager onRefresh={() => {}} /></div>
       <div className="mb-8"><InterestRequestNotifications /></div>
+      <ReferralNotifications className="mb-8" />
       <EndorsementNotifications className="mb-8" />
       <div className="mb-8"><PendingNetworkRequests /></div>
       <div className="mb-8">
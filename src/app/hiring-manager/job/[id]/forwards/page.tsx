@@ -0,0 +1,45 @@
+/**
+ * JOB FORWARD GRAPH PAGE
+ *
+ * Lets hiring managers see how one of their jobs spread through the
+ * network, using the ForwardGraphViewer component.
+ */
+
+'use client'
+
+import { useRouter } from 'next/navigation'
+import ForwardGraphViewer from '@/components/ForwardGraphViewer'
+
+interface JobForwardsPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default function JobForwardsPage({ params }: JobForwardsPageProps) {
+  const router = useRouter()
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => router.push(`/hiring-manager/job/${params.id}`)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  ← Back to Job
+                </button>
+                <h1 className="text-2xl font-bold text-gray-900">How This Job Spread</h1>
+              </div>
+            </div>
+
+            <ForwardGraphViewer jobId={params.id} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,12 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
+import ReferralChainViewer from '@/components/ReferralChainViewer'
+import { TRUST_DOMAIN_LABELS } from '@/lib/trust-domains'
+import { PAYOUT_POLICY_LABELS } from '@/lib/payout-policies'
+import { CHAIN_ATTRIBUTION_LABELS, PATH_WEIGHTING_LABELS } from '@/lib/chain-attribution'
+import { DUPLICATE_REFERRAL_POLICY_LABELS } from '@/lib/duplicate-referrals'
+import type { ChainAttribution, DuplicateReferralPolicy, PathWeighting, PayoutPolicy, TrustDomain } from '@prisma/client'
 
 interface Job {
   id: string
@@ -30,6 +36,12 @@ interface Job {
   growthPath?: string
   equityOffered: boolean
   equityRange?: string
+  trustDomain?: TrustDomain | null
+  payoutPolicy?: PayoutPolicy
+  guaranteePeriodDays?: number
+  chainAttribution?: ChainAttribution
+  pathWeighting?: PathWeighting
+  duplicateReferralPolicy?: DuplicateReferralPolicy
   company: {
     name: string
   }
@@ -176,6 +188,12 @@ export default function JobDetailPage({ params }: { params: { id: string } }) {
                   >
                     Edit Job
                   </button>
+                  <button
+                    onClick={() => router.push(`/hiring-manager/job/${job.id}/forwards`)}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                  >
+                    Forward Graph
+                  </button>
                   <button
                     onClick={handleDeleteJob}
                     disabled={deleting}
@@ -213,11 +231,38 @@ export default function JobDetailPage({ params }: { params: { id: string } }) {
                       <span className="font-medium">Referral Budget:</span> ${job.referralBudget.toLocaleString()}
                     </div>
                   )}
+                  {job.payoutPolicy && (
+                    <div>
+                      <span className="font-medium">Payout Split:</span> {PAYOUT_POLICY_LABELS[job.payoutPolicy]}
+                    </div>
+                  )}
+                  {job.chainAttribution && (
+                    <div>
+                      <span className="font-medium">Chain Credit:</span> {CHAIN_ATTRIBUTION_LABELS[job.chainAttribution]}
+                      {job.chainAttribution === 'ALL_PATHS' && job.pathWeighting && ` (${PATH_WEIGHTING_LABELS[job.pathWeighting]})`}
+                    </div>
+                  )}
+                  {job.duplicateReferralPolicy && (
+                    <div>
+                      <span className="font-medium">Duplicate Referrals:</span> {DUPLICATE_REFERRAL_POLICY_LABELS[job.duplicateReferralPolicy]}
+                    </div>
+                  )}
+                  {job.guaranteePeriodDays !== undefined && (
+                    <div>
+                      <span className="font-medium">Guarantee Period:</span>{' '}
+                      {job.guaranteePeriodDays > 0 ? `${job.guaranteePeriodDays} days` : 'None'}
+                    </div>
+                  )}
                   {job._count?.applications !== undefined && (
                     <div>
                       <span className="font-medium">Applications:</span> {job._count.applications}
                     </div>
                   )}
+                  {job.trustDomain && (
+                    <div>
+                      <span className="font-medium">Expertise Area:</span> {TRUST_DOMAIN_LABELS[job.trustDomain]}
+                    </div>
+                  )}
                   <div>
                     <span className="font-medium">Created:</span> {new Date(job.createdAt).toLocaleDateString()}
                   </div>
@@ -345,6 +390,11 @@ export default function JobDetailPage({ params }: { params: { id: string } }) {
               </div>
             </div>
           </div>
+
+          {/* Referrals */}
+          <div className="bg-white shadow rounded-lg">
+            <ReferralChainViewer jobId={job.id} />
+          </div>
         </div>
       </div>
     </div>
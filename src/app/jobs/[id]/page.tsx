@@ -62,6 +62,7 @@ export default function JobDetailPage() {
   const [hasApplied, setHasApplied] = useState(false)
   const [isApplying, setIsApplying] = useState(false)
   const [applyError, setApplyError] = useState<string | null>(null)
+  const [shareMessage, setShareMessage] = useState<string | null>(null)
   const { data: session } = useSession()
   const router = useRouter()
 
@@ -112,6 +113,30 @@ export default function JobDetailPage() {
   }
 
 
+  // Copies the user's signed share link, so forwards over text or Slack still count
+  const handleCopyShareLink = async () => {
+    if (!session?.user) {
+      router.push('/api/auth/signin')
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/jobs/${id}/share-link`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setShareMessage(data.error || 'Could not create share link')
+        return
+      }
+
+      await navigator.clipboard.writeText(data.url)
+      setShareMessage('Share link copied! Anyone who joins or refers through it is credited to you.')
+    } catch (error) {
+      console.error('Error copying share link:', error)
+      setShareMessage('Could not copy share link')
+    }
+  }
+
   const handleApply = async () => {
     if (!session?.user) {
       router.push('/api/auth/signin')
@@ -255,6 +280,12 @@ export default function JobDetailPage() {
                 </svg>
                 Forward Request
               </button>
+              <button
+                onClick={handleCopyShareLink}
+                className="px-6 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition-colors"
+              >
+                Copy Share Link
+              </button>
               <button
                 onClick={handleApply}
                 disabled={hasApplied || isApplying}
@@ -264,6 +295,7 @@ export default function JobDetailPage() {
               </button>
             </div>
             {applyError && <p className="text-red-500 text-sm mt-2 text-right">{applyError}</p>}
+            {shareMessage && <p className="text-gray-600 text-sm mt-2 text-right">{shareMessage}</p>}
           </div>
         </div>
 
@@ -10,8 +10,9 @@
 import { useState, useEffect } from 'react'
 import { useRouter, useSearchParams, useParams } from 'next/navigation'
 import { useSession } from 'next-auth/react'
+import type { PayoutPolicy } from '@prisma/client'
 import PotentialEarningsPreview from '@/components/PotentialEarningsPreview'
-import { reconstructChain } from '@/lib/referral-chain'
+import type { PayoutTrustContext } from '@/lib/payout-policies'
 
 interface Job {
   id: string
@@ -50,6 +51,8 @@ export default function JobReferralPage() {
   const [trustedContacts, setTrustedContacts] = useState<TrustedContact[]>([])
   const [loading, setLoading] = useState(true)
   const [currentChainLength, setCurrentChainLength] = useState(0)
+  const [payoutPolicy, setPayoutPolicy] = useState<PayoutPolicy>('FIXED_70_30')
+  const [payoutTrust, setPayoutTrust] = useState<PayoutTrustContext | undefined>(undefined)
   const searchParams = useSearchParams()
   const [mode, setMode] = useState<'refer-trusted' | 'refer-new' | 'delegate'>(
     (searchParams.get('mode') === 'delegate' ? 'delegate' : searchParams.get('mode') === 'refer-new' ? 'refer-new' : 'refer-trusted')
@@ -104,16 +107,16 @@ export default function JobReferralPage() {
           setTrustedContacts(contacts)
         }
 
-        // Fetch current chain length for user
-        if (session?.user?.id) {
-          try {
-            const chainPath = await reconstructChain(id, session.user.id)
-            setCurrentChainLength(chainPath.length)
-          } catch (error) {
-            console.error('Error reconstructing chain:', error)
-            // If chain reconstruction fails, assume user is at root (length 0)
-            setCurrentChainLength(0)
-          }
+        // Fetch the user's chain position and the job's payout policy
+        const previewResponse = await fetch(`/api/jobs/${id}/payout-preview`)
+        if (previewResponse.ok) {
+          const previewData = await previewResponse.json()
+          setCurrentChainLength(previewData.currentChainLength)
+          setPayoutPolicy(previewData.payoutPolicy)
+          setPayoutTrust(previewData.trust ?? undefined)
+        } else {
+          // If chain reconstruction fails, assume user is at root (length 0)
+          setCurrentChainLength(0)
         }
       } catch (error) {
         console.error('Error fetching data:', error)
@@ -505,7 +508,10 @@ export default function JobReferralPage() {
         {job?.referralBudget && (
           <PotentialEarningsPreview
             totalBudget={job.referralBudget}
+            currency={job.currency}
             currentChainLength={currentChainLength}
+            payoutPolicy={payoutPolicy}
+            trust={payoutTrust}
             showForward={mode === 'delegate'}
             showDirectReferral={mode === 'refer-trusted' || mode === 'refer-new'}
             className="mb-6"
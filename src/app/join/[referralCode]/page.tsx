@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { signIn, useSession } from 'next-auth/react'
 
 export default function JoinWithReferral() {
@@ -9,8 +9,14 @@ export default function JoinWithReferral() {
   const router = useRouter()
   const { data: session, status } = useSession()
   const referralCode = params.referralCode as string
+  // Set when this is someone's share link for a job (see lib/share-links.ts)
+  const searchParams = useSearchParams()
+  const sharedJobId = searchParams.get('job')
+  const shareSig = searchParams.get('sig')
+  const isShareLink = Boolean(sharedJobId && shareSig)
 
   const [referrerInfo, setReferrerInfo] = useState<any>(null)
+  const [sharedJob, setSharedJob] = useState<{ id: string, title: string, companyName: string } | null>(null)
   const [email, setEmail] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [message, setMessage] = useState('')
@@ -18,18 +24,26 @@ export default function JoinWithReferral() {
 
   useEffect(() => {
     if (status === 'authenticated') {
-      router.push('/dashboard')
+      if (isShareLink) {
+        claimShareLink()
+      } else {
+        router.push('/dashboard')
+      }
       return
     }
 
     // Fetch referrer info
     const fetchReferrer = async () => {
       try {
-        const response = await fetch(`/api/referral/info/${referralCode}`)
+        const query = isShareLink
+          ? `?job=${encodeURIComponent(sharedJobId!)}&sig=${encodeURIComponent(shareSig!)}`
+          : ''
+        const response = await fetch(`/api/referral/info/${referralCode}${query}`)
         const data = await response.json()
 
         if (data.referrer) {
           setReferrerInfo(data.referrer)
+          setSharedJob(data.sharedJob ?? null)
         } else {
           setMessage('Invalid referral link')
         }
@@ -42,6 +56,28 @@ export default function JoinWithReferral() {
     fetchReferrer()
   }, [referralCode, status, router])
 
+  // Signed in (or back from the magic link): record the forward, then go to the job
+  const claimShareLink = async () => {
+    try {
+      const response = await fetch(`/api/jobs/${sharedJobId}/share-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ referralCode, sig: shareSig })
+      })
+
+      if (!response.ok) {
+        router.push('/dashboard')
+        return
+      }
+
+      router.push(session?.user.isProfileComplete
+        ? `/jobs/${sharedJobId}`
+        : `/onboard?job=${encodeURIComponent(sharedJobId!)}`)
+    } catch (error) {
+      router.push('/dashboard')
+    }
+  }
+
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -61,11 +97,11 @@ export default function JoinWithReferral() {
       const data = await response.json()
 
       if (response.ok) {
-        // Now trigger the sign-in flow
+        // Now trigger the sign-in flow. Share links come back here to be claimed
         const result = await signIn('email', {
           email,
           redirect: false,
-          callbackUrl: '/onboard'
+          callbackUrl: isShareLink ? `${window.location.pathname}${window.location.search}` : '/onboard'
         })
 
         if (result?.ok) {
@@ -131,7 +167,9 @@ export default function JoinWithReferral() {
             <span className="font-medium text-indigo-600">
               {referrerInfo.firstName} {referrerInfo.lastName}
             </span>{' '}
-            invited you to join our professional referral network
+            {sharedJob
+              ? <>shared <span className="font-medium">{sharedJob.title}</span> at {sharedJob.companyName} with you</>
+              : 'invited you to join our professional referral network'}
           </p>
         </div>
 
@@ -12,6 +12,8 @@ function OnboardContent() {
   const searchParams = useSearchParams()
   const inviteToken = searchParams.get('token')
   const invitationId = searchParams.get('invitation')
+  // Joined through a job share link: go to that job when done
+  const sharedJobId = searchParams.get('job')
 
   const [formData, setFormData] = useState({
     firstName: '',
@@ -85,7 +87,7 @@ function OnboardContent() {
         // Update the session to reflect profile completion
         await update()
         setMessage('Profile completed successfully!')
-        setTimeout(() => router.push('/dashboard'), 1500)
+        setTimeout(() => router.push(sharedJobId ? `/jobs/${sharedJobId}` : '/dashboard'), 1500)
       } else {
         setMessage(data.error || 'Something went wrong')
       }
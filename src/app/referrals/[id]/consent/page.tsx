@@ -0,0 +1,262 @@
+/**
+ * REFERRAL CONSENT PAGE
+ *
+ * Where a candidate agrees to (or turns down) a referral before the hiring
+ * manager sees it. Reached from the signed link in the consent email.
+ *
+ * Flow:
+ * 1. Candidate clicks the link in their email
+ * 2. Page loads the job, who referred them and what will be shared
+ * 3. Candidate accepts (optionally editing what's shared) or declines
+ * 4. Accepted referrals go to the hiring manager
+ */
+
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
+
+type ConsentStatus = 'PENDING_CANDIDATE_ACTION' | 'ACCEPTED' | 'DECLINED'
+type ConsentDecision = 'ACCEPT' | 'DECLINE'
+
+interface ReferralConsent {
+  id: string
+  consentStatus: ConsentStatus
+  canRespond: boolean
+  respondedAt: string | null
+  referrer: { name: string }
+  job: { id: string, title: string, companyName: string }
+  shared: {
+    howYouKnow: string | null
+    notes: string | null
+    confidenceLevel: string | null
+  }
+  createdAt: string
+}
+
+function ReferralConsentContent() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const referralId = params.id as string
+  const sig = searchParams.get('sig') || ''
+
+  const [referral, setReferral] = useState<ReferralConsent | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [howYouKnow, setHowYouKnow] = useState('')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState('')
+  const [result, setResult] = useState<ConsentStatus | null>(null)
+
+  useEffect(() => {
+    const fetchReferral = async () => {
+      try {
+        const response = await fetch(`/api/referrals/${referralId}/consent?sig=${encodeURIComponent(sig)}`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setReferral(data)
+          setHowYouKnow(data.shared.howYouKnow || '')
+          setNotes(data.shared.notes || '')
+        } else {
+          setError(data.error || 'Referral not found')
+        }
+      } catch (error) {
+        console.error('Error fetching referral:', error)
+        setError('Failed to load referral details')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (referralId) {
+      fetchReferral()
+    }
+  }, [referralId, sig])
+
+  const respond = async (decision: ConsentDecision) => {
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/referrals/${referralId}/consent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sig,
+          decision,
+          ...(decision === 'ACCEPT' && editing && { howYouKnow, notes })
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setResult(data.consentStatus)
+      } else {
+        setError(data.error || 'Failed to save your answer')
+      }
+    } catch (error) {
+      console.error('Error submitting consent:', error)
+      setError('Something went wrong. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-lg text-gray-600">Loading...</div>
+      </div>
+    )
+  }
+
+  if (error && !referral) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full bg-white shadow-lg rounded-lg p-6 text-center">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">Error</h1>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (result) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full bg-white shadow-lg rounded-lg p-6 text-center">
+          <div className="text-6xl mb-4">{result === 'ACCEPTED' ? '✅' : '👋'}</div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            {result === 'ACCEPTED' ? 'Referral Accepted' : 'Referral Declined'}
+          </h1>
+          <p className="text-gray-600">
+            {result === 'ACCEPTED'
+              ? `The hiring manager for ${referral?.job.title} can now see ${referral?.referrer.name}'s referral.`
+              : `${referral?.job.companyName} won't see this referral.`}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!referral) return null
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-lg w-full bg-white shadow-lg rounded-lg p-6 space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900">Referral Request</h1>
+          <p className="mt-2 text-gray-600">
+            {referral.referrer.name} wants to refer you for <strong>{referral.job.title}</strong> at{' '}
+            <strong>{referral.job.companyName}</strong>
+          </p>
+          {referral.consentStatus !== 'PENDING_CANDIDATE_ACTION' && (
+            <p className="mt-1 text-sm text-gray-500">
+              Currently: {referral.consentStatus === 'ACCEPTED' ? 'Accepted' : 'Declined'}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-700">What the hiring manager will see</h3>
+            {referral.canRespond && !editing && (
+              <button
+                onClick={() => setEditing(true)}
+                className="text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                Edit
+              </button>
+            )}
+          </div>
+
+          {editing ? (
+            <>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">How you know {referral.referrer.name}</label>
+                <textarea
+                  value={howYouKnow}
+                  onChange={(e) => setHowYouKnow(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <div className="text-xs text-gray-500">How you know {referral.referrer.name}</div>
+                <div className="text-sm text-gray-900">{referral.shared.howYouKnow || 'Not specified'}</div>
+              </div>
+              {referral.shared.notes && (
+                <div>
+                  <div className="text-xs text-gray-500">Notes</div>
+                  <div className="text-sm text-gray-900">{referral.shared.notes}</div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div className="text-center text-sm p-3 rounded-md bg-red-50 text-red-700 border border-red-200">
+            {error}
+          </div>
+        )}
+
+        {referral.canRespond ? (
+          <div className="flex gap-3">
+            <button
+              onClick={() => respond('ACCEPT')}
+              disabled={submitting}
+              className="flex-1 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {submitting ? 'Saving...' : editing ? 'Accept with Changes' : 'Accept'}
+            </button>
+            <button
+              onClick={() => respond('DECLINE')}
+              disabled={submitting}
+              className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Decline
+            </button>
+          </div>
+        ) : (
+          <p className="text-center text-sm text-gray-500">
+            {referral.consentStatus === 'DECLINED'
+              ? 'You declined this referral.'
+              : 'The hiring manager is already reviewing this referral.'}
+          </p>
+        )}
+
+        <p className="text-center text-xs text-gray-500">
+          The hiring manager only sees referrals you accept • Clout Careers
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default function ReferralConsentPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-lg text-gray-600">Loading...</div>
+      </div>
+    }>
+      <ReferralConsentContent />
+    </Suspense>
+  )
+}
@@ -5,11 +5,13 @@
  * - Who referred them to the platform
  * - Who they have referred to the platform
  * - Their growth in the referral network
+ * - How their trust score and rank have moved over time
  */
 
 'use client'
 
 import { useState, useEffect } from 'react'
+import TrustScoreSparkline, { TrustHistoryPoint } from '@/components/TrustScoreSparkline'
 
 interface ReferralUser {
   id: string
@@ -40,6 +42,7 @@ export default function CloutJourneyCard() {
   const [showTrustModal, setShowTrustModal] = useState(false)
   const [selectedUser, setSelectedUser] = useState<ReferralUser | null>(null)
   const [trustPoints, setTrustPoints] = useState(80)
+  const [trustHistory, setTrustHistory] = useState<TrustHistoryPoint[]>([])
 
   useEffect(() => {
     const fetchJourneyData = async () => {
@@ -58,8 +61,21 @@ export default function CloutJourneyCard() {
 
     fetchJourneyData()
     fetchTrustedRelationships()
+    fetchTrustHistory()
   }, [])
 
+  const fetchTrustHistory = async () => {
+    try {
+      const response = await fetch('/api/trust-scores/history')
+      if (response.ok) {
+        const result = await response.json()
+        setTrustHistory(result.history || [])
+      }
+    } catch (error) {
+      console.error('Error fetching trust history:', error)
+    }
+  }
+
   const fetchTrustedRelationships = async () => {
     try {
       const response = await fetch('/api/user/relationships')
@@ -256,6 +272,41 @@ export default function CloutJourneyCard() {
         )}
       </div>
 
+      {/* Trust Score Trend */}
+      {trustHistory.length > 0 && (() => {
+        const first = trustHistory[0]
+        const latest = trustHistory[trustHistory.length - 1]
+        const scoreChange = latest.displayScore - first.displayScore
+        const rankChange = first.rank - latest.rank
+
+        return (
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-gray-900 mb-3">Your Trust Score Over Time</h4>
+            <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {latest.displayScore} pts · Rank #{latest.rank} of {latest.numUsers}
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    Since {new Date(first.computedAt).toLocaleDateString()}:{' '}
+                    <span className={scoreChange >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {scoreChange >= 0 ? '+' : ''}{scoreChange} pts
+                    </span>
+                    {rankChange !== 0 && (
+                      <span className={rankChange > 0 ? 'text-green-600' : 'text-red-600'}>
+                        {' '}· {rankChange > 0 ? `up ${rankChange}` : `down ${-rankChange}`} places
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <TrustScoreSparkline history={trustHistory} />
+            </div>
+          </div>
+        )
+      })()}
+
       {/* Who You've Referred */}
       <div>
         <h4 className="text-sm font-medium text-gray-900 mb-3">
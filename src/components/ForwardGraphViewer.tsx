@@ -0,0 +1,161 @@
+/**
+ * FORWARD GRAPH VIEWER COMPONENT
+ *
+ * Shows how a job spread through the network: a tree of who forwarded it
+ * to whom, with branches that produced referrals highlighted and dead
+ * ends greyed out. Forwards to someone who already had the job are listed
+ * under that person.
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { ForwardGraph, ForwardGraphNode } from '@/lib/forward-graph'
+
+interface ForwardGraphViewerProps {
+  jobId: string
+}
+
+export default function ForwardGraphViewer({ jobId }: ForwardGraphViewerProps) {
+  const [graph, setGraph] = useState<ForwardGraph | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [productiveOnly, setProductiveOnly] = useState(false)
+
+  useEffect(() => {
+    const fetchGraph = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/forward-graph`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch forward graph')
+        }
+
+        setGraph(data)
+      } catch (error) {
+        console.error('Error fetching forward graph:', error)
+        setError(error instanceof Error ? error.message : 'Failed to load forward graph')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchGraph()
+  }, [jobId])
+
+  if (loading) {
+    return <div className="p-6 text-gray-500">Loading forward graph...</div>
+  }
+
+  if (error || !graph) {
+    return <div className="p-6 text-red-600">{error || 'Forward graph not available'}</div>
+  }
+
+  const namesById = new Map(graph.nodes.map(node => [node.id, node.name]))
+  const extraSenders = new Map<string, string[]>()
+  graph.edges.filter(edge => !edge.isTreeEdge).forEach(edge => {
+    extraSenders.set(edge.toNodeId, [...(extraSenders.get(edge.toNodeId) ?? []), namesById.get(edge.fromNodeId) ?? 'Unknown User'])
+  })
+
+  const visibleNodes = productiveOnly
+    ? graph.nodes.filter(node => node.downstreamReferrals > 0)
+    : graph.nodes
+
+  const stats = [
+    { label: 'People reached', value: graph.stats.people },
+    { label: 'Forwards', value: graph.stats.forwards },
+    { label: 'Deepest chain', value: graph.stats.maxDepth },
+    { label: 'Referrals', value: graph.stats.referrals },
+    { label: 'Hires', value: graph.stats.hires },
+    { label: 'Dead ends', value: graph.stats.deadEnds }
+  ]
+
+  const getNodeStyle = (node: ForwardGraphNode) => {
+    if (node.hires > 0) return 'border-green-300 bg-green-50'
+    if (node.referrals > 0) return 'border-blue-300 bg-blue-50'
+    if (node.isDeadEnd) return 'border-gray-200 bg-gray-50 text-gray-500'
+    return 'border-gray-200 bg-white'
+  }
+
+  return (
+    <div className="p-6">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-6">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-3 bg-gray-50 rounded-lg text-center">
+            <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+            <div className="text-xs text-gray-500">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {graph.nodes.length === 0 ? (
+        <p className="text-gray-500 text-sm">Nobody has forwarded this job yet.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-sm text-gray-600">
+              {graph.stats.productiveBranches} branch{graph.stats.productiveBranches === 1 ? '' : 'es'} led to referrals
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={productiveOnly}
+                onChange={(e) => setProductiveOnly(e.target.checked)}
+              />
+              Only branches with referrals
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            {visibleNodes.map(node => (
+              <div key={node.id} style={{ marginLeft: `${node.depth * 1.5}rem` }}>
+                <div className={`flex items-center justify-between p-2 border rounded-md text-sm ${getNodeStyle(node)}`}>
+                  <div className="flex items-center gap-2">
+                    {node.depth > 0 && <span className="text-gray-400">↳</span>}
+                    <span className="font-medium">{node.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {node.receivedAt
+                        ? `received ${new Date(node.receivedAt).toLocaleDateString()}`
+                        : 'started here'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    {node.forwardedTo > 0 && (
+                      <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                        forwarded to {node.forwardedTo}
+                      </span>
+                    )}
+                    {node.referrals > 0 && (
+                      <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-700">
+                        {node.referrals} referral{node.referrals === 1 ? '' : 's'}
+                      </span>
+                    )}
+                    {node.hires > 0 && (
+                      <span className="px-2 py-0.5 rounded bg-green-100 text-green-700">
+                        {node.hires} hired
+                      </span>
+                    )}
+                    {node.downstreamReferrals > node.referrals && (
+                      <span className="px-2 py-0.5 rounded bg-purple-100 text-purple-700">
+                        {node.downstreamReferrals - node.referrals} downstream
+                      </span>
+                    )}
+                    {node.isDeadEnd && (
+                      <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-500">dead end</span>
+                    )}
+                  </div>
+                </div>
+                {extraSenders.has(node.id) && (
+                  <div className="ml-6 mt-0.5 text-xs text-gray-500">
+                    Also forwarded by {extraSenders.get(node.id)!.join(', ')}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
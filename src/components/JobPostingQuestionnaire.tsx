@@ -16,6 +16,27 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
+import type { ChainAttribution, DuplicateReferralPolicy, PathWeighting, PayoutPolicy, TrustDomain } from '@prisma/client'
+import { TRUST_DOMAINS, TRUST_DOMAIN_LABELS } from '@/lib/trust-domains'
+import {
+  DEFAULT_GUARANTEE_PERIOD_DAYS,
+  MAX_GUARANTEE_PERIOD_DAYS,
+  PAYOUT_POLICIES,
+  PAYOUT_POLICY_DESCRIPTIONS,
+  PAYOUT_POLICY_LABELS
+} from '@/lib/payout-policies'
+import {
+  CHAIN_ATTRIBUTIONS,
+  CHAIN_ATTRIBUTION_DESCRIPTIONS,
+  CHAIN_ATTRIBUTION_LABELS,
+  PATH_WEIGHTINGS,
+  PATH_WEIGHTING_LABELS
+} from '@/lib/chain-attribution'
+import {
+  DUPLICATE_REFERRAL_POLICIES,
+  DUPLICATE_REFERRAL_POLICY_DESCRIPTIONS,
+  DUPLICATE_REFERRAL_POLICY_LABELS
+} from '@/lib/duplicate-referrals'
 
 type LocationType = 'REMOTE' | 'HYBRID' | 'IN_PERSON'
 type ReferralPreference = 'MANUAL_SCREEN' | 'AUTO_EMAIL' | 'CONFIDENCE_BASED'
@@ -32,6 +53,7 @@ interface JobFormData {
   equityRange: string
   organizationDescription: string
   dayToDayDescription: string
+  trustDomain: TrustDomain | ''
 
   // Section 2: What You're Really Looking For
   archetypes: string
@@ -57,6 +79,11 @@ interface JobFormData {
   // Section 7: Referral Budget
   referralBudget: number | ''
   referralPreference: ReferralPreference
+  payoutPolicy: PayoutPolicy
+  guaranteePeriodDays: number | ''
+  chainAttribution: ChainAttribution
+  pathWeighting: PathWeighting
+  duplicateReferralPolicy: DuplicateReferralPolicy
 }
 
 const initialFormData: JobFormData = {
@@ -70,6 +97,7 @@ const initialFormData: JobFormData = {
   equityRange: '',
   organizationDescription: '',
   dayToDayDescription: '',
+  trustDomain: '',
   archetypes: '',
   nonWorkSignals: '',
   flexibleRequirements: [],
@@ -82,7 +110,12 @@ const initialFormData: JobFormData = {
   growthPath: '',
   mustHaves: '',
   referralBudget: '',
-  referralPreference: 'MANUAL_SCREEN'
+  referralPreference: 'MANUAL_SCREEN',
+  payoutPolicy: 'FIXED_70_30',
+  guaranteePeriodDays: DEFAULT_GUARANTEE_PERIOD_DAYS,
+  chainAttribution: 'EARLIEST_FORWARD',
+  pathWeighting: 'EQUAL',
+  duplicateReferralPolicy: 'FIRST_WINS'
 }
 
 interface JobPostingQuestionnaireProps {
@@ -123,6 +156,7 @@ export default function JobPostingQuestionnaire({ jobId, onComplete, initialData
               equityRange: job.equityRange || '',
               organizationDescription: job.organizationDescription || '',
               dayToDayDescription: job.dayToDayDescription || '',
+              trustDomain: job.trustDomain || '',
               archetypes: job.archetypes || '',
               nonWorkSignals: job.nonWorkSignals || '',
               flexibleRequirements: job.flexibleRequirements || [],
@@ -135,7 +169,12 @@ export default function JobPostingQuestionnaire({ jobId, onComplete, initialData
               growthPath: job.growthPath || '',
               mustHaves: job.mustHaves || '',
               referralBudget: job.referralBudget || '',
-              referralPreference: job.referralPreference || 'MANUAL_SCREEN'
+              referralPreference: job.referralPreference || 'MANUAL_SCREEN',
+              payoutPolicy: job.payoutPolicy || 'FIXED_70_30',
+              guaranteePeriodDays: job.guaranteePeriodDays ?? DEFAULT_GUARANTEE_PERIOD_DAYS,
+              chainAttribution: job.chainAttribution || 'EARLIEST_FORWARD',
+              pathWeighting: job.pathWeighting || 'EQUAL',
+              duplicateReferralPolicy: job.duplicateReferralPolicy || 'FIRST_WINS'
             })
           }
         } catch (error) {
@@ -337,6 +376,26 @@ export default function JobPostingQuestionnaire({ jobId, onComplete, initialData
         )}
       </div>
 
+      {/* Trust Domain */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Which area of expertise is this role in?
+        </label>
+        <select
+          value={formData.trustDomain}
+          onChange={(e) => updateFormData({ trustDomain: e.target.value as TrustDomain | '' })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">General</option>
+          {TRUST_DOMAINS.map(domain => (
+            <option key={domain} value={domain}>{TRUST_DOMAIN_LABELS[domain]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Referrers are ranked by how much the network trusts their judgment in this area
+        </p>
+      </div>
+
       {/* Compensation */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -890,6 +949,92 @@ export default function JobPostingQuestionnaire({ jobId, onComplete, initialData
         </div>
       </div>
 
+      {/* Payout policy */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          How should the budget be split along a referral chain?
+        </label>
+        <select
+          value={formData.payoutPolicy}
+          onChange={(e) => updateFormData({ payoutPolicy: e.target.value as PayoutPolicy })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          {PAYOUT_POLICIES.map(policy => (
+            <option key={policy} value={policy}>{PAYOUT_POLICY_LABELS[policy]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {PAYOUT_POLICY_DESCRIPTIONS[formData.payoutPolicy]}
+        </p>
+      </div>
+
+      {/* Chain attribution */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          If the referrer heard about the job from more than one person, who gets credit?
+        </label>
+        <select
+          value={formData.chainAttribution}
+          onChange={(e) => updateFormData({ chainAttribution: e.target.value as ChainAttribution })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          {CHAIN_ATTRIBUTIONS.map(mode => (
+            <option key={mode} value={mode}>{CHAIN_ATTRIBUTION_LABELS[mode]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {CHAIN_ATTRIBUTION_DESCRIPTIONS[formData.chainAttribution]}
+        </p>
+        {formData.chainAttribution === 'ALL_PATHS' && (
+          <select
+            value={formData.pathWeighting}
+            onChange={(e) => updateFormData({ pathWeighting: e.target.value as PathWeighting })}
+            className="mt-2 w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {PATH_WEIGHTINGS.map(weighting => (
+              <option key={weighting} value={weighting}>{PATH_WEIGHTING_LABELS[weighting]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Duplicate referrals */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          If two people refer the same candidate, who gets credit?
+        </label>
+        <select
+          value={formData.duplicateReferralPolicy}
+          onChange={(e) => updateFormData({ duplicateReferralPolicy: e.target.value as DuplicateReferralPolicy })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          {DUPLICATE_REFERRAL_POLICIES.map(policy => (
+            <option key={policy} value={policy}>{DUPLICATE_REFERRAL_POLICY_LABELS[policy]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {DUPLICATE_REFERRAL_POLICY_DESCRIPTIONS[formData.duplicateReferralPolicy]}
+        </p>
+      </div>
+
+      {/* Guarantee period */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Guarantee period (days the hire must stay before referrers are paid)
+        </label>
+        <input
+          type="number"
+          value={formData.guaranteePeriodDays}
+          onChange={(e) => updateFormData({ guaranteePeriodDays: e.target.value ? parseInt(e.target.value) : '' })}
+          className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          min="0"
+          max={MAX_GUARANTEE_PERIOD_DAYS}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          If the hire leaves early, you can cancel or prorate the chain&apos;s payouts. Use 0 to pay on hire.
+        </p>
+      </div>
+
       {/* Referral preferences */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1010,6 +1155,23 @@ export default function JobPostingQuestionnaire({ jobId, onComplete, initialData
                   {formData.currency} {formData.referralBudget.toLocaleString()}
                 </div>
               )}
+              <div>
+                <span className="font-medium text-gray-700">Payout Split:</span>{' '}
+                {PAYOUT_POLICY_LABELS[formData.payoutPolicy]}
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">Chain Credit:</span>{' '}
+                {CHAIN_ATTRIBUTION_LABELS[formData.chainAttribution]}
+                {formData.chainAttribution === 'ALL_PATHS' && ` (${PATH_WEIGHTING_LABELS[formData.pathWeighting]})`}
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">Duplicate Referrals:</span>{' '}
+                {DUPLICATE_REFERRAL_POLICY_LABELS[formData.duplicateReferralPolicy]}
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">Guarantee Period:</span>{' '}
+                {formData.guaranteePeriodDays ? `${formData.guaranteePeriodDays} days` : 'None (paid on hire)'}
+              </div>
             </div>
           </div>
 
@@ -8,6 +8,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import TrustScoreSparkline, { TrustHistoryPoint } from '@/components/TrustScoreSparkline'
 
 interface NetworkNode {
   rank: number
@@ -18,6 +19,7 @@ interface NetworkNode {
   displayScore: number
   isAdmin: boolean
   influencePercentage: string
+  rankChange: number | null  // Positions moved since the previous computation
 }
 
 interface ComputationInfo {
@@ -37,6 +39,8 @@ export default function NetworkInfluenceChart() {
   const [data, setData] = useState<NetworkInfluenceData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null)
+  const [histories, setHistories] = useState<Record<string, TrustHistoryPoint[]>>({})
 
   useEffect(() => {
     fetchNetworkInfluence()
@@ -63,6 +67,36 @@ export default function NetworkInfluenceChart() {
     }
   }
 
+  const toggleHistory = async (userId: string) => {
+    if (expandedUserId === userId) {
+      setExpandedUserId(null)
+      return
+    }
+
+    setExpandedUserId(userId)
+    if (histories[userId]) return
+
+    try {
+      const response = await fetch(`/api/trust-scores/history?userId=${userId}`)
+      const result = await response.json()
+
+      if (response.ok) {
+        setHistories(prev => ({ ...prev, [userId]: result.history }))
+      }
+    } catch (error) {
+      console.error('Trust history fetch error:', error)
+    }
+  }
+
+  const getRankChange = (rankChange: number | null) => {
+    if (rankChange === null || rankChange === 0) return null
+    return rankChange > 0 ? (
+      <span className="text-xs font-medium text-green-600">▲ {rankChange}</span>
+    ) : (
+      <span className="text-xs font-medium text-red-600">▼ {-rankChange}</span>
+    )
+  }
+
   const getRankColor = (rank: number) => {
     if (rank === 1) return 'text-yellow-600 bg-yellow-50'
     if (rank === 2) return 'text-gray-600 bg-gray-50'
@@ -153,7 +187,11 @@ export default function NetworkInfluenceChart() {
       <div className="max-h-96 overflow-y-auto">
         <div className="divide-y divide-gray-200">
           {data.networkInfluence.map((node) => (
-            <div key={node.userId} className="px-6 py-4 hover:bg-gray-50">
+            <div
+              key={node.userId}
+              className="px-6 py-4 hover:bg-gray-50 cursor-pointer"
+              onClick={() => toggleHistory(node.userId)}
+            >
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-4 flex-1">
                   <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${getRankColor(node.rank)}`}>
@@ -165,6 +203,7 @@ export default function NetworkInfluenceChart() {
                       <p className="text-sm font-medium text-gray-900 truncate">
                         {node.displayName}
                       </p>
+                      {getRankChange(node.rankChange)}
                       {node.isAdmin && (
                         <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                           Admin
@@ -188,6 +227,16 @@ export default function NetworkInfluenceChart() {
                   </div>
                 </div>
               </div>
+
+              {expandedUserId === node.userId && (
+                <div className="mt-3 ml-12">
+                  {histories[node.userId] ? (
+                    <TrustScoreSparkline history={histories[node.userId]} width={320} />
+                  ) : (
+                    <p className="text-xs text-gray-500">Loading history...</p>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
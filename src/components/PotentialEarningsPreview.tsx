@@ -2,16 +2,22 @@
  * POTENTIAL EARNINGS PREVIEW COMPONENT
  *
  * Shows users their potential payout based on their position in the referral chain
- * when they're about to forward a job or make a direct referral
+ * when they're about to forward a job or make a direct referral. Uses the
+ * job's payout policy, so the preview matches what the hire actually pays.
  */
 
 'use client'
 
-import { calculateMaxPayout } from '@/lib/referral-chain'
+import type { PayoutPolicy } from '@prisma/client'
+import { calculateMaxPayout, PayoutTrustContext, PAYOUT_POLICY_DESCRIPTIONS } from '@/lib/payout-policies'
+import { formatMoney } from '@/lib/money'
 
 interface PotentialEarningsPreviewProps {
   totalBudget: number
+  currency?: string
   currentChainLength: number
+  payoutPolicy?: PayoutPolicy
+  trust?: PayoutTrustContext  // Needed for TRUST_WEIGHTED
   showForward?: boolean
   showDirectReferral?: boolean
   className?: string
@@ -19,13 +25,16 @@ interface PotentialEarningsPreviewProps {
 
 export default function PotentialEarningsPreview({
   totalBudget,
+  currency = 'USD',
   currentChainLength,
+  payoutPolicy = 'FIXED_70_30',
+  trust,
   showForward = true,
   showDirectReferral = true,
   className = ''
 }: PotentialEarningsPreviewProps) {
-  const forwardPayout = showForward ? calculateMaxPayout(totalBudget, currentChainLength, false) : null
-  const directPayout = showDirectReferral ? calculateMaxPayout(totalBudget, currentChainLength, true) : null
+  const forwardPayout = showForward ? calculateMaxPayout(totalBudget, currentChainLength, false, payoutPolicy, trust, currency) : null
+  const directPayout = showDirectReferral ? calculateMaxPayout(totalBudget, currentChainLength, true, payoutPolicy, trust, currency) : null
 
   return (
     <div className={`p-4 bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-lg ${className}`}>
@@ -45,7 +54,7 @@ export default function PotentialEarningsPreview({
             </div>
             <div className="text-right">
               <div className="text-lg font-bold text-green-600">
-                ${directPayout.maxAmount.toLocaleString()}
+                {formatMoney(directPayout.maxAmount, currency)}
               </div>
               <div className="text-sm text-gray-500">{directPayout.percentage}% of budget</div>
             </div>
@@ -60,9 +69,11 @@ export default function PotentialEarningsPreview({
             </div>
             <div className="text-right">
               <div className="text-lg font-bold text-blue-600">
-                ${forwardPayout.maxAmount.toLocaleString()}
+                {forwardPayout.estimated && '≈ '}{formatMoney(forwardPayout.maxAmount, currency)}
+              </div>
+              <div className="text-sm text-gray-500">
+                {forwardPayout.percentage}% of budget{forwardPayout.estimated && ' (estimate)'}
               </div>
-              <div className="text-sm text-gray-500">{forwardPayout.percentage}% of budget</div>
             </div>
           </div>
         )}
@@ -71,10 +82,10 @@ export default function PotentialEarningsPreview({
       <div className="mt-3 pt-3 border-t border-gray-200">
         <div className="text-xs text-gray-600">
           <div className="mb-1">
-            <strong>Payment Model:</strong> Direct referrer gets 70% • Chain members share 30%
+            <strong>Payment Model:</strong> {PAYOUT_POLICY_DESCRIPTIONS[payoutPolicy]}
           </div>
           <div>
-            Job budget: ${totalBudget.toLocaleString()} • Current chain length: {currentChainLength}
+            Job budget: {formatMoney(totalBudget, currency)} • Current chain length: {currentChainLength}
           </div>
         </div>
       </div>
@@ -87,22 +98,28 @@ export default function PotentialEarningsPreview({
  */
 interface CompactEarningsProps {
   totalBudget: number
+  currency?: string
   currentChainLength: number
   isDirectReferral: boolean
+  payoutPolicy?: PayoutPolicy
+  trust?: PayoutTrustContext
   className?: string
 }
 
 export function CompactEarningsPreview({
   totalBudget,
+  currency = 'USD',
   currentChainLength,
   isDirectReferral,
+  payoutPolicy = 'FIXED_70_30',
+  trust,
   className = ''
 }: CompactEarningsProps) {
-  const payout = calculateMaxPayout(totalBudget, currentChainLength, isDirectReferral)
+  const payout = calculateMaxPayout(totalBudget, currentChainLength, isDirectReferral, payoutPolicy, trust, currency)
 
   return (
     <div className={`inline-flex items-center gap-2 px-2 py-1 bg-green-50 text-green-700 rounded text-sm ${className}`}>
-      <span className="font-medium">Max payout: ${payout.maxAmount.toLocaleString()}</span>
+      <span className="font-medium">Max payout: {payout.estimated && '≈ '}{formatMoney(payout.maxAmount, currency)}</span>
       <span className="text-xs opacity-75">({payout.percentage}%)</span>
     </div>
   )
@@ -7,6 +7,18 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import type { DuplicateReferralPolicy, DuplicateResolution, PayoutPolicy, ReferralStatus, TrustDomain } from '@prisma/client'
+import { TRUST_DOMAINS, TRUST_DOMAIN_LABELS } from '@/lib/trust-domains'
+import { PAYOUT_POLICY_DESCRIPTIONS, PAYOUT_POLICY_LABELS } from '@/lib/payout-policies'
+import { formatMoney, fromMinorUnits } from '@/lib/money'
+import { isTerminalStatus, REFERRAL_STATUS_LABELS, REFERRAL_STATUS_TRANSITIONS } from '@/lib/referral-status'
+import {
+  DUPLICATE_DECISIONS,
+  DUPLICATE_DECISION_LABELS,
+  DUPLICATE_REFERRAL_POLICY_LABELS,
+  DUPLICATE_RESOLUTION_LABELS,
+  DuplicateDecision
+} from '@/lib/duplicate-referrals'
 
 interface ChainNode {
   id: string
@@ -14,10 +26,20 @@ interface ChainNode {
   email: string
 }
 
+interface StatusChange {
+  id: string
+  fromStatus: ReferralStatus | null
+  toStatus: ReferralStatus
+  note: string | null
+  createdAt: string
+  changedBy: { id: string, name: string } | null
+}
+
 interface PaymentSplit {
   nodeId: string
   name: string
   amount: number
+  amountMinorUnits: number
 }
 
 interface Referral {
@@ -26,9 +48,14 @@ interface Referral {
   howYouKnow: string
   confidenceLevel: string
   notes: string
-  status: string
+  status: ReferralStatus
   chainDepth: number
   createdAt: string
+  settledAt: string | null
+  guaranteeEndsAt: string | null
+  departedAt: string | null
+  duplicateOfId: string | null
+  duplicateResolution: DuplicateResolution | null
   chain: ChainNode[]
   candidate?: {
     firstName?: string
@@ -40,6 +67,12 @@ interface Referral {
     lastName?: string
     email: string
   }
+  referrerTrust: {
+    trustScore: number
+    displayScore: number
+    rank: number
+    domain: TrustDomain | null  // null = global score (no domain scores yet)
+  } | null
 }
 
 interface ReferralChainViewerProps {
@@ -51,18 +84,42 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
   const [loading, setLoading] = useState(true)
   const [selectedReferral, setSelectedReferral] = useState<string | null>(null)
   const [paymentSplits, setPaymentSplits] = useState<PaymentSplit[]>([])
+  const [payoutPolicy, setPayoutPolicy] = useState<PayoutPolicy>('FIXED_70_30')
+  const [currency, setCurrency] = useState('USD')
+  const [attributionPaths, setAttributionPaths] = useState(0)
+  const [directReferrerIds, setDirectReferrerIds] = useState<string[]>([])
   const [paymentAmount, setPaymentAmount] = useState(10000)
+  const [settlementMessage, setSettlementMessage] = useState('')
+  const [departureFor, setDepartureFor] = useState<string | null>(null)
+  const [departedAt, setDepartedAt] = useState('')
+  const [clawbackMode, setClawbackMode] = useState<'CANCEL' | 'PRORATE'>('PRORATE')
+  const [departureReason, setDepartureReason] = useState('')
+  const [departureMessage, setDepartureMessage] = useState<{ referralId: string, text: string } | null>(null)
+  const [statusNotes, setStatusNotes] = useState<Record<string, string>>({})
+  const [statusError, setStatusError] = useState<{ referralId: string, text: string } | null>(null)
+  const [timelineFor, setTimelineFor] = useState<string | null>(null)
+  const [timeline, setTimeline] = useState<StatusChange[]>([])
+  const [domain, setDomain] = useState<TrustDomain | 'GENERAL' | ''>('')  // '' = job's domain
+  const [sortByTrust, setSortByTrust] = useState(false)
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicateReferralPolicy>('FIRST_WINS')
+  const [duplicateError, setDuplicateError] = useState<{ referralId: string, text: string } | null>(null)
 
   useEffect(() => {
     fetchReferrals()
-  }, [jobId])
+  }, [jobId, domain, sortByTrust])
 
   const fetchReferrals = async () => {
     try {
-      const response = await fetch(`/api/jobs/${jobId}/referrals`)
+      const query = new URLSearchParams()
+      if (domain) query.set('domain', domain)
+      if (sortByTrust) query.set('sort', 'trust')
+
+      const response = await fetch(`/api/jobs/${jobId}/referrals?${query}`)
       if (response.ok) {
         const data = await response.json()
         setReferrals(data.referrals)
+        setDuplicatePolicy(data.duplicateReferralPolicy)
+        if (!domain) setDomain(data.domain ?? 'GENERAL')
       }
     } catch (error) {
       console.error('Error fetching referrals:', error)
@@ -71,31 +128,110 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
     }
   }
 
-  const updateReferralStatus = async (referralId: string, status: string) => {
+  const updateReferralStatus = async (referralId: string, status: ReferralStatus) => {
     try {
+      setStatusError(null)
       const response = await fetch(`/api/referrals/${referralId}/status`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status })
+        body: JSON.stringify({ status, note: statusNotes[referralId] })
       })
 
-      if (response.ok) {
-        await fetchReferrals()
-        if (status === 'HIRED') {
-          calculatePaymentSplits(referralId)
-        }
+      const data = await response.json()
+
+      if (!response.ok) {
+        setStatusError({ referralId, text: data.error || 'Failed to update status' })
+        return
+      }
+
+      setStatusNotes(notes => ({ ...notes, [referralId]: '' }))
+      await fetchReferrals()
+      if (timelineFor === referralId) {
+        fetchTimeline(referralId)
+      }
+      if (status === 'HIRED') {
+        calculatePaymentSplits(referralId)
+      }
+      if (data.settlement) {
+        setSettlementMessage(data.settlement.settled
+          ? `Payouts recorded for ${data.settlement.payouts.length} chain members (${formatMoney(data.settlement.totalAmount, data.settlement.currency)})`
+          : 'Payouts for this hire were already recorded')
       }
     } catch (error) {
       console.error('Error updating referral status:', error)
     }
   }
 
+  const resolveDuplicate = async (referralId: string, decision: DuplicateDecision) => {
+    try {
+      setDuplicateError(null)
+      const response = await fetch(`/api/referrals/${referralId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        setDuplicateError({ referralId, text: data.error || 'Failed to resolve duplicate' })
+        return
+      }
+
+      await fetchReferrals()
+    } catch (error) {
+      console.error('Error resolving duplicate referral:', error)
+    }
+  }
+
+  const fetchTimeline = async (referralId: string) => {
+    try {
+      const response = await fetch(`/api/referrals/${referralId}/timeline`)
+      if (response.ok) {
+        const data = await response.json()
+        setTimeline(data.timeline)
+        setTimelineFor(referralId)
+      }
+    } catch (error) {
+      console.error('Error fetching referral timeline:', error)
+    }
+  }
+
+  const reportDeparture = async (referralId: string) => {
+    try {
+      const response = await fetch(`/api/referrals/${referralId}/departure`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ departedAt, mode: clawbackMode, reason: departureReason })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setDepartureMessage({ referralId, text: data.error || 'Failed to report departure' })
+        return
+      }
+
+      setDepartureMessage({
+        referralId,
+        text: `${data.message}: ${formatMoney(data.departure.clawedBack, data.departure.currency)} clawed back`
+      })
+      setDepartureFor(null)
+      await fetchReferrals()
+    } catch (error) {
+      console.error('Error reporting departure:', error)
+    }
+  }
+
   const calculatePaymentSplits = async (referralId: string) => {
     try {
       const response = await fetch(`/api/referrals/${referralId}/payment-splits?amount=${paymentAmount}`)
       if (response.ok) {
         const data = await response.json()
         setPaymentSplits(data.splits)
+        setPayoutPolicy(data.payoutPolicy)
+        setCurrency(data.currency)
+        setAttributionPaths(data.attribution?.paths.length ?? 0)
+        setDirectReferrerIds(data.directReferrerIds ?? [])
         setSelectedReferral(referralId)
       }
     } catch (error) {
@@ -108,23 +244,13 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
       case 'PENDING': return 'bg-yellow-100 text-yellow-800'
       case 'SCREENING': return 'bg-blue-100 text-blue-800'
       case 'INTERVIEWING': return 'bg-purple-100 text-purple-800'
+      case 'OFFERED': return 'bg-teal-100 text-teal-800'
       case 'HIRED': return 'bg-green-100 text-green-800'
       case 'REJECTED': return 'bg-red-100 text-red-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
 
-  const getStatusDisplayName = (status: string) => {
-    switch (status) {
-      case 'PENDING': return 'Awaiting Response'
-      case 'SCREENING': return 'Interview Scheduled'
-      case 'INTERVIEWING': return 'Interviewing'
-      case 'HIRED': return 'Hired'
-      case 'REJECTED': return 'Rejected'
-      default: return status
-    }
-  }
-
   const getConfidenceColor = (level: string) => {
     switch (level) {
       case 'high': return 'text-green-600'
@@ -157,13 +283,41 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
     )
   }
 
+  // Duplicates are shown under the referral they duplicate
+  const originals = referrals.filter(referral => !referral.duplicateOfId)
+  const pendingDuplicates = referrals.filter(referral => referral.duplicateResolution === 'PENDING').length
+
   return (
     <div className="p-6">
       <div className="flex items-center justify-between mb-6">
-        <h3 className="text-lg font-semibold text-gray-900">
-          Referral Chains ({referrals.length})
-        </h3>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Referral Chains ({originals.length})
+          </h3>
+          <div className="text-xs text-gray-500">
+            Duplicate referrals: {DUPLICATE_REFERRAL_POLICY_LABELS[duplicatePolicy]}
+          </div>
+        </div>
         <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600">Referrer trust in:</label>
+          <select
+            value={domain}
+            onChange={(e) => setDomain(e.target.value as TrustDomain | 'GENERAL')}
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            <option value="GENERAL">General</option>
+            {TRUST_DOMAINS.map(option => (
+              <option key={option} value={option}>{TRUST_DOMAIN_LABELS[option]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-gray-600 mr-4">
+            <input
+              type="checkbox"
+              checked={sortByTrust}
+              onChange={(e) => setSortByTrust(e.target.checked)}
+            />
+            Rank by trust
+          </label>
           <label className="text-sm text-gray-600">Payment Amount:</label>
           <input
             type="number"
@@ -174,8 +328,14 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
         </div>
       </div>
 
+      {pendingDuplicates > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {pendingDuplicates} candidate{pendingDuplicates === 1 ? ' was' : 's were'} referred more than once and need{pendingDuplicates === 1 ? 's' : ''} your decision below
+        </div>
+      )}
+
       <div className="space-y-4">
-        {referrals.map((referral) => (
+        {originals.map((referral) => (
           <div key={referral.id} className="border border-gray-200 rounded-lg p-4">
             {/* Header */}
             <div className="flex items-start justify-between mb-3">
@@ -186,11 +346,22 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
                 </div>
                 <div className="text-sm text-gray-600">
                   Referred by {referral.referrerNode.firstName} {referral.referrerNode.lastName}
+                  {referral.referrerTrust && (
+                    <span
+                      className="ml-2 px-2 py-0.5 text-xs rounded bg-indigo-50 text-indigo-700"
+                      title={referral.referrerTrust.domain
+                        ? `${TRUST_DOMAIN_LABELS[referral.referrerTrust.domain]} trust`
+                        : 'General trust (no domain-specific trust yet)'}
+                    >
+                      {referral.referrerTrust.domain ? TRUST_DOMAIN_LABELS[referral.referrerTrust.domain] : 'Trust'}{' '}
+                      {referral.referrerTrust.displayScore} · #{referral.referrerTrust.rank}
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-2">
                 <span className={`px-2 py-1 text-xs rounded-full ${getStatusColor(referral.status)}`}>
-                  {getStatusDisplayName(referral.status)}
+                  {REFERRAL_STATUS_LABELS[referral.status] ?? referral.status}
                 </span>
                 <span className={`text-sm font-medium ${getConfidenceColor(referral.confidenceLevel)}`}>
                   {referral.confidenceLevel} confidence
@@ -231,20 +402,86 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
               )}
             </div>
 
+            {/* Duplicate referrals of the same candidate */}
+            {referrals.filter(duplicate => duplicate.duplicateOfId === referral.id).map(duplicate => (
+              <div key={duplicate.id} className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="text-gray-700">
+                      Also referred by {duplicate.referrerNode.firstName} {duplicate.referrerNode.lastName}
+                      <span className="text-gray-500 ml-2">{new Date(duplicate.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {duplicate.chain.map(node => node.name).join(' → ')}
+                    </div>
+                    {duplicate.howYouKnow && (
+                      <div className="text-gray-600 mt-1">{duplicate.howYouKnow}</div>
+                    )}
+                  </div>
+                  {duplicate.duplicateResolution && (
+                    <span className={`px-2 py-0.5 text-xs rounded-full ${
+                      duplicate.duplicateResolution === 'PENDING'
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : duplicate.duplicateResolution === 'SHARED'
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {DUPLICATE_RESOLUTION_LABELS[duplicate.duplicateResolution]}
+                    </span>
+                  )}
+                </div>
+
+                {duplicate.duplicateResolution === 'PENDING' && (
+                  <div className="flex items-center gap-2 mt-2">
+                    {DUPLICATE_DECISIONS.map(decision => (
+                      <button
+                        key={decision}
+                        onClick={() => resolveDuplicate(duplicate.id, decision)}
+                        disabled={decision === 'USE_DUPLICATE' && referral.status !== 'PENDING'}
+                        className="px-3 py-1 text-xs bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        {DUPLICATE_DECISION_LABELS[decision]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {duplicateError?.referralId === duplicate.id && (
+                  <div className="mt-2 text-red-600">{duplicateError.text}</div>
+                )}
+              </div>
+            ))}
+
             {/* Actions */}
             <div className="flex items-center gap-2 pt-3 border-t border-gray-100">
               <select
                 value={referral.status}
-                onChange={(e) => updateReferralStatus(referral.id, e.target.value)}
-                className="px-3 py-1 text-sm border border-gray-300 rounded"
+                onChange={(e) => updateReferralStatus(referral.id, e.target.value as ReferralStatus)}
+                disabled={isTerminalStatus(referral.status)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded disabled:bg-gray-50"
               >
-                <option value="PENDING">Awaiting Response</option>
-                <option value="REJECTED">Rejected</option>
-                <option value="SCREENING">Interview Scheduled</option>
-                <option value="INTERVIEWING">Interviewing</option>
-                <option value="HIRED">Hired</option>
+                {[referral.status, ...REFERRAL_STATUS_TRANSITIONS[referral.status]].map(status => (
+                  <option key={status} value={status}>{REFERRAL_STATUS_LABELS[status]}</option>
+                ))}
               </select>
 
+              {!isTerminalStatus(referral.status) && (
+                <input
+                  type="text"
+                  value={statusNotes[referral.id] ?? ''}
+                  onChange={(e) => setStatusNotes(notes => ({ ...notes, [referral.id]: e.target.value }))}
+                  placeholder="Note for the change (optional)"
+                  className="px-2 py-1 text-sm border border-gray-300 rounded w-56"
+                />
+              )}
+
+              <button
+                onClick={() => timelineFor === referral.id ? setTimelineFor(null) : fetchTimeline(referral.id)}
+                className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+              >
+                {timelineFor === referral.id ? 'Hide History' : 'History'}
+              </button>
+
               {referral.status === 'HIRED' && (
                 <button
                   onClick={() => calculatePaymentSplits(referral.id)}
@@ -253,22 +490,119 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
                   Calculate Payments
                 </button>
               )}
+
+              {referral.guaranteeEndsAt && !referral.departedAt && new Date(referral.guaranteeEndsAt) > new Date() && (
+                <button
+                  onClick={() => {
+                    setDepartureFor(departureFor === referral.id ? null : referral.id)
+                    setDepartureMessage(null)
+                  }}
+                  className="px-3 py-1 text-sm bg-white border border-red-300 text-red-700 rounded hover:bg-red-50"
+                >
+                  Report Early Departure
+                </button>
+              )}
             </div>
 
+            {statusError?.referralId === referral.id && (
+              <div className="mt-2 text-sm text-red-600">{statusError.text}</div>
+            )}
+
+            {/* Status timeline */}
+            {timelineFor === referral.id && (
+              <ol className="mt-3 border-l-2 border-gray-200 pl-4 space-y-2">
+                {timeline.length === 0 && (
+                  <li className="text-sm text-gray-500">No status changes recorded</li>
+                )}
+                {timeline.map(change => (
+                  <li key={change.id} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${getStatusColor(change.toStatus)}`}>
+                        {REFERRAL_STATUS_LABELS[change.toStatus]}
+                      </span>
+                      <span className="text-gray-500 text-xs">
+                        {new Date(change.createdAt).toLocaleString()}
+                        {change.changedBy && ` · ${change.changedBy.name}`}
+                        {change.fromStatus && ` · from ${REFERRAL_STATUS_LABELS[change.fromStatus]}`}
+                      </span>
+                    </div>
+                    {change.note && <div className="text-gray-600 mt-0.5">{change.note}</div>}
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {/* Guarantee period */}
+            {referral.guaranteeEndsAt && (
+              <div className="mt-2 text-xs text-gray-600">
+                {referral.departedAt
+                  ? `Left on ${new Date(referral.departedAt).toLocaleDateString()}, during the guarantee period`
+                  : new Date(referral.guaranteeEndsAt) > new Date()
+                    ? `Payouts held until ${new Date(referral.guaranteeEndsAt).toLocaleDateString()} (guarantee period)`
+                    : 'Guarantee period complete'}
+              </div>
+            )}
+
+            {departureFor === referral.id && (
+              <div className="mt-3 p-3 bg-red-50 rounded-lg space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <label className="text-gray-700">Last day:</label>
+                  <input
+                    type="date"
+                    value={departedAt}
+                    onChange={(e) => setDepartedAt(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  />
+                  <select
+                    value={clawbackMode}
+                    onChange={(e) => setClawbackMode(e.target.value as 'CANCEL' | 'PRORATE')}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  >
+                    <option value="PRORATE">Prorate payouts</option>
+                    <option value="CANCEL">Cancel payouts</option>
+                  </select>
+                </div>
+                <input
+                  type="text"
+                  value={departureReason}
+                  onChange={(e) => setDepartureReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  className="w-full px-2 py-1 border border-gray-300 rounded"
+                />
+                <button
+                  onClick={() => reportDeparture(referral.id)}
+                  disabled={!departedAt}
+                  className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                  Confirm Departure
+                </button>
+              </div>
+            )}
+
+            {departureMessage?.referralId === referral.id && (
+              <div className="mt-2 text-sm text-gray-700">{departureMessage.text}</div>
+            )}
+
             {/* Payment Splits */}
             {selectedReferral === referral.id && paymentSplits.length > 0 && (
               <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+                {settlementMessage && (
+                  <div className="text-sm text-green-700 mb-2">{settlementMessage}</div>
+                )}
                 <div className="font-medium text-gray-900 mb-2">
-                  Payment Distribution (${paymentAmount.toLocaleString()})
+                  Payment Distribution ({formatMoney(paymentAmount, currency)})
                 </div>
                 <div className="text-xs text-gray-600 mb-3">
-                  Direct referrer gets 70% • Chain members share 30% equally
+                  {PAYOUT_POLICY_LABELS[payoutPolicy]}: {PAYOUT_POLICY_DESCRIPTIONS[payoutPolicy]}
+                  {attributionPaths > 0 && ` • Split across ${attributionPaths} forward path${attributionPaths === 1 ? '' : 's'}`}
                 </div>
                 <div className="space-y-1">
                   {paymentSplits.map((split, index) => {
                     const position = paymentSplits.length - index
                     const percentage = ((split.amount / paymentAmount) * 100).toFixed(1)
-                    const isDirectReferrer = index === paymentSplits.length - 1
+                    const isDirectReferrer = directReferrerIds.length > 0
+                      ? directReferrerIds.includes(split.nodeId)
+                      : index === paymentSplits.length - 1
                     return (
                       <div key={split.nodeId} className="flex justify-between text-sm">
                         <span className="flex items-center gap-2">
@@ -282,14 +616,14 @@ export default function ReferralChainViewer({ jobId }: ReferralChainViewerProps)
                           </span>
                         </span>
                         <span className="font-medium">
-                          ${split.amount.toLocaleString()} ({percentage}%)
+                          {formatMoney(split.amount, currency)} ({percentage}%)
                         </span>
                       </div>
                     )
                   })}
                 </div>
                 <div className="mt-2 pt-2 border-t border-gray-200 text-xs text-gray-500">
-                  Total: ${paymentSplits.reduce((sum, split) => sum + split.amount, 0).toLocaleString()}
+                  Total: {formatMoney(fromMinorUnits(paymentSplits.reduce((sum, split) => sum + split.amountMinorUnits, 0), currency), currency)}
                 </div>
               </div>
             )}
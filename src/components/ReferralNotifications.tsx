@@ -0,0 +1,257 @@
+/**
+ * REFERRAL NOTIFICATIONS COMPONENT
+ *
+ * Shows updates on referrals you're part of (as candidate, referrer or
+ * chain member) and lets you choose which updates you get by email or here
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { NotificationType } from '@prisma/client'
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationChannels,
+  NotificationPreferences
+} from '@/lib/notification-types'
+
+interface Notification {
+  id: string
+  type: NotificationType
+  title: string
+  body: string
+  link: string | null
+  createdAt: string
+  read: boolean
+}
+
+export default function ReferralNotifications({ className = '' }: { className?: string }) {
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unread, setUnread] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [showSettings, setShowSettings] = useState(false)
+
+  useEffect(() => {
+    fetchNotifications()
+    // Refresh every 30 seconds
+    const interval = setInterval(fetchNotifications, 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch notifications')
+      }
+
+      setNotifications(result.notifications)
+      setUnread(result.counts.unread)
+      setError('')
+    } catch (error) {
+      console.error('Referral notifications fetch error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ all: true })
+      })
+
+      if (response.ok) {
+        setNotifications(current => current.map(notification => ({ ...notification, read: true })))
+        setUnread(0)
+      }
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }
+
+  const toggleSettings = async () => {
+    if (!showSettings && !preferences) {
+      try {
+        const response = await fetch('/api/notifications/preferences')
+        if (response.ok) {
+          const result = await response.json()
+          setPreferences(result.preferences)
+        }
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error)
+      }
+    }
+    setShowSettings(!showSettings)
+  }
+
+  const updatePreference = async (type: NotificationType, channel: keyof NotificationChannels, enabled: boolean) => {
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, [channel]: enabled })
+      })
+
+      if (response.ok) {
+        const result = await response.json()
+        setPreferences(result.preferences)
+      }
+    } catch (error) {
+      console.error('Error updating notification preference:', error)
+    }
+  }
+
+  const formatTimeAgo = (timestamp: string) => {
+    const now = new Date()
+    const then = new Date(timestamp)
+    const seconds = Math.floor((now.getTime() - then.getTime()) / 1000)
+
+    if (seconds < 60) return 'just now'
+    if (seconds < 3600) return `${Math.floor(seconds / 60)} minutes ago`
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`
+    if (seconds < 604800) return `${Math.floor(seconds / 86400)} days ago`
+    return then.toLocaleDateString()
+  }
+
+  const getIcon = (type: NotificationType) => {
+    switch (type) {
+      case 'REFERRAL_HIRED':
+        return '🎉'
+      case 'REFERRAL_OFFERED':
+        return '📝'
+      case 'REFERRAL_REJECTED':
+      case 'REFERRAL_WITHDRAWN':
+        return '📪'
+      default:
+        return '📬'
+    }
+  }
+
+  if (loading || error) {
+    return null // Silently fail for notifications
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow ${className}`}>
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <h3 className="text-lg font-semibold text-gray-900">Referral Updates</h3>
+            {unread > 0 && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                {unread} new
+              </span>
+            )}
+          </div>
+          <div className="flex items-center space-x-3">
+            {unread > 0 && (
+              <button
+                onClick={markAllRead}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Mark all read
+              </button>
+            )}
+            <button
+              onClick={toggleSettings}
+              className="text-sm text-gray-600 hover:text-gray-800"
+            >
+              {showSettings ? 'Done' : 'Settings'}
+            </button>
+          </div>
+        </div>
+
+        {showSettings && preferences && (
+          <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium pb-2">Update</th>
+                  <th className="font-medium pb-2 text-center">Email</th>
+                  <th className="font-medium pb-2 text-center">In app</th>
+                </tr>
+              </thead>
+              <tbody>
+                {NOTIFICATION_TYPES.map(type => (
+                  <tr key={type}>
+                    <td className="py-1 text-gray-700">{NOTIFICATION_TYPE_LABELS[type]}</td>
+                    {(['email', 'inApp'] as const).map(channel => (
+                      <td key={channel} className="py-1 text-center">
+                        <input
+                          type="checkbox"
+                          checked={preferences[type][channel]}
+                          onChange={(e) => updatePreference(type, channel, e.target.checked)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {notifications.length === 0 ? (
+          <p className="text-gray-500 text-sm">
+            No referral updates yet. When a referral you're part of moves forward, you'll see it here.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {notifications
+              .slice(0, isExpanded ? 20 : 3)
+              .map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`flex items-start space-x-3 p-3 rounded-lg ${
+                    notification.read
+                      ? 'bg-gray-50 border border-gray-200'
+                      : 'bg-blue-50 border border-blue-200'
+                  }`}
+                >
+                  <div className="flex-shrink-0 text-2xl">
+                    {getIcon(notification.type)}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                    <p className="text-sm text-gray-600">{notification.body}</p>
+                    <div className="mt-1 flex items-center space-x-2">
+                      <span className="text-xs text-gray-500">
+                        {formatTimeAgo(notification.createdAt)}
+                      </span>
+                      {notification.link && (
+                        <Link href={notification.link} className="text-xs text-blue-600 hover:text-blue-800">
+                          View
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+          </div>
+        )}
+
+        {notifications.length > 3 && (
+          <div className="mt-4 text-center">
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+            >
+              {isExpanded ? 'Show less' : `View ${notifications.length - 3} more updates`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 'use client'
 
 import { useState, useEffect, useMemo } from 'react'
+import type { TrustDomain } from '@prisma/client'
+import { TRUST_DOMAINS, TRUST_DOMAIN_LABELS } from '@/lib/trust-domains'
 
 interface NetworkMember {
   id: string
@@ -9,6 +11,25 @@ interface NetworkMember {
   email: string
   status: 'CONFIRMED' | 'PENDING' | 'INVITED'
   currentAllocation: number
+  decayWeight: number  // Share of the allocation still in effect (1 = freshly confirmed)
+  stale: boolean
+  distrusted: boolean
+}
+
+interface ProjectedScoreChange {
+  userId: string
+  displayName: string
+  before: { trustScore: number; displayScore: number; rank: number }
+  after: { trustScore: number; displayScore: number; rank: number }
+  trustScoreChange: number
+  displayScoreChange: number
+  rankChange: number
+}
+
+interface AllocationPreview {
+  self: ProjectedScoreChange | null
+  contacts: ProjectedScoreChange[]
+  topN: ProjectedScoreChange[]
 }
 
 interface TrustNetworkManagerProps {
@@ -18,12 +39,15 @@ interface TrustNetworkManagerProps {
 export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
   const [members, setMembers] = useState<NetworkMember[]>([])
   const [allocations, setAllocations] = useState<Record<string, number>>({})
+  const [domainTags, setDomainTags] = useState<Record<string, TrustDomain[]>>({})  // Empty = general trust
   const [newMemberEmail, setNewMemberEmail] = useState('')
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [message, setMessage] = useState('')
   const [showAddMember, setShowAddMember] = useState(false)
   const [showSuccessMessage, setShowSuccessMessage] = useState(false)
+  const [preview, setPreview] = useState<AllocationPreview | null>(null)
+  const [previewing, setPreviewing] = useState(false)
 
   // Calculate totals (only count explicit allocations to network members)
   const totalAllocatedToNetwork = useMemo(() => {
@@ -32,6 +56,8 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
 
   const remainingTrust = 100 - totalAllocatedToNetwork
 
+  const staleCount = members.filter(member => member.stale).length
+
   // Note: Remaining trust automatically goes to admin in backend, but user sees it as "unallocated"
 
   // Load network data
@@ -39,6 +65,11 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
     fetchNetworkData()
   }, [])
 
+  // A preview is only valid for the allocations it was computed from
+  useEffect(() => {
+    setPreview(null)
+  }, [allocations])
+
   const fetchNetworkData = async () => {
     try {
       setLoading(true)
@@ -51,6 +82,11 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
       const allocResponse = await fetch('/api/trust-allocations')
       const allocData = await allocResponse.json()
 
+      // Fetch recorded distrust signals
+      const distrustResponse = await fetch('/api/trust-allocations/distrust')
+      const distrustData = distrustResponse.ok ? await distrustResponse.json() : { signals: [] }
+      const distrustedIds = new Set<string>(distrustData.signals.map((signal: any) => signal.receiverId))
+
       if (relResponse.ok && allocResponse.ok) {
         // Combine confirmed relationships and pending invitations
         const networkMembers: NetworkMember[] = []
@@ -58,9 +94,13 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
 
         // Create a map of user ID to current allocation (convert back to 0-100 scale)
         const currentAllocMap: Record<string, number> = {}
+        const decayMap: Record<string, { decayWeight: number; stale: boolean }> = {}
+        const initialDomainTags: Record<string, TrustDomain[]> = {}
         if (allocData.currentAllocations) {
           allocData.currentAllocations.forEach((alloc: any) => {
             currentAllocMap[alloc.receiverId] = Math.round(alloc.proportion * 100)
+            initialDomainTags[alloc.receiverId] = alloc.domains || []
+            decayMap[alloc.receiverId] = { decayWeight: alloc.decayWeight ?? 1, stale: !!alloc.stale }
           })
         }
 
@@ -75,7 +115,10 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
             name: conn.connectedUser.name || 'Unknown',
             email: conn.connectedUser.email,
             status: conn.status,
-            currentAllocation: currentAllocation
+            currentAllocation: currentAllocation,
+            decayWeight: decayMap[memberId]?.decayWeight ?? 1,
+            stale: decayMap[memberId]?.stale ?? false,
+            distrusted: distrustedIds.has(memberId)
           })
           initialAllocations[memberId] = currentAllocation
         })
@@ -89,13 +132,17 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
             name: 'Pending User',
             email: inv.email,
             status: 'INVITED',
-            currentAllocation: 0
+            currentAllocation: 0,
+            decayWeight: 1,
+            stale: false,
+            distrusted: false
           })
           initialAllocations[tempId] = 0
         })
 
         setMembers(networkMembers)
         setAllocations(initialAllocations)
+        setDomainTags(initialDomainTags)
       }
     } catch (error) {
       console.error('Error fetching network data:', error)
@@ -150,25 +197,55 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
     setTimeout(() => setMessage(''), 3000)
   }
 
+  // Convert allocations to the format expected by /api/trust-allocations
+  const buildTrustAllocations = () => members
+    .filter(member => member.status === 'CONFIRMED') // Only confirmed members
+    .map(member => ({
+      receiverId: member.id,
+      proportion: (allocations[member.id] || 0) / 100, // Convert from 0-100 to 0-1 scale
+      domains: domainTags[member.id] || []
+    }))
+    .filter(alloc => alloc.proportion > 0) // Only include non-zero allocations
+
+  const handlePreviewImpact = async () => {
+    setPreviewing(true)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/trust-allocations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: buildTrustAllocations(),
+          dryRun: true
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview allocations')
+      }
+
+      setPreview(data)
+    } catch (error) {
+      console.error('Error previewing allocations:', error)
+      setMessage(error instanceof Error ? error.message : 'Failed to preview allocations')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
   const handleSaveAllocations = async () => {
     setSaving(true)
     setMessage('')
 
     try {
-      // Convert allocations to the new format expected by /api/trust-allocations
-      const trustAllocations = members
-        .filter(member => member.status === 'CONFIRMED') // Only confirmed members
-        .map(member => ({
-          receiverId: member.id,
-          proportion: (allocations[member.id] || 0) / 100 // Convert from 0-100 to 0-1 scale
-        }))
-        .filter(alloc => alloc.proportion > 0) // Only include non-zero allocations
-
       const response = await fetch('/api/trust-allocations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          allocations: trustAllocations
+          allocations: buildTrustAllocations()
         })
       })
 
@@ -185,6 +262,7 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
       }, 3000)
 
       // Refresh data
+      fetchNetworkData()
     } catch (error) {
       console.error('Error saving allocations:', error)
       setMessage(error instanceof Error ? error.message : 'Failed to save allocations')
@@ -193,6 +271,54 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
     }
   }
 
+  const toggleDomainTag = (memberId: string, domain: TrustDomain) => {
+    setDomainTags(prev => {
+      const current = prev[memberId] || []
+      return {
+        ...prev,
+        [memberId]: current.includes(domain)
+          ? current.filter(tag => tag !== domain)
+          : [...current, domain]
+      }
+    })
+  }
+
+  const handleToggleDistrust = async (member: NetworkMember) => {
+    setMessage('')
+
+    try {
+      let response: Response
+
+      if (member.distrusted) {
+        response = await fetch(`/api/trust-allocations/distrust?receiverId=${member.id}`, {
+          method: 'DELETE'
+        })
+      } else {
+        const reason = window.prompt(
+          `Record distrust for ${member.name}? This removes any trust you give them and lowers their score a little. They won't see that it came from you.\n\nOptional reason:`
+        )
+        if (reason === null) return
+
+        response = await fetch('/api/trust-allocations/distrust', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ receiverId: member.id, reason: reason.trim() || undefined })
+        })
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update distrust')
+      }
+
+      setMessage(member.distrusted ? 'Distrust withdrawn' : 'Distrust recorded')
+      fetchNetworkData()
+    } catch (error) {
+      console.error('Error updating distrust:', error)
+      setMessage(error instanceof Error ? error.message : 'Failed to update distrust')
+    }
+  }
+
   const handleAddMember = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newMemberEmail) return
@@ -224,6 +350,22 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
     }
   }
 
+  const renderProjectedChange = (change: ProjectedScoreChange) => (
+    <div key={change.userId} className="flex items-center justify-between text-sm">
+      <span className="text-gray-900 truncate">
+        #{change.after.rank} {change.displayName}
+      </span>
+      <span className="whitespace-nowrap ml-2">
+        <span className="text-gray-600">{change.before.displayScore} → {change.after.displayScore}</span>
+        {change.rankChange !== 0 && (
+          <span className={`ml-2 text-xs ${change.rankChange > 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {change.rankChange > 0 ? `▲ ${change.rankChange}` : `▼ ${-change.rankChange}`}
+          </span>
+        )}
+      </span>
+    </div>
+  )
+
   if (loading) {
     return (
       <div className="bg-white border border-gray-200 rounded-lg p-6">
@@ -276,6 +418,11 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
               💡 {remainingTrust} points remaining 
             </p>
           )}
+          {staleCount > 0 && (
+            <p className="text-sm text-amber-700 mt-1">
+              ⏳ {staleCount} {staleCount === 1 ? 'allocation is' : 'allocations are'} fading because you haven't confirmed {staleCount === 1 ? 'it' : 'them'} in a while. Review and save to restore full strength.
+            </p>
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -292,6 +439,13 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
           >
             Rebalance Equally
           </button>
+          <button
+            onClick={handlePreviewImpact}
+            disabled={previewing || totalAllocatedToNetwork > 100}
+            className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {previewing ? 'Calculating...' : 'Preview Impact'}
+          </button>
           <button
             onClick={handleSaveAllocations}
             disabled={saving || totalAllocatedToNetwork > 100}
@@ -343,6 +497,51 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
 
       {/* Message */}
 
+      {/* What-if Preview */}
+      {preview && (
+        <div className="p-6 bg-gray-50 border-b border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900">If you save these allocations</h3>
+              {preview.self && preview.self.displayScoreChange !== 0 && (
+                <p className="text-xs text-gray-600">
+                  Your own score: {preview.self.before.displayScore} → {preview.self.after.displayScore}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => setPreview(null)}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Dismiss
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Your Network</h4>
+              {preview.contacts.length === 0 ? (
+                <p className="text-sm text-gray-500">No contacts affected.</p>
+              ) : (
+                <div className="space-y-1">
+                  {preview.contacts.map(change => renderProjectedChange(change))}
+                </div>
+              )}
+            </div>
+            <div>
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Network Top {preview.topN.length}</h4>
+              <div className="space-y-1">
+                {preview.topN.map(change => renderProjectedChange(change))}
+              </div>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 mt-3">
+            Projected scores only - nothing has been saved yet.
+          </p>
+        </div>
+      )}
+
       {/* Network Members List */}
       <div className="divide-y divide-gray-200">
         {members.filter(member => member.status !== 'DECLINED').length === 0 ? (
@@ -365,6 +564,19 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
                     }`}>
                       {member.status === 'INVITED' ? 'Invitation Sent' : 'In Network'}
                     </span>
+                    {member.distrusted && (
+                      <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-800">
+                        Distrusted
+                      </span>
+                    )}
+                    {member.stale && (
+                      <span
+                        className="text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-800"
+                        title="Trust you haven't reconfirmed gradually fades. Saving your allocations reconfirms them."
+                      >
+                        ⏳ {Math.round(member.decayWeight * 100)}% strength
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -382,7 +594,7 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
                       max="100"
                       value={allocations[member.id] || 0}
                       onChange={(e) => handleAllocationChange(member.id, parseInt(e.target.value))}
-                      disabled={member.status !== 'CONFIRMED'}
+                      disabled={member.status !== 'CONFIRMED' || member.distrusted}
                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider disabled:opacity-50 disabled:cursor-not-allowed"
                     />
                   </div>
@@ -392,11 +604,50 @@ export default function TrustNetworkManager({}: TrustNetworkManagerProps) {
                     max="100"
                     value={allocations[member.id] || 0}
                     onChange={(e) => handleAllocationChange(member.id, parseInt(e.target.value) || 0)}
-                    disabled={false}
+                    disabled={member.distrusted}
                     className="w-16 px-2 py-1 text-center border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   />
+                  {member.status === 'CONFIRMED' && (
+                    <button
+                      onClick={() => handleToggleDistrust(member)}
+                      className={`text-xs px-2 py-1 rounded-md ${
+                        member.distrusted
+                          ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          : 'text-red-600 hover:bg-red-50'
+                      }`}
+                      title={member.distrusted ? 'Withdraw distrust' : 'Record that you distrust this person'}
+                    >
+                      {member.distrusted ? 'Withdraw distrust' : 'Distrust'}
+                    </button>
+                  )}
                 </div>
               </div>
+              {member.status === 'CONFIRMED' && (allocations[member.id] || 0) > 0 && (
+                <div className="flex flex-wrap items-center gap-1 mt-2">
+                  <span className="text-xs text-gray-500 mr-1">
+                    Trust their judgment in:
+                  </span>
+                  {TRUST_DOMAINS.map(domain => {
+                    const selected = (domainTags[member.id] || []).includes(domain)
+                    return (
+                      <button
+                        key={domain}
+                        onClick={() => toggleDomainTag(member.id, domain)}
+                        className={`text-xs px-2 py-0.5 rounded-full border ${
+                          selected
+                            ? 'bg-indigo-600 text-white border-indigo-600'
+                            : 'bg-white text-gray-600 border-gray-300 hover:border-indigo-400'
+                        }`}
+                      >
+                        {TRUST_DOMAIN_LABELS[domain]}
+                      </button>
+                    )
+                  })}
+                  {(domainTags[member.id] || []).length === 0 && (
+                    <span className="text-xs text-gray-400 ml-1">(everything)</span>
+                  )}
+                </div>
+              )}
               {member.status === 'INVITED' && (
                 <p className="text-xs text-blue-600 mt-2 ml-0">
                   📧 Invitation sent - they'll be in your network when they join
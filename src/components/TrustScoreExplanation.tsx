@@ -0,0 +1,220 @@
+/**
+ * TRUST SCORE EXPLANATION COMPONENT
+ *
+ * "Why is my score this?" - shows who contributes to the user's trust
+ * score and the strongest trust paths leading to them from the seeds
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface ExplainedUser {
+  userId: string
+  displayName: string
+}
+
+interface Contribution extends ExplainedUser {
+  proportion: number
+  allocatorScore: number
+  contribution: number
+  share: number
+  defaulted: boolean
+}
+
+interface TrustPath {
+  nodes: ExplainedUser[]
+  contribution: number
+  share: number
+}
+
+interface TrustExplanation {
+  user: ExplainedUser
+  score: {
+    trustScore: number
+    displayScore: number
+    rank: number
+    computedAt: string
+  } | null
+  algorithm: 'STANDARD' | 'MODIFIED'
+  decayFactor: number
+  isSeed: boolean
+  seedTrust: number
+  distrustPenalty: number
+  contributions: Contribution[]
+  directTotal: number
+  residual: number
+  paths: TrustPath[]
+  pathCoverage: number
+}
+
+interface TrustScoreExplanationProps {
+  userId?: string  // Admins can explain other users; defaults to the current user
+}
+
+export default function TrustScoreExplanation({ userId }: TrustScoreExplanationProps) {
+  const [data, setData] = useState<TrustExplanation | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState(false)
+
+  useEffect(() => {
+    const fetchExplanation = async () => {
+      try {
+        const query = userId ? `?userId=${userId}` : ''
+        const response = await fetch(`/api/trust-scores/explain${query}`)
+        if (response.ok) {
+          setData(await response.json())
+        }
+      } catch (error) {
+        console.error('Error fetching trust explanation:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchExplanation()
+  }, [userId])
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-3 bg-gray-200 rounded w-5/6"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!data || !data.score) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900">🔍 Why Is My Score This?</h3>
+        <p className="text-sm text-gray-500 mt-2">
+          Your trust score hasn't been computed yet.
+        </p>
+      </div>
+    )
+  }
+
+  const visibleContributions = expanded ? data.contributions : data.contributions.slice(0, 5)
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">🔍 Why Is My Score This?</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Your trust comes from the people who allocate trust to you, weighted by their own scores
+          </p>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600">{data.score.displayScore}</div>
+          <div className="text-xs text-gray-600">Rank #{data.score.rank}</div>
+        </div>
+      </div>
+
+      {data.isSeed && (
+        <div className="mb-4 p-3 bg-purple-50 rounded-lg border border-purple-200 text-sm text-purple-800">
+          You are a pretrust seed: the network's trust starts from you, so{' '}
+          {data.algorithm === 'STANDARD'
+            ? 'your score is fixed.'
+            : `${formatPercent(data.score.trustScore > 0 ? data.seedTrust / data.score.trustScore : 0)} of your score comes from being a seed.`}
+        </div>
+      )}
+
+      {/* Direct contributions */}
+      <div className="mb-6">
+        <h4 className="text-sm font-medium text-gray-900 mb-1">Who Trusts You</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Each contribution = share of their trust they give you × their score × {(1 - data.decayFactor).toFixed(2)}
+        </p>
+
+        {data.contributions.length === 0 ? (
+          <p className="text-sm text-gray-500">Nobody has allocated trust to you yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {visibleContributions.map(contribution => (
+              <div key={contribution.userId} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{contribution.displayName}</div>
+                    <div className="text-xs text-gray-600">
+                      Gives you {formatPercent(contribution.proportion)} of their trust
+                      {contribution.defaulted && ' (default, not yet allocated)'}
+                      {' '}· their score {(contribution.allocatorScore * 100).toFixed(1)}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm font-semibold text-gray-900">
+                      +{(contribution.contribution * 100).toFixed(2)} pts
+                    </div>
+                    <div className="text-xs text-gray-500">{formatPercent(contribution.share)} of your score</div>
+                  </div>
+                </div>
+                <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+                  <div
+                    className="bg-blue-500 h-1.5 rounded-full"
+                    style={{ width: `${Math.min(contribution.share * 100, 100)}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+
+            {data.contributions.length > 5 && (
+              <button
+                onClick={() => setExpanded(!expanded)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                {expanded ? 'Show fewer' : `Show all ${data.contributions.length}`}
+              </button>
+            )}
+          </div>
+        )}
+
+        {data.distrustPenalty > 0 && (
+          <p className="text-sm text-red-700 mt-3">
+            −{(data.distrustPenalty * 100).toFixed(2)} pts from distrust recorded by people you've worked with
+          </p>
+        )}
+
+        {Math.abs(data.residual) >= 0.005 && (
+          <p className="text-xs text-gray-500 mt-2">
+            {(data.residual * 100).toFixed(2)} pts not explained above - {data.algorithm === 'MODIFIED'
+              ? 'allocation-independent scoring is in use, so contributions are approximate.'
+              : 'allocations may have changed since your score was last computed.'}
+          </p>
+        )}
+      </div>
+
+      {/* Multi-hop paths */}
+      {data.paths.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-1">How Trust Reaches You</h4>
+          <p className="text-xs text-gray-500 mb-3">
+            Strongest trust paths from the network's seeds, covering {formatPercent(data.pathCoverage)} of your score
+          </p>
+          <div className="space-y-2">
+            {data.paths.map((path, i) => (
+              <div key={i} className="flex items-center justify-between p-2 bg-blue-50 rounded border border-blue-100">
+                <div className="text-xs text-blue-900 flex flex-wrap items-center gap-1">
+                  {path.nodes.map((node, j) => (
+                    <span key={node.userId}>
+                      {j > 0 && <span className="text-blue-400 mx-1">→</span>}
+                      {j === path.nodes.length - 1 && !userId ? 'You' : node.displayName}
+                    </span>
+                  ))}
+                </div>
+                <div className="text-xs font-medium text-blue-700 ml-2 whitespace-nowrap">
+                  {formatPercent(path.share)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
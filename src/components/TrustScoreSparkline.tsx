@@ -0,0 +1,73 @@
+/**
+ * TRUST SCORE SPARKLINE COMPONENT
+ *
+ * Small inline SVG line chart of a trust score trajectory,
+ * one point per EigenTrust computation snapshot
+ */
+
+'use client'
+
+export interface TrustHistoryPoint {
+  computationId: string
+  computedAt: string
+  trustScore: number
+  displayScore: number
+  rank: number
+  numUsers: number
+}
+
+interface TrustScoreSparklineProps {
+  history: TrustHistoryPoint[]
+  width?: number
+  height?: number
+}
+
+export default function TrustScoreSparkline({
+  history,
+  width = 240,
+  height = 48
+}: TrustScoreSparklineProps) {
+  if (history.length < 2) {
+    return (
+      <p className="text-xs text-gray-500">
+        Not enough history yet - check back after the next trust computation.
+      </p>
+    )
+  }
+
+  const padding = 4
+  const scores = history.map(point => point.trustScore)
+  const min = Math.min(...scores)
+  const max = Math.max(...scores)
+  const range = max - min || 1
+
+  const points = history.map((point, i) => {
+    const x = padding + (i / (history.length - 1)) * (width - 2 * padding)
+    const y = height - padding - ((point.trustScore - min) / range) * (height - 2 * padding)
+    return { x, y, point }
+  })
+
+  const first = history[0]
+  const last = history[history.length - 1]
+  const trendingUp = last.trustScore >= first.trustScore
+  const stroke = trendingUp ? '#16a34a' : '#dc2626'
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <polyline
+        fill="none"
+        stroke={stroke}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        points={points.map(p => `${p.x},${p.y}`).join(' ')}
+      />
+      {points.map(({ x, y, point }) => (
+        <circle key={point.computationId} cx={x} cy={y} r={2} fill={stroke}>
+          <title>
+            {new Date(point.computedAt).toLocaleString()}: {point.displayScore} pts, rank #{point.rank} of {point.numUsers}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
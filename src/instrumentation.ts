@@ -15,5 +15,9 @@ export async function register() {
     } catch (error) {
       console.error('[Instrumentation] Failed to initialize Discord bot:', error)
     }
+
+    // Work the background job queue (trust computation, reminder emails)
+    const { startJobWorker } = await import('./lib/job-queue')
+    startJobWorker()
   }
 }
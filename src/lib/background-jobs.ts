@@ -0,0 +1,87 @@
+/**
+ * BACKGROUND JOB STATUS
+ *
+ * Client-side helpers for following a queued job. Safe to import from
+ * client components (no database access).
+ */
+
+import type { BackgroundJobStatus, BackgroundJobType, Prisma } from '@prisma/client'
+
+export const BACKGROUND_JOB_LABELS: Record<BackgroundJobType, string> = {
+  TRUST_COMPUTATION: 'Trust computation',
+  TRUST_INITIALIZATION: 'Trust initialization',
+  TRUST_DECAY_REMINDERS: 'Trust decay reminders',
+  PAYOUT_GUARANTEE_RELEASE: 'Payout guarantee release',
+  REFERRAL_NOTIFICATIONS: 'Referral notifications',
+  TRUST_ANOMALY_DETECTION: 'Trust anomaly detection'
+}
+
+export interface BackgroundJobView {
+  id: string
+  type: BackgroundJobType
+  status: BackgroundJobStatus
+  payload: Prisma.JsonValue
+  result: Prisma.JsonValue
+  error: string | null
+  progress: number
+  progressMessage: string | null
+  attempts: number
+  maxAttempts: number
+  runAt: string
+  lockedBy: string | null
+  startedAt: string | null
+  finishedAt: string | null
+  createdAt: string
+}
+
+const POLL_INTERVAL_MS = 1500
+const MAX_WAIT_MS = 10 * 60 * 1000
+
+/**
+ * Polls a job until it succeeds or fails, reporting each update
+ *
+ * @returns The finished job
+ * @throws Error if polling fails or the job is still running after MAX_WAIT_MS
+ */
+export async function waitForJob(
+  jobId: string,
+  onUpdate?: (job: BackgroundJobView) => void
+): Promise<BackgroundJobView> {
+  const deadline = Date.now() + MAX_WAIT_MS
+
+  while (Date.now() < deadline) {
+    const response = await fetch(`/api/admin/background-jobs/${jobId}`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch job status')
+    }
+
+    const job: BackgroundJobView = data.job
+    onUpdate?.(job)
+
+    if (job.status === 'SUCCEEDED' || job.status === 'FAILED') {
+      return job
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+
+  throw new Error('Job is still running - check Background Jobs for its status')
+}
+
+/**
+ * One-line description of where a job is, e.g. "Running (45%): Saving scores"
+ */
+export function describeJobProgress(job: BackgroundJobView): string {
+  switch (job.status) {
+    case 'QUEUED':
+      return job.attempts > 0 ? `Queued for retry (attempt ${job.attempts + 1} of ${job.maxAttempts})` : 'Queued'
+    case 'RUNNING':
+      return `Running (${Math.round(job.progress * 100)}%)${job.progressMessage ? `: ${job.progressMessage}` : ''}`
+    case 'SUCCEEDED':
+      return 'Succeeded'
+    case 'FAILED':
+      return `Failed: ${job.error || 'Unknown error'}`
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * BENCHMARK: CHAIN RECONSTRUCTION QUERIES
+ *
+ * Seeds a throwaway job with hundreds of forwards and referrals, then
+ * compares the original per-hop reconstruction and per-referral chain
+ * lookups (one query each) against the batched versions in
+ * referral-chain.ts (one forward query per job, one user query for all
+ * chains). Checks both produce the same chains, then deletes the seed data.
+ *
+ * Needs a database.
+ */
+
+import { prisma } from './prisma'
+import { getChainsWithDetails, getReferralsForJob, reconstructChains } from './referral-chain'
+import { createRandom } from './test-eigentrust-sparse'
+
+// =========================================================================
+// Original implementations (one query per hop / per referral)
+// =========================================================================
+
+async function reconstructChainPerHop(jobId: string, nodeId: string, counter: { queries: number }): Promise<string[]> {
+  const chain = [nodeId]
+  let currentNode = nodeId
+  const visited = new Set([nodeId])
+
+  while (true) {
+    counter.queries++
+    const forwards = await prisma.jobForward.findMany({
+      where: { jobId, toNodeId: currentNode },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    if (forwards.length === 0) break
+
+    const earliestForward = forwards[0]
+    if (visited.has(earliestForward.fromNodeId)) break
+
+    chain.unshift(earliestForward.fromNodeId)
+    visited.add(earliestForward.fromNodeId)
+    currentNode = earliestForward.fromNodeId
+
+    if (chain.length > 10) break
+  }
+
+  return chain
+}
+
+async function getChainNamesPerReferral(chainPath: string[], counter: { queries: number }): Promise<string[]> {
+  if (chainPath.length === 0) return []
+
+  counter.queries++
+  const users = await prisma.user.findMany({
+    where: { id: { in: chainPath } },
+    select: { id: true, firstName: true, lastName: true, email: true }
+  })
+  const userMap = new Map(users.map(u => [u.id, u]))
+
+  return chainPath.map(nodeId => {
+    const user = userMap.get(nodeId)
+    return user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email : 'Unknown User'
+  })
+}
+
+// =========================================================================
+// Seed data
+// =========================================================================
+
+interface SeededJob {
+  runId: string
+  jobId: string
+  companyId: string
+  userIds: string[]
+  referrerIds: string[]
+}
+
+/**
+ * Seeds a job whose forwards spread through the network: everyone after
+ * the first user is forwarded the job by someone who already had it, and
+ * some get it from several people
+ */
+async function seedJob(numUsers: number, numForwards: number, numReferrals: number, seed: number): Promise<SeededJob> {
+  const random = createRandom(seed)
+  const runId = `bench-${Date.now()}`
+  const userIds = Array.from({ length: numUsers }, (_, i) => `${runId}-user-${i}`)
+
+  await prisma.user.createMany({
+    data: userIds.map((id, i) => ({
+      id,
+      email: `${id}@benchmark.invalid`,
+      firstName: 'Bench',
+      lastName: `User ${i}`
+    }))
+  })
+
+  const company = await prisma.company.create({
+    data: { name: `Benchmark ${runId}` }
+  })
+
+  const job = await prisma.job.create({
+    data: {
+      title: 'Chain reconstruction benchmark',
+      companyId: company.id,
+      ownerId: userIds[0]
+    }
+  })
+
+  // (from, to) pairs are unique per job
+  const pairs = new Set<string>()
+  const forwards: { jobId: string, fromNodeId: string, toNodeId: string, createdAt: Date }[] = []
+  const start = Date.now() - numForwards * 60000
+
+  const addForward = (from: number, to: number) => {
+    const key = `${from}:${to}`
+    if (from === to || pairs.has(key)) return
+    pairs.add(key)
+    forwards.push({
+      jobId: job.id,
+      fromNodeId: userIds[from],
+      toNodeId: userIds[to],
+      createdAt: new Date(start + forwards.length * 60000)
+    })
+  }
+
+  for (let to = 1; to < numUsers; to++) {
+    addForward(Math.floor(random() * to), to)
+  }
+  while (forwards.length < numForwards) {
+    const to = 1 + Math.floor(random() * (numUsers - 1))
+    addForward(Math.floor(random() * to), to)
+  }
+
+  await prisma.jobForward.createMany({ data: forwards })
+
+  const referrerIds: string[] = []
+  const referrals = Array.from({ length: numReferrals }, () => {
+    const referrer = 1 + Math.floor(random() * (numUsers - 1))
+    const candidate = (referrer + 1 + Math.floor(random() * (numUsers - 1))) % numUsers
+    referrerIds.push(userIds[referrer])
+    return {
+      jobId: job.id,
+      candidateId: userIds[candidate],
+      referrerNodeId: userIds[referrer],
+      chainPath: [] as string[],
+      chainDepth: 0
+    }
+  })
+
+  // Materialize chains the way createReferral does
+  const chains = await reconstructChains(job.id, referrerIds)
+  await prisma.referral.createMany({
+    data: referrals.map(referral => {
+      const chainPath = chains.get(referral.referrerNodeId)!
+      return { ...referral, chainPath, chainDepth: chainPath.length - 1 }
+    })
+  })
+
+  return { runId, jobId: job.id, companyId: company.id, userIds, referrerIds }
+}
+
+async function cleanUp(seeded: SeededJob) {
+  await prisma.referral.deleteMany({ where: { jobId: seeded.jobId } })
+  await prisma.jobForward.deleteMany({ where: { jobId: seeded.jobId } })
+  await prisma.job.delete({ where: { id: seeded.jobId } })
+  await prisma.company.delete({ where: { id: seeded.companyId } })
+  await prisma.user.deleteMany({ where: { id: { in: seeded.userIds } } })
+}
+
+// =========================================================================
+// Benchmark
+// =========================================================================
+
+/**
+ * Times chain reconstruction and chain details both ways on a seeded job
+ */
+export async function benchmarkChainReconstruction(
+  numUsers: number = 300,
+  numForwards: number = 600,
+  numReferrals: number = 150,
+  seed: number = 42
+) {
+  console.log(`⏱️  Benchmarking chain reconstruction: ${numUsers} users, ${numForwards} forwards, ${numReferrals} referrals\n`)
+
+  const seeded = await seedJob(numUsers, numForwards, numReferrals, seed)
+
+  try {
+    // Chains for every referrer
+    const perHop = { queries: 0 }
+    let startedAt = performance.now()
+    const legacyChains: string[][] = []
+    for (const referrerId of seeded.referrerIds) {
+      legacyChains.push(await reconstructChainPerHop(seeded.jobId, referrerId, perHop))
+    }
+    const legacyChainMs = performance.now() - startedAt
+
+    startedAt = performance.now()
+    const chains = await reconstructChains(seeded.jobId, seeded.referrerIds)
+    const batchedChainMs = performance.now() - startedAt
+
+    const chainsMatch = seeded.referrerIds.every((referrerId, i) =>
+      chains.get(referrerId)!.join() === legacyChains[i].join())
+
+    console.log('Reconstructing chains:')
+    console.log(`   per hop:  ${legacyChainMs.toFixed(0)}ms, ${perHop.queries} queries`)
+    console.log(`   batched:  ${batchedChainMs.toFixed(0)}ms, 1 query`)
+    console.log(`   ${chainsMatch ? '✅' : '❌'} Same chains`)
+
+    // Chain details for every referral on the job
+    const referrals = await prisma.referral.findMany({
+      where: { jobId: seeded.jobId },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    const perReferral = { queries: 0 }
+    startedAt = performance.now()
+    const legacyNames = await Promise.all(referrals.map(referral =>
+      getChainNamesPerReferral(referral.chainPath, perReferral)))
+    const legacyDetailsMs = performance.now() - startedAt
+
+    startedAt = performance.now()
+    const details = await getChainsWithDetails(referrals.map(referral => referral.chainPath))
+    const batchedDetailsMs = performance.now() - startedAt
+
+    startedAt = performance.now()
+    const jobReferrals = await getReferralsForJob(seeded.jobId)
+    const jobReferralsMs = performance.now() - startedAt
+
+    const detailsMatch = details.every((chain, i) =>
+      chain.map(node => node.name).join() === legacyNames[i].join())
+
+    console.log('\nLoading chain details:')
+    console.log(`   per referral:  ${legacyDetailsMs.toFixed(0)}ms, ${perReferral.queries} queries`)
+    console.log(`   batched:       ${batchedDetailsMs.toFixed(0)}ms, 1 query`)
+    console.log(`   getReferralsForJob (${jobReferrals.length} referrals): ${jobReferralsMs.toFixed(0)}ms`)
+    console.log(`   ${detailsMatch ? '✅' : '❌'} Same chain details`)
+
+    return {
+      chainsMatch,
+      detailsMatch,
+      reconstruction: { perHopMs: legacyChainMs, perHopQueries: perHop.queries, batchedMs: batchedChainMs },
+      details: { perReferralMs: legacyDetailsMs, perReferralQueries: perReferral.queries, batchedMs: batchedDetailsMs }
+    }
+  } finally {
+    await cleanUp(seeded)
+    console.log(`\n🧹 Removed benchmark data (${seeded.runId})`)
+  }
+}
+
+// Example usage:
+// import { benchmarkChainReconstruction } from '@/lib/benchmark-referral-chain'
+// await benchmarkChainReconstruction()
+// await benchmarkChainReconstruction(1000, 3000, 500)
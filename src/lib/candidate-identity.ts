@@ -0,0 +1,336 @@
+/**
+ * CANDIDATE IDENTITY
+ *
+ * One candidate, one user. Emails are compared normalized (trimmed and
+ * lowercased), so "Jane@Example.com " and "jane@example.com" are the same
+ * person, the way sign-in already treats them.
+ *
+ * Referring someone who isn't on the platform yet creates a placeholder
+ * user for them. Placeholders created before emails were normalized can
+ * differ only by casing; when one is found alongside the kept account,
+ * everything pointing at it is moved over and it's deleted, all in one
+ * transaction.
+ *
+ * A placeholder is strictly a user nobody has done anything as: never
+ * signed in, no invite token, no trust given or received, no earnings,
+ * and nothing created by them (see PLACEHOLDER_DISQUALIFIERS). Who
+ * brought them in (referredById, set when a placeholder is created for a
+ * delegation) doesn't count; a merge carries it over. Anyone else is a
+ * real user and is never merged, even if they haven't finished onboarding.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
+import { candidateClaimKey, initialDuplicateResolution } from '@/lib/duplicate-referrals'
+
+type TransactionClient = Prisma.TransactionClient
+
+export interface CandidateIdentity {
+  id: string
+  email: string
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Relations only a real user can have; any row in one rules out a merge
+const PLACEHOLDER_DISQUALIFIERS = {
+  accounts: true,
+  sessions: true,
+  trustAllocationsGiven: true,
+  trustAllocationsReceived: true,
+  earningsTransactions: true,
+  endorsementsGiven: true,
+  endorsementReleases: true,
+  sentInvitations: true,
+  introductionsMade: true,
+  relationshipsAsUser1: true,
+  relationshipsAsUser2: true,
+  ownedJobs: true,
+  ownedGrants: true,
+  grantApplications: true,
+  applications: true,
+  jobForwardsSent: true,
+  referralsAsReferrer: true,
+  referralStatusChanges: true,
+  distrustGiven: true,
+  candidateInterestsAsAdmin: true,
+  referrals: true
+} satisfies Prisma.UserCountOutputTypeSelect
+
+const placeholderSelect = {
+  id: true,
+  email: true,
+  isProfileComplete: true,
+  emailVerified: true,
+  inviteToken: true,
+  isAdmin: true,
+  isHiringManager: true,
+  totalEarnings: true,
+  pendingEarnings: true,
+  _count: { select: PLACEHOLDER_DISQUALIFIERS }
+} satisfies Prisma.UserSelect
+
+type PlaceholderCandidate = Prisma.UserGetPayload<{ select: typeof placeholderSelect }>
+
+function isPlaceholder(user: PlaceholderCandidate): boolean {
+  return !user.isProfileComplete &&
+    !user.emailVerified &&
+    !user.inviteToken &&
+    !user.isAdmin &&
+    !user.isHiringManager &&
+    user.totalEarnings === 0 &&
+    user.pendingEarnings === 0 &&
+    Object.values(user._count).every(count => count === 0)
+}
+
+/**
+ * Finds the user behind an email, whatever its casing. Case variants that
+ * are only placeholders are merged into the account that's kept.
+ *
+ * @param email - The email, as typed
+ * @returns The canonical user for that email, or null if nobody has it
+ */
+export async function findCandidate(email: string): Promise<CandidateIdentity | null> {
+  const normalized = normalizeEmail(email)
+
+  const matches = await prisma.user.findMany({
+    where: { email: { equals: normalized, mode: 'insensitive' } },
+    select: placeholderSelect,
+    orderBy: { createdAt: 'asc' }
+  })
+
+  if (matches.length === 0) {
+    return null
+  }
+
+  // Prefer a real account, then the already-normalized email, then the oldest
+  const canonical = matches.find(user => !isPlaceholder(user))
+    ?? matches.find(user => user.email === normalized)
+    ?? matches[0]
+
+  for (const user of matches) {
+    if (user.id !== canonical.id && isPlaceholder(user)) {
+      await mergePlaceholderUser(user.id, canonical.id)
+    }
+  }
+
+  return { id: canonical.id, email: canonical.email }
+}
+
+/**
+ * Finds the user behind a candidate email (see findCandidate), creating a
+ * placeholder with the normalized email if nobody has it
+ *
+ * @param email - The candidate's email, as typed
+ * @param placeholder - Extra fields for a newly created placeholder
+ * @returns The canonical user for that email
+ */
+export async function findOrCreateCandidate(
+  email: string,
+  placeholder: Pick<Prisma.UserUncheckedCreateInput, 'firstName' | 'lastName' | 'referredById'> = {}
+): Promise<CandidateIdentity> {
+  const existing = await findCandidate(email)
+  if (existing) {
+    return existing
+  }
+
+  const normalized = normalizeEmail(email)
+  try {
+    return await prisma.user.create({
+      data: { email: normalized, isProfileComplete: false, ...placeholder },
+      select: { id: true, email: true }
+    })
+  } catch (error) {
+    // Someone referred them at the same moment
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return await prisma.user.findUniqueOrThrow({
+        where: { email: normalized },
+        select: { id: true, email: true }
+      })
+    }
+    throw error
+  }
+}
+
+/**
+ * Moves everything pointing at a placeholder user to another user and
+ * deletes the placeholder, in one transaction. Where both were referred for
+ * the same job, the kept user's referral stays the original and the moved
+ * one becomes its duplicate under the job's policy (duplicate-referrals.ts).
+ * Rows the kept user already has an equivalent of (the same forward,
+ * introduction, notification, ...) are dropped rather than duplicated, and
+ * computed trust scores are dropped for the next recompute to rebuild.
+ *
+ * @param placeholderId - The placeholder to merge away
+ * @param canonicalId - The user to keep
+ * @returns false if the user turned out not to be a placeholder (nothing is changed)
+ */
+export async function mergePlaceholderUser(placeholderId: string, canonicalId: string): Promise<boolean> {
+  const merged = await prisma.$transaction(async (tx) => {
+    // Re-checked inside the transaction so a sign-in or invite in between wins
+    const placeholder = await tx.user.findUnique({ where: { id: placeholderId }, select: placeholderSelect })
+    if (!placeholder || !isPlaceholder(placeholder)) {
+      return false
+    }
+
+    await moveCandidateReferrals(tx, placeholderId, canonicalId)
+    await moveReceivedRelations(tx, placeholderId, canonicalId)
+    await moveUserData(tx, placeholderId, canonicalId)
+
+    await tx.user.delete({ where: { id: placeholderId } })
+    return true
+  })
+
+  if (merged) {
+    console.log(`🔗 Merged placeholder user ${placeholderId} into ${canonicalId}`)
+  }
+
+  return merged
+}
+
+async function moveCandidateReferrals(tx: TransactionClient, placeholderId: string, canonicalId: string) {
+  const moving = await tx.referral.findMany({
+    where: { candidateId: placeholderId },
+    select: { id: true, jobId: true, duplicateOfId: true, job: { select: { duplicateReferralPolicy: true } } }
+  })
+
+  const kept = await tx.referral.findMany({
+    where: {
+      candidateId: canonicalId,
+      duplicateOfId: null,
+      jobId: { in: Array.from(new Set(moving.map(referral => referral.jobId))) }
+    },
+    select: { id: true, jobId: true }
+  })
+  const keptByJob = new Map(kept.map(referral => [referral.jobId, referral.id]))
+
+  for (const referral of moving) {
+    const originalId = keptByJob.get(referral.jobId)
+
+    if (!originalId) {
+      await tx.referral.update({
+        where: { id: referral.id },
+        data: {
+          candidateId: canonicalId,
+          ...(!referral.duplicateOfId && { candidateClaim: candidateClaimKey(referral.jobId, canonicalId) })
+        }
+      })
+      continue
+    }
+
+    // The kept user already has this job's original: this one and its duplicates follow it
+    await tx.referral.updateMany({
+      where: { duplicateOfId: referral.id },
+      data: { duplicateOfId: originalId }
+    })
+    await tx.referral.update({
+      where: { id: referral.id },
+      data: {
+        candidateId: canonicalId,
+        candidateClaim: null,
+        duplicateOfId: originalId,
+        ...(!referral.duplicateOfId && {
+          duplicateResolution: initialDuplicateResolution(referral.job.duplicateReferralPolicy)
+        })
+      }
+    })
+  }
+}
+
+// Things other people did to the placeholder: forwards, introductions, distrust, interest
+async function moveReceivedRelations(tx: TransactionClient, placeholderId: string, canonicalId: string) {
+  const forwards = await tx.jobForward.findMany({
+    where: { toNodeId: placeholderId },
+    select: { id: true, jobId: true, fromNodeId: true }
+  })
+  const keptForwards = await tx.jobForward.findMany({
+    where: { toNodeId: canonicalId, jobId: { in: forwards.map(forward => forward.jobId) } },
+    select: { jobId: true, fromNodeId: true }
+  })
+  const keptForwardKeys = new Set(keptForwards.map(forward => `${forward.jobId}:${forward.fromNodeId}`))
+  const droppedForwards = forwards.filter(forward =>
+    forward.fromNodeId === canonicalId || keptForwardKeys.has(`${forward.jobId}:${forward.fromNodeId}`))
+  await tx.jobForward.deleteMany({ where: { id: { in: droppedForwards.map(forward => forward.id) } } })
+  await tx.jobForward.updateMany({ where: { toNodeId: placeholderId }, data: { toNodeId: canonicalId } })
+
+  const distrust = await tx.distrustSignal.findMany({ where: { receiverId: placeholderId }, select: { id: true, giverId: true } })
+  const keptDistrust = new Set((await tx.distrustSignal.findMany({
+    where: { receiverId: canonicalId },
+    select: { giverId: true }
+  })).map(signal => signal.giverId))
+  await tx.distrustSignal.deleteMany({
+    where: { id: { in: distrust.filter(signal => signal.giverId === canonicalId || keptDistrust.has(signal.giverId)).map(signal => signal.id) } }
+  })
+  await tx.distrustSignal.updateMany({ where: { receiverId: placeholderId }, data: { receiverId: canonicalId } })
+
+  const interests = await tx.candidateInterest.findMany({ where: { candidateId: placeholderId }, select: { id: true, jobId: true } })
+  const keptInterestJobs = new Set((await tx.candidateInterest.findMany({
+    where: { candidateId: canonicalId },
+    select: { jobId: true }
+  })).map(interest => interest.jobId))
+  await tx.candidateInterest.deleteMany({
+    where: { id: { in: interests.filter(interest => keptInterestJobs.has(interest.jobId)).map(interest => interest.id) } }
+  })
+  await tx.candidateInterest.updateMany({ where: { candidateId: placeholderId }, data: { candidateId: canonicalId } })
+
+  const introductions = await tx.introduction.findMany({
+    where: { OR: [{ personAId: placeholderId }, { personBId: placeholderId }] },
+    select: { id: true, personAId: true, personBId: true }
+  })
+  for (const introduction of introductions) {
+    const personAId = introduction.personAId === placeholderId ? canonicalId : introduction.personAId
+    const personBId = introduction.personBId === placeholderId ? canonicalId : introduction.personBId
+    const existing = personAId === personBId || await tx.introduction.findUnique({
+      where: { personAId_personBId: { personAId, personBId } },
+      select: { id: true }
+    })
+
+    if (existing) {
+      await tx.introduction.delete({ where: { id: introduction.id } })
+    } else {
+      await tx.introduction.update({ where: { id: introduction.id }, data: { personAId, personBId } })
+    }
+  }
+
+  await tx.endorsement.updateMany({ where: { endorsedUserId: placeholderId }, data: { endorsedUserId: canonicalId } })
+  await tx.invitation.updateMany({ where: { receiverId: placeholderId }, data: { receiverId: canonicalId } })
+}
+
+// The placeholder's own rows: notifications, preferences, activity and trust data
+async function moveUserData(tx: TransactionClient, placeholderId: string, canonicalId: string) {
+  // Who brought them in, unless the kept user already says
+  const { referredById } = await tx.user.findUniqueOrThrow({ where: { id: placeholderId }, select: { referredById: true } })
+  if (referredById && referredById !== canonicalId) {
+    await tx.user.updateMany({ where: { id: canonicalId, referredById: null }, data: { referredById } })
+  }
+
+  const keptStatusChanges = (await tx.notification.findMany({
+    where: { userId: canonicalId, statusChangeId: { not: null } },
+    select: { statusChangeId: true }
+  })).map(notification => notification.statusChangeId as string)
+  await tx.notification.deleteMany({ where: { userId: placeholderId, statusChangeId: { in: keptStatusChanges } } })
+  await tx.notification.updateMany({ where: { userId: placeholderId }, data: { userId: canonicalId } })
+
+  const keptPreferenceTypes = (await tx.notificationPreference.findMany({
+    where: { userId: canonicalId },
+    select: { type: true }
+  })).map(preference => preference.type)
+  await tx.notificationPreference.deleteMany({ where: { userId: placeholderId, type: { in: keptPreferenceTypes } } })
+  await tx.notificationPreference.updateMany({ where: { userId: placeholderId }, data: { userId: canonicalId } })
+
+  await tx.cloutActivity.updateMany({ where: { userId: placeholderId }, data: { userId: canonicalId } })
+
+  const keptSeed = await tx.pretrustSeed.findUnique({ where: { userId: canonicalId }, select: { id: true } })
+  if (keptSeed) {
+    await tx.pretrustSeed.deleteMany({ where: { userId: placeholderId } })
+  } else {
+    await tx.pretrustSeed.updateMany({ where: { userId: placeholderId }, data: { userId: canonicalId } })
+  }
+
+  // Derived from the trust graph; the next recompute scores the kept user
+  await tx.computedTrustScore.deleteMany({ where: { userId: placeholderId } })
+  await tx.domainTrustScore.deleteMany({ where: { userId: placeholderId } })
+  await tx.trustScoreSnapshot.deleteMany({ where: { userId: placeholderId } })
+}
@@ -0,0 +1,322 @@
+/**
+ * CHAIN ATTRIBUTION
+ *
+ * Decides who in the forward network gets credit for a referral. Each job
+ * picks a mode (Job.chainAttribution):
+ *
+ * - EARLIEST_FORWARD: a single chain, following only the earliest forward
+ *   into each person (Referral.chainPath)
+ * - ALL_PATHS: every forward path that reached the referrer. The paths form
+ *   a DAG that's stored on the referral (Referral.attributionGraph); the
+ *   budget is split across the paths by the job's path weighting, then
+ *   along each path by its payout policy, and summed per person.
+ *
+ * Path weighting (Job.pathWeighting):
+ * - EQUAL: every path counts the same
+ * - SHORTER_PATHS: weight ∝ 1 / number of people on the path
+ * - EARLIER_PATHS: paths ranked by when they reached the referrer; each
+ *   rank counts half as much as the one before it
+ *
+ * A forward only counts if it happened before the next person on the path
+ * passed the job on; otherwise it isn't how the job got there.
+ *
+ * Safe to import from client components (no database access).
+ */
+
+import type { ChainAttribution, PathWeighting, PayoutPolicy } from '@prisma/client'
+import { allocateMinorUnits, toMinorUnits } from '@/lib/money'
+import { computeSplitShares } from '@/lib/payout-policies'
+
+export const CHAIN_ATTRIBUTIONS: ChainAttribution[] = ['EARLIEST_FORWARD', 'ALL_PATHS']
+
+export const CHAIN_ATTRIBUTION_LABELS: Record<ChainAttribution, string> = {
+  EARLIEST_FORWARD: 'Earliest forward',
+  ALL_PATHS: 'All forward paths'
+}
+
+export const CHAIN_ATTRIBUTION_DESCRIPTIONS: Record<ChainAttribution, string> = {
+  EARLIEST_FORWARD: 'Credit follows whoever forwarded the job to each person first',
+  ALL_PATHS: 'Everyone who forwarded the job toward the referrer shares credit'
+}
+
+export const PATH_WEIGHTINGS: PathWeighting[] = ['EQUAL', 'SHORTER_PATHS', 'EARLIER_PATHS']
+
+export const PATH_WEIGHTING_LABELS: Record<PathWeighting, string> = {
+  EQUAL: 'Equal',
+  SHORTER_PATHS: 'Favor shorter paths',
+  EARLIER_PATHS: 'Favor earlier paths'
+}
+
+export function isChainAttribution(value: unknown): value is ChainAttribution {
+  return typeof value === 'string' && (CHAIN_ATTRIBUTIONS as string[]).includes(value)
+}
+
+export function isPathWeighting(value: unknown): value is PathWeighting {
+  return typeof value === 'string' && (PATH_WEIGHTINGS as string[]).includes(value)
+}
+
+// Longest chain credited, in people
+export const MAX_CHAIN_LENGTH = 11
+// Paths explored per referral; forwards are tried earliest first
+export const MAX_ATTRIBUTION_PATHS = 25
+
+export interface ForwardEdge {
+  id: string
+  fromNodeId: string
+  toNodeId: string
+  createdAt: Date | string
+}
+
+export interface AttributionPath {
+  nodes: string[]        // First forwarder first, referrer last
+  forwardIds: string[]   // The forwards between consecutive nodes
+  reachedAt: string[]    // When each of those forwards happened (ISO)
+  weight: number         // Share of the budget; a graph's weights sum to 1
+}
+
+/**
+ * Stored as JSON on the referral, so payouts use the network as it was
+ * when the referral was made
+ */
+export interface AttributionGraph {
+  weighting: PathWeighting
+  referrerNodeId: string
+  nodes: string[]  // Everyone on any path, in first-seen order with the referrer last
+  edges: { forwardId: string, fromNodeId: string, toNodeId: string }[]
+  paths: AttributionPath[]
+  truncated: boolean  // Some paths were cut at MAX_CHAIN_LENGTH or MAX_ATTRIBUTION_PATHS
+}
+
+function timeOf(value: Date | string): number {
+  return new Date(value).getTime()
+}
+
+/**
+ * The single chain into a node, following the earliest forward into each
+ * person (EARLIEST_FORWARD attribution)
+ *
+ * @param forwards - All forwards for the job, in any order
+ * @param nodeId - The ending node (typically the referrer)
+ * @returns Node IDs from the start of the chain to nodeId
+ */
+export function traceEarliestChain(forwards: ForwardEdge[], nodeId: string): string[] {
+  const earliest = new Map<string, ForwardEdge>()
+  forwards.forEach(forward => {
+    const current = earliest.get(forward.toNodeId)
+    if (!current || timeOf(forward.createdAt) < timeOf(current.createdAt)) {
+      earliest.set(forward.toNodeId, forward)
+    }
+  })
+
+  const chain = [nodeId]
+  const visited = new Set([nodeId]) // Prevent infinite loops
+  let forward = earliest.get(nodeId)
+
+  while (forward) {
+    if (visited.has(forward.fromNodeId)) {
+      console.warn(`Circular reference detected in chain, stopping at ${chain[0]}`)
+      break
+    }
+
+    chain.unshift(forward.fromNodeId)
+    visited.add(forward.fromNodeId)
+
+    forward = earliest.get(forward.fromNodeId)
+
+    if (forward && chain.length >= MAX_CHAIN_LENGTH) {
+      console.warn(`Chain length exceeded ${MAX_CHAIN_LENGTH - 1} hops, stopping reconstruction`)
+      break
+    }
+  }
+
+  return chain
+}
+
+/**
+ * Every forward path that ends at the referrer
+ *
+ * @param forwards - All forwards for the job
+ * @param referrerNodeId - Where the paths end
+ * @param before - Forwards after this (usually the referral) don't count
+ */
+export function findForwardPaths(
+  forwards: ForwardEdge[],
+  referrerNodeId: string,
+  before: Date = new Date()
+): { paths: Omit<AttributionPath, 'weight'>[], truncated: boolean } {
+  const incoming = new Map<string, ForwardEdge[]>()
+  forwards.forEach(forward => {
+    const list = incoming.get(forward.toNodeId) ?? []
+    list.push(forward)
+    incoming.set(forward.toNodeId, list)
+  })
+  incoming.forEach(list => list.sort((a, b) => timeOf(a.createdAt) - timeOf(b.createdAt)))
+
+  const paths: Omit<AttributionPath, 'weight'>[] = []
+  let truncated = false
+
+  // Walks backwards; nodes and edges are kept referrer-first and reversed when a path is done
+  const walk = (nodes: string[], edges: ForwardEdge[], passedOnAt: number) => {
+    if (paths.length >= MAX_ATTRIBUTION_PATHS) {
+      truncated = true
+      return
+    }
+
+    const current = nodes[nodes.length - 1]
+    const sources = (incoming.get(current) ?? []).filter(forward =>
+      timeOf(forward.createdAt) <= passedOnAt && !nodes.includes(forward.fromNodeId)
+    )
+
+    if (sources.length === 0 || nodes.length >= MAX_CHAIN_LENGTH) {
+      truncated = truncated || sources.length > 0
+      const ordered = [...edges].reverse()
+      paths.push({
+        nodes: [...nodes].reverse(),
+        forwardIds: ordered.map(forward => forward.id),
+        reachedAt: ordered.map(forward => new Date(forward.createdAt).toISOString())
+      })
+      return
+    }
+
+    sources.forEach(forward => {
+      walk([...nodes, forward.fromNodeId], [...edges, forward], timeOf(forward.createdAt))
+    })
+  }
+
+  walk([referrerNodeId], [], before.getTime())
+
+  return { paths, truncated }
+}
+
+// Latest hop first: the path whose final forward came first reached the referrer first
+function compareArrival(a: Omit<AttributionPath, 'weight'>, b: Omit<AttributionPath, 'weight'>): number {
+  const length = Math.max(a.reachedAt.length, b.reachedAt.length)
+  for (let i = 1; i <= length; i++) {
+    const timeA = a.reachedAt[a.reachedAt.length - i]
+    const timeB = b.reachedAt[b.reachedAt.length - i]
+    if (timeA === undefined || timeB === undefined) {
+      return a.reachedAt.length - b.reachedAt.length
+    }
+    if (timeA !== timeB) return timeOf(timeA) - timeOf(timeB)
+  }
+  return 0
+}
+
+/**
+ * Each path's share of the budget
+ *
+ * @returns Weights in path order, summing to 1
+ */
+export function computePathWeights(
+  weighting: PathWeighting,
+  paths: Omit<AttributionPath, 'weight'>[]
+): number[] {
+  if (paths.length === 0) return []
+
+  let raw: number[]
+
+  switch (weighting) {
+    case 'EQUAL':
+      raw = paths.map(() => 1)
+      break
+    case 'SHORTER_PATHS':
+      raw = paths.map(path => 1 / path.nodes.length)
+      break
+    case 'EARLIER_PATHS': {
+      const ranked = paths.map((path, index) => ({ path, index })).sort((a, b) => compareArrival(a.path, b.path))
+      raw = new Array(paths.length)
+      ranked.forEach(({ index }, rank) => { raw[index] = Math.pow(0.5, rank) })
+      break
+    }
+  }
+
+  const total = raw.reduce((sum, weight) => sum + weight, 0)
+  return raw.map(weight => weight / total)
+}
+
+/**
+ * Builds the graph stored on a referral from the job's forwards
+ */
+export function buildAttributionGraph(
+  forwards: ForwardEdge[],
+  referrerNodeId: string,
+  weighting: PathWeighting,
+  before: Date = new Date()
+): AttributionGraph {
+  const { paths, truncated } = findForwardPaths(forwards, referrerNodeId, before)
+  const weights = computePathWeights(weighting, paths)
+
+  const nodes: string[] = []
+  const edges = new Map<string, AttributionGraph['edges'][number]>()
+  const forwardsById = new Map(forwards.map(forward => [forward.id, forward]))
+
+  paths.forEach(path => {
+    path.nodes.forEach(nodeId => {
+      if (nodeId !== referrerNodeId && !nodes.includes(nodeId)) nodes.push(nodeId)
+    })
+    path.forwardIds.forEach(forwardId => {
+      const forward = forwardsById.get(forwardId)!
+      edges.set(forwardId, { forwardId, fromNodeId: forward.fromNodeId, toNodeId: forward.toNodeId })
+    })
+  })
+
+  return {
+    weighting,
+    referrerNodeId,
+    nodes: [...nodes, referrerNodeId],
+    edges: Array.from(edges.values()),
+    paths: paths.map((path, index) => ({ ...path, weight: weights[index] })),
+    truncated
+  }
+}
+
+/**
+ * Reads a referral's stored graph (null for earliest-forward referrals)
+ */
+export function parseAttributionGraph(value: unknown): AttributionGraph | null {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as AttributionGraph).paths)) {
+    return null
+  }
+  const graph = value as AttributionGraph
+  return graph.paths.length > 0 ? graph : null
+}
+
+/**
+ * Splits a budget across a graph's paths, then along each path by the
+ * payout policy
+ *
+ * @param trustByNode - Trust per person (TRUST_WEIGHTED only)
+ * @returns Minor units per person, in graph.nodes order, summing exactly to the budget
+ */
+export function splitPayoutAcrossPaths(
+  totalAmount: number,
+  currency: string,
+  policy: PayoutPolicy,
+  graph: AttributionGraph,
+  trustByNode: Map<string, number> = new Map()
+): Map<string, number> {
+  const perPath = allocateMinorUnits(
+    toMinorUnits(totalAmount, currency),
+    graph.paths.map(path => path.weight)
+  )
+
+  const amounts = new Map(graph.nodes.map(nodeId => [nodeId, 0]))
+
+  graph.paths.forEach((path, index) => {
+    const trustScores = path.nodes.map(nodeId => trustByNode.get(nodeId) ?? 0)
+    const shares = computeSplitShares(policy, path.nodes.length, trustScores)
+    allocateMinorUnits(perPath[index], shares).forEach((amount, position) => {
+      const nodeId = path.nodes[position]
+      amounts.set(nodeId, (amounts.get(nodeId) ?? 0) + amount)
+    })
+  })
+
+  return amounts
+}
+
+/**
+ * Everyone credited for a referral: its graph's nodes, or its chain
+ */
+export function creditedNodeIds(chainPath: string[], attributionGraph: unknown): string[] {
+  return parseAttributionGraph(attributionGraph)?.nodes ?? chainPath
+}
@@ -10,6 +10,7 @@ import { prisma } from '@/lib/prisma'
 // Clout point values for different activities
 export const CLOUT_POINTS = {
   SUCCESSFUL_REFERRAL: 10,
+  REFERRAL_CHAIN_CONTRIBUTION: 5,
   QUALITY_ENDORSEMENT: 5,
   NETWORK_INVITATION: 3,
   HIRING_MANAGER_SUCCESS: 15,
@@ -147,6 +148,8 @@ export async function recordEarnings(
 
 /**
  * Process successful job referral - awards both clout and earnings
+ * to the direct referrer only. Hires made through the referral system are
+ * paid to the whole chain by settleReferral (referral-settlement.ts).
  */
 export async function processSuccessfulReferral(
   referrerId: string,
@@ -0,0 +1,148 @@
+/**
+ * DUPLICATE REFERRALS
+ *
+ * A candidate can only be referred once per job. When someone else refers
+ * a candidate who already has a referral for the job, the new referral is
+ * kept as a duplicate of the original (Referral.duplicateOfId) and the
+ * job's policy (Job.duplicateReferralPolicy) decides what it's worth:
+ *
+ * - FIRST_WINS: the later referral is refused; the original referrer's
+ *   chain gets all the credit
+ * - SHARED_CREDIT: the duplicate shares credit with the original. The
+ *   budget is split equally between the referrals, then each referral's
+ *   share along its own chain (or attribution graph)
+ * - HIRING_MANAGER_DECIDES: the duplicate waits for the hiring manager to
+ *   keep the original, switch to the duplicate, or share credit
+ *
+ * Only the original referral moves through the hiring pipeline; the
+ * duplicates follow it.
+ *
+ * Safe to import from client components (no database access).
+ */
+
+import type { DuplicateReferralPolicy, DuplicateResolution, PathWeighting } from '@prisma/client'
+import { AttributionGraph, AttributionPath, parseAttributionGraph } from '@/lib/chain-attribution'
+
+export const DUPLICATE_REFERRAL_POLICIES: DuplicateReferralPolicy[] = [
+  'FIRST_WINS',
+  'SHARED_CREDIT',
+  'HIRING_MANAGER_DECIDES'
+]
+
+export const DUPLICATE_REFERRAL_POLICY_LABELS: Record<DuplicateReferralPolicy, string> = {
+  FIRST_WINS: 'First referral wins',
+  SHARED_CREDIT: 'Share credit',
+  HIRING_MANAGER_DECIDES: 'I decide'
+}
+
+export const DUPLICATE_REFERRAL_POLICY_DESCRIPTIONS: Record<DuplicateReferralPolicy, string> = {
+  FIRST_WINS: 'Later referrals of the same candidate are turned away',
+  SHARED_CREDIT: 'Everyone who referred the candidate splits the reward equally',
+  HIRING_MANAGER_DECIDES: 'You choose who gets credit when a candidate is referred twice'
+}
+
+export function isDuplicateReferralPolicy(value: unknown): value is DuplicateReferralPolicy {
+  return typeof value === 'string' && (DUPLICATE_REFERRAL_POLICIES as string[]).includes(value)
+}
+
+export const DUPLICATE_RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  PENDING: 'Awaiting your decision',
+  SHARED: 'Sharing credit',
+  DISMISSED: 'Dismissed'
+}
+
+/**
+ * What the hiring manager can do with a pending duplicate
+ *
+ * - KEEP_ORIGINAL: dismiss the duplicate
+ * - USE_DUPLICATE: the duplicate becomes the original (only before the
+ *   original has moved past PENDING)
+ * - SHARE_CREDIT: both referrals share credit
+ */
+export type DuplicateDecision = 'KEEP_ORIGINAL' | 'USE_DUPLICATE' | 'SHARE_CREDIT'
+
+export const DUPLICATE_DECISIONS: DuplicateDecision[] = ['KEEP_ORIGINAL', 'USE_DUPLICATE', 'SHARE_CREDIT']
+
+export const DUPLICATE_DECISION_LABELS: Record<DuplicateDecision, string> = {
+  KEEP_ORIGINAL: 'Keep original',
+  USE_DUPLICATE: 'Use this referral instead',
+  SHARE_CREDIT: 'Share credit'
+}
+
+export function isDuplicateDecision(value: unknown): value is DuplicateDecision {
+  return typeof value === 'string' && (DUPLICATE_DECISIONS as string[]).includes(value)
+}
+
+/**
+ * How a new duplicate starts out under a job's policy (FIRST_WINS
+ * duplicates are refused when referred, so only show up as DISMISSED when
+ * placeholder accounts are merged)
+ */
+export function initialDuplicateResolution(policy: DuplicateReferralPolicy): DuplicateResolution {
+  switch (policy) {
+    case 'SHARED_CREDIT':
+      return 'SHARED'
+    case 'HIRING_MANAGER_DECIDES':
+      return 'PENDING'
+    default:
+      return 'DISMISSED'
+  }
+}
+
+/**
+ * The "one original per candidate per job" key (Referral.candidateClaim)
+ */
+export function candidateClaimKey(jobId: string, candidateId: string): string {
+  return `${jobId}:${candidateId}`
+}
+
+export interface CreditedReferral {
+  referrerNodeId: string
+  chainPath: string[]
+  attributionGraph: unknown
+}
+
+/**
+ * Combines the original referral and the duplicates sharing its credit
+ * into one attribution graph. Each referral gets an equal share, divided
+ * between its own paths as before (a plain chain is a single path).
+ *
+ * @param referrals - The original first, then the sharing duplicates
+ * @returns A graph whose nodes end with the direct referrers
+ */
+export function shareCreditAcrossReferrals(
+  referrals: CreditedReferral[],
+  weighting: PathWeighting = 'EQUAL'
+): AttributionGraph {
+  const share = 1 / referrals.length
+  const paths: AttributionPath[] = []
+  const edges = new Map<string, AttributionGraph['edges'][number]>()
+  let truncated = false
+
+  referrals.forEach(referral => {
+    const graph = parseAttributionGraph(referral.attributionGraph)
+
+    if (graph) {
+      graph.paths.forEach(path => paths.push({ ...path, weight: path.weight * share }))
+      graph.edges.forEach(edge => edges.set(edge.forwardId, edge))
+      truncated = truncated || graph.truncated
+    } else {
+      paths.push({ nodes: referral.chainPath, forwardIds: [], reachedAt: [], weight: share })
+    }
+  })
+
+  const referrerIds = Array.from(new Set(referrals.map(referral => referral.referrerNodeId)))
+  const nodes: string[] = []
+  paths.forEach(path => path.nodes.forEach(nodeId => {
+    if (!referrerIds.includes(nodeId) && !nodes.includes(nodeId)) nodes.push(nodeId)
+  }))
+
+  return {
+    weighting,
+    referrerNodeId: referrals[0].referrerNodeId,
+    nodes: [...nodes, ...referrerIds],
+    edges: Array.from(edges.values()),
+    paths,
+    truncated
+  }
+}
@@ -7,74 +7,58 @@
  */
 
 import { prisma } from '@/lib/prisma'
-
-interface TrustAllocation {
-  [nodeId: string]: { [targetNodeId: string]: number }
-}
-
-interface TrustScores {
-  [nodeId: string]: number
-}
+import { Prisma, TrustAlgorithm, TrustDomain } from '@prisma/client'
+import {
+  buildSparseTrustMatrix,
+  modifiedTrustSteps,
+  propagationSteps,
+  PropagationResult,
+  runWithProgress
+} from '@/lib/eigentrust-sparse'
+import { loadPretrustSeeds, normalizeSeedWeights } from '@/lib/pretrust'
+import { reconcileTrustLedger } from '@/lib/trust-budget'
+import { applyTrustDecay, DatedTrustEdge } from '@/lib/trust-decay'
+import { computeDistrustPenalties, loadDistrustEdges } from '@/lib/trust-distrust'
+import { enqueueJob } from '@/lib/job-queue'
+import { pruneTrustSnapshots } from '@/lib/trust-history'
 
 interface ComputationResult {
   success: boolean
+  computationId?: string  // TrustComputationLog id, also keys the score snapshot
   numUsers: number
   iterations: number
   converged: boolean
-  scores: Array<{
-    userId: string
-    trustScore: number
-    displayScore: number
-    rank: number
-  }>
+  algorithm?: TrustAlgorithm
+  warmStarted?: boolean
+  scoresChanged?: number
+  estimatedUserIds?: string[]  // MODIFIED: scores that are only approximately allocation-independent
+  scores: ComputedScore[]
   error?: string
 }
 
-/**
- * Creates a 2D matrix filled with zeros
- */
-function createMatrix(rows: number, cols: number): number[][] {
-  return Array(rows).fill(null).map(() => Array(cols).fill(0))
-}
-
-/**
- * Creates a vector filled with the specified value
- */
-function createVector(size: number, fillValue: number = 0): number[] {
-  return Array(size).fill(fillValue)
+export interface ProposedAllocation {
+  receiverId: string
+  proportion: number
 }
 
-/**
- * Transposes a matrix
- */
-function transpose(matrix: number[][]): number[][] {
-  const rows = matrix.length
-  const cols = matrix[0].length
-  const result = createMatrix(cols, rows)
-
-  for (let i = 0; i < rows; i++) {
-    for (let j = 0; j < cols; j++) {
-      result[j][i] = matrix[i][j]
-    }
+interface ComputationOptions {
+  warmStart?: boolean
+  algorithm?: TrustAlgorithm  // Defaults to SystemConfig.trustAlgorithm
+  dryRun?: boolean            // Compute scores in memory without saving anything
+  allocationOverride?: {      // Replace one giver's allocations (what-if)
+    giverId: string
+    allocations: ProposedAllocation[]
   }
-
-  return result
+  domain?: TrustDomain        // Only general allocations and ones tagged with this domain
+  onProgress?: (progress: number, message: string) => Promise<void> | void
 }
 
-/**
- * Matrix-vector multiplication
- */
-function matrixVectorMultiply(matrix: number[][], vector: number[]): number[] {
-  const n = matrix.length
-  const result = createVector(n)
-
-  for (let i = 0; i < n; i++) {
-    for (let j = 0; j < n; j++) {
-      result[i] += matrix[i][j] * vector[j]
-    }
-  }
-
-  return result
+export interface ComputedScore {
+  userId: string
+  trustScore: number
+  displayScore: number
+  rank: number
+  distrustPenalty?: number  // Already subtracted from trustScore
 }
 
 /**
@@ -84,7 +68,8 @@ export async function computeEigenTrust(
   decayFactor: number = 0.15,
   maxIterations: number = 100,
   convergenceThreshold: number = 0.000001,
-  triggeredBy: string = "manual"
+  triggeredBy: string = "manual",
+  options: ComputationOptions = {}
 ): Promise<ComputationResult> {
 
   const startTime = Date.now()
@@ -119,12 +104,20 @@ export async function computeEigenTrust(
     userIds.push(user.id)
   })
 
-  // Identify admin user
-  const adminUser = users.find(u => u.email === 'vaishnav@cloutcareers.com')
-  if (!adminUser) {
+  const config = await prisma.systemConfig.findFirst({
+    select: { trustAlgorithm: true, trustHalfLifeDays: true }
+  })
+  const algorithm: TrustAlgorithm = options.algorithm ?? config?.trustAlgorithm ?? 'STANDARD'
+
+  // Identify pretrust seed users (falls back to the admin)
+  const seeds = (await loadPretrustSeeds())
+    .filter(seed => userToIndex.has(seed.userId))
+    .map(seed => ({ index: userToIndex.get(seed.userId)!, weight: seed.weight }))
+
+  if (seeds.length === 0) {
     return {
       success: false,
-      error: "Admin user not found",
+      error: "No pretrust seed users found",
       numUsers: n,
       iterations: 0,
       converged: false,
@@ -132,152 +125,206 @@ export async function computeEigenTrust(
     }
   }
 
-  const adminIndex = userToIndex.get(adminUser.id)!
+  const seedDistribution = normalizeSeedWeights(seeds)
 
-  console.log(`Computing EigenTrust for ${n} users`)
-  console.log(`Admin is at index ${adminIndex}`)
+  console.log(`Computing EigenTrust (${algorithm}) for ${n} users`)
+  console.log(`Pretrust seeds at indices ${seedDistribution.map(seed => seed.index).join(', ')}`)
+  await options.onProgress?.(0.1, `Loaded ${n} users`)
 
   // =========================================================================
-  // STEP 2: Build Trust Matrix C
-  // C is n×n matrix where C[i][j] = proportion of trust user i gives to user j
+  // STEP 2: Build Sparse Trust Matrix C
+  // Row i lists the proportions user i gives to others (CSR adjacency list)
   // Each row must sum to 1.0
   // =========================================================================
 
-  // Initialize matrix with zeros
-  const C = createMatrix(n, n)
+  // Allocations quarantined by sybil/collusion review are left out
+  const allocationFilter: Prisma.TrustAllocationWhereInput = { quarantineFlagId: null }
+  if (options.domain) {
+    allocationFilter.OR = [
+      { domains: { isEmpty: true } },
+      { domains: { has: options.domain } }
+    ]
+  }
 
-  // Fetch all trust allocations from database
-  const allocations = await prisma.trustAllocation.findMany()
+  let allocations = await prisma.trustAllocation.findMany({
+    where: allocationFilter,
+    select: { giverId: true, receiverId: true, proportion: true, confirmedAt: true }
+  })
 
-  // Fill the matrix
+  const override = options.allocationOverride
+  if (override) {
+    // Quarantine sticks to the giver/receiver pair, so it still applies
+    const quarantined = await prisma.trustAllocation.findMany({
+      where: { giverId: override.giverId, quarantineFlagId: { not: null } },
+      select: { receiverId: true }
+    })
+    const quarantinedReceivers = new Set(quarantined.map(allocation => allocation.receiverId))
+
+    allocations = allocations
+      .filter(allocation => allocation.giverId !== override.giverId)
+      .concat(override.allocations
+        .filter(allocation => !quarantinedReceivers.has(allocation.receiverId))
+        .map(allocation => ({
+          giverId: override.giverId,
+          receiverId: allocation.receiverId,
+          proportion: allocation.proportion,
+          confirmedAt: new Date(startTime)  // A proposal is as fresh as it gets
+        })))
+  }
+
+  const datedEdges: DatedTrustEdge[] = []
   for (const allocation of allocations) {
     const giverIdx = userToIndex.get(allocation.giverId)
     const receiverIdx = userToIndex.get(allocation.receiverId)
 
     if (giverIdx !== undefined && receiverIdx !== undefined) {
-      C[giverIdx][receiverIdx] = allocation.proportion
+      datedEdges.push({
+        giverIndex: giverIdx,
+        receiverIndex: receiverIdx,
+        proportion: allocation.proportion,
+        confirmedAt: allocation.confirmedAt
+      })
     }
   }
 
-  // Verify/fix each row
-  for (let i = 0; i < n; i++) {
-    const rowSum = C[i].reduce((sum, val) => sum + val, 0)
-
-    if (Math.abs(rowSum) < 0.001) {
-      // User hasn't allocated trust yet - default: trust only admin
-      // This preserves admin's signal instead of diluting it
-      console.log(`User at index ${i} has no allocations, defaulting to trust admin only`)
-      C[i][adminIndex] = 1.0
-    } else if (Math.abs(rowSum - 1.0) > 0.01) {
-      // Row doesn't sum to 1.0, normalize it
-      console.log(`User at index ${i} allocations sum to ${rowSum}, normalizing`)
-      for (let j = 0; j < n; j++) {
-        C[i][j] = C[i][j] / rowSum
-      }
-    }
+  // Stale allocations fade toward the seeds (no-op when decay is off)
+  const { edges, decayedEdges } = applyTrustDecay(datedEdges, seedDistribution, config?.trustHalfLifeDays, new Date(startTime))
+  if (decayedEdges > 0) {
+    console.log(`Trust decay: ${decayedEdges} allocations faded (half-life ${config?.trustHalfLifeDays} days)`)
   }
 
-  // =========================================================================
-  // STEP 3: Build Pretrust Vector p
-  // p[i] = 1.0 if i is admin, 0.0 otherwise
-  // This represents "initial trust" before network effects
-  // =========================================================================
+  // Users with no allocations default to the seed distribution
+  // This preserves the seeds' signal instead of diluting it
+  const C = buildSparseTrustMatrix(n, edges, seedDistribution)
 
-  const p = createVector(n, 0.0)
-  p[adminIndex] = 1.0
+  console.log(`Trust matrix: ${edges.length} edges, ${C.defaultedRows} users defaulted to seeds, ${C.normalizedRows} rows normalized`)
+  await options.onProgress?.(0.3, `Built trust matrix (${edges.length} edges)`)
 
   // =========================================================================
-  // STEP 4: Initialize Trust Vector t^(0)
-  // Start with pretrust: admin = 1.0, everyone else = 0.0
-  // Trust will propagate from admin through the network
+  // STEP 3: Build Pretrust Vector p
+  // p[i] = seed weight if i is a seed, 0.0 otherwise (sums to 1.0)
+  // This represents "initial trust" before network effects
+  //
+  // Seeds are pinned relative to the heaviest seed, so with a single seed
+  // (the admin) that seed stays at 1.0 as before
   // =========================================================================
 
-  let tOld = [...p]  // [0, 0, ..., 1.0, ..., 0, 0]
+  const p = new Float64Array(n)
+  for (const seed of seedDistribution) {
+    p[seed.index] = seed.weight
+  }
 
-  console.log("Starting iteration with admin trust = 1.0, others = 0.0")
+  const maxSeedWeight = Math.max(...seedDistribution.map(seed => seed.weight))
+  const pinnedTrust = seedDistribution.map(seed => ({
+    index: seed.index,
+    weight: seed.weight / maxSeedWeight
+  }))
 
   // =========================================================================
-  // STEP 5: Iterative Trust Propagation
-  // Each iteration propagates trust one more degree through the network
+  // STEP 4: Iterative Trust Propagation
+  // t^(k+1) = (1-α) × C^T × t^(k) + α × p, starting from t^(0) = p
+  // Seed trust is pinned as the reference point
+  //
+  // When warm-starting, t^(0) is the previous ComputedTrustScore vector.
+  // The fixed point is the same, but a small allocation edit converges in
+  // a handful of iterations instead of propagating from scratch.
+  //
+  // MODIFIED runs the allocation-independent variant instead: no pinning,
+  // and a user's own outgoing allocations never affect their score (only
+  // approximately in components too large for an exact solve, which are
+  // recorded as estimatedUserIds).
   // =========================================================================
 
-  const alpha = decayFactor  // Probability of teleporting back to pretrust
-  let converged = false
-  let iterationCount = 0
-
-  for (let iteration = 0; iteration < maxIterations; iteration++) {
-    iterationCount = iteration + 1
-
-    // --- 5a. Matrix Multiplication: C^T × t^(k) ---
-    // This computes how much trust flows TO each user
-    // from all other users based on current trust scores
-
-    const CTranspose = transpose(C)
-    const networkTrust = matrixVectorMultiply(CTranspose, tOld)
-
-    // --- 5b. Apply EigenTrust Formula ---
-    // t^(k+1) = (1-α) × networkTrust + α × p
-    //
-    // Intuition:
-    // - 85% (if α=0.15) comes from network trust propagation
-    // - 15% comes from "teleporting" back to pretrust (admin)
+  const previousScores = await prisma.computedTrustScore.findMany({
+    select: { userId: true, trustScore: true, displayScore: true, rank: true }
+  })
+  const previousByUser = new Map(previousScores.map(score => [score.userId, score]))
 
-    const tNew = createVector(n)
+  let initialTrust: Float64Array | undefined
+  if (options.warmStart && algorithm === 'STANDARD' && previousScores.length > 0) {
+    initialTrust = Float64Array.from(p)
     for (let i = 0; i < n; i++) {
-      tNew[i] = (1 - alpha) * networkTrust[i] + alpha * p[i]
+      const previous = previousByUser.get(userIds[i])
+      if (previous) initialTrust[i] = previous.trustScore
     }
-
-    // --- 5c. CRITICAL: Fix Admin Trust at 1.0 ---
-    // Admin is always the reference point
-    // Without this, admin's trust would decay to alpha × 1.0 = 0.15
-
-    tNew[adminIndex] = 1.0
-
-    // --- 5d. Check Convergence ---
-    // Stop when trust scores stop changing significantly
-    // This means trust has propagated through all path lengths
-
-    let maxChange = 0
-    for (let i = 0; i < n; i++) {
-      const change = Math.abs(tNew[i] - tOld[i])
-      if (change > maxChange) {
-        maxChange = change
-      }
+    for (const pin of pinnedTrust) {
+      initialTrust[pin.index] = pin.weight
     }
+    console.log(`Warm-starting from ${previousScores.length} previous scores`)
+  } else {
+    console.log("Starting iteration from pretrust (seeds only)")
+  }
 
-    // Log progress every 10 iterations
-    if (iteration % 10 === 0) {
-      console.log(`Iteration ${iteration}: max change = ${maxChange}`)
-    }
+  const alpha = decayFactor  // Probability of teleporting back to pretrust
 
-    // Check if converged
-    if (maxChange < convergenceThreshold) {
-      converged = true
-      console.log(`✓ Converged after ${iterationCount} iterations`)
-      tOld = tNew
-      break
-    }
+  let propagation: PropagationResult
+
+  // Reports between iterations, which also keeps a queued job's heartbeat going
+  const reportPropagation = (fraction: number) =>
+    options.onProgress?.(0.3 + 0.4 * fraction, 'Propagating trust')
+
+  if (algorithm === 'MODIFIED') {
+    const modified = await runWithProgress(modifiedTrustSteps(C, p, {
+      decayFactor: alpha,
+      maxIterations,
+      convergenceThreshold
+    }), reportPropagation)
+
+    // Scores are unnormalized. Scale by a constant that depends only on the
+    // config, so a seed with no incoming trust scores 1.0 like a pinned seed.
+    // (Scaling by anything data-dependent would break allocation independence)
+    const scale = 1 / (alpha * maxSeedWeight)
+    propagation = { ...modified, scores: modified.scores.map(score => score * scale) }
+  } else {
+    propagation = await runWithProgress(propagationSteps(C, p, {
+      decayFactor: alpha,
+      maxIterations,
+      convergenceThreshold,
+      pinnedTrust,
+      initialTrust
+    }), reportPropagation)
+  }
 
-    // Update for next iteration
-    tOld = tNew
+  const t = propagation.scores
+  const converged = propagation.converged
+  const estimatedUserIds = (propagation.estimated ?? []).map(index => userIds[index])
+  if (estimatedUserIds.length > 0) {
+    console.log(`⚠ ${estimatedUserIds.length} users are in components too large for exact scores; theirs are estimated`)
   }
+  const iterationCount = propagation.iterations
 
-  // After loop
-  if (!converged) {
+  if (converged) {
+    console.log(`✓ Converged after ${iterationCount} iterations`)
+  } else {
     console.log(`⚠ Did not converge after ${maxIterations} iterations`)
   }
+  await options.onProgress?.(0.7, `Propagated trust in ${iterationCount} iterations`)
 
   // =========================================================================
-  // STEP 6: Prepare Results
+  // STEP 5: Apply Distrust, Prepare Results
+  // One-step, capped distrust penalty on top of propagated trust
+  // (see trust-distrust.ts); seeds are exempt
   // =========================================================================
 
-  const scores = []
+  const distrustEdges = await loadDistrustEdges(userToIndex)
+  const penalties = computeDistrustPenalties(
+    t,
+    distrustEdges,
+    new Set(seedDistribution.map(seed => seed.index))
+  )
+  if (distrustEdges.length > 0) {
+    console.log(`Distrust: ${distrustEdges.length} signals, ${penalties.filter(penalty => penalty > 0).length} users penalized`)
+  }
+
+  const scores: ComputedScore[] = []
   for (let i = 0; i < n; i++) {
+    const trustScore = t[i] - penalties[i]
     scores.push({
       userId: userIds[i],
-      trustScore: tOld[i],          // Raw score (0.0-1.0)
-      displayScore: Math.round(tOld[i] * 100),  // For UI (0-100)
-      rank: 0  // Will be set after sorting
+      trustScore: trustScore,    // Raw score (top seed = 1.0)
+      displayScore: Math.round(trustScore * 100),  // For UI (0-100)
+      rank: 0,  // Will be set after sorting
+      distrustPenalty: penalties[i]
     })
   }
 
@@ -288,77 +335,204 @@ export async function computeEigenTrust(
     sortedScores[position].rank = position + 1
   }
 
-  // Update original scores array with ranks
-  for (const score of scores) {
-    const sorted = sortedScores.find(s => s.userId === score.userId)
-    if (sorted) score.rank = sorted.rank
+  // sortedScores holds the same objects as scores, so ranks are already set
+
+  const warmStarted = initialTrust !== undefined
+
+  if (options.dryRun) {
+    return {
+      success: true,
+      numUsers: n,
+      iterations: iterationCount,
+      converged: converged,
+      algorithm: algorithm,
+      warmStarted: warmStarted,
+      estimatedUserIds: estimatedUserIds,
+      scores: scores
+    }
   }
 
   // =========================================================================
-  // STEP 7: Save to Database
+  // STEP 6: Save to Database
+  // Only ComputedTrustScore rows whose score or rank actually moved are
+  // written. Differences below the convergence threshold are iteration
+  // noise, not real changes. The full vector is kept as a snapshot,
+  // thinned out over time (trust-history.ts).
   // =========================================================================
 
-  await prisma.$transaction(async (tx) => {
-    // Delete old computed scores
-    await tx.computedTrustScore.deleteMany({})
+  const changedScores = scores.filter(score => {
+    const previous = previousByUser.get(score.userId)
+    return !previous ||
+      previous.rank !== score.rank ||
+      previous.displayScore !== score.displayScore ||
+      Math.abs(previous.trustScore - score.trustScore) >= convergenceThreshold
+  })
 
-    // Insert new computed scores
-    await tx.computedTrustScore.createMany({
-      data: scores.map(score => ({
-        userId: score.userId,
+  await options.onProgress?.(0.8, `Saving ${changedScores.length} changed scores`)
+
+  const computationId = await prisma.$transaction(async (tx) => {
+    for (const score of changedScores) {
+      const data = {
         trustScore: score.trustScore,
         displayScore: score.displayScore,
         rank: score.rank,
-        iterationCount: iterationCount
-      }))
-    })
+        distrustPenalty: score.distrustPenalty ?? 0,
+        iterationCount: iterationCount,
+        computedAt: new Date()
+      }
+
+      await tx.computedTrustScore.upsert({
+        where: { userId: score.userId },
+        create: { userId: score.userId, ...data },
+        update: data
+      })
+    }
 
     // Log this computation
-    await tx.trustComputationLog.create({
+    const log = await tx.trustComputationLog.create({
       data: {
         numUsers: n,
         numIterations: iterationCount,
         convergenceThreshold: convergenceThreshold,
         decayFactor: alpha,
         converged: converged,
-        triggeredBy: triggeredBy
+        triggeredBy: triggeredBy,
+        algorithm: algorithm,
+        warmStarted: warmStarted,
+        scoresChanged: changedScores.length,
+        estimatedUserIds: estimatedUserIds
       }
     })
+
+    // Snapshot every score (not just changed ones) so each computation
+    // is a complete, versioned view of the network for history and diffs
+    await tx.trustScoreSnapshot.createMany({
+      data: scores.map(score => ({
+        computationId: log.id,
+        userId: score.userId,
+        trustScore: score.trustScore,
+        displayScore: score.displayScore,
+        rank: score.rank
+      }))
+    })
+
+    return log.id
   }, {
+    // Runs in the background job worker, so a large network can take
+    // longer than a request handler could afford
     maxWait: 10000,
-    timeout: 10000,
+    timeout: 120000,
   })
 
-  console.log(`✓ Saved ${n} computed scores to database`)
+  console.log(`✓ Updated ${changedScores.length} of ${n} computed scores in ${Date.now() - startTime}ms`)
 
   // =========================================================================
-  // STEP 8: Return Results
+  // STEP 7: Return Results
   // =========================================================================
 
   return {
     success: true,
+    computationId: computationId,
     numUsers: n,
     iterations: iterationCount,
     converged: converged,
+    algorithm: algorithm,
+    warmStarted: warmStarted,
+    scoresChanged: changedScores.length,
+    estimatedUserIds: estimatedUserIds,
     scores: scores
   }
 }
 
+// =========================================================================
+// Queued Recomputation
+// Computations that write scores run as TRUST_COMPUTATION jobs (see
+// job-queue.ts). Bursts of allocation edits are coalesced into a single
+// queued job, and the queue's lock keeps runs from overlapping.
+// =========================================================================
+
+const RECOMPUTE_DEBOUNCE_MS = 2000
+
+/**
+ * Queue a warm-started recomputation, coalescing calls made before the
+ * queued job starts into one run
+ */
+export function scheduleTrustRecomputation(triggeredBy: string = "user_update"): void {
+  enqueueJob('TRUST_COMPUTATION', { triggers: [triggeredBy] }, {
+    delayMs: RECOMPUTE_DEBOUNCE_MS,
+    coalesce: true
+  }).catch(error => {
+    console.error('Failed to queue trust computation:', error)
+  })
+}
+
+export interface TrustComputationSummary {
+  computationId: string | null
+  numUsers: number
+  iterations: number
+  converged: boolean
+  scoresChanged: number
+  domains: TrustDomain[]
+}
+
+/**
+ * Computes and saves global and domain trust scores. Called by the job
+ * queue, which guarantees only one runs at a time.
+ *
+ * @throws Error if the computation fails, so the job is retried
+ */
+export async function runTrustComputation(
+  triggeredBy: string,
+  options: Pick<ComputationOptions, 'warmStart' | 'onProgress'> = {}
+): Promise<TrustComputationSummary> {
+  const result = await computeEigenTrust(0.15, 100, 0.000001, triggeredBy, {
+    warmStart: options.warmStart,
+    onProgress: (progress, message) => options.onProgress?.(progress * 0.9, message)
+  })
+
+  if (!result.success) {
+    throw new Error(result.error || 'Trust computation failed')
+  }
+
+  await options.onProgress?.(0.9, 'Computing domain trust scores')
+  const { computeDomainTrustScores } = await import('@/lib/trust-domain-scores')
+  const domains = await computeDomainTrustScores(triggeredBy)
+
+  const pruned = await pruneTrustSnapshots()
+  if (pruned > 0) {
+    console.log(`Pruned ${pruned} old trust score snapshots`)
+  }
+
+  // Look for sybil rings and spikes in the graph that was just scored
+  await enqueueJob('TRUST_ANOMALY_DETECTION', {}, { coalesce: true })
+
+  return {
+    computationId: result.computationId ?? null,
+    numUsers: result.numUsers,
+    iterations: result.iterations,
+    converged: result.converged,
+    scoresChanged: result.scoresChanged ?? 0,
+    domains
+  }
+}
+
 /**
  * Initialize clean trust state - clears all allocations
- * Users with no allocations will default to trusting admin only
- * This preserves admin's signal instead of diluting it with equal distributions
+ * Users with no allocations will default to trusting the pretrust seeds
+ * This preserves the seeds' signal instead of diluting it with equal distributions
  */
 export async function initializeCleanTrustState(): Promise<void> {
   console.log("Initializing clean trust state")
-  console.log("Clearing all trust allocations - users will default to trusting admin")
+  console.log("Clearing all trust allocations - users will default to trusting the pretrust seeds")
 
   // Simply clear all allocations
-  // The computation algorithm will default unallocated users to trust admin only
+  // The computation algorithm will default unallocated users to the seed distribution
   await prisma.trustAllocation.deleteMany({})
 
+  // Everyone's budget is free again
+  await reconcileTrustLedger()
+
   console.log("✓ Clean trust state initialized")
-  console.log("📋 Users without allocations will automatically trust admin")
-  console.log("📋 Admin's trust allocations will drive initial rankings")
+  console.log("📋 Users without allocations will automatically trust the pretrust seeds")
+  console.log("📋 Seed users' trust allocations will drive initial rankings")
 }
-
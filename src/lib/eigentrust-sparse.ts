@@ -0,0 +1,602 @@
+/**
+ * Sparse EigenTrust Engine
+ *
+ * Pure (database-free) power iteration over a CSR-style adjacency list.
+ * Memory is O(n + m) and each iteration is O(n + m), where m is the number
+ * of TrustAllocation rows, instead of the O(n²) dense matrix.
+ *
+ * Contributions into each receiver are accumulated in ascending giver order,
+ * which is the same summation order the dense C^T × t product used, so the
+ * results are bit-for-bit identical to the previous dense implementation.
+ */
+
+export interface TrustEdge {
+  giverIndex: number
+  receiverIndex: number
+  proportion: number
+}
+
+/**
+ * One entry of a sparse distribution over users (e.g. the pretrust seeds)
+ */
+export interface WeightedIndex {
+  index: number
+  weight: number
+}
+
+/**
+ * Row-compressed trust matrix C.
+ * Row i (giver) occupies colIdx/values[rowPtr[i] .. rowPtr[i + 1]).
+ */
+export interface SparseTrustMatrix {
+  size: number
+  rowPtr: Int32Array
+  colIdx: Int32Array
+  values: Float64Array
+  defaultedRows: number
+  normalizedRows: number
+}
+
+export interface PropagationOptions {
+  decayFactor: number
+  maxIterations: number
+  convergenceThreshold: number
+  pinnedTrust?: WeightedIndex[]
+  initialTrust?: Float64Array
+  maxExactComponentSize?: number  // Modified only; defaults to MAX_EXACT_COMPONENT_SIZE
+}
+
+export interface PropagationResult {
+  scores: Float64Array
+  iterations: number
+  converged: boolean
+  estimated?: number[]  // Modified only: users whose return mass was estimated, not exact
+}
+
+/**
+ * Builds the row-normalized trust matrix from allocation edges.
+ *
+ * Row rules (unchanged from the dense implementation):
+ * - Row sums to ~0: user hasn't allocated, row defaults to defaultRow
+ *   (the pretrust seed distribution)
+ * - Row sum off by more than 0.01: normalize the row
+ * - Otherwise: keep the row as-is
+ */
+export function buildSparseTrustMatrix(
+  size: number,
+  edges: TrustEdge[],
+  defaultRow: WeightedIndex[]
+): SparseTrustMatrix {
+  // Collapse duplicates (last write wins, like assigning into C[i][j])
+  const rows: Map<number, number>[] = Array.from({ length: size }, () => new Map())
+
+  for (const edge of edges) {
+    if (edge.giverIndex < 0 || edge.giverIndex >= size) continue
+    if (edge.receiverIndex < 0 || edge.receiverIndex >= size) continue
+    rows[edge.giverIndex].set(edge.receiverIndex, edge.proportion)
+  }
+
+  let defaultedRows = 0
+  let normalizedRows = 0
+
+  for (let i = 0; i < size; i++) {
+    const row = rows[i]
+    let rowSum = 0
+    // Sum in column order so the result matches the dense reduce()
+    const columns = Array.from(row.keys()).sort((a, b) => a - b)
+    for (const j of columns) {
+      rowSum += row.get(j)!
+    }
+
+    if (Math.abs(rowSum) < 0.001) {
+      for (const entry of defaultRow) {
+        row.set(entry.index, entry.weight)
+      }
+      defaultedRows++
+    } else if (Math.abs(rowSum - 1.0) > 0.01) {
+      for (const j of columns) {
+        row.set(j, row.get(j)! / rowSum)
+      }
+      normalizedRows++
+    }
+  }
+
+  const rowPtr = new Int32Array(size + 1)
+  for (let i = 0; i < size; i++) {
+    rowPtr[i + 1] = rowPtr[i] + rows[i].size
+  }
+
+  const colIdx = new Int32Array(rowPtr[size])
+  const values = new Float64Array(rowPtr[size])
+
+  for (let i = 0; i < size; i++) {
+    const columns = Array.from(rows[i].keys()).sort((a, b) => a - b)
+    let k = rowPtr[i]
+    for (const j of columns) {
+      colIdx[k] = j
+      values[k] = rows[i].get(j)!
+      k++
+    }
+  }
+
+  return { size, rowPtr, colIdx, values, defaultedRows, normalizedRows }
+}
+
+/**
+ * Computes C^T × t without materializing the transpose.
+ */
+export function sparseTransposeMultiply(
+  matrix: SparseTrustMatrix,
+  vector: Float64Array
+): Float64Array {
+  const result = new Float64Array(matrix.size)
+
+  for (let i = 0; i < matrix.size; i++) {
+    const ti = vector[i]
+    for (let k = matrix.rowPtr[i]; k < matrix.rowPtr[i + 1]; k++) {
+      result[matrix.colIdx[k]] += matrix.values[k] * ti
+    }
+  }
+
+  return result
+}
+
+/**
+ * EigenTrust power iteration: t^(k+1) = (1-α) × C^T × t^(k) + α × p
+ *
+ * Starts from the pretrust vector, or from initialTrust when warm-starting
+ * from a previous solution. Nodes in pinnedTrust are held at their given
+ * value after every step (the seed reference points).
+ */
+export function propagateTrust(
+  matrix: SparseTrustMatrix,
+  pretrust: Float64Array,
+  options: PropagationOptions
+): PropagationResult {
+  return runToCompletion(propagationSteps(matrix, pretrust, options))
+}
+
+/**
+ * propagateTrust as a computation that yields its progress after every
+ * iteration (see runWithProgress)
+ */
+export function* propagationSteps(
+  matrix: SparseTrustMatrix,
+  pretrust: Float64Array,
+  options: PropagationOptions
+): Computation<PropagationResult> {
+  const { decayFactor: alpha, maxIterations, convergenceThreshold, pinnedTrust, initialTrust } = options
+  const n = matrix.size
+
+  let tOld = Float64Array.from(initialTrust ?? pretrust)
+  let converged = false
+  let iterationCount = 0
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    iterationCount = iteration + 1
+
+    const networkTrust = sparseTransposeMultiply(matrix, tOld)
+
+    const tNew = new Float64Array(n)
+    for (let i = 0; i < n; i++) {
+      tNew[i] = (1 - alpha) * networkTrust[i] + alpha * pretrust[i]
+    }
+
+    if (pinnedTrust) {
+      for (const pin of pinnedTrust) {
+        tNew[pin.index] = pin.weight
+      }
+    }
+
+    let maxChange = 0
+    for (let i = 0; i < n; i++) {
+      const change = Math.abs(tNew[i] - tOld[i])
+      if (change > maxChange) {
+        maxChange = change
+      }
+    }
+
+    if (iteration % 10 === 0) {
+      console.log(`Iteration ${iteration}: max change = ${maxChange}`)
+    }
+
+    tOld = tNew
+
+    if (maxChange < convergenceThreshold) {
+      converged = true
+      break
+    }
+
+    yield iterationCount / maxIterations
+  }
+
+  return { scores: tOld, iterations: iterationCount, converged }
+}
+
+// =========================================================================
+// Modified (allocation-independent) EigenTrust
+// See EIGENTRUST-MODIFICATION.md for the algorithm and its motivation.
+//
+// The reference algorithm re-solves EigenTrust n times, once per vertex k
+// with k's outgoing row removed, and takes T_k from that "frozen" solution.
+// With M = I - (1-α)C^T and t = α M^{-1} p the standard (unpinned) solution,
+// removing row k is a rank-one update of M, and Sherman-Morrison gives
+//
+//   T_k = t_k / (M^{-1})_kk
+//
+// (M^{-1})_kk = 1 + expected discounted number of returns of a trust walk
+// started at k. Only vertices in k's strongly connected component can lead
+// back to k, so it is computed with a local push restricted to that SCC.
+// Cost: one global solve plus n local pushes, instead of n global solves.
+//
+// A push can still reach the whole SCC, so one giant SCC would cost
+// O(n·m) again. Components larger than MAX_EXACT_COMPONENT_SIZE instead
+// estimate the whole diagonal at once: walks of length 0-2 are counted
+// exactly, and the longer ones with Hutchinson's estimator over
+// RETURN_MASS_PROBES random ±1 columns Z (block solves of M_S X = Z).
+// That costs O(probes · iterations · m) however large the component is,
+// but allocation independence no longer holds exactly there: T_k is only
+// as allocation-independent as the estimate is accurate. On random test
+// graphs the return mass is off by ~1% on average and by up to ~15% for
+// individual users (error shrinks like 1/√probes). The result lists
+// those users (estimated), and each computation log records them.
+// =========================================================================
+
+export const MAX_EXACT_COMPONENT_SIZE = 5000
+export const RETURN_MASS_PROBES = 256
+const PROBE_BATCH_SIZE = 64
+const MAX_ESTIMATE_ITERATIONS = 10000
+
+/**
+ * Labels each node with its strongly connected component (iterative Tarjan)
+ */
+export function stronglyConnectedComponents(matrix: SparseTrustMatrix): Int32Array {
+  const n = matrix.size
+  const componentOf = new Int32Array(n).fill(-1)
+  const index = new Int32Array(n).fill(-1)
+  const lowLink = new Int32Array(n)
+  const onStack = new Uint8Array(n)
+  const stack: number[] = []
+  let nextIndex = 0
+  let nextComponent = 0
+
+  for (let root = 0; root < n; root++) {
+    if (index[root] !== -1) continue
+
+    // Each frame is [node, next edge offset]
+    const callStack: Array<[number, number]> = [[root, matrix.rowPtr[root]]]
+    index[root] = lowLink[root] = nextIndex++
+    stack.push(root)
+    onStack[root] = 1
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1]
+      const [u, edge] = frame
+
+      if (edge < matrix.rowPtr[u + 1]) {
+        frame[1]++
+        const v = matrix.colIdx[edge]
+        if (matrix.values[edge] === 0) continue
+
+        if (index[v] === -1) {
+          index[v] = lowLink[v] = nextIndex++
+          stack.push(v)
+          onStack[v] = 1
+          callStack.push([v, matrix.rowPtr[v]])
+        } else if (onStack[v]) {
+          lowLink[u] = Math.min(lowLink[u], index[v])
+        }
+        continue
+      }
+
+      callStack.pop()
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1][0]
+        lowLink[parent] = Math.min(lowLink[parent], lowLink[u])
+      }
+
+      if (lowLink[u] === index[u]) {
+        let w: number
+        do {
+          w = stack.pop()!
+          onStack[w] = 0
+          componentOf[w] = nextComponent
+        } while (w !== u)
+        nextComponent++
+      }
+    }
+  }
+
+  return componentOf
+}
+
+/**
+ * Computes (M^{-1})_kk = Σ_m ((1-α)C^T)^m_kk by pushing walk mass out of k
+ * along trust edges, restricted to k's strongly connected component.
+ * Mass below tolerance on a node is dropped.
+ */
+export function computeReturnMass(
+  matrix: SparseTrustMatrix,
+  k: number,
+  decayFactor: number,
+  componentOf: Int32Array,
+  tolerance: number
+): number {
+  const component = componentOf[k]
+  const residual = new Map<number, number>([[k, 1.0]])
+  const queue: number[] = [k]
+  const queued = new Set<number>([k])
+  let head = 0
+  let returnMass = 0
+
+  while (head < queue.length) {
+    const u = queue[head++]
+    queued.delete(u)
+
+    const mass = residual.get(u) || 0
+    if (mass <= tolerance) continue
+    residual.set(u, 0)
+
+    if (u === k) returnMass += mass
+
+    for (let e = matrix.rowPtr[u]; e < matrix.rowPtr[u + 1]; e++) {
+      const v = matrix.colIdx[e]
+      if (componentOf[v] !== component) continue
+
+      const next = (residual.get(v) || 0) + (1 - decayFactor) * matrix.values[e] * mass
+      residual.set(v, next)
+
+      if (next > tolerance && !queued.has(v)) {
+        queue.push(v)
+        queued.add(v)
+      }
+    }
+  }
+
+  return returnMass
+}
+
+/**
+ * Estimates (M^{-1})_kk for every member of one strongly connected
+ * component: short loops exactly, longer walks from block solves over
+ * random ±1 probe vectors. The probes are seeded, so the same graph always
+ * gets the same estimate.
+ *
+ * @returns Return mass per member, in the order of members
+ */
+export function* estimateReturnMasses(
+  matrix: SparseTrustMatrix,
+  members: number[],
+  decayFactor: number,
+  componentOf: Int32Array,
+  tolerance: number,
+  probes: number = RETURN_MASS_PROBES
+): Computation<Float64Array> {
+  const size = members.length
+  const component = componentOf[members[0]]
+  const localIndex = new Map(members.map((node, i) => [node, i]))
+
+  // W = (1-α) C_S (C restricted to the component), as local-index edge lists
+  const rowStart = new Int32Array(size + 1)
+  const targets: number[] = []
+  const weights: number[] = []
+  for (let i = 0; i < size; i++) {
+    const u = members[i]
+    for (let e = matrix.rowPtr[u]; e < matrix.rowPtr[u + 1]; e++) {
+      const v = matrix.colIdx[e]
+      if (componentOf[v] !== component || matrix.values[e] === 0) continue
+      targets.push(localIndex.get(v)!)
+      weights.push((1 - decayFactor) * matrix.values[e])
+    }
+    rowStart[i + 1] = targets.length
+  }
+
+  // Walks of length 0-2 (the short loops that dominate the estimator's
+  // error) are counted exactly: 1 + W_kk + (W²)_kk
+  const returnMass = new Float64Array(size).fill(1)
+  const incoming: Array<Array<[number, number]>> = Array.from({ length: size }, () => [])
+  for (let i = 0; i < size; i++) {
+    for (let e = rowStart[i]; e < rowStart[i + 1]; e++) {
+      if (targets[e] === i) returnMass[i] += weights[e]
+      incoming[targets[e]].push([i, weights[e]])
+    }
+  }
+
+  // (W²)_kk = Σ_v W_kv W_vk, with k's row scattered into a scratch array
+  const scratch = new Float64Array(size)
+  for (let k = 0; k < size; k++) {
+    for (let e = rowStart[k]; e < rowStart[k + 1]; e++) scratch[targets[e]] += weights[e]
+    for (const [v, weight] of incoming[k]) returnMass[k] += scratch[v] * weight
+    for (let e = rowStart[k]; e < rowStart[k + 1]; e++) scratch[targets[e]] = 0
+  }
+
+  // Longer walks are estimated from ±1 probe vectors Z, solved in batches
+  // so memory stays O(size × PROBE_BATCH_SIZE)
+  const batchCount = Math.ceil(probes / PROBE_BATCH_SIZE)
+  const longWalks = new Float64Array(size)
+  let state = 42
+
+  for (let batch = 0; batch < batchCount; batch++) {
+    const width = Math.min(PROBE_BATCH_SIZE, probes - batch * PROBE_BATCH_SIZE)
+
+    const multiply = (block: Float64Array): Float64Array => {
+      const out = new Float64Array(size * width)
+      for (let i = 0; i < size; i++) {
+        for (let e = rowStart[i]; e < rowStart[i + 1]; e++) {
+          const j = targets[e]
+          for (let s = 0; s < width; s++) {
+            out[i * width + s] += weights[e] * block[j * width + s]
+          }
+        }
+      }
+      return out
+    }
+
+    // Probe signs from a fixed-seed mulberry32 generator
+    const z = new Float64Array(size * width)
+    for (let i = 0; i < z.length; i++) {
+      state = (state + 0x6D2B79F5) >>> 0
+      let t = state
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      z[i] = ((t ^ (t >>> 14)) >>> 0) < 0x80000000 ? 1 : -1
+    }
+
+    // X = Z + W X, iterated to a fixed point. Converges geometrically (rows
+    // of C sum to at most 1); the cap is a safety net.
+    let x: Float64Array = Float64Array.from(z)
+    for (let iteration = 0; iteration < MAX_ESTIMATE_ITERATIONS; iteration++) {
+      const next = multiply(x)
+      let maxChange = 0
+      for (let i = 0; i < next.length; i++) {
+        next[i] += z[i]
+        const change = Math.abs(next[i] - x[i])
+        if (change > maxChange) maxChange = change
+      }
+
+      x = next
+      if (maxChange < tolerance) break
+      yield (batch + (iteration + 1) / MAX_ESTIMATE_ITERATIONS) / batchCount
+    }
+
+    // W³X = Σ_{m≥3} W^m Z: only the walks not already counted exactly
+    const remainder = multiply(multiply(multiply(x)))
+    for (let i = 0; i < size; i++) {
+      for (let s = 0; s < width; s++) {
+        longWalks[i] += z[i * width + s] * remainder[i * width + s]
+      }
+    }
+    yield (batch + 1) / batchCount
+  }
+
+  for (let i = 0; i < size; i++) {
+    // The estimated part can't be negative
+    returnMass[i] += Math.max(0, longWalks[i] / probes)
+  }
+
+  return returnMass
+}
+
+/**
+ * Modified EigenTrust: T_k depends only on k's incoming edges and on the
+ * rest of the network, never on k's own outgoing allocations - exactly for
+ * components up to maxExactComponentSize, approximately above it (the
+ * users listed in estimated). Scores are unnormalized (see
+ * EIGENTRUST-MODIFICATION.md).
+ */
+export function computeModifiedTrust(
+  matrix: SparseTrustMatrix,
+  pretrust: Float64Array,
+  options: PropagationOptions
+): PropagationResult {
+  return runToCompletion(modifiedTrustSteps(matrix, pretrust, options))
+}
+
+/**
+ * computeModifiedTrust as a computation that yields its progress during
+ * the global solve and between local pushes (see runWithProgress)
+ */
+export function* modifiedTrustSteps(
+  matrix: SparseTrustMatrix,
+  pretrust: Float64Array,
+  options: PropagationOptions
+): Computation<PropagationResult> {
+  const { decayFactor, convergenceThreshold, maxExactComponentSize = MAX_EXACT_COMPONENT_SIZE } = options
+
+  // Standard solution without pinning or warm start: t = α M^{-1} p
+  const standardSteps = propagationSteps(matrix, pretrust, {
+    decayFactor,
+    maxIterations: options.maxIterations,
+    convergenceThreshold
+  })
+  let step = standardSteps.next()
+  while (!step.done) {
+    yield step.value / 2
+    step = standardSteps.next()
+  }
+  const standard = step.value
+
+  const componentOf = stronglyConnectedComponents(matrix)
+  const scores = new Float64Array(matrix.size)
+
+  const members = new Map<number, number[]>()
+  for (let k = 0; k < matrix.size; k++) {
+    if (!members.has(componentOf[k])) members.set(componentOf[k], [])
+    members.get(componentOf[k])!.push(k)
+  }
+
+  const estimated: number[] = []
+  let done = 0
+  for (const component of members.values()) {
+    if (component.length > maxExactComponentSize) {
+      console.log(`Estimating return mass for a ${component.length}-node component`)
+      const estimation = estimateReturnMasses(matrix, component, decayFactor, componentOf, convergenceThreshold)
+      let step = estimation.next()
+      while (!step.done) {
+        yield 0.5 + done / (2 * matrix.size)
+        step = estimation.next()
+      }
+      const estimates = step.value
+      component.forEach((k, i) => {
+        scores[k] = standard.scores[k] / estimates[i]
+      })
+      estimated.push(...component)
+      done += component.length
+      yield 0.5 + done / (2 * matrix.size)
+      continue
+    }
+
+    for (const k of component) {
+      const returnMass = computeReturnMass(matrix, k, decayFactor, componentOf, convergenceThreshold)
+      scores[k] = standard.scores[k] / returnMass
+      done++
+      yield 0.5 + done / (2 * matrix.size)
+    }
+  }
+
+  return { scores, iterations: standard.iterations, converged: standard.converged, estimated }
+}
+
+// =========================================================================
+// Running computations
+// The solvers are generators that yield their progress (0-1) between
+// steps. Run synchronously they're plain functions; runWithProgress gives
+// the event loop a turn every so often, so a job's heartbeat keeps going
+// while a large graph is being solved (job-queue.ts).
+// =========================================================================
+
+export type Computation<T> = Generator<number, T, void>
+
+const PROGRESS_INTERVAL_MS = 5000
+
+function runToCompletion<T>(computation: Computation<T>): T {
+  let step = computation.next()
+  while (!step.done) {
+    step = computation.next()
+  }
+  return step.value
+}
+
+/**
+ * Runs a computation, yielding to the event loop and reporting progress at
+ * most every intervalMs
+ */
+export async function runWithProgress<T>(
+  computation: Computation<T>,
+  onProgress?: (progress: number) => Promise<void> | void,
+  intervalMs: number = PROGRESS_INTERVAL_MS
+): Promise<T> {
+  let lastYield = Date.now()
+  let step = computation.next()
+
+  while (!step.done) {
+    if (Date.now() - lastYield >= intervalMs) {
+      await new Promise(resolve => setImmediate(resolve))
+      await onProgress?.(step.value)
+      lastYield = Date.now()
+    }
+    step = computation.next()
+  }
+
+  return step.value
+}
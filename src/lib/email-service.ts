@@ -38,6 +38,30 @@ interface DelegationEmailData {
   isExistingUser?: boolean
 }
 
+interface TrustRefreshReminderEmailData {
+  recipientEmail: string
+  recipientName?: string
+  staleNames: string[]
+}
+
+interface ReferralStatusEmailData {
+  recipientEmail: string
+  recipientName?: string
+  title: string
+  message: string
+  link: string
+}
+
+interface ReferralConsentEmailData {
+  recipientEmail: string
+  recipientName?: string
+  referrerName: string
+  jobTitle: string
+  companyName: string
+  howYouKnow?: string | null
+  link: string  // Path of the signed consent page
+}
+
 interface NetworkInvitationEmailData {
   recipientEmail: string
   senderName: string
@@ -386,4 +410,192 @@ export async function sendNetworkInvitationEmail(data: NetworkInvitationEmailDat
     subject: `${data.senderName} added you to their trusted network on Clout`,
     html
   })
-}
\ No newline at end of file
+}
+
+/**
+ * Send trust refresh reminder (when a user's trust allocations are going stale)
+ */
+export async function sendTrustRefreshReminderEmail(data: TrustRefreshReminderEmailData) {
+  const resend = getResend()
+
+  const networkLink = `${BASE_URL}/dashboard`
+  const listed = data.staleNames.slice(0, 5)
+  const more = data.staleNames.length - listed.length
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Is your trusted network still up to date?</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #8b5cf6 0%, #7c3aed 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; }
+          .content { background: white; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+          .button { display: inline-block; padding: 12px 24px; background: #8b5cf6; color: white; text-decoration: none; border-radius: 6px; font-weight: 600; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="margin: 0; font-size: 28px;">Is your trusted network still up to date?</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Trust reflects your current relationships</p>
+          </div>
+          <div class="content">
+            <p style="font-size: 18px; color: #111827;">Hi ${data.recipientName || 'there'},</p>
+
+            <p style="color: #4b5563; line-height: 1.6;">
+              It's been a while since you confirmed the trust you give to:
+            </p>
+
+            <ul style="color: #4b5563; line-height: 1.8;">
+              ${listed.map(name => `<li>${name}</li>`).join('')}
+              ${more > 0 ? `<li>and ${more} more</li>` : ''}
+            </ul>
+
+            <p style="color: #4b5563; line-height: 1.6;">
+              Trust you haven't reconfirmed gradually fades, so your network reflects who you work with today.
+              Review your allocations and save them to keep them at full strength.
+            </p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${networkLink}" class="button">Review Your Network</a>
+            </div>
+
+            <p style="color: #6b7280; font-size: 14px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+              You're receiving this reminder because you're a member of Clout Careers.
+              Manage your network settings in your dashboard.
+            </p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `
+
+  return await resend.emails.send({
+    from: FROM_EMAIL,
+    to: data.recipientEmail,
+    subject: 'Time to review your trusted network on Clout',
+    html
+  })
+}
+
+/**
+ * Send referral status update (to the candidate, referrer or chain members)
+ */
+export async function sendReferralStatusEmail(data: ReferralStatusEmailData) {
+  const resend = getResend()
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${data.title}</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #3b82f6 0%, #2563eb 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; }
+          .content { background: white; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+          .button { display: inline-block; padding: 12px 24px; background: #3b82f6; color: white; text-decoration: none; border-radius: 6px; font-weight: 600; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="margin: 0; font-size: 28px;">${data.title}</h1>
+          </div>
+          <div class="content">
+            <p style="font-size: 18px; color: #111827;">Hi ${data.recipientName || 'there'},</p>
+
+            <p style="color: #4b5563; line-height: 1.6;">
+              ${data.message}
+            </p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${BASE_URL}${data.link}" class="button">View on Clout</a>
+            </div>
+
+            <p style="color: #6b7280; font-size: 14px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+              You're receiving this because you're part of this referral on Clout Careers.
+              Choose which referral updates you get in your dashboard.
+            </p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `
+
+  return await resend.emails.send({
+    from: FROM_EMAIL,
+    to: data.recipientEmail,
+    subject: data.title,
+    html
+  })
+}
+
+/**
+ * Ask a candidate to accept a referral before the hiring manager sees it
+ */
+export async function sendReferralConsentEmail(data: ReferralConsentEmailData) {
+  const resend = getResend()
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${data.referrerName} wants to refer you</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; }
+          .content { background: white; padding: 30px; border: 1px solid #e5e7eb; border-top: none; }
+          .job-card { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 20px; margin: 20px 0; }
+          .button { display: inline-block; padding: 12px 24px; background: #10b981; color: white; text-decoration: none; border-radius: 6px; font-weight: 600; }
+          .quote { border-left: 4px solid #10b981; padding-left: 20px; margin: 20px 0; color: #4b5563; font-style: italic; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1 style="margin: 0; font-size: 28px;">Hi ${data.recipientName || 'there'},</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">${data.referrerName} wants to refer you</p>
+          </div>
+          <div class="content">
+            <div class="job-card">
+              <h2 style="margin: 0 0 10px 0; color: #111827; font-size: 20px;">${data.jobTitle}</h2>
+              <p style="margin: 5px 0; color: #4b5563; font-size: 16px;">at <strong>${data.companyName}</strong></p>
+            </div>
+
+            ${data.howYouKnow ? `
+              <p style="color: #4b5563; line-height: 1.6;">
+                <strong>What ${data.referrerName} will share about you:</strong>
+              </p>
+              <div class="quote">
+                ${data.howYouKnow}
+              </div>
+            ` : ''}
+
+            <p style="color: #4b5563; line-height: 1.6;">
+              The hiring manager won't see this referral until you accept it. You can
+              also edit what's shared, or decline.
+            </p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${BASE_URL}${data.link}" class="button">Review Referral</a>
+            </div>
+          </div>
+        </div>
+      </body>
+    </html>
+  `
+
+  return await resend.emails.send({
+    from: FROM_EMAIL,
+    to: data.recipientEmail,
+    subject: `${data.referrerName} wants to refer you for ${data.jobTitle} at ${data.companyName}`,
+    html
+  })
+}
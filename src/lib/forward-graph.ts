@@ -0,0 +1,191 @@
+/**
+ * FORWARD GRAPH
+ *
+ * How a job spread through the network, built from its JobForward rows.
+ * Everyone who received or forwarded the job (or referred someone for it)
+ * is a node; every forward is an edge.
+ *
+ * The graph is laid out as a tree: each person hangs under whoever
+ * forwarded them the job first, as in earliest-forward attribution. Later
+ * forwards to the same person are kept as extra edges. People nobody
+ * forwarded the job to (e.g. the job owner) are roots.
+ *
+ * For each person it reports depth, when they got the job, the referrals
+ * made by them and by everyone under them, and whether they're a dead
+ * end (never passed it on or referred anyone).
+ *
+ * Safe to import from client components (no database access).
+ */
+
+import type { ReferralStatus } from '@prisma/client'
+import type { ForwardEdge } from '@/lib/chain-attribution'
+
+export interface ForwardGraphReferral {
+  id: string
+  referrerNodeId: string
+  status: ReferralStatus
+}
+
+export interface ForwardGraphNode {
+  id: string
+  name: string
+  parentId: string | null    // Who forwarded them the job first (null for roots)
+  depth: number              // Forwards from their root
+  receivedAt: string | null  // First forward to them (ISO)
+  forwardedTo: number        // People they forwarded the job to
+  referrals: number          // Referrals they made
+  hires: number              // ...of which were hired
+  downstreamReferrals: number // Referrals by them or anyone under them in the tree
+  isDeadEnd: boolean
+}
+
+export interface ForwardGraphEdge {
+  id: string
+  fromNodeId: string
+  toNodeId: string
+  createdAt: string
+  isTreeEdge: boolean        // The first forward to toNodeId
+  ledToReferral: boolean     // A tree edge whose branch produced a referral
+}
+
+export interface ForwardGraph {
+  jobId: string
+  nodes: ForwardGraphNode[]  // Depth-first, children in the order they got the job
+  edges: ForwardGraphEdge[]
+  stats: {
+    people: number
+    forwards: number
+    maxDepth: number
+    referrals: number
+    hires: number
+    deadEnds: number
+    productiveBranches: number  // Roots' children whose branch produced a referral
+  }
+}
+
+function timeOf(value: Date | string): number {
+  return new Date(value).getTime()
+}
+
+/**
+ * Builds a job's forward graph
+ *
+ * @param forwards - All forwards for the job
+ * @param referrals - All referrals for the job
+ * @param names - Display name per user ID
+ */
+export function buildForwardGraph(
+  jobId: string,
+  forwards: ForwardEdge[],
+  referrals: ForwardGraphReferral[],
+  names: Map<string, string> = new Map()
+): ForwardGraph {
+  const ordered = [...forwards].sort((a, b) => timeOf(a.createdAt) - timeOf(b.createdAt))
+
+  // First-seen order: whoever got or used the job earliest comes first
+  const nodeIds: string[] = []
+  const seen = new Set<string>()
+  const addNode = (nodeId: string) => {
+    if (seen.has(nodeId)) return
+    seen.add(nodeId)
+    nodeIds.push(nodeId)
+  }
+  ordered.forEach(forward => {
+    addNode(forward.fromNodeId)
+    addNode(forward.toNodeId)
+  })
+  referrals.forEach(referral => addNode(referral.referrerNodeId))
+
+  const firstForward = new Map<string, ForwardEdge>()
+  const outgoing = new Map<string, number>()
+  ordered.forEach(forward => {
+    if (!firstForward.has(forward.toNodeId)) firstForward.set(forward.toNodeId, forward)
+    outgoing.set(forward.fromNodeId, (outgoing.get(forward.fromNodeId) ?? 0) + 1)
+  })
+
+  // Parent is the first forward in; if following those leads back round, the node becomes a root
+  const parent = new Map<string, string | null>()
+  nodeIds.forEach(nodeId => {
+    const forward = firstForward.get(nodeId)
+    let ancestor = forward?.fromNodeId
+    const seen = new Set([nodeId])
+    while (ancestor && !seen.has(ancestor)) {
+      seen.add(ancestor)
+      ancestor = parent.has(ancestor) ? parent.get(ancestor) ?? undefined : firstForward.get(ancestor)?.fromNodeId
+    }
+    parent.set(nodeId, forward && ancestor !== nodeId ? forward.fromNodeId : null)
+  })
+
+  const children = new Map<string, string[]>()
+  nodeIds.forEach(nodeId => {
+    const parentId = parent.get(nodeId)
+    if (parentId) children.set(parentId, [...(children.get(parentId) ?? []), nodeId])
+  })
+
+  const referralCounts = new Map<string, { referrals: number, hires: number }>()
+  referrals.forEach(referral => {
+    const counts = referralCounts.get(referral.referrerNodeId) ?? { referrals: 0, hires: 0 }
+    counts.referrals++
+    if (referral.status === 'HIRED') counts.hires++
+    referralCounts.set(referral.referrerNodeId, counts)
+  })
+
+  const nodes: ForwardGraphNode[] = []
+  const downstream = new Map<string, number>()
+
+  const visit = (nodeId: string, depth: number): number => {
+    const counts = referralCounts.get(nodeId) ?? { referrals: 0, hires: 0 }
+    const forwardedTo = outgoing.get(nodeId) ?? 0
+    const node: ForwardGraphNode = {
+      id: nodeId,
+      name: names.get(nodeId) ?? 'Unknown User',
+      parentId: parent.get(nodeId) ?? null,
+      depth,
+      receivedAt: firstForward.has(nodeId) ? new Date(firstForward.get(nodeId)!.createdAt).toISOString() : null,
+      forwardedTo,
+      referrals: counts.referrals,
+      hires: counts.hires,
+      downstreamReferrals: 0,
+      isDeadEnd: forwardedTo === 0 && counts.referrals === 0
+    }
+    nodes.push(node)
+
+    node.downstreamReferrals = (children.get(nodeId) ?? [])
+      .reduce((sum, childId) => sum + visit(childId, depth + 1), counts.referrals)
+    downstream.set(nodeId, node.downstreamReferrals)
+    return node.downstreamReferrals
+  }
+
+  const roots = nodeIds.filter(nodeId => !parent.get(nodeId))
+  roots.forEach(rootId => visit(rootId, 0))
+
+  const edges: ForwardGraphEdge[] = ordered.map(forward => {
+    const isTreeEdge = parent.get(forward.toNodeId) === forward.fromNodeId
+      && firstForward.get(forward.toNodeId)?.id === forward.id
+    return {
+      id: forward.id,
+      fromNodeId: forward.fromNodeId,
+      toNodeId: forward.toNodeId,
+      createdAt: new Date(forward.createdAt).toISOString(),
+      isTreeEdge,
+      ledToReferral: isTreeEdge && (downstream.get(forward.toNodeId) ?? 0) > 0
+    }
+  })
+
+  return {
+    jobId,
+    nodes,
+    edges,
+    stats: {
+      people: nodes.length,
+      forwards: forwards.length,
+      maxDepth: nodes.reduce((max, node) => Math.max(max, node.depth), 0),
+      referrals: referrals.length,
+      hires: referrals.filter(referral => referral.status === 'HIRED').length,
+      deadEnds: nodes.filter(node => node.isDeadEnd).length,
+      productiveBranches: roots
+        .flatMap(rootId => children.get(rootId) ?? [])
+        .filter(childId => (downstream.get(childId) ?? 0) > 0).length
+    }
+  }
+}
@@ -0,0 +1,457 @@
+/**
+ * BACKGROUND JOB QUEUE
+ *
+ * Long-running and deferred work (trust computation, reminder emails,
+ * releasing payouts after a guarantee period) runs from a persistent
+ * queue in the BackgroundJob table rather than inside request handlers.
+ * There are no external services: every server process polls the table
+ * and any of them can pick a job up.
+ *
+ * - Claiming is a conditional update (QUEUED → RUNNING), so each job runs once
+ * - Job types that share a lock key hold a JobLock row while running. All
+ *   trust computations share one, so two never write ComputedTrustScore
+ *   at the same time
+ * - Failed jobs are retried with exponential backoff up to maxAttempts
+ * - Handlers report progress, which the admin Background Jobs page shows
+ * - Recurring jobs (stale-allocation reminders, payout releases) reschedule
+ *   themselves
+ * - Running jobs heartbeat, including from inside long computations; when
+ *   a worker dies its lock lease runs out and the job goes back in the
+ *   queue. A run that lost its job that way can't record an outcome
+ */
+
+import { hostname } from 'os'
+import { prisma } from '@/lib/prisma'
+import { BackgroundJob, BackgroundJobType, Prisma } from '@prisma/client'
+
+const POLL_INTERVAL_MS = 5000
+const LOCK_LEASE_MS = 60 * 1000
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+const RETRY_BASE_DELAY_MS = 30 * 1000
+
+// Identifies this process in BackgroundJob.lockedBy
+const WORKER_ID = `${hostname()}:${process.pid}`
+
+// Job types that must never run concurrently share a lock key
+const JOB_LOCK_KEYS: Partial<Record<BackgroundJobType, string>> = {
+  TRUST_COMPUTATION: 'trust_scores',
+  TRUST_INITIALIZATION: 'trust_scores'
+}
+
+export interface JobContext {
+  jobId: string
+  payload: Prisma.JsonValue
+  attempt: number
+  reportProgress: (progress: number, message?: string) => Promise<void>
+}
+
+type JobHandler = (context: JobContext) => Promise<Prisma.InputJsonValue | void>
+
+// Recurring job types and how often they run. Each run queues the next one,
+// and each worker queues one on start if none is waiting.
+const RECURRING_JOB_INTERVALS_MS: Partial<Record<BackgroundJobType, number>> = {
+  TRUST_DECAY_REMINDERS: 24 * 60 * 60 * 1000,  // Reminders are deduplicated per user, so daily is safe
+  PAYOUT_GUARANTEE_RELEASE: 60 * 60 * 1000       // Payouts are released within an hour of their guarantee ending
+}
+
+// Handlers import their modules lazily: eigentrust-new enqueues jobs itself
+const JOB_HANDLERS: Record<BackgroundJobType, JobHandler> = {
+  TRUST_COMPUTATION: async ({ payload, reportProgress }) => {
+    const { runTrustComputation } = await import('@/lib/eigentrust-new')
+    const { triggers = [], warmStart = true } = (payload ?? {}) as { triggers?: string[], warmStart?: boolean }
+    const summary = await runTrustComputation(describeTriggers(triggers), { warmStart, onProgress: reportProgress })
+    return { ...summary }
+  },
+
+  TRUST_INITIALIZATION: async ({ reportProgress }) => {
+    const { initializeCleanTrustState, runTrustComputation } = await import('@/lib/eigentrust-new')
+    await reportProgress(0, 'Clearing trust allocations')
+    await initializeCleanTrustState()
+    const summary = await runTrustComputation('initialization', { warmStart: false, onProgress: reportProgress })
+    return { ...summary }
+  },
+
+  TRUST_DECAY_REMINDERS: async ({ reportProgress }) => {
+    const { sendTrustDecayReminders } = await import('@/lib/trust-decay')
+    await reportProgress(0, 'Sending reminders')
+    const result = await sendTrustDecayReminders()
+    return { ...result }
+  },
+
+  // Recurring rather than queued per hire, so a missed run can't strand a payout: each run releases everything that's due
+  PAYOUT_GUARANTEE_RELEASE: async () => {
+    const { releaseGuaranteedEarnings } = await import('@/lib/referral-settlement')
+    const released = await releaseGuaranteedEarnings()
+    return { released }
+  },
+
+  REFERRAL_NOTIFICATIONS: async ({ payload }) => {
+    const { notifyReferralStatusChange } = await import('@/lib/referral-notifications')
+    const { statusChangeId } = (payload ?? {}) as { statusChangeId?: string }
+    if (!statusChangeId) throw new Error('statusChangeId is required')
+    return await notifyReferralStatusChange(statusChangeId)
+  },
+
+  // Queued after every trust computation so new flags show up without an admin run
+  TRUST_ANOMALY_DETECTION: async () => {
+    const { runTrustAnomalyDetection } = await import('@/lib/trust-anomalies')
+    return await runTrustAnomalyDetection()
+  }
+}
+
+/**
+ * Collapses coalesced triggers into one label, e.g. "user_update x3, manual"
+ */
+export function describeTriggers(triggers: string[]): string {
+  if (triggers.length === 0) return 'manual'
+
+  const counts = new Map<string, number>()
+  for (const trigger of triggers) {
+    counts.set(trigger, (counts.get(trigger) || 0) + 1)
+  }
+
+  return Array.from(counts.entries())
+    .map(([trigger, count]) => count > 1 ? `${trigger} x${count}` : trigger)
+    .join(', ')
+}
+
+/**
+ * Delay before retrying after the given number of failed attempts
+ */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1))
+}
+
+interface EnqueueOptions {
+  delayMs?: number      // Don't run before now + delayMs
+  maxAttempts?: number
+  coalesce?: boolean    // Merge into a job of the same type that hasn't started yet
+}
+
+/**
+ * Adds a job to the queue
+ *
+ * With coalesce, the payload's triggers are appended to an existing queued
+ * job of the same type instead of creating a new one, and that job's start
+ * is pushed back by delayMs (debouncing bursts of edits into one run).
+ */
+export async function enqueueJob(
+  type: BackgroundJobType,
+  payload: Prisma.InputJsonObject = {},
+  options: EnqueueOptions = {}
+): Promise<BackgroundJob> {
+  const runAt = new Date(Date.now() + (options.delayMs ?? 0))
+
+  if (options.coalesce) {
+    const pending = await prisma.backgroundJob.findFirst({
+      where: { type, status: 'QUEUED', attempts: 0 },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    if (pending) {
+      const existing = (pending.payload ?? {}) as Prisma.JsonObject
+      const triggers = [
+        ...((existing.triggers as string[] | undefined) ?? []),
+        ...((payload.triggers as string[] | undefined) ?? [])
+      ]
+
+      // Only merge while the job is still unclaimed
+      const merged = await prisma.backgroundJob.updateMany({
+        where: { id: pending.id, status: 'QUEUED' },
+        data: {
+          payload: { ...existing, ...payload, triggers } as Prisma.InputJsonObject,
+          runAt: runAt > pending.runAt ? runAt : pending.runAt
+        }
+      })
+
+      if (merged.count === 1) {
+        return await prisma.backgroundJob.findUniqueOrThrow({ where: { id: pending.id } })
+      }
+    }
+  }
+
+  return await prisma.backgroundJob.create({
+    data: {
+      type,
+      payload,
+      runAt,
+      maxAttempts: options.maxAttempts ?? 3
+    }
+  })
+}
+
+/**
+ * Queues a recurring job unless one is already waiting. Two workers racing
+ * here can queue two; the extra run is harmless and no new one is queued
+ * while either is still waiting.
+ */
+async function scheduleRecurringJob(type: BackgroundJobType, delayMs: number): Promise<void> {
+  const waiting = await prisma.backgroundJob.findFirst({
+    where: { type, status: 'QUEUED' },
+    select: { id: true }
+  })
+
+  if (!waiting) {
+    await enqueueJob(type, {}, { delayMs, maxAttempts: 1 })
+  }
+}
+
+/**
+ * Takes a named lock for a job. Expired leases (from a worker that died)
+ * are cleared first.
+ *
+ * @returns false if another job holds the lock
+ */
+async function acquireLock(key: string, jobId: string): Promise<boolean> {
+  await prisma.jobLock.deleteMany({
+    where: { key, expiresAt: { lt: new Date() } }
+  })
+
+  try {
+    await prisma.jobLock.create({
+      data: { key, jobId, expiresAt: new Date(Date.now() + LOCK_LEASE_MS) }
+    })
+    return true
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
+
+async function releaseLock(key: string, jobId: string): Promise<void> {
+  await prisma.jobLock.deleteMany({ where: { key, jobId } })
+}
+
+/**
+ * Claims the oldest due job this worker can run, taking its lock if the
+ * type has one. Jobs whose lock is held stay queued for the next poll.
+ */
+async function claimNextJob(): Promise<BackgroundJob | null> {
+  const now = new Date()
+  const candidates = await prisma.backgroundJob.findMany({
+    where: { status: 'QUEUED', runAt: { lte: now } },
+    orderBy: { runAt: 'asc' },
+    select: { id: true, type: true },
+    take: 10
+  })
+
+  const busyLocks = new Set<string>()
+
+  for (const candidate of candidates) {
+    const lockKey = JOB_LOCK_KEYS[candidate.type]
+    if (lockKey) {
+      if (busyLocks.has(lockKey) || !(await acquireLock(lockKey, candidate.id))) {
+        busyLocks.add(lockKey)
+        continue
+      }
+    }
+
+    const claimed = await prisma.backgroundJob.updateMany({
+      where: { id: candidate.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        lockedBy: WORKER_ID,
+        heartbeatAt: now,
+        startedAt: now,
+        attempts: { increment: 1 }
+      }
+    })
+
+    if (claimed.count === 1) {
+      return await prisma.backgroundJob.findUniqueOrThrow({ where: { id: candidate.id } })
+    }
+
+    // Another worker got there first
+    if (lockKey) await releaseLock(lockKey, candidate.id)
+  }
+
+  return null
+}
+
+/**
+ * Puts jobs whose worker stopped heartbeating back in the queue (or fails
+ * them if they're out of attempts)
+ */
+async function requeueStalledJobs(): Promise<number> {
+  const stalled = await prisma.backgroundJob.findMany({
+    where: {
+      status: 'RUNNING',
+      heartbeatAt: { lt: new Date(Date.now() - LOCK_LEASE_MS) }
+    }
+  })
+
+  for (const job of stalled) {
+    const outOfAttempts = job.attempts >= job.maxAttempts
+    await prisma.backgroundJob.updateMany({
+      where: { id: job.id, status: 'RUNNING', heartbeatAt: job.heartbeatAt },
+      data: {
+        status: outOfAttempts ? 'FAILED' : 'QUEUED',
+        error: `Worker ${job.lockedBy ?? 'unknown'} stopped responding`,
+        lockedBy: null,
+        finishedAt: outOfAttempts ? new Date() : null
+      }
+    })
+  }
+
+  return stalled.length
+}
+
+/**
+ * Runs one claimed job to completion, recording its result or scheduling
+ * a retry
+ *
+ * The run owns the job only while lockedBy and attempts still match its
+ * claim. If its lease runs out anyway (requeueStalledJobs) and another run
+ * claims the job, this one stops at its next progress report and its
+ * outcome is discarded rather than overwriting the newer run's.
+ */
+async function runJob(job: BackgroundJob): Promise<void> {
+  const lockKey = JOB_LOCK_KEYS[job.type]
+  const owned = { id: job.id, status: 'RUNNING' as const, lockedBy: WORKER_ID, attempts: job.attempts }
+  let superseded = false
+
+  const heartbeat = async (data: Prisma.BackgroundJobUpdateManyMutationInput = {}) => {
+    const now = new Date()
+    const updated = await prisma.backgroundJob.updateMany({
+      where: owned,
+      data: { ...data, heartbeatAt: now }
+    })
+
+    if (updated.count === 0) {
+      superseded = true
+      throw new Error(`Job ${job.id} was requeued after its lease ran out`)
+    }
+
+    if (lockKey) {
+      await prisma.jobLock.updateMany({
+        where: { key: lockKey, jobId: job.id },
+        data: { expiresAt: new Date(now.getTime() + LOCK_LEASE_MS) }
+      })
+    }
+  }
+
+  // Only fires while the handler is awaiting; CPU-bound handlers also heartbeat through reportProgress
+  const heartbeatTimer = setInterval(() => {
+    heartbeat().catch(error => console.error(`Heartbeat failed for job ${job.id}:`, error))
+  }, HEARTBEAT_INTERVAL_MS)
+
+  const context: JobContext = {
+    jobId: job.id,
+    payload: job.payload,
+    attempt: job.attempts,
+    reportProgress: async (progress, message) => {
+      await heartbeat({
+        progress: Math.min(1, Math.max(0, progress)),
+        progressMessage: message ?? null
+      })
+    }
+  }
+
+  console.log(`[JobQueue] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`)
+
+  try {
+    const result = await JOB_HANDLERS[job.type](context)
+
+    const finished = await prisma.backgroundJob.updateMany({
+      where: owned,
+      data: {
+        status: 'SUCCEEDED',
+        result: result ?? Prisma.JsonNull,
+        error: null,
+        progress: 1,
+        lockedBy: null,
+        finishedAt: new Date()
+      }
+    })
+
+    if (finished.count === 0) {
+      superseded = true
+      console.warn(`[JobQueue] ${job.type} job ${job.id} finished after being requeued; result discarded`)
+    } else {
+      console.log(`[JobQueue] ${job.type} job ${job.id} succeeded`)
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    const outOfAttempts = job.attempts >= job.maxAttempts
+
+    const failed = await prisma.backgroundJob.updateMany({
+      where: owned,
+      data: {
+        status: outOfAttempts ? 'FAILED' : 'QUEUED',
+        error: message,
+        lockedBy: null,
+        runAt: outOfAttempts ? job.runAt : new Date(Date.now() + retryDelayMs(job.attempts)),
+        finishedAt: outOfAttempts ? new Date() : null
+      }
+    })
+
+    if (failed.count === 0) {
+      superseded = true
+      console.warn(`[JobQueue] ${job.type} job ${job.id} stopped after being requeued:`, message)
+    } else {
+      console.error(`[JobQueue] ${job.type} job ${job.id} failed${outOfAttempts ? '' : ', will retry'}:`, error)
+    }
+  } finally {
+    clearInterval(heartbeatTimer)
+    // A superseded run's lock may already belong to the run that took over
+    if (lockKey && !superseded) await releaseLock(lockKey, job.id)
+
+    const interval = RECURRING_JOB_INTERVALS_MS[job.type]
+    if (interval && !superseded) {
+      await scheduleRecurringJob(job.type, interval)
+        .catch(error => console.error(`[JobQueue] Failed to schedule next ${job.type} job:`, error))
+    }
+  }
+}
+
+let draining: Promise<number> | null = null
+
+/**
+ * Works through due jobs until the queue is empty or maxJobs have run.
+ * Concurrent calls in the same process share one pass.
+ *
+ * @returns Number of jobs run
+ */
+export function processJobs(maxJobs: number = 10): Promise<number> {
+  if (!draining) {
+    draining = (async () => {
+      await requeueStalledJobs()
+
+      let processed = 0
+      while (processed < maxJobs) {
+        const job = await claimNextJob()
+        if (!job) break
+        await runJob(job)
+        processed++
+      }
+      return processed
+    })().finally(() => {
+      draining = null
+    })
+  }
+
+  return draining
+}
+
+// Survives hot reloads in development, which re-evaluate this module
+const globalForWorker = globalThis as unknown as { jobWorkerTimer?: ReturnType<typeof setInterval> }
+
+/**
+ * Starts polling the queue in this process. Safe to call more than once.
+ */
+export function startJobWorker(): void {
+  if (globalForWorker.jobWorkerTimer) return
+
+  globalForWorker.jobWorkerTimer = setInterval(() => {
+    processJobs().catch(error => console.error('[JobQueue] Worker pass failed:', error))
+  }, POLL_INTERVAL_MS)
+
+  for (const type of Object.keys(RECURRING_JOB_INTERVALS_MS) as BackgroundJobType[]) {
+    scheduleRecurringJob(type, 0)
+      .catch(error => console.error(`[JobQueue] Failed to schedule ${type} job:`, error))
+  }
+
+  console.log(`[JobQueue] Worker ${WORKER_ID} polling every ${POLL_INTERVAL_MS}ms`)
+}
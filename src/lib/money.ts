@@ -0,0 +1,103 @@
+/**
+ * MONEY
+ *
+ * Payouts are computed in integer minor units (cents, pence) so a split
+ * always adds back up to the budget exactly. Splitting uses the largest
+ * remainder method: everyone gets the floor of their exact share, and the
+ * leftover units go one each to the largest fractional parts.
+ *
+ * Safe to import from client components (no database access).
+ */
+
+// Minor unit digits (ISO 4217 exponent) for every currency a job can use
+export const CURRENCY_MINOR_DIGITS: Record<string, number> = {
+  USD: 2,
+  GBP: 2,
+  EUR: 2
+}
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_MINOR_DIGITS)
+
+export function isSupportedCurrency(value: unknown): value is string {
+  return typeof value === 'string' && value in CURRENCY_MINOR_DIGITS
+}
+
+function minorDigits(currency: string): number {
+  const digits = CURRENCY_MINOR_DIGITS[currency]
+  if (digits === undefined) {
+    throw new Error(`Unsupported currency: ${currency}`)
+  }
+  return digits
+}
+
+/**
+ * Converts a major-unit amount (e.g. 12.34 dollars) to minor units (1234 cents)
+ *
+ * @throws Error for negative or non-finite amounts and unknown currencies
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error('Amount must be a non-negative number')
+  }
+  return Math.round(amount * Math.pow(10, minorDigits(currency)))
+}
+
+export function fromMinorUnits(minorUnits: number, currency: string): number {
+  return minorUnits / Math.pow(10, minorDigits(currency))
+}
+
+/**
+ * Splits an integer amount by the given shares so the parts sum to it
+ * exactly. Each part is within one unit of its exact share.
+ *
+ * Ties between equal remainders go to the later position, which in a
+ * referral chain is the node closer to the direct referrer.
+ *
+ * @param totalMinorUnits - Amount to split (a non-negative integer)
+ * @param shares - Relative shares; normalized, so they needn't sum to 1
+ */
+export function allocateMinorUnits(totalMinorUnits: number, shares: number[]): number[] {
+  if (!Number.isSafeInteger(totalMinorUnits) || totalMinorUnits < 0) {
+    throw new Error('Total must be a non-negative integer number of minor units')
+  }
+  if (shares.length === 0) return []
+
+  const shareTotal = shares.reduce((sum, share) => sum + Math.max(0, share), 0)
+  if (!(shareTotal > 0)) {
+    throw new Error('At least one share must be positive')
+  }
+
+  const exact = shares.map(share => totalMinorUnits * Math.max(0, share) / shareTotal)
+  const parts = exact.map(Math.floor)
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || b.index - a.index)
+
+  // Fewer than shares.length units are left over (up to float error,
+  // which the second loop takes back from the smallest remainders)
+  let leftover = totalMinorUnits - parts.reduce((sum, part) => sum + part, 0)
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    parts[byRemainder[i].index]++
+  }
+  for (let i = byRemainder.length - 1; leftover < 0; i = (i - 1 + byRemainder.length) % byRemainder.length) {
+    if (parts[byRemainder[i].index] > 0) {
+      parts[byRemainder[i].index]--
+      leftover++
+    }
+  }
+
+  return parts
+}
+
+/**
+ * Formats a major-unit amount for display, e.g. "$1,234.50"
+ */
+export function formatMoney(amount: number, currency: string = 'USD'): string {
+  const digits = CURRENCY_MINOR_DIGITS[currency] ?? 2
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : digits,
+    maximumFractionDigits: digits
+  }).format(amount)
+}
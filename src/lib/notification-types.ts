@@ -0,0 +1,56 @@
+/**
+ * NOTIFICATION TYPES
+ *
+ * Every referral status change notifies the candidate, the direct referrer
+ * and everyone else in the referral chain. Each status a referral can move
+ * to is its own notification type, and users can mute any type by email,
+ * in-app, or both (NotificationPreference).
+ *
+ * Safe to import from client components (no database access).
+ */
+
+import type { NotificationType, ReferralStatus } from '@prisma/client'
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'REFERRAL_SCREENING',
+  'REFERRAL_INTERVIEWING',
+  'REFERRAL_OFFERED',
+  'REFERRAL_HIRED',
+  'REFERRAL_REJECTED',
+  'REFERRAL_WITHDRAWN'
+]
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  REFERRAL_SCREENING: 'Interview scheduled',
+  REFERRAL_INTERVIEWING: 'Interviewing',
+  REFERRAL_OFFERED: 'Offer extended',
+  REFERRAL_HIRED: 'Hired',
+  REFERRAL_REJECTED: 'Not moving forward',
+  REFERRAL_WITHDRAWN: 'Withdrawn'
+}
+
+// Referrals are created PENDING and never move back to it
+const STATUS_NOTIFICATION_TYPES: Record<ReferralStatus, NotificationType | null> = {
+  PENDING: null,
+  SCREENING: 'REFERRAL_SCREENING',
+  INTERVIEWING: 'REFERRAL_INTERVIEWING',
+  OFFERED: 'REFERRAL_OFFERED',
+  HIRED: 'REFERRAL_HIRED',
+  REJECTED: 'REFERRAL_REJECTED',
+  WITHDRAWN: 'REFERRAL_WITHDRAWN'
+}
+
+export function notificationTypeForStatus(status: ReferralStatus): NotificationType | null {
+  return STATUS_NOTIFICATION_TYPES[status]
+}
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === 'string' && (NOTIFICATION_TYPES as string[]).includes(value)
+}
+
+export interface NotificationChannels {
+  email: boolean
+  inApp: boolean
+}
+
+export type NotificationPreferences = Record<NotificationType, NotificationChannels>
@@ -0,0 +1,185 @@
+/**
+ * PAYOUT SPLIT POLICIES
+ *
+ * How a job's referral budget is divided along the chain that led to a hire.
+ * Each job picks one (Job.payoutPolicy). Chain positions run from the first
+ * forwarder (index 0) to the direct referrer (last); "distance" counts hops
+ * back from the direct referrer.
+ *
+ * - FIXED_70_30: direct referrer gets 70% (100% alone), the rest share 30%
+ * - GEOMETRIC: each hop back earns half as much as the one after it
+ * - INVERSE_SQUARE: share ∝ 1 / (distance + 1)²
+ * - TRUST_WEIGHTED: share ∝ the node's ComputedTrustScore
+ *
+ * Amounts are split in exact minor units (see money.ts), so a chain's
+ * payouts always add up to the budget.
+ *
+ * Safe to import from client components (no database access), so the
+ * earnings preview and the actual payout run the same math.
+ */
+
+import type { PayoutPolicy } from '@prisma/client'
+import { allocateMinorUnits, fromMinorUnits, toMinorUnits } from '@/lib/money'
+
+export const PAYOUT_POLICIES: PayoutPolicy[] = [
+  'FIXED_70_30',
+  'GEOMETRIC',
+  'INVERSE_SQUARE',
+  'TRUST_WEIGHTED'
+]
+
+export const PAYOUT_POLICY_LABELS: Record<PayoutPolicy, string> = {
+  FIXED_70_30: 'Fixed 70/30',
+  GEOMETRIC: 'Geometric decay',
+  INVERSE_SQUARE: 'Inverse square',
+  TRUST_WEIGHTED: 'Trust-weighted'
+}
+
+export const PAYOUT_POLICY_DESCRIPTIONS: Record<PayoutPolicy, string> = {
+  FIXED_70_30: 'Direct referrer gets 70% • Chain members share 30%',
+  GEOMETRIC: 'Each step back from the direct referrer earns half as much',
+  INVERSE_SQUARE: 'Shares fall with the square of distance from the direct referrer',
+  TRUST_WEIGHTED: 'Shares are proportional to each person\'s trust score'
+}
+
+export function isPayoutPolicy(value: unknown): value is PayoutPolicy {
+  return typeof value === 'string' && (PAYOUT_POLICIES as string[]).includes(value)
+}
+
+// Payouts are held (PENDING) until the hire has stayed this long
+export const DEFAULT_GUARANTEE_PERIOD_DAYS = 90
+export const MAX_GUARANTEE_PERIOD_DAYS = 365
+
+export function isGuaranteePeriod(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_GUARANTEE_PERIOD_DAYS
+}
+
+const DIRECT_REFERRER_SHARE = 0.7
+const GEOMETRIC_RATIO = 0.5
+
+/**
+ * Fraction of the budget each chain position receives
+ *
+ * @param chainLength - Number of nodes, direct referrer last
+ * @param trustScores - Trust per position (TRUST_WEIGHTED only; missing counts as 0)
+ * @returns Shares in chain order, summing to 1
+ */
+export function computeSplitShares(
+  policy: PayoutPolicy,
+  chainLength: number,
+  trustScores: number[] = []
+): number[] {
+  if (chainLength <= 0) return []
+  if (chainLength === 1) return [1]
+
+  const distances = Array.from({ length: chainLength }, (_, index) => chainLength - 1 - index)
+  let weights: number[]
+
+  switch (policy) {
+    case 'FIXED_70_30':
+      return distances.map(distance => distance === 0
+        ? DIRECT_REFERRER_SHARE
+        : (1 - DIRECT_REFERRER_SHARE) / (chainLength - 1))
+    case 'GEOMETRIC':
+      weights = distances.map(distance => Math.pow(GEOMETRIC_RATIO, distance))
+      break
+    case 'INVERSE_SQUARE':
+      weights = distances.map(distance => 1 / Math.pow(distance + 1, 2))
+      break
+    case 'TRUST_WEIGHTED':
+      weights = distances.map((_, index) => Math.max(0, trustScores[index] ?? 0))
+      break
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+
+  // Nobody in the chain has trust yet: split evenly
+  if (total <= 0) {
+    return weights.map(() => 1 / chainLength)
+  }
+
+  return weights.map(weight => weight / total)
+}
+
+/**
+ * Splits a budget along a chain
+ *
+ * @param totalAmount - Budget in major units (e.g. dollars)
+ * @returns Minor units per chain position, summing exactly to the budget
+ */
+export function splitPayout(
+  totalAmount: number,
+  currency: string,
+  policy: PayoutPolicy,
+  chainLength: number,
+  trustScores: number[] = []
+): number[] {
+  if (chainLength <= 0) return []
+  return allocateMinorUnits(
+    toMinorUnits(totalAmount, currency),
+    computeSplitShares(policy, chainLength, trustScores)
+  )
+}
+
+export interface PayoutTrustContext {
+  upstream: number[]  // Trust of the nodes before this person, in chain order
+  self: number
+}
+
+/**
+ * Calculates maximum possible payout for a person based on their position in chain
+ * when they make a forward or direct referral
+ *
+ * Forwarding assumes exactly one more person (the eventual direct referrer)
+ * joins the chain, the best case for the forwarder. Under TRUST_WEIGHTED
+ * that person's trust is unknown, so it's taken as the chain's average and
+ * the result is marked as an estimate.
+ *
+ * @param totalAmount - Total job referral budget
+ * @param currentChainLength - Current length of chain leading to this person
+ * @param isDirectReferral - Whether this person is making a direct referral (vs forward)
+ * @param policy - The job's payout policy
+ * @param trust - Known trust along the chain (TRUST_WEIGHTED only)
+ * @param currency - The job's currency (decides the smallest unit paid)
+ * @returns Object with max payout information
+ */
+export function calculateMaxPayout(
+  totalAmount: number,
+  currentChainLength: number,
+  isDirectReferral: boolean = false,
+  policy: PayoutPolicy = 'FIXED_70_30',
+  trust?: PayoutTrustContext,
+  currency: string = 'USD'
+) {
+  // Direct referral: they close the chain. Forward: one more person after them
+  const newChainLength = currentChainLength + (isDirectReferral ? 1 : 2)
+
+  let trustScores: number[] = []
+  let estimated = false
+
+  if (policy === 'TRUST_WEIGHTED') {
+    const upstream = trust?.upstream ?? []
+    trustScores = [
+      ...Array.from({ length: currentChainLength }, (_, index) => upstream[index] ?? 0),
+      trust?.self ?? 0
+    ]
+
+    if (!isDirectReferral) {
+      trustScores.push(trustScores.reduce((sum, score) => sum + score, 0) / trustScores.length)
+      estimated = true
+    }
+  }
+
+  const share = computeSplitShares(policy, newChainLength, trustScores)[currentChainLength]
+  const amountMinorUnits = splitPayout(totalAmount, currency, policy, newChainLength, trustScores)[currentChainLength]
+
+  return {
+    maxAmount: fromMinorUnits(amountMinorUnits, currency),
+    percentage: Math.round(share * 100),
+    role: isDirectReferral
+      ? (newChainLength === 1 ? 'Direct Referrer (Solo)' : 'Direct Referrer')
+      : 'Chain Member',
+    chainLength: newChainLength,
+    estimated
+  }
+}
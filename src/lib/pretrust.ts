@@ -0,0 +1,63 @@
+/**
+ * PRETRUST SEEDS
+ *
+ * The pretrust vector p is the distribution EigenTrust teleports back to.
+ * It is configured as a set of weighted seed users (PretrustSeed table).
+ * When no seeds are configured, SystemConfig.adminEmail is the single seed.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export interface PretrustSeedWeight {
+  userId: string
+  email: string
+  weight: number  // Normalized: all seed weights sum to 1.0
+}
+
+const DEFAULT_ADMIN_EMAIL = 'vaishnav@cloutcareers.com'
+
+/**
+ * Normalizes seed weights to sum to 1.0, dropping non-positive weights
+ */
+export function normalizeSeedWeights<T extends { weight: number }>(seeds: T[]): T[] {
+  const positive = seeds.filter(seed => seed.weight > 0)
+  const total = positive.reduce((sum, seed) => sum + seed.weight, 0)
+
+  if (total <= 0) return []
+
+  return positive.map(seed => ({ ...seed, weight: seed.weight / total }))
+}
+
+/**
+ * Loads the configured pretrust seeds, falling back to the admin user
+ *
+ * @returns Normalized seeds (empty if neither seeds nor admin user exist)
+ */
+export async function loadPretrustSeeds(): Promise<PretrustSeedWeight[]> {
+  const seeds = await prisma.pretrustSeed.findMany({
+    include: { user: { select: { email: true } } },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const configured = normalizeSeedWeights(seeds.map(seed => ({
+    userId: seed.userId,
+    email: seed.user.email,
+    weight: seed.weight
+  })))
+
+  if (configured.length > 0) {
+    return configured
+  }
+
+  // No seeds configured - the admin is the sole seed
+  const config = await prisma.systemConfig.findFirst({
+    select: { adminEmail: true }
+  })
+
+  const admin = await prisma.user.findUnique({
+    where: { email: config?.adminEmail || DEFAULT_ADMIN_EMAIL },
+    select: { id: true, email: true }
+  })
+
+  return admin ? [{ userId: admin.id, email: admin.email, weight: 1.0 }] : []
+}
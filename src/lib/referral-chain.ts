@@ -8,16 +8,46 @@
  * Key Features:
  * - Forward job opportunities through network
  * - Reconstruct referral chains using "earliest timestamp wins" heuristic
- * - Calculate payment splits using inverse square law
+ * - Or, for ALL_PATHS jobs, credit every forward path (chain-attribution.ts)
+ * - Calculate payment splits using the job's payout policy (payout-policies.ts)
+ * - One original referral per candidate per job; duplicates follow the
+ *   job's duplicate policy (duplicate-referrals.ts)
+ * - Referrals wait for the candidate's consent before the job owner sees
+ *   them (referral-consent.ts)
  * - Track complete audit trail of referral flow
  */
 
 import { prisma } from '@/lib/prisma'
+import { DuplicateReferralPolicy, PayoutPolicy, Prisma, ReferralStatus } from '@prisma/client'
+import { splitPayout } from '@/lib/payout-policies'
+import {
+  AttributionGraph,
+  ForwardEdge,
+  buildAttributionGraph,
+  parseAttributionGraph,
+  splitPayoutAcrossPaths,
+  traceEarliestChain
+} from '@/lib/chain-attribution'
+import { ForwardGraph, buildForwardGraph } from '@/lib/forward-graph'
+import { canTransition } from '@/lib/referral-status'
+import { normalizeEmail } from '@/lib/candidate-identity'
+import {
+  DuplicateDecision,
+  candidateClaimKey,
+  initialDuplicateResolution,
+  shareCreditAcrossReferrals
+} from '@/lib/duplicate-referrals'
+import { enqueueJob } from '@/lib/job-queue'
+import { fromMinorUnits } from '@/lib/money'
+
+// The preview math lives with the policies so client components can use it
+export { calculateMaxPayout } from '@/lib/payout-policies'
 
 export interface PaymentSplit {
   nodeId: string
   name: string
-  amount: number
+  amount: number          // Major units (e.g. dollars), for display
+  amountMinorUnits: number // Exact integer cents; a chain's splits sum to the budget
 }
 
 export interface ChainNode {
@@ -106,6 +136,14 @@ export async function forwardJob(
   }
 }
 
+// Every forward for a job, in one query; chains are then traced in memory
+async function loadJobForwards(jobId: string): Promise<ForwardEdge[]> {
+  return await prisma.jobForward.findMany({
+    where: { jobId },
+    select: { id: true, fromNodeId: true, toNodeId: true, createdAt: true }
+  })
+}
+
 /**
  * Reconstructs the referral chain by walking backwards through forwards
  *
@@ -117,55 +155,27 @@ export async function forwardJob(
  * @returns Array of node IDs representing the chain from start to end
  */
 export async function reconstructChain(jobId: string, nodeId: string): Promise<string[]> {
-  const chain = [nodeId]
-  let currentNode = nodeId
-  const visited = new Set([nodeId]) // Prevent infinite loops
-
-  while (true) {
-    // Find ALL forwards to currentNode for this job
-    const forwards = await prisma.jobForward.findMany({
-      where: {
-        jobId,
-        toNodeId: currentNode
-      },
-      orderBy: {
-        createdAt: 'asc' // CRITICAL: Order by earliest timestamp first
-      }
-    })
-
-    if (forwards.length === 0) {
-      // No one forwarded to this node - they're the start
-      break
-    }
-
-    // CRITICAL: Use the earliest forward (first one chronologically)
-    const earliestForward = forwards[0]
-
-    // Prevent infinite loops
-    if (visited.has(earliestForward.fromNodeId)) {
-      console.warn(`Circular reference detected in chain for job ${jobId}, stopping at ${currentNode}`)
-      break
-    }
-
-    // Add the from_node to the front of the chain
-    chain.unshift(earliestForward.fromNodeId)
-    visited.add(earliestForward.fromNodeId)
-
-    // Continue walking backwards
-    currentNode = earliestForward.fromNodeId
-
-    // Safety check: prevent extremely long chains
-    if (chain.length > 10) {
-      console.warn(`Chain length exceeded 10 for job ${jobId}, stopping reconstruction`)
-      break
-    }
-  }
+  return traceEarliestChain(await loadJobForwards(jobId), nodeId)
+}
 
-  return chain
+/**
+ * Reconstructs the chains into several nodes with a single query
+ *
+ * @param jobId - The job to trace
+ * @param nodeIds - The ending nodes
+ * @returns Each node's chain, keyed by node ID
+ */
+export async function reconstructChains(jobId: string, nodeIds: string[]): Promise<Map<string, string[]>> {
+  const forwards = await loadJobForwards(jobId)
+  return new Map(nodeIds.map(nodeId => [nodeId, traceEarliestChain(forwards, nodeId)]))
 }
 
 /**
- * Records a candidate referral and materializes the chain
+ * Records a candidate referral and materializes the chain. If the
+ * candidate was already referred for the job by someone else, the job's
+ * duplicate policy applies (duplicate-referrals.ts). The referral waits
+ * for the candidate's consent (referral-consent.ts) before the job owner
+ * sees it.
  *
  * @param jobId - The job the candidate is being referred for
  * @param candidateId - The person being referred (if they have account)
@@ -174,7 +184,11 @@ export async function reconstructChain(jobId: string, nodeId: string): Promise<s
  * @param howYouKnow - Description of relationship with candidate
  * @param confidenceLevel - high, medium, low
  * @param notes - Additional notes about the referral
+ * @param endorsement - A recommendation created along with the referral
+ *   (trusted-network referrals); its status follows the referral's consent
  * @returns The created referral with materialized chain
+ * @throws Error if the referrer already referred this candidate, or the
+ *   job's policy is FIRST_WINS and someone else did
  */
 export async function createReferral(
   jobId: string,
@@ -183,7 +197,8 @@ export async function createReferral(
   referrerNodeId: string,
   howYouKnow?: string,
   confidenceLevel?: string,
-  notes?: string
+  notes?: string,
+  endorsement?: Prisma.EndorsementUncheckedCreateWithoutReferralInput
 ) {
   // Validate inputs
   if (candidateId === referrerNodeId) {
@@ -208,64 +223,136 @@ export async function createReferral(
     throw new Error('Referrer not found')
   }
 
-  // 1. Reconstruct the chain
-  const chainPath = await reconstructChain(jobId, referrerNodeId)
+  // 1. Reconstruct the chain (and, for ALL_PATHS jobs, every path into the referrer)
+  const forwards = await loadJobForwards(jobId)
+  const chainPath = traceEarliestChain(forwards, referrerNodeId)
   const chainDepth = chainPath.length - 1
+  const attributionGraph = job.chainAttribution === 'ALL_PATHS'
+    ? buildAttributionGraph(forwards, referrerNodeId, job.pathWeighting)
+    : null
+
+  // 2. Insert referral with materialized chain, as a duplicate if the candidate already has one
+  const data = {
+    jobId,
+    candidateId,
+    candidateEmail: normalizeEmail(candidateEmail),
+    referrerNodeId,
+    chainPath,
+    chainDepth,
+    ...(attributionGraph && {
+      attributionGraph: attributionGraph as unknown as Prisma.InputJsonValue
+    }),
+    howYouKnow,
+    confidenceLevel,
+    notes,
+    status: 'PENDING' as const,
+    consentStatus: 'PENDING_CANDIDATE_ACTION' as const,
+    statusChanges: {
+      create: { toStatus: 'PENDING' as const, changedById: referrerNodeId }
+    },
+    ...(endorsement && {
+      endorsement: { create: endorsement }
+    })
+  }
 
-  // 2. Insert referral with materialized chain
-  const referral = await prisma.referral.create({
-    data: {
-      jobId,
-      candidateId,
-      candidateEmail,
-      referrerNodeId,
-      chainPath,
-      chainDepth,
-      howYouKnow,
-      confidenceLevel,
-      notes,
-      status: 'PENDING'
+  const include = {
+    job: {
+      select: {
+        title: true,
+        company: { select: { name: true } }
+      }
     },
-    include: {
-      job: {
-        select: {
-          title: true,
-          company: { select: { name: true } }
-        }
-      },
-      candidate: {
-        select: {
-          firstName: true,
-          lastName: true,
-          email: true
-        }
-      },
-      referrerNode: {
-        select: {
-          firstName: true,
-          lastName: true,
-          email: true
-        }
+    candidate: {
+      select: {
+        firstName: true,
+        lastName: true,
+        email: true
+      }
+    },
+    referrer: {
+      select: {
+        firstName: true,
+        lastName: true,
+        email: true
       }
+    },
+    endorsement: {
+      select: { id: true }
     }
-  })
+  }
 
-  return referral
+  const duplicateFields = (originalId: string | null) => originalId
+    ? { duplicateOfId: originalId, duplicateResolution: initialDuplicateResolution(job.duplicateReferralPolicy) }
+    : { candidateClaim: candidateClaimKey(jobId, candidateId) }
+
+  const originalId = await findOriginalReferral(jobId, candidateId, referrerNodeId, job.duplicateReferralPolicy)
+
+  try {
+    return await prisma.referral.create({ data: { ...data, ...duplicateFields(originalId) }, include })
+  } catch (error) {
+    // Someone else claimed the candidate at the same moment; this one becomes their duplicate
+    const claimTaken = error instanceof Prisma.PrismaClientKnownRequestError
+      && error.code === 'P2002'
+      && String(error.meta?.target).includes('candidateClaim')
+
+    if (!claimTaken) {
+      throw error
+    }
+
+    const claimedBy = await findOriginalReferral(jobId, candidateId, referrerNodeId, job.duplicateReferralPolicy)
+    return await prisma.referral.create({ data: { ...data, ...duplicateFields(claimedBy) }, include })
+  }
 }
 
 /**
- * Calculates payment distribution across a referral chain using 70/30 split model
+ * The referral that currently has the candidate for the job, if any.
+ * Referrals the candidate declined don't count.
  *
- * - Direct referrer (last in chain) gets minimum 70% (100% if alone)
- * - Everyone else in chain shares remaining 30% equally
+ * @returns The original referral's ID, or null if this would be the first
+ * @throws Error if the referrer already referred the candidate, or the
+ *   policy turns duplicates away
+ */
+async function findOriginalReferral(
+  jobId: string,
+  candidateId: string,
+  referrerNodeId: string,
+  policy: DuplicateReferralPolicy
+): Promise<string | null> {
+  const existing = await prisma.referral.findMany({
+    where: { jobId, candidateId, consentStatus: { not: 'DECLINED' } },
+    select: { id: true, referrerNodeId: true, duplicateOfId: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  if (existing.some(referral => referral.referrerNodeId === referrerNodeId)) {
+    throw new Error('You have already referred this candidate for this job')
+  }
+
+  const original = existing.find(referral => !referral.duplicateOfId)
+
+  if (original && policy === 'FIRST_WINS') {
+    throw new Error('Candidate already referred for this job')
+  }
+
+  return original?.id ?? null
+}
+
+/**
+ * Calculates payment distribution across a referral chain using the job's
+ * payout policy (70/30 by default). Splits are exact to the cent and always
+ * sum to totalAmount.
  *
  * @param totalAmount - Total payment to distribute (e.g., 10000)
  * @param chainPath - Array of node IDs from start to referrer
+ * @param policy - The job's payout policy
+ * @param currency - The job's currency
  * @returns Array of {nodeId, amount} objects
  */
 export async function calculatePaymentSplits(
   totalAmount: number,
-  chainPath: string[]
+  chainPath: string[],
+  policy: PayoutPolicy = 'FIXED_70_30',
+  currency: string = 'USD'
 ): Promise<PaymentSplit[]> {
   if (chainPath.length === 0) {
     return []
@@ -286,133 +373,328 @@ export async function calculatePaymentSplits(
 
   const userMap = new Map(users.map(u => [u.id, u]))
 
-  const n = chainPath.length
+  let trustScores: number[] = []
+  if (policy === 'TRUST_WEIGHTED') {
+    const scores = await prisma.computedTrustScore.findMany({
+      where: { userId: { in: chainPath } },
+      select: { userId: true, trustScore: true }
+    })
+    const trustByUser = new Map(scores.map(score => [score.userId, score.trustScore]))
+    trustScores = chainPath.map(nodeId => trustByUser.get(nodeId) ?? 0)
+  }
+
+  const amounts = splitPayout(totalAmount, currency, policy, chainPath.length, trustScores)
 
-  if (n === 1) {
-    // Direct referral - gets 100%
-    const user = userMap.get(chainPath[0])
+  return chainPath.map((nodeId, index) => {
+    const user = userMap.get(nodeId)
     const name = user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email : 'Unknown'
 
-    return [{
-      nodeId: chainPath[0],
+    return {
+      nodeId,
       name,
-      amount: totalAmount
-    }]
+      amount: fromMinorUnits(amounts[index], currency),
+      amountMinorUnits: amounts[index]
+    }
+  })
+}
+
+/**
+ * Calculates payment distribution across an attribution graph: the budget
+ * is divided between paths by their weights, then along each path by the
+ * job's payout policy. Someone on several paths gets one combined split.
+ *
+ * @param totalAmount - Total payment to distribute
+ * @param graph - The referral's stored attribution graph
+ * @param policy - The job's payout policy
+ * @param currency - The job's currency
+ * @returns One split per person in the graph, summing to totalAmount
+ */
+export async function calculateGraphPaymentSplits(
+  totalAmount: number,
+  graph: AttributionGraph,
+  policy: PayoutPolicy = 'FIXED_70_30',
+  currency: string = 'USD'
+): Promise<PaymentSplit[]> {
+  if (graph.nodes.length === 0) {
+    return []
   }
 
-  // Chain referral - 70/30 split
-  const directReferrerAmount = Math.round(totalAmount * 0.7) // 70% to direct referrer
-  const chainAmount = totalAmount - directReferrerAmount // Remaining 30%
-  const chainMemberAmount = Math.round(chainAmount / (n - 1)) // Split equally among chain members
+  const users = await prisma.user.findMany({
+    where: { id: { in: graph.nodes } },
+    select: { id: true, firstName: true, lastName: true, email: true }
+  })
+  const userMap = new Map(users.map(u => [u.id, u]))
 
-  // Calculate splits
-  return chainPath.map((nodeId, index) => {
+  let trustByNode = new Map<string, number>()
+  if (policy === 'TRUST_WEIGHTED') {
+    const scores = await prisma.computedTrustScore.findMany({
+      where: { userId: { in: graph.nodes } },
+      select: { userId: true, trustScore: true }
+    })
+    trustByNode = new Map(scores.map(score => [score.userId, score.trustScore]))
+  }
+
+  const amounts = splitPayoutAcrossPaths(totalAmount, currency, policy, graph, trustByNode)
+
+  return graph.nodes.map(nodeId => {
     const user = userMap.get(nodeId)
     const name = user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email : 'Unknown'
-
-    const isDirectReferrer = index === n - 1 // Last person in chain
-    const amount = isDirectReferrer ? directReferrerAmount : chainMemberAmount
+    const amountMinorUnits = amounts.get(nodeId) ?? 0
 
     return {
       nodeId,
       name,
-      amount
+      amount: fromMinorUnits(amountMinorUnits, currency),
+      amountMinorUnits
     }
   })
 }
 
+export interface ReferralCredit {
+  splits: PaymentSplit[]
+  graph: AttributionGraph | null  // null when the referral's single chain gets everything
+  directReferrerIds: string[]
+}
+
 /**
- * Calculates maximum possible payout for a person based on their position in chain
- * when they make a forward or direct referral
+ * Calculates who gets what for a referral's hire: its chain or attribution
+ * graph, plus the referrals sharing credit with it (duplicate-referrals.ts)
  *
- * @param totalAmount - Total job referral budget
- * @param currentChainLength - Current length of chain leading to this person
- * @param isDirectReferral - Whether this person is making a direct referral (vs forward)
- * @returns Object with max payout information
+ * @param referral - An original referral
+ * @returns The splits, the graph they were computed across, and the direct referrers
  */
-export function calculateMaxPayout(
+export async function calculateReferralCredit(
+  referral: { id: string, referrerNodeId: string, chainPath: string[], attributionGraph: unknown },
   totalAmount: number,
-  currentChainLength: number,
-  isDirectReferral: boolean = false
-) {
-  if (isDirectReferral) {
-    // If making direct referral, they become the direct referrer
-    const newChainLength = currentChainLength + 1
+  policy: PayoutPolicy = 'FIXED_70_30',
+  currency: string = 'USD'
+): Promise<ReferralCredit> {
+  const sharing = await prisma.referral.findMany({
+    where: { duplicateOfId: referral.id, duplicateResolution: 'SHARED', consentStatus: 'ACCEPTED' },
+    select: { referrerNodeId: true, chainPath: true, attributionGraph: true },
+    orderBy: { createdAt: 'asc' }
+  })
 
-    if (newChainLength === 1) {
-      // They're the only one - gets 100%
-      return {
-        maxAmount: totalAmount,
-        percentage: 100,
-        role: 'Direct Referrer (Solo)',
-        chainLength: newChainLength
-      }
-    } else {
-      // They're direct referrer in a chain - gets 70%
-      return {
-        maxAmount: Math.round(totalAmount * 0.7),
-        percentage: 70,
-        role: 'Direct Referrer',
-        chainLength: newChainLength
-      }
-    }
-  } else {
-    // If forwarding, they become a chain member (not direct referrer)
-    const newChainLength = currentChainLength + 2 // +1 for them, +1 for eventual referrer
-    const chainAmount = Math.round(totalAmount * 0.3) // 30% split among chain
-    const maxAmount = Math.round(chainAmount / (newChainLength - 1)) // Split among chain members
+  const ownGraph = parseAttributionGraph(referral.attributionGraph)
+  const graph = sharing.length > 0
+    ? shareCreditAcrossReferrals([referral, ...sharing], ownGraph?.weighting)
+    : ownGraph
 
-    return {
-      maxAmount,
-      percentage: Math.round((maxAmount / totalAmount) * 100),
-      role: 'Chain Member',
-      chainLength: newChainLength
-    }
+  const splits = graph
+    ? await calculateGraphPaymentSplits(totalAmount, graph, policy, currency)
+    : await calculatePaymentSplits(totalAmount, referral.chainPath, policy, currency)
+
+  return {
+    splits,
+    graph,
+    directReferrerIds: [referral.referrerNodeId, ...sharing.map(duplicate => duplicate.referrerNodeId)]
   }
 }
 
 /**
- * Updates the status of a referral (e.g., to 'HIRED')
+ * Moves a referral to a new status, enforcing the status state machine
+ * (referral-status.ts) and recording the change in its history. Everyone
+ * involved is then notified (referral-notifications.ts) in the background.
  *
  * @param referralId - The referral to update
  * @param newStatus - The new status
+ * @param changedById - Who made the change
+ * @param note - Optional note shown in the referral's timeline
  * @returns Updated referral
+ * @throws Error if the transition isn't allowed, the candidate hasn't
+ *   accepted, the referral is a duplicate, or the status changed concurrently
  */
 export async function updateReferralStatus(
   referralId: string,
-  newStatus: 'PENDING' | 'SCREENING' | 'INTERVIEWING' | 'HIRED' | 'REJECTED'
+  newStatus: ReferralStatus,
+  changedById?: string,
+  note?: string
 ) {
-  const referral = await prisma.referral.update({
-    where: { id: referralId },
-    data: {
-      status: newStatus,
-      updatedAt: new Date()
-    },
-    include: {
-      job: {
-        select: {
-          title: true,
-          company: { select: { name: true } }
-        }
-      },
-      candidate: {
-        select: {
-          firstName: true,
-          lastName: true,
-          email: true
+  const { referral, statusChangeId } = await prisma.$transaction(async (tx) => {
+    const current = await tx.referral.findUnique({
+      where: { id: referralId },
+      select: { status: true, duplicateOfId: true, consentStatus: true }
+    })
+
+    if (!current) {
+      throw new Error('Referral not found')
+    }
+
+    if (current.consentStatus !== 'ACCEPTED') {
+      throw new Error('The candidate has not accepted this referral')
+    }
+
+    if (current.duplicateOfId) {
+      throw new Error('Duplicate referrals follow their original referral')
+    }
+
+    if (!canTransition(current.status, newStatus)) {
+      throw new Error(`Cannot change status from ${current.status} to ${newStatus}`)
+    }
+
+    // Conditional on the status we checked, so two managers can't both move it
+    const updated = await tx.referral.updateMany({
+      where: { id: referralId, status: current.status },
+      data: { status: newStatus }
+    })
+
+    if (updated.count === 0) {
+      throw new Error('Referral status was changed by someone else')
+    }
+
+    const statusChange = await tx.referralStatusChange.create({
+      data: {
+        referralId,
+        fromStatus: current.status,
+        toStatus: newStatus,
+        changedById,
+        note
+      }
+    })
+
+    const referral = await tx.referral.findUniqueOrThrow({
+      where: { id: referralId },
+      include: {
+        job: {
+          select: {
+            title: true,
+            company: { select: { name: true } }
+          }
+        },
+        candidate: {
+          select: {
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        },
+        referrer: {
+          select: {
+            firstName: true,
+            lastName: true,
+            email: true
+          }
         }
-      },
-      referrerNode: {
+      }
+    })
+
+    return { referral, statusChangeId: statusChange.id }
+  })
+
+  try {
+    await enqueueJob('REFERRAL_NOTIFICATIONS', { statusChangeId }, { maxAttempts: 1 })
+  } catch (error) {
+    // The status change stands even if nobody hears about it
+    console.error(`Failed to queue notifications for referral ${referralId}:`, error)
+  }
+
+  return referral
+}
+
+/**
+ * Decides a duplicate referral that's waiting for the job's hiring manager
+ * (HIRING_MANAGER_DECIDES). Switching to the duplicate is only possible
+ * while the original is still PENDING, and nothing can change once the
+ * hire is paid.
+ *
+ * @param duplicateId - The duplicate referral
+ * @param decision - Keep the original, use the duplicate instead, or share credit
+ * @returns The original referral's ID after the decision
+ * @throws Error if the referral isn't an undecided duplicate or the original has moved on
+ */
+export async function resolveDuplicateReferral(
+  duplicateId: string,
+  decision: DuplicateDecision
+): Promise<{ originalId: string }> {
+  return await prisma.$transaction(async (tx) => {
+    const duplicate = await tx.referral.findUnique({
+      where: { id: duplicateId },
+      select: {
+        duplicateResolution: true,
+        consentStatus: true,
+        duplicateOf: { select: { id: true, jobId: true, candidateId: true, status: true, settledAt: true } }
+      }
+    })
+
+    if (!duplicate) {
+      throw new Error('Referral not found')
+    }
+
+    const original = duplicate.duplicateOf
+
+    if (!original || duplicate.duplicateResolution !== 'PENDING' || duplicate.consentStatus !== 'ACCEPTED') {
+      throw new Error('No pending duplicate to resolve')
+    }
+
+    if (original.settledAt) {
+      throw new Error('The original referral has already been paid out')
+    }
+
+    const duplicateResolvedAt = new Date()
+
+    // Conditional on PENDING, so two managers can't both decide
+    const decide = async (data: Prisma.ReferralUncheckedUpdateManyInput) => {
+      const updated = await tx.referral.updateMany({
+        where: { id: duplicateId, duplicateResolution: 'PENDING' },
+        data: { ...data, duplicateResolvedAt }
+      })
+
+      if (updated.count === 0) {
+        throw new Error('No pending duplicate to resolve')
+      }
+    }
+
+    if (decision === 'KEEP_ORIGINAL') {
+      await decide({ duplicateResolution: 'DISMISSED' })
+      return { originalId: original.id }
+    }
+
+    if (decision === 'SHARE_CREDIT') {
+      await decide({ duplicateResolution: 'SHARED' })
+      return { originalId: original.id }
+    }
+
+    if (original.status !== 'PENDING') {
+      throw new Error('The original referral has already moved past PENDING')
+    }
+
+    // The duplicate takes over the claim, and the original and its other duplicates follow it
+    await tx.referral.update({
+      where: { id: original.id },
+      data: { candidateClaim: null, duplicateOfId: duplicateId, duplicateResolution: 'DISMISSED', duplicateResolvedAt }
+    })
+    await decide({
+      duplicateOfId: null,
+      duplicateResolution: null,
+      candidateClaim: candidateClaimKey(original.jobId, original.candidateId)
+    })
+    await tx.referral.updateMany({
+      where: { duplicateOfId: original.id },
+      data: { duplicateOfId: duplicateId }
+    })
+
+    return { originalId: duplicateId }
+  })
+}
+
+/**
+ * Gets a referral's status history, oldest first
+ */
+export async function getReferralTimeline(referralId: string) {
+  return await prisma.referralStatusChange.findMany({
+    where: { referralId },
+    include: {
+      changedBy: {
         select: {
+          id: true,
           firstName: true,
           lastName: true,
           email: true
         }
       }
-    }
+    },
+    orderBy: { createdAt: 'asc' }
   })
-
-  return referral
 }
 
 /**
@@ -422,13 +704,26 @@ export async function updateReferralStatus(
  * @returns Array of chain nodes with user details
  */
 export async function getChainWithDetails(chainPath: string[]): Promise<ChainNode[]> {
-  if (chainPath.length === 0) {
-    return []
+  const [chain] = await getChainsWithDetails([chainPath])
+  return chain
+}
+
+/**
+ * Get user details for many chains with a single query
+ *
+ * @param chainPaths - Arrays of user IDs
+ * @returns Chain nodes for each path, in the same order
+ */
+export async function getChainsWithDetails(chainPaths: string[][]): Promise<ChainNode[][]> {
+  const nodeIds = Array.from(new Set(chainPaths.flat()))
+
+  if (nodeIds.length === 0) {
+    return chainPaths.map(() => [])
   }
 
   const users = await prisma.user.findMany({
     where: {
-      id: { in: chainPath }
+      id: { in: nodeIds }
     },
     select: {
       id: true,
@@ -440,8 +735,8 @@ export async function getChainWithDetails(chainPath: string[]): Promise<ChainNod
 
   const userMap = new Map(users.map(u => [u.id, u]))
 
-  // Maintain order from chainPath
-  return chainPath.map(nodeId => {
+  // Maintain order from each chainPath
+  return chainPaths.map(chainPath => chainPath.map(nodeId => {
     const user = userMap.get(nodeId)
     if (!user) {
       return {
@@ -456,18 +751,18 @@ export async function getChainWithDetails(chainPath: string[]): Promise<ChainNod
       name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email,
       email: user.email
     }
-  })
+  }))
 }
 
 /**
  * Get all referrals for a job with chain details
  *
  * @param jobId - The job ID
- * @returns Array of referrals with chain information
+ * @returns Array of referrals with chain information (only those the candidate accepted)
  */
 export async function getReferralsForJob(jobId: string) {
   const referrals = await prisma.referral.findMany({
-    where: { jobId },
+    where: { jobId, consentStatus: 'ACCEPTED' },
     include: {
       candidate: {
         select: {
@@ -478,7 +773,7 @@ export async function getReferralsForJob(jobId: string) {
           profileImage: true
         }
       },
-      referrerNode: {
+      referrer: {
         select: {
           id: true,
           firstName: true,
@@ -490,18 +785,37 @@ export async function getReferralsForJob(jobId: string) {
     orderBy: { createdAt: 'desc' }
   })
 
-  // Get chain details for each referral
-  const referralsWithChains = await Promise.all(
-    referrals.map(async (referral) => {
-      const chain = await getChainWithDetails(referral.chainPath)
-      return {
-        ...referral,
-        chain
-      }
+  // Get chain details for every referral at once
+  const chains = await getChainsWithDetails(referrals.map(referral => referral.chainPath))
+
+  return referrals.map((referral, index) => ({
+    ...referral,
+    chain: chains[index]
+  }))
+}
+
+/**
+ * How a job spread: every forward and accepted referral, as a tree (forward-graph.ts)
+ *
+ * @param jobId - The job ID
+ * @returns The job's forward graph
+ */
+export async function getForwardGraphForJob(jobId: string): Promise<ForwardGraph> {
+  const [forwards, referrals] = await Promise.all([
+    loadJobForwards(jobId),
+    prisma.referral.findMany({
+      where: { jobId, consentStatus: 'ACCEPTED' },
+      select: { id: true, referrerNodeId: true, status: true }
     })
-  )
+  ])
+
+  const nodeIds = Array.from(new Set([
+    ...forwards.flatMap(forward => [forward.fromNodeId, forward.toNodeId]),
+    ...referrals.map(referral => referral.referrerNodeId)
+  ]))
+  const [chain] = await getChainsWithDetails([nodeIds])
 
-  return referralsWithChains
+  return buildForwardGraph(jobId, forwards, referrals, new Map(chain.map(node => [node.id, node.name])))
 }
 
 /**
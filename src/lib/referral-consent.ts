@@ -0,0 +1,225 @@
+/**
+ * REFERRAL CONSENT
+ *
+ * A referral doesn't reach the hiring manager until the candidate agrees
+ * to it, the same way endorsements wait on the candidate (EndorsementStatus).
+ * New referrals start at PENDING_CANDIDATE_ACTION and the candidate is
+ * emailed a link to /referrals/<id>/consent, where they can:
+ * - accept, optionally editing what's shared (how they know the referrer, notes)
+ * - decline, which hides the referral for good
+ *
+ * Only ACCEPTED referrals are shown to the job owner or can move through
+ * the hiring pipeline. The candidate can change their answer until the
+ * hiring manager moves the referral past PENDING, but a decline is final.
+ * Declining an original referral hands the candidate over to the oldest
+ * remaining duplicate (duplicate-referrals.ts), if any. An endorsement
+ * created with the referral (trusted-network referrals) follows the same
+ * answer: ACTIVE_MATCHING when accepted, NOT_USING when declined.
+ *
+ * The link carries an HMAC of the referral and candidate, like share links
+ * (share-links.ts), so it works before the candidate has an account.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { sendReferralConsentEmail } from '@/lib/email-service'
+import { candidateClaimKey } from '@/lib/duplicate-referrals'
+
+export type ConsentDecision = 'ACCEPT' | 'DECLINE'
+
+export interface ConsentResponse {
+  decision: ConsentDecision
+  howYouKnow?: string  // Accepting only: replaces what the referrer wrote
+  notes?: string
+}
+
+function getSecret(): string {
+  return process.env.REFERRAL_CONSENT_SECRET || process.env.NEXTAUTH_SECRET || 'your-secret-key'
+}
+
+function signConsentLink(referralId: string, candidateId: string): string {
+  return createHmac('sha256', getSecret())
+    .update(`referral-consent:${referralId}:${candidateId}`)
+    .digest('base64url')
+}
+
+export function isConsentDecision(value: unknown): value is ConsentDecision {
+  return value === 'ACCEPT' || value === 'DECLINE'
+}
+
+/**
+ * The candidate's consent page for a referral (path only; prefix with the site URL)
+ */
+export function getConsentLinkPath(referral: { id: string, candidateId: string }): string {
+  return `/referrals/${encodeURIComponent(referral.id)}/consent?sig=${signConsentLink(referral.id, referral.candidateId)}`
+}
+
+/**
+ * Checks a consent link and loads what the candidate is asked to agree to
+ *
+ * @returns The referral, or null if it doesn't exist or the signature is wrong
+ */
+export async function verifyConsentLink(referralId: string, sig: string) {
+  const referral = await prisma.referral.findUnique({
+    where: { id: referralId },
+    select: {
+      id: true,
+      candidateId: true,
+      status: true,
+      consentStatus: true,
+      howYouKnow: true,
+      notes: true,
+      confidenceLevel: true,
+      createdAt: true,
+      candidateRespondedAt: true,
+      job: { select: { id: true, title: true, company: { select: { name: true } } } },
+      referrer: { select: { firstName: true, lastName: true, email: true } }
+    }
+  })
+
+  if (!referral) {
+    return null
+  }
+
+  const expected = Buffer.from(signConsentLink(referral.id, referral.candidateId))
+  const actual = Buffer.from(sig)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  return referral
+}
+
+/**
+ * Emails the candidate their consent link
+ *
+ * @param referralId - A referral waiting on the candidate
+ */
+export async function requestReferralConsent(referralId: string): Promise<void> {
+  const referral = await prisma.referral.findUniqueOrThrow({
+    where: { id: referralId },
+    select: {
+      id: true,
+      candidateId: true,
+      consentStatus: true,
+      howYouKnow: true,
+      candidate: { select: { email: true, firstName: true } },
+      job: { select: { title: true, company: { select: { name: true } } } },
+      referrer: { select: { firstName: true, lastName: true, email: true } }
+    }
+  })
+
+  if (referral.consentStatus !== 'PENDING_CANDIDATE_ACTION') {
+    return
+  }
+
+  await sendReferralConsentEmail({
+    recipientEmail: referral.candidate.email,
+    recipientName: referral.candidate.firstName ?? undefined,
+    referrerName: `${referral.referrer.firstName || ''} ${referral.referrer.lastName || ''}`.trim() || referral.referrer.email,
+    jobTitle: referral.job.title,
+    companyName: referral.job.company.name,
+    howYouKnow: referral.howYouKnow,
+    link: getConsentLinkPath(referral)
+  })
+
+  await prisma.referral.update({
+    where: { id: referralId },
+    data: { candidateNotifiedAt: new Date() }
+  })
+}
+
+/**
+ * Records the candidate's answer to a referral
+ *
+ * @param referralId - The referral from the consent link
+ * @param sig - The link's signature
+ * @returns The referral's new consent status
+ * @throws Error if the link is invalid, the referral was declined, or the
+ *   hiring manager has already moved it on
+ */
+export async function respondToReferral(referralId: string, sig: string, response: ConsentResponse) {
+  const referral = await verifyConsentLink(referralId, sig)
+
+  if (!referral) {
+    throw new Error('Invalid consent link')
+  }
+
+  if (referral.consentStatus === 'DECLINED') {
+    throw new Error('This referral was declined')
+  }
+
+  if (referral.status !== 'PENDING') {
+    throw new Error('This referral is already in progress with the hiring manager')
+  }
+
+  const consentStatus = response.decision === 'ACCEPT' ? 'ACCEPTED' : 'DECLINED'
+
+  await prisma.$transaction(async (tx) => {
+    // Conditional so a concurrent status change or decline wins
+    const updated = await tx.referral.updateMany({
+      where: { id: referralId, status: 'PENDING', consentStatus: { not: 'DECLINED' } },
+      data: {
+        consentStatus,
+        candidateRespondedAt: new Date(),
+        ...(consentStatus === 'ACCEPTED' && response.howYouKnow !== undefined && { howYouKnow: response.howYouKnow }),
+        ...(consentStatus === 'ACCEPTED' && response.notes !== undefined && { notes: response.notes })
+      }
+    })
+
+    if (updated.count === 0) {
+      throw new Error('This referral is already in progress with the hiring manager')
+    }
+
+    // A trusted-network referral's endorsement is shared or set aside with it
+    await tx.endorsement.updateMany({
+      where: { referralId },
+      data: {
+        status: consentStatus === 'ACCEPTED' ? 'ACTIVE_MATCHING' : 'NOT_USING',
+        candidateRespondedAt: new Date()
+      }
+    })
+
+    if (consentStatus === 'ACCEPTED') {
+      return
+    }
+
+    const declined = await tx.referral.findUniqueOrThrow({
+      where: { id: referralId },
+      select: { jobId: true, candidateId: true, candidateClaim: true }
+    })
+
+    if (!declined.candidateClaim) {
+      return
+    }
+
+    // Hand the candidate over to the oldest duplicate they haven't declined
+    await tx.referral.update({
+      where: { id: referralId },
+      data: { candidateClaim: null }
+    })
+
+    const successor = await tx.referral.findFirst({
+      where: { duplicateOfId: referralId, consentStatus: { not: 'DECLINED' } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true }
+    })
+
+    if (successor) {
+      await tx.referral.update({
+        where: { id: successor.id },
+        data: {
+          duplicateOfId: null,
+          duplicateResolution: null,
+          candidateClaim: candidateClaimKey(declined.jobId, declined.candidateId)
+        }
+      })
+      await tx.referral.updateMany({
+        where: { duplicateOfId: referralId },
+        data: { duplicateOfId: successor.id }
+      })
+    }
+  })
+
+  return { consentStatus }
+}
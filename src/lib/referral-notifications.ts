@@ -0,0 +1,195 @@
+/**
+ * REFERRAL NOTIFICATIONS
+ *
+ * Fans a referral status change out to everyone involved: the candidate,
+ * the direct referrer and the rest of the chain (chainPath, or everyone in
+ * the referral's attribution graph), plus the referrers and chains of any
+ * duplicate referrals sharing its credit. Each gets an in-app Notification
+ * and an email, unless they've muted that type on that channel. Whoever
+ * made the change isn't notified about it.
+ *
+ * Runs as a REFERRAL_NOTIFICATIONS background job so a status update never
+ * waits on email delivery. The job isn't retried, so nobody is emailed
+ * twice, and in-app notifications are unique per status change and user
+ * in case it's queued again by hand.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { NotificationType } from '@prisma/client'
+import { sendReferralStatusEmail } from '@/lib/email-service'
+import { creditedNodeIds } from '@/lib/chain-attribution'
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  NotificationChannels,
+  NotificationPreferences,
+  notificationTypeForStatus
+} from '@/lib/notification-types'
+
+type RecipientRole = 'candidate' | 'referrer' | 'chain'
+
+interface Recipient {
+  userId: string
+  email: string
+  firstName: string | null
+  role: RecipientRole
+}
+
+/**
+ * A user's channels for every notification type (both on unless muted)
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const rows = await prisma.notificationPreference.findMany({ where: { userId } })
+  const byType = new Map(rows.map(row => [row.type, row]))
+
+  return Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, {
+    email: byType.get(type)?.email ?? true,
+    inApp: byType.get(type)?.inApp ?? true
+  }])) as NotificationPreferences
+}
+
+export async function updateNotificationPreference(
+  userId: string,
+  type: NotificationType,
+  channels: Partial<NotificationChannels>
+): Promise<void> {
+  await prisma.notificationPreference.upsert({
+    where: { userId_type: { userId, type } },
+    create: { userId, type, ...channels },
+    update: channels
+  })
+}
+
+function describeChange(
+  role: RecipientRole,
+  type: NotificationType,
+  candidateName: string,
+  jobTitle: string,
+  companyName: string
+): { title: string, body: string } {
+  const stage = NOTIFICATION_TYPE_LABELS[type].toLowerCase()
+  const position = `${jobTitle} at ${companyName}`
+
+  if (role === 'candidate') {
+    return {
+      title: `Update on your application: ${NOTIFICATION_TYPE_LABELS[type]}`,
+      body: type === 'REFERRAL_WITHDRAWN'
+        ? `Your application for ${position} has been withdrawn.`
+        : `Your application for ${position} has moved to: ${stage}.`
+    }
+  }
+
+  // Chain members may not know the candidate, so they aren't named
+  const who = role === 'referrer' ? candidateName : 'A candidate referred through your network'
+
+  return {
+    title: `Referral update: ${NOTIFICATION_TYPE_LABELS[type]}`,
+    body: type === 'REFERRAL_HIRED'
+      ? `${who} was hired for ${position}. Your share of the referral bonus has been recorded.`
+      : `${who} for ${position}: ${stage}.`
+  }
+}
+
+/**
+ * Notifies everyone involved in a referral about one status change
+ *
+ * @returns How many people were notified in-app and by email
+ */
+export async function notifyReferralStatusChange(statusChangeId: string): Promise<{
+  recipients: number
+  inApp: number
+  emailsSent: number
+}> {
+  const change = await prisma.referralStatusChange.findUnique({
+    where: { id: statusChangeId },
+    include: {
+      referral: {
+        include: {
+          candidate: { select: { id: true, email: true, firstName: true, lastName: true } },
+          job: { select: { id: true, title: true, company: { select: { name: true } } } },
+          duplicates: {
+            where: { duplicateResolution: 'SHARED', consentStatus: 'ACCEPTED' },
+            select: { referrerNodeId: true, chainPath: true, attributionGraph: true }
+          }
+        }
+      }
+    }
+  })
+
+  const type = change ? notificationTypeForStatus(change.toStatus) : null
+  if (!change || !type) {
+    return { recipients: 0, inApp: 0, emailsSent: 0 }
+  }
+
+  const { referral } = change
+  const candidate = referral.candidate
+  const candidateName = `${candidate.firstName || ''} ${candidate.lastName || ''}`.trim() || candidate.email
+
+  // Candidate first, then the direct referrers, then the rest of the chains; one entry per person
+  const referrerIds = [referral.referrerNodeId, ...referral.duplicates.map(duplicate => duplicate.referrerNodeId)]
+  const chain = [referral, ...referral.duplicates]
+    .flatMap(credited => creditedNodeIds(credited.chainPath, credited.attributionGraph))
+  const chainUsers = await prisma.user.findMany({
+    where: { id: { in: [...referrerIds, ...chain] } },
+    select: { id: true, email: true, firstName: true }
+  })
+  const usersById = new Map(chainUsers.map(user => [user.id, user]))
+
+  const recipients = new Map<string, Recipient>()
+  const addRecipient = (userId: string, role: RecipientRole) => {
+    const user = userId === candidate.id ? candidate : usersById.get(userId)
+    if (!user || recipients.has(userId) || userId === change.changedById) return
+    recipients.set(userId, { userId, email: user.email, firstName: user.firstName, role })
+  }
+
+  addRecipient(candidate.id, 'candidate')
+  referrerIds.forEach(userId => addRecipient(userId, 'referrer'))
+  chain.forEach(userId => addRecipient(userId, 'chain'))
+
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId: { in: Array.from(recipients.keys()) }, type }
+  })
+  const channelsByUser = new Map(preferences.map(preference => [preference.userId, preference]))
+
+  let inApp = 0
+  let emailsSent = 0
+
+  for (const recipient of Array.from(recipients.values())) {
+    const channels = channelsByUser.get(recipient.userId)
+    const { title, body } = describeChange(recipient.role, type, candidateName, referral.job.title, referral.job.company.name)
+    const link = recipient.role === 'candidate' ? `/jobs/${referral.job.id}` : '/dashboard'
+
+    if (channels?.inApp ?? true) {
+      const created = await prisma.notification.createMany({
+        data: [{
+          userId: recipient.userId,
+          type,
+          title,
+          body,
+          link,
+          referralId: referral.id,
+          statusChangeId
+        }],
+        skipDuplicates: true
+      })
+      inApp += created.count
+    }
+
+    if (channels?.email ?? true) {
+      try {
+        await sendReferralStatusEmail({
+          recipientEmail: recipient.email,
+          recipientName: recipient.firstName || undefined,
+          title,
+          message: body,
+          link
+        })
+        emailsSent++
+      } catch (error) {
+        console.error(`Failed to send referral update to ${recipient.email}:`, error)
+      }
+    }
+  }
+
+  return { recipients: recipients.size, inApp, emailsSent }
+}
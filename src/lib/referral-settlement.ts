@@ -0,0 +1,509 @@
+/**
+ * REFERRAL SETTLEMENT
+ *
+ * Marking a referral HIRED pays the job's referral budget out along the
+ * whole chain (chainPath), split by the job's payout policy. Referrals made
+ * under ALL_PATHS attribution are paid across their stored attribution
+ * graph instead (chain-attribution.ts), and duplicates sharing credit with
+ * the referral split it with their own chains (duplicate-referrals.ts):
+ * - one EarningsTransaction per chain member, linked to the referral
+ * - clout for every chain member, the most for the direct referrer
+ * - pendingEarnings goes up now and moves to totalEarnings once paid
+ *
+ * Payouts are contingent on the hire staying for the job's guarantee
+ * period. Until it elapses they stay PENDING (and can't be paid); the
+ * recurring PAYOUT_GUARANTEE_RELEASE job then confirms them. If the hire leaves
+ * early, reportEarlyDeparture cancels or prorates the chain's payouts and
+ * reverses the clout they earned.
+ *
+ * Settling is idempotent. The referral is claimed (settledAt) in the same
+ * transaction that writes the earnings, and there is at most one
+ * EarningsTransaction per (referral, user), so a repeated or concurrent
+ * HIRED update never pays anyone twice.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { EarningsTransaction, Prisma } from '@prisma/client'
+import { CLOUT_POINTS } from '@/lib/clout/scoring'
+import { calculateReferralCredit } from '@/lib/referral-chain'
+import { allocateMinorUnits, fromMinorUnits, toMinorUnits } from '@/lib/money'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface SettlementResult {
+  referralId: string
+  settled: boolean  // false when an earlier request already settled it
+  settledAt: Date
+  guaranteeEndsAt: Date | null  // null when the job has no guarantee period
+  totalAmount: number
+  currency: string
+  transactions: EarningsTransaction[]
+}
+
+interface ChainPayee {
+  userId: string
+  name: string
+  amountMinorUnits: number
+  positions: number[]  // Indexes in chainPath (more than one if the chain revisits someone), or paths they're on
+  isDirectReferrer: boolean
+}
+
+/**
+ * Pays out a hired referral to everyone in its chain
+ *
+ * @param referralId - A referral whose status is HIRED
+ * @returns The referral's earnings, with settled = false if it was already paid out
+ * @throws Error if the referral doesn't exist or isn't hired
+ */
+export async function settleReferral(referralId: string): Promise<SettlementResult> {
+  const referral = await prisma.referral.findUnique({
+    where: { id: referralId },
+    include: {
+      candidate: { select: { firstName: true, lastName: true, email: true } },
+      job: {
+        select: {
+          id: true,
+          title: true,
+          referralBudget: true,
+          payoutPolicy: true,
+          currency: true,
+          guaranteePeriodDays: true,
+          company: { select: { name: true } }
+        }
+      }
+    }
+  })
+
+  if (!referral) {
+    throw new Error('Referral not found')
+  }
+
+  if (referral.status !== 'HIRED') {
+    throw new Error('Only hired referrals can be settled')
+  }
+
+  const { job } = referral
+  const totalAmount = job.referralBudget ?? 0
+
+  if (referral.settledAt) {
+    return await getSettlement(referral, totalAmount, job.currency)
+  }
+
+  const { splits, graph, directReferrerIds } = await calculateReferralCredit(
+    referral,
+    totalAmount,
+    job.payoutPolicy,
+    job.currency
+  )
+
+  // One payee per user: a chain that passes through someone twice pays them once, for both positions
+  const payees = new Map<string, ChainPayee>()
+  splits.forEach((split, index) => {
+    const payee = payees.get(split.nodeId) ?? {
+      userId: split.nodeId,
+      name: split.name,
+      amountMinorUnits: 0,
+      positions: [],
+      isDirectReferrer: false
+    }
+    payee.amountMinorUnits += split.amountMinorUnits
+    if (graph) {
+      graph.paths.forEach((path, pathIndex) => {
+        if (path.nodes.includes(split.nodeId)) payee.positions.push(pathIndex)
+      })
+    } else {
+      payee.positions.push(index)
+    }
+    payee.isDirectReferrer = payee.isDirectReferrer || directReferrerIds.includes(split.nodeId)
+    payees.set(split.nodeId, payee)
+  })
+
+  const candidateName = `${referral.candidate.firstName || ''} ${referral.candidate.lastName || ''}`.trim()
+    || referral.candidate.email
+  const hire = `${candidateName} hired for ${job.title} at ${job.company.name}`
+  const settledAt = new Date()
+  const guaranteed = job.guaranteePeriodDays > 0
+  const guaranteeEndsAt = guaranteed ? new Date(settledAt.getTime() + job.guaranteePeriodDays * DAY_MS) : null
+
+  const transactions = await prisma.$transaction(async (tx) => {
+    // Claim the referral; a concurrent settlement waits on this row and then finds nothing to claim
+    const claimed = await tx.referral.updateMany({
+      where: { id: referralId, status: 'HIRED', settledAt: null },
+      data: { settledAt, guaranteeEndsAt }
+    })
+
+    if (claimed.count === 0) {
+      return null
+    }
+
+    const created: EarningsTransaction[] = []
+
+    for (const payee of Array.from(payees.values())) {
+      const amount = fromMinorUnits(payee.amountMinorUnits, job.currency)
+      const description = payee.isDirectReferrer
+        ? `Successful referral: ${hire}`
+        : `Referral chain bonus: ${hire}`
+
+      if (payee.amountMinorUnits > 0) {
+        created.push(await tx.earningsTransaction.create({
+          data: {
+            userId: payee.userId,
+            amount,
+            type: payee.isDirectReferrer ? 'REFERRAL_BONUS' : 'NETWORK_BONUS',
+            status: guaranteed ? 'PENDING' : 'CONFIRMED',
+            jobId: job.id,
+            referralId,
+            description,
+            metadata: {
+              amountMinorUnits: payee.amountMinorUnits,
+              currency: job.currency,
+              payoutPolicy: job.payoutPolicy,
+              ...(graph
+                ? { pathWeighting: graph.weighting, attributionPaths: payee.positions, pathCount: graph.paths.length }
+                : { chainPositions: payee.positions, chainLength: referral.chainPath.length })
+            }
+          }
+        }))
+      }
+
+      const activity = payee.isDirectReferrer ? 'SUCCESSFUL_REFERRAL' : 'REFERRAL_CHAIN_CONTRIBUTION'
+      const pointsAwarded = CLOUT_POINTS[activity]
+
+      await tx.cloutActivity.create({
+        data: {
+          userId: payee.userId,
+          activity,
+          pointsAwarded,
+          description,
+          jobId: job.id,
+          referralId
+        }
+      })
+
+      await tx.user.update({
+        where: { id: payee.userId },
+        data: {
+          pendingEarnings: { increment: amount },
+          cloutScore: { increment: pointsAwarded },
+          ...(payee.isDirectReferrer && { successfulReferrals: { increment: 1 } })
+        }
+      })
+    }
+
+    return created
+  }, {
+    timeout: 30000
+  })
+
+  if (!transactions) {
+    const current = await prisma.referral.findUniqueOrThrow({
+      where: { id: referralId },
+      select: { id: true, settledAt: true, guaranteeEndsAt: true }
+    })
+    return await getSettlement(current, totalAmount, job.currency)
+  }
+
+  console.log(`💸 Settled referral ${referralId}: ${transactions.length} payouts from ${totalAmount} ${job.currency}`)
+
+  return {
+    referralId,
+    settled: true,
+    settledAt,
+    guaranteeEndsAt,
+    totalAmount,
+    currency: job.currency,
+    transactions
+  }
+}
+
+async function getSettlement(
+  referral: { id: string, settledAt: Date | null, guaranteeEndsAt: Date | null },
+  totalAmount: number,
+  currency: string
+): Promise<SettlementResult> {
+  const transactions = await prisma.earningsTransaction.findMany({
+    where: { referralId: referral.id },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return {
+    referralId: referral.id,
+    settled: false,
+    settledAt: referral.settledAt ?? new Date(),
+    guaranteeEndsAt: referral.guaranteeEndsAt,
+    totalAmount,
+    currency,
+    transactions
+  }
+}
+
+/**
+ * Confirms the held payouts of every hire whose guarantee period is over
+ * and who hasn't been reported as leaving
+ *
+ * @returns Number of transactions confirmed
+ */
+export async function releaseGuaranteedEarnings(now: Date = new Date()): Promise<number> {
+  const released = await prisma.earningsTransaction.updateMany({
+    where: {
+      status: 'PENDING',
+      referral: {
+        guaranteeEndsAt: { lte: now },
+        departedAt: null
+      }
+    },
+    data: { status: 'CONFIRMED' }
+  })
+
+  if (released.count > 0) {
+    console.log(`🔓 Released ${released.count} payouts past their guarantee period`)
+  }
+
+  return released.count
+}
+
+// CANCEL: the chain keeps nothing. PRORATE: it keeps the fraction of the
+// guarantee period the hire stayed
+export type ClawbackMode = 'CANCEL' | 'PRORATE'
+
+export interface ClawbackResult {
+  referralId: string
+  departedAt: Date
+  mode: ClawbackMode
+  keptFraction: number
+  clawedBack: number        // Major units taken back from the chain
+  cloutReversed: number
+  transactions: EarningsTransaction[]
+}
+
+/**
+ * Records that a hire left during the guarantee period and claws back the
+ * chain's held payouts and clout. Can only be reported once per referral.
+ *
+ * @param departedAt - Last day of employment; must fall inside the guarantee period
+ * @throws Error if the referral isn't settled, has no guarantee, the date is
+ *   outside the period, a departure was already reported, or the payouts
+ *   were already released
+ */
+export async function reportEarlyDeparture(
+  referralId: string,
+  departedAt: Date,
+  mode: ClawbackMode,
+  reason?: string
+): Promise<ClawbackResult> {
+  const referral = await prisma.referral.findUnique({
+    where: { id: referralId },
+    select: {
+      settledAt: true,
+      guaranteeEndsAt: true,
+      departedAt: true,
+      job: { select: { currency: true } }
+    }
+  })
+
+  if (!referral) {
+    throw new Error('Referral not found')
+  }
+
+  if (!referral.settledAt) {
+    throw new Error('Referral has not been settled')
+  }
+
+  if (!referral.guaranteeEndsAt) {
+    throw new Error('This hire has no guarantee period')
+  }
+
+  if (referral.departedAt) {
+    throw new Error('A departure was already reported for this referral')
+  }
+
+  const { settledAt, guaranteeEndsAt } = referral
+  if (departedAt < settledAt || departedAt >= guaranteeEndsAt) {
+    throw new Error('Departure date must fall within the guarantee period')
+  }
+
+  const { currency } = referral.job
+  const keptFraction = mode === 'PRORATE'
+    ? (departedAt.getTime() - settledAt.getTime()) / (guaranteeEndsAt.getTime() - settledAt.getTime())
+    : 0
+
+  const result = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.referral.updateMany({
+      where: { id: referralId, departedAt: null },
+      data: { departedAt }
+    })
+
+    if (claimed.count === 0) {
+      throw new Error('A departure was already reported for this referral')
+    }
+
+    const held = await tx.earningsTransaction.findMany({
+      where: { referralId, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const released = await tx.earningsTransaction.count({
+      where: { referralId, status: { in: ['CONFIRMED', 'PAID'] } }
+    })
+
+    if (released > 0 && held.length === 0) {
+      throw new Error('Payouts for this referral were already released')
+    }
+
+    // Split what the chain keeps in proportion to what each member was owed
+    const owed = held.map(transaction => toMinorUnits(transaction.amount, currency))
+    const owedTotal = owed.reduce((sum, amount) => sum + amount, 0)
+    const keptTotal = Math.floor(owedTotal * keptFraction)
+    const kept = keptTotal > 0 ? allocateMinorUnits(keptTotal, owed) : owed.map(() => 0)
+
+    const clawback = {
+      departedAt: departedAt.toISOString(),
+      mode,
+      keptFraction,
+      ...(reason && { reason })
+    }
+
+    const transactions: EarningsTransaction[] = []
+    let clawedBackMinorUnits = 0
+
+    for (let i = 0; i < held.length; i++) {
+      const transaction = held[i]
+      const keptAmount = fromMinorUnits(kept[i], currency)
+      const metadata = {
+        ...((transaction.metadata ?? {}) as Prisma.JsonObject),
+        amountMinorUnits: kept[i],
+        clawback: { ...clawback, originalAmount: transaction.amount }
+      }
+
+      const updated = await tx.earningsTransaction.updateMany({
+        where: { id: transaction.id, status: 'PENDING' },
+        data: kept[i] > 0
+          ? { amount: keptAmount, status: 'CONFIRMED', metadata }
+          : { status: 'CANCELLED', metadata }
+      })
+
+      if (updated.count === 0) continue
+
+      await tx.user.update({
+        where: { id: transaction.userId },
+        data: { pendingEarnings: { decrement: transaction.amount - keptAmount } }
+      })
+
+      clawedBackMinorUnits += owed[i] - kept[i]
+      transactions.push(await tx.earningsTransaction.findUniqueOrThrow({ where: { id: transaction.id } }))
+    }
+
+    // Reverse the clout the hire earned, in the same proportion
+    const activities = await tx.cloutActivity.findMany({
+      where: { referralId, pointsAwarded: { gt: 0 } }
+    })
+
+    let cloutReversed = 0
+
+    for (const activity of activities) {
+      const reversed = activity.pointsAwarded * (1 - keptFraction)
+      if (reversed <= 0) continue
+
+      await tx.cloutActivity.create({
+        data: {
+          userId: activity.userId,
+          activity: 'REFERRAL_CLAWBACK',
+          pointsAwarded: -reversed,
+          description: `Hire left during the guarantee period: ${activity.description}`,
+          jobId: activity.jobId,
+          referralId
+        }
+      })
+
+      await tx.user.update({
+        where: { id: activity.userId },
+        data: {
+          cloutScore: { decrement: reversed },
+          ...(mode === 'CANCEL' && activity.activity === 'SUCCESSFUL_REFERRAL' && { successfulReferrals: { decrement: 1 } })
+        }
+      })
+
+      cloutReversed += reversed
+    }
+
+    return {
+      clawedBack: fromMinorUnits(clawedBackMinorUnits, currency),
+      cloutReversed,
+      transactions
+    }
+  }, {
+    timeout: 30000
+  })
+
+  console.log(`↩️ Clawed back ${result.clawedBack} ${currency} from referral ${referralId} (${mode})`)
+
+  return {
+    referralId,
+    departedAt,
+    mode,
+    keptFraction,
+    ...result
+  }
+}
+
+/**
+ * Marks earnings as paid, moving their amounts from each user's
+ * pendingEarnings to totalEarnings. Only CONFIRMED transactions are paid:
+ * PENDING ones are still inside a guarantee period, and paid or cancelled
+ * ones are skipped, so paying twice has no effect.
+ *
+ * @returns The transactions this call paid
+ */
+export async function markEarningsPaid(
+  transactionIds: string[],
+  paymentMethod?: string
+): Promise<EarningsTransaction[]> {
+  if (transactionIds.length === 0) return []
+
+  const paidAt = new Date()
+
+  return await prisma.$transaction(async (tx) => {
+    const outstanding = await tx.earningsTransaction.findMany({
+      where: { id: { in: transactionIds }, status: 'CONFIRMED' }
+    })
+
+    const paid: EarningsTransaction[] = []
+
+    for (const transaction of outstanding) {
+      // Conditional so a concurrent payment of the same transaction only counts once
+      const updated = await tx.earningsTransaction.updateMany({
+        where: { id: transaction.id, status: 'CONFIRMED' },
+        data: { status: 'PAID', paidAt, paymentMethod }
+      })
+
+      if (updated.count === 0) continue
+
+      await tx.user.update({
+        where: { id: transaction.userId },
+        data: {
+          pendingEarnings: { decrement: transaction.amount },
+          totalEarnings: { increment: transaction.amount }
+        }
+      })
+
+      paid.push({ ...transaction, status: 'PAID', paidAt, paymentMethod: paymentMethod ?? transaction.paymentMethod })
+    }
+
+    return paid
+  })
+}
+
+/**
+ * Pays every confirmed payout of a settled referral
+ */
+export async function markReferralPaid(
+  referralId: string,
+  paymentMethod?: string
+): Promise<EarningsTransaction[]> {
+  const transactions = await prisma.earningsTransaction.findMany({
+    where: { referralId, status: 'CONFIRMED' },
+    select: { id: true }
+  })
+
+  return await markEarningsPaid(transactions.map(transaction => transaction.id), paymentMethod)
+}
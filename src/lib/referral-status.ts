@@ -0,0 +1,61 @@
+/**
+ * REFERRAL STATUS STATE MACHINE
+ *
+ * A referral moves forward through the hiring process and ends in one of
+ * three terminal states:
+ *
+ *   PENDING → SCREENING → INTERVIEWING → OFFERED → HIRED
+ *
+ * From any non-terminal state it can also be REJECTED (by the hiring
+ * manager) or WITHDRAWN (by the candidate, including declining an offer).
+ * The only stage that can be skipped is SCREENING (PENDING → INTERVIEWING):
+ * an offer always follows interviews and a hire always follows an offer.
+ * Stages are never revisited. What happens after a hire (e.g. leaving
+ * early) is tracked on the referral, not as a status.
+ *
+ * Safe to import from client components (no database access).
+ */
+
+import type { ReferralStatus } from '@prisma/client'
+
+export const REFERRAL_STATUSES: ReferralStatus[] = [
+  'PENDING',
+  'SCREENING',
+  'INTERVIEWING',
+  'OFFERED',
+  'HIRED',
+  'REJECTED',
+  'WITHDRAWN'
+]
+
+export const REFERRAL_STATUS_LABELS: Record<ReferralStatus, string> = {
+  PENDING: 'Awaiting Response',
+  SCREENING: 'Interview Scheduled',
+  INTERVIEWING: 'Interviewing',
+  OFFERED: 'Offer Extended',
+  HIRED: 'Hired',
+  REJECTED: 'Rejected',
+  WITHDRAWN: 'Withdrawn'
+}
+
+export const REFERRAL_STATUS_TRANSITIONS: Record<ReferralStatus, ReferralStatus[]> = {
+  PENDING: ['SCREENING', 'INTERVIEWING', 'REJECTED', 'WITHDRAWN'],
+  SCREENING: ['INTERVIEWING', 'REJECTED', 'WITHDRAWN'],
+  INTERVIEWING: ['OFFERED', 'REJECTED', 'WITHDRAWN'],
+  OFFERED: ['HIRED', 'REJECTED', 'WITHDRAWN'],
+  HIRED: [],
+  REJECTED: [],
+  WITHDRAWN: []
+}
+
+export function isReferralStatus(value: unknown): value is ReferralStatus {
+  return typeof value === 'string' && (REFERRAL_STATUSES as string[]).includes(value)
+}
+
+export function canTransition(from: ReferralStatus, to: ReferralStatus): boolean {
+  return REFERRAL_STATUS_TRANSITIONS[from].includes(to)
+}
+
+export function isTerminalStatus(status: ReferralStatus): boolean {
+  return REFERRAL_STATUS_TRANSITIONS[status].length === 0
+}
@@ -0,0 +1,102 @@
+/**
+ * JOB SHARE LINKS
+ *
+ * Every user gets a share link for every job, so they can pass a job on
+ * over text, Slack or anywhere else and still be credited in the chain:
+ *
+ *   /join/<sharer's referralCode>?job=<jobId>&sig=<signature>
+ *
+ * The signature is an HMAC of the job and the sharer, so a link can't be
+ * edited to credit someone else or point at another job. The link rides
+ * through the /join/[referralCode] onboarding flow (the magic link brings
+ * new users back to it), and once the recipient is signed in the link is
+ * claimed: a JobForward from the sharer to them is recorded, exactly as if
+ * the sharer had forwarded the job by email.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { forwardJob } from '@/lib/referral-chain'
+
+export interface ShareLinkParams {
+  referralCode: string
+  jobId: string
+  sig: string
+}
+
+const SHARE_LINK_MESSAGE = 'Shared via link'
+
+function getSecret(): string {
+  return process.env.SHARE_LINK_SECRET || process.env.NEXTAUTH_SECRET || 'your-secret-key'
+}
+
+function signShareLink(jobId: string, userId: string): string {
+  return createHmac('sha256', getSecret())
+    .update(`job-share:${jobId}:${userId}`)
+    .digest('base64url')
+}
+
+/**
+ * A user's share link for a job (path only; prefix with the site URL)
+ */
+export function getShareLinkPath(jobId: string, user: { id: string, referralCode: string }): string {
+  const sig = signShareLink(jobId, user.id)
+  return `/join/${encodeURIComponent(user.referralCode)}?job=${encodeURIComponent(jobId)}&sig=${sig}`
+}
+
+/**
+ * Checks a share link and looks up who shared which job
+ *
+ * @returns The sharer and job, or null if the link is invalid or the job is gone
+ */
+export async function verifyShareLink({ referralCode, jobId, sig }: ShareLinkParams) {
+  const sharer = await prisma.user.findUnique({
+    where: { referralCode },
+    select: { id: true, firstName: true, lastName: true }
+  })
+
+  if (!sharer) {
+    return null
+  }
+
+  const expected = Buffer.from(signShareLink(jobId, sharer.id))
+  const actual = Buffer.from(sig)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: { id: true, title: true, status: true, company: { select: { name: true } } }
+  })
+
+  if (!job) {
+    return null
+  }
+
+  return { sharer, job }
+}
+
+/**
+ * Records the forward a share link stands for, from the sharer to the
+ * signed-in recipient. Claiming the same link again is harmless.
+ *
+ * @param recipientId - The user who opened the link
+ * @returns The job, and whether a forward applies (not for your own link)
+ * @throws Error if the link is invalid
+ */
+export async function claimShareLink(params: ShareLinkParams, recipientId: string) {
+  const link = await verifyShareLink(params)
+
+  if (!link) {
+    throw new Error('Invalid share link')
+  }
+
+  if (link.sharer.id === recipientId) {
+    return { job: link.job, forwarded: false }
+  }
+
+  await forwardJob(link.job.id, link.sharer.id, recipientId, SHARE_LINK_MESSAGE)
+
+  return { job: link.job, forwarded: true }
+}
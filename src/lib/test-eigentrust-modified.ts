@@ -0,0 +1,299 @@
+/**
+ * PROPERTY TESTS: MODIFIED (ALLOCATION-INDEPENDENT) EIGENTRUST
+ *
+ * 1. The efficient engine matches the reference algorithm (one full
+ *    re-solve per vertex with that vertex's outgoing row removed).
+ * 2. A user's outgoing allocations never change their own score.
+ * 3. The return-mass estimate used for giant components stays close to
+ *    the exact local push.
+ * 4. In estimated components, reallocating moves a user's own score by at
+ *    most ESTIMATED_INDEPENDENCE_TOLERANCE (independence is approximate there).
+ * Pure in-memory - no database required.
+ */
+
+import {
+  buildSparseTrustMatrix,
+  computeModifiedTrust,
+  computeReturnMass,
+  estimateReturnMasses,
+  propagateTrust,
+  stronglyConnectedComponents,
+  TrustEdge,
+  WeightedIndex
+} from './eigentrust-sparse'
+import { createRandom, randomGraph } from './test-eigentrust-sparse'
+
+const DECAY_FACTOR = 0.15
+const MAX_ITERATIONS = 1000
+const CONVERGENCE_THRESHOLD = 1e-9
+const EPSILON = 1e-6
+const ESTIMATED_INDEPENDENCE_TOLERANCE = 0.25  // Relative change in T_k
+
+function randomSeeds(random: () => number, n: number): WeightedIndex[] {
+  const numSeeds = 1 + Math.floor(random() * Math.min(n, 3))
+  const seeds = new Map<number, number>()
+  for (let s = 0; s < numSeeds; s++) {
+    seeds.set(Math.floor(random() * n), 0.5 + random())
+  }
+
+  const total = Array.from(seeds.values()).reduce((sum, w) => sum + w, 0)
+  return Array.from(seeds.entries()).map(([index, weight]) => ({ index, weight: weight / total }))
+}
+
+function computeScores(
+  n: number,
+  edges: TrustEdge[],
+  seeds: WeightedIndex[],
+  maxExactComponentSize?: number
+): Float64Array {
+  const C = buildSparseTrustMatrix(n, edges, seeds)
+  const p = new Float64Array(n)
+  seeds.forEach(seed => { p[seed.index] = seed.weight })
+
+  return computeModifiedTrust(C, p, {
+    decayFactor: DECAY_FACTOR,
+    maxIterations: MAX_ITERATIONS,
+    convergenceThreshold: CONVERGENCE_THRESHOLD,
+    maxExactComponentSize
+  }).scores
+}
+
+/**
+ * Reference: for each k, solve the whole network with row k removed
+ */
+function computeReferenceScores(n: number, edges: TrustEdge[], seeds: WeightedIndex[]): Float64Array {
+  const C = buildSparseTrustMatrix(n, edges, seeds)
+  const p = new Float64Array(n)
+  seeds.forEach(seed => { p[seed.index] = seed.weight })
+
+  const scores = new Float64Array(n)
+
+  for (let k = 0; k < n; k++) {
+    const frozen = {
+      ...C,
+      values: C.values.map((value, e) => e >= C.rowPtr[k] && e < C.rowPtr[k + 1] ? 0 : value)
+    }
+    const solution = propagateTrust(frozen, p, {
+      decayFactor: DECAY_FACTOR,
+      maxIterations: MAX_ITERATIONS,
+      convergenceThreshold: CONVERGENCE_THRESHOLD
+    })
+    scores[k] = solution.scores[k]
+  }
+
+  return scores
+}
+
+/**
+ * Random replacement for one user's outgoing allocations
+ */
+function reallocate(random: () => number, n: number, edges: TrustEdge[], k: number): TrustEdge[] {
+  const others = edges.filter(edge => edge.giverIndex !== k)
+  const mode = random()
+
+  // Sometimes clear the allocations entirely (row defaults to seeds)
+  if (mode < 0.2) return others
+
+  const numTargets = 1 + Math.floor(random() * Math.min(n, 4))
+  for (let t = 0; t < numTargets; t++) {
+    const receiver = Math.floor(random() * n)
+    others.push({ giverIndex: k, receiverIndex: receiver, proportion: Math.round(random() * 100) / 100 })
+  }
+
+  return others
+}
+
+function maxDifference(a: Float64Array, b: Float64Array): number {
+  let max = 0
+  for (let i = 0; i < a.length; i++) {
+    max = Math.max(max, Math.abs(a[i] - b[i]))
+  }
+  return max
+}
+
+/**
+ * Checks the efficient engine against the per-vertex reference
+ */
+export function testModifiedMatchesReference(numGraphs: number = 100, seed: number = 7) {
+  console.log(`🧪 Comparing modified EigenTrust engine vs reference on ${numGraphs} random graphs...\n`)
+
+  const random = createRandom(seed)
+  let failures = 0
+
+  const log = console.log
+  console.log = () => {} // Silence per-iteration engine logs
+
+  try {
+    for (let g = 0; g < numGraphs; g++) {
+      const n = 2 + Math.floor(random() * 25)
+      const edges = randomGraph(random, n)
+      const seeds = randomSeeds(random, n)
+
+      const difference = maxDifference(
+        computeScores(n, edges, seeds),
+        computeReferenceScores(n, edges, seeds)
+      )
+
+      if (difference > EPSILON) {
+        failures++
+        log(`❌ Graph ${g} (n=${n}) differs from reference by ${difference}`)
+      }
+    }
+  } finally {
+    console.log = log
+  }
+
+  console.log(`\n${numGraphs - failures}/${numGraphs} graphs match the reference`)
+  return failures === 0
+}
+
+/**
+ * Property: changing user k's outgoing allocations never changes T_k
+ */
+export function testAllocationIndependence(numGraphs: number = 100, seed: number = 11) {
+  console.log(`🧪 Testing allocation independence on ${numGraphs} random graphs...\n`)
+
+  const random = createRandom(seed)
+  let tests = 0
+  let violations = 0
+
+  const log = console.log
+  console.log = () => {} // Silence per-iteration engine logs
+
+  try {
+    for (let g = 0; g < numGraphs; g++) {
+      const n = 2 + Math.floor(random() * 40)
+      const edges = randomGraph(random, n)
+      const seeds = randomSeeds(random, n)
+      const baseline = computeScores(n, edges, seeds)
+
+      for (let trial = 0; trial < 5; trial++) {
+        const k = Math.floor(random() * n)
+        const modified = computeScores(n, reallocate(random, n, edges, k), seeds)
+        tests++
+
+        const change = Math.abs(modified[k] - baseline[k])
+        if (change > EPSILON) {
+          violations++
+          log(`❌ Graph ${g} (n=${n}): user ${k} changed own score by ${change}`)
+        }
+      }
+    }
+  } finally {
+    console.log = log
+  }
+
+  console.log(`\n${tests - violations}/${tests} reallocations left the allocator's score unchanged`)
+
+  if (violations === 0) {
+    console.log('✅ Allocation independence holds')
+  } else {
+    console.error(`❌ ${violations} violations`)
+  }
+
+  return violations === 0
+}
+
+/**
+ * Property, approximate: with every component estimated (as giant ones are
+ * in production), changing user k's outgoing allocations moves T_k by at
+ * most ESTIMATED_INDEPENDENCE_TOLERANCE
+ */
+export function testEstimatedAllocationIndependence(numGraphs: number = 3, seed: number = 13) {
+  console.log(`🧪 Testing approximate allocation independence with estimated return mass on ${numGraphs} graphs...\n`)
+
+  const random = createRandom(seed)
+  let tests = 0
+  let violations = 0
+  let worst = 0
+
+  const log = console.log
+  console.log = () => {} // Silence per-iteration engine logs
+
+  try {
+    for (let g = 0; g < numGraphs; g++) {
+      const n = 200
+      const edges = randomGraph(random, n)
+      for (let i = 0; i < n; i++) {
+        edges.push({ giverIndex: i, receiverIndex: (i + 1) % n, proportion: 0.2 })
+      }
+      const seeds = randomSeeds(random, n)
+      const baseline = computeScores(n, edges, seeds, 0)
+
+      for (let trial = 0; trial < 5; trial++) {
+        const k = Math.floor(random() * n)
+        const modified = computeScores(n, reallocate(random, n, edges, k), seeds, 0)
+        tests++
+
+        const change = Math.abs(modified[k] - baseline[k]) / baseline[k]
+        worst = Math.max(worst, change)
+        if (change > ESTIMATED_INDEPENDENCE_TOLERANCE) {
+          violations++
+          log(`❌ Graph ${g}: user ${k} changed own score by ${(change * 100).toFixed(2)}%`)
+        }
+      }
+    }
+  } finally {
+    console.log = log
+  }
+
+  console.log(`\n${tests - violations}/${tests} reallocations within ${ESTIMATED_INDEPENDENCE_TOLERANCE * 100}% (worst ${(worst * 100).toFixed(2)}%)`)
+
+  if (violations === 0) {
+    console.log('✅ Approximate allocation independence holds')
+  } else {
+    console.error(`❌ ${violations} violations`)
+  }
+
+  return violations === 0
+}
+
+/**
+ * Checks the giant-component return-mass estimate against the exact push
+ * on one strongly connected random graph (a ring keeps it connected)
+ */
+export function testReturnMassEstimate(n: number = 300, seed: number = 5) {
+  console.log(`🧪 Comparing estimated vs exact return mass on a ${n}-user component...\n`)
+
+  const random = createRandom(seed)
+  const edges = randomGraph(random, n)
+  for (let i = 0; i < n; i++) {
+    edges.push({ giverIndex: i, receiverIndex: (i + 1) % n, proportion: 0.2 })
+  }
+
+  const C = buildSparseTrustMatrix(n, edges, randomSeeds(random, n))
+  const componentOf = stronglyConnectedComponents(C)
+  const members = Array.from({ length: n }, (_, k) => k)
+
+  const estimation = estimateReturnMasses(C, members, DECAY_FACTOR, componentOf, CONVERGENCE_THRESHOLD)
+  let step = estimation.next()
+  while (!step.done) step = estimation.next()
+
+  let totalError = 0
+  let maxError = 0
+  members.forEach((k, i) => {
+    const exact = computeReturnMass(C, k, DECAY_FACTOR, componentOf, CONVERGENCE_THRESHOLD)
+    const error = Math.abs(step.value[i] - exact) / exact
+    totalError += error
+    maxError = Math.max(maxError, error)
+  })
+
+  const meanError = totalError / n
+  console.log(`Mean relative error ${(meanError * 100).toFixed(2)}%, max ${(maxError * 100).toFixed(2)}%`)
+
+  const passed = meanError < 0.03 && maxError < 0.25
+  if (passed) {
+    console.log('✅ Estimate is within tolerance')
+  } else {
+    console.error('❌ Estimate is too far from the exact return mass')
+  }
+
+  return passed
+}
+
+// Example usage:
+// import { testModifiedMatchesReference, testAllocationIndependence, testEstimatedAllocationIndependence, testReturnMassEstimate } from '@/lib/test-eigentrust-modified'
+// testModifiedMatchesReference()
+// testAllocationIndependence()
+// testEstimatedAllocationIndependence()
+// testReturnMassEstimate()
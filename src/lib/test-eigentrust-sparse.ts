@@ -0,0 +1,220 @@
+/**
+ * REGRESSION HARNESS: SPARSE VS DENSE EIGENTRUST
+ *
+ * Runs the sparse CSR engine against the original dense n×n implementation
+ * on randomized graphs and checks that the scores are identical.
+ * Pure in-memory - no database required.
+ */
+
+import { buildSparseTrustMatrix, propagateTrust, TrustEdge } from './eigentrust-sparse'
+
+interface DenseResult {
+  scores: number[]
+  iterations: number
+  converged: boolean
+}
+
+// =========================================================================
+// Dense reference implementation (the pre-sparse computeEigenTrust core)
+// =========================================================================
+
+function createMatrix(rows: number, cols: number): number[][] {
+  return Array(rows).fill(null).map(() => Array(cols).fill(0))
+}
+
+function createVector(size: number, fillValue: number = 0): number[] {
+  return Array(size).fill(fillValue)
+}
+
+function transpose(matrix: number[][]): number[][] {
+  const rows = matrix.length
+  const cols = matrix[0].length
+  const result = createMatrix(cols, rows)
+
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      result[j][i] = matrix[i][j]
+    }
+  }
+
+  return result
+}
+
+function matrixVectorMultiply(matrix: number[][], vector: number[]): number[] {
+  const n = matrix.length
+  const result = createVector(n)
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      result[i] += matrix[i][j] * vector[j]
+    }
+  }
+
+  return result
+}
+
+function computeDenseEigenTrust(
+  n: number,
+  edges: TrustEdge[],
+  adminIndex: number,
+  alpha: number,
+  maxIterations: number,
+  convergenceThreshold: number
+): DenseResult {
+  const C = createMatrix(n, n)
+
+  for (const edge of edges) {
+    C[edge.giverIndex][edge.receiverIndex] = edge.proportion
+  }
+
+  for (let i = 0; i < n; i++) {
+    const rowSum = C[i].reduce((sum, val) => sum + val, 0)
+
+    if (Math.abs(rowSum) < 0.001) {
+      C[i][adminIndex] = 1.0
+    } else if (Math.abs(rowSum - 1.0) > 0.01) {
+      for (let j = 0; j < n; j++) {
+        C[i][j] = C[i][j] / rowSum
+      }
+    }
+  }
+
+  const p = createVector(n, 0.0)
+  p[adminIndex] = 1.0
+
+  let tOld = [...p]
+  let converged = false
+  let iterationCount = 0
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    iterationCount = iteration + 1
+
+    const CTranspose = transpose(C)
+    const networkTrust = matrixVectorMultiply(CTranspose, tOld)
+
+    const tNew = createVector(n)
+    for (let i = 0; i < n; i++) {
+      tNew[i] = (1 - alpha) * networkTrust[i] + alpha * p[i]
+    }
+
+    tNew[adminIndex] = 1.0
+
+    let maxChange = 0
+    for (let i = 0; i < n; i++) {
+      const change = Math.abs(tNew[i] - tOld[i])
+      if (change > maxChange) {
+        maxChange = change
+      }
+    }
+
+    if (maxChange < convergenceThreshold) {
+      converged = true
+      tOld = tNew
+      break
+    }
+
+    tOld = tNew
+  }
+
+  return { scores: tOld, iterations: iterationCount, converged }
+}
+
+// =========================================================================
+// Random graph generation
+// =========================================================================
+
+/**
+ * Small deterministic PRNG (mulberry32) so failures are reproducible by seed
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomGraph(random: () => number, n: number): TrustEdge[] {
+  const edges: TrustEdge[] = []
+
+  for (let giver = 0; giver < n; giver++) {
+    const roll = random()
+
+    // ~25% of users haven't allocated (defaults to admin)
+    if (roll < 0.25) continue
+
+    const numTargets = 1 + Math.floor(random() * Math.min(n - 1, 6))
+    for (let k = 0; k < numTargets; k++) {
+      const receiver = Math.floor(random() * n)
+      if (receiver === giver) continue
+
+      // Mix of exact-1.0 rows, under/over-allocated rows and zero proportions
+      const proportion = roll < 0.35 ? 0 : Math.round(random() * 100) / 100
+      edges.push({ giverIndex: giver, receiverIndex: receiver, proportion })
+    }
+  }
+
+  return edges
+}
+
+/**
+ * Compares sparse and dense results on randomized graphs
+ */
+export function testSparseMatchesDense(numGraphs: number = 200, seed: number = 42) {
+  console.log(`🧪 Comparing sparse vs dense EigenTrust on ${numGraphs} random graphs...\n`)
+
+  const random = createRandom(seed)
+  let failures = 0
+
+  const log = console.log
+  console.log = () => {} // Silence per-iteration engine logs
+
+  try {
+    for (let g = 0; g < numGraphs; g++) {
+      const n = 2 + Math.floor(random() * 60)
+      const adminIndex = Math.floor(random() * n)
+      const edges = randomGraph(random, n)
+
+      const dense = computeDenseEigenTrust(n, edges, adminIndex, 0.15, 100, 0.000001)
+
+      const C = buildSparseTrustMatrix(n, edges, [{ index: adminIndex, weight: 1.0 }])
+      const p = new Float64Array(n)
+      p[adminIndex] = 1.0
+      const sparse = propagateTrust(C, p, {
+        decayFactor: 0.15,
+        maxIterations: 100,
+        convergenceThreshold: 0.000001,
+        pinnedTrust: [{ index: adminIndex, weight: 1.0 }]
+      })
+
+      const mismatch =
+        dense.iterations !== sparse.iterations ||
+        dense.converged !== sparse.converged ||
+        dense.scores.some((score, i) => score !== sparse.scores[i])
+
+      if (mismatch) {
+        failures++
+        log(`❌ Graph ${g} (n=${n}, edges=${edges.length}) differs`)
+      }
+    }
+  } finally {
+    console.log = log
+  }
+
+  console.log(`\n${numGraphs - failures}/${numGraphs} graphs identical`)
+
+  if (failures === 0) {
+    console.log('✅ Sparse engine matches dense implementation')
+  } else {
+    console.error(`❌ ${failures} graphs produced different scores`)
+  }
+
+  return failures === 0
+}
+
+// Example usage:
+// import { testSparseMatchesDense } from '@/lib/test-eigentrust-sparse'
+// testSparseMatchesDense()
@@ -0,0 +1,104 @@
+/**
+ * PROPERTY TESTS: EXACT-CENT PAYOUT SPLITS
+ *
+ * Splits random budgets along random chains under every payout policy and
+ * currency, and checks the guarantees from money.ts:
+ * - parts are non-negative integers summing exactly to the budget
+ * - each part is within one minor unit of its exact share
+ * - the same inputs always give the same split
+ * Pure in-memory - no database required.
+ */
+
+import { allocateMinorUnits, fromMinorUnits, SUPPORTED_CURRENCIES, toMinorUnits } from './money'
+import { computeSplitShares, splitPayout, PAYOUT_POLICIES } from './payout-policies'
+import { createRandom } from './test-eigentrust-sparse'
+
+/**
+ * Runs the split properties over random chain lengths, amounts and trust
+ */
+export function testExactCentSplits(numCases: number = 2000, seed: number = 7) {
+  console.log(`🧪 Checking exact-cent payout splits on ${numCases} random cases...\n`)
+
+  const random = createRandom(seed)
+  let failures = 0
+
+  const fail = (message: string) => {
+    failures++
+    if (failures <= 20) console.log(`❌ ${message}`)
+  }
+
+  for (let c = 0; c < numCases; c++) {
+    const policy = PAYOUT_POLICIES[Math.floor(random() * PAYOUT_POLICIES.length)]
+    const currency = SUPPORTED_CURRENCIES[Math.floor(random() * SUPPORTED_CURRENCIES.length)]
+    const chainLength = 1 + Math.floor(random() * 12)
+
+    // Mix whole budgets, budgets with cents and tiny budgets
+    const roll = random()
+    const totalAmount = roll < 0.4
+      ? Math.floor(random() * 50000)
+      : roll < 0.8
+        ? Math.floor(random() * 5000000) / 100
+        : Math.floor(random() * 10) / 100
+
+    // Some chains have nodes with no trust at all
+    const trustScores = Array.from({ length: chainLength }, () => random() < 0.2 ? 0 : random())
+
+    const label = `case ${c}: ${policy} ${currency} ${totalAmount} over ${chainLength}`
+    const totalMinorUnits = toMinorUnits(totalAmount, currency)
+    const parts = splitPayout(totalAmount, currency, policy, chainLength, trustScores)
+    const shares = computeSplitShares(policy, chainLength, trustScores)
+
+    if (parts.length !== chainLength) {
+      fail(`${label}: ${parts.length} parts`)
+      continue
+    }
+
+    if (parts.some(part => !Number.isInteger(part) || part < 0)) {
+      fail(`${label}: non-integer or negative part ${parts.join(', ')}`)
+    }
+
+    const sum = parts.reduce((total, part) => total + part, 0)
+    if (sum !== totalMinorUnits) {
+      fail(`${label}: parts sum to ${sum}, expected ${totalMinorUnits}`)
+    }
+
+    if (parts.some((part, i) => Math.abs(part - totalMinorUnits * shares[i]) >= 1)) {
+      fail(`${label}: a part is more than one unit from its exact share`)
+    }
+
+    const again = splitPayout(totalAmount, currency, policy, chainLength, trustScores)
+    if (again.some((part, i) => part !== parts[i])) {
+      fail(`${label}: split is not deterministic`)
+    }
+
+    if (Math.abs(fromMinorUnits(totalMinorUnits, currency) - totalAmount) > 1e-9) {
+      fail(`${label}: minor unit conversion doesn't round-trip`)
+    }
+  }
+
+  // The case that motivated this: 30% of $10,000 split three ways
+  const threeWay = splitPayout(10000, 'USD', 'FIXED_70_30', 4)
+  if (threeWay.reduce((total, part) => total + part, 0) !== 1000000 || threeWay[3] !== 700000) {
+    fail(`30% split three ways: ${threeWay.join(', ')}`)
+  }
+
+  // One cent can't be split: it goes to the largest remainder (ties to the direct referrer)
+  const oneCent = allocateMinorUnits(1, [1, 1, 1])
+  if (oneCent.join(',') !== '0,0,1') {
+    fail(`one cent three ways: ${oneCent.join(', ')}`)
+  }
+
+  console.log(`\n${numCases - Math.min(failures, numCases)}/${numCases} cases passed`)
+
+  if (failures === 0) {
+    console.log('✅ Splits are exact to the minor unit')
+  } else {
+    console.error(`❌ ${failures} split checks failed`)
+  }
+
+  return failures === 0
+}
+
+// Example usage:
+// import { testExactCentSplits } from '@/lib/test-payout-splits'
+// testExactCentSplits()
@@ -5,7 +5,17 @@
  * Run this after setting up the database to verify everything works correctly.
  */
 
-import { forwardJob, reconstructChain, createReferral, calculatePaymentSplits } from './referral-chain'
+import { forwardJob, reconstructChain, createReferral, calculatePaymentSplits, getReferralsForJob } from './referral-chain'
+import { calculateMaxPayout, computeSplitShares, splitPayout, PAYOUT_POLICIES } from './payout-policies'
+import { markReferralPaid, reportEarlyDeparture, settleReferral } from './referral-settlement'
+import { toMinorUnits } from './money'
+import { canTransition, isTerminalStatus, REFERRAL_STATUSES } from './referral-status'
+import { buildAttributionGraph, splitPayoutAcrossPaths, traceEarliestChain } from './chain-attribution'
+import { buildForwardGraph } from './forward-graph'
+import { initialDuplicateResolution, shareCreditAcrossReferrals } from './duplicate-referrals'
+import { normalizeEmail } from './candidate-identity'
+import { getConsentLinkPath, respondToReferral, verifyConsentLink } from './referral-consent'
+import { prisma } from './prisma'
 
 export async function testReferralChain() {
   console.log('🧪 Testing Referral Chain System...\n')
@@ -174,7 +184,330 @@ export async function testNewPaymentModel() {
   }
 }
 
+/**
+ * Logs each check as it runs and counts the ones that fail
+ */
+function createChecker() {
+  let failures = 0
+
+  return {
+    check: (label: string, ok: boolean) => {
+      console.log(`   ${ok ? '✅' : '❌'} ${label}`)
+      if (!ok) failures++
+    },
+    fail: () => {
+      failures++
+    },
+    // Prints the summary line; true if every check passed
+    finish: (suite: string, checks: string): boolean => {
+      console.log(failures === 0 ? `\n✅ ${suite} tests passed!` : `\n❌ ${failures} ${checks} checks failed`)
+      return failures === 0
+    }
+  }
+}
+
+export function testPayoutPolicies() {
+  console.log('\n🧪 Testing Payout Policies...\n')
+
+  const { check, finish } = createChecker()
+
+  // Every policy hands out the whole budget
+  for (const policy of PAYOUT_POLICIES) {
+    for (let length = 1; length <= 6; length++) {
+      const shares = computeSplitShares(policy, length, [0.4, 0.1, 0.3, 0.05, 0.2, 0.6])
+      const total = shares.reduce((sum, share) => sum + share, 0)
+      check(`${policy}, chain of ${length}: shares sum to 1`, Math.abs(total - 1) < 1e-9)
+    }
+  }
+
+  // Known values
+  const fixed = computeSplitShares('FIXED_70_30', 3)
+  check('FIXED_70_30 gives the direct referrer 70%', Math.abs(fixed[2] - 0.7) < 1e-9 && Math.abs(fixed[0] - 0.15) < 1e-9)
+
+  const geometric = computeSplitShares('GEOMETRIC', 3)
+  check('GEOMETRIC halves each hop back (1:2:4)', Math.abs(geometric[1] / geometric[0] - 2) < 1e-9 && Math.abs(geometric[2] / geometric[1] - 2) < 1e-9)
+
+  const inverseSquare = computeSplitShares('INVERSE_SQUARE', 3)
+  check('INVERSE_SQUARE weights 1/9 : 1/4 : 1', Math.abs(inverseSquare[2] / inverseSquare[0] - 9) < 1e-9)
+
+  const trustWeighted = computeSplitShares('TRUST_WEIGHTED', 2, [0.3, 0.1])
+  check('TRUST_WEIGHTED follows trust (75/25)', Math.abs(trustWeighted[0] - 0.75) < 1e-9)
+  check('TRUST_WEIGHTED with no trust splits evenly', computeSplitShares('TRUST_WEIGHTED', 4).every(share => share === 0.25))
+
+  // The preview predicts exactly what a direct referral pays
+  for (const policy of PAYOUT_POLICIES) {
+    const upstream = [0.2, 0.05]
+    const preview = calculateMaxPayout(10000, 2, true, policy, { upstream, self: 0.1 })
+    const actual = splitPayout(10000, 'USD', policy, 3, [...upstream, 0.1])[2]
+    check(`${policy}: direct referral preview matches payout`, Math.round(preview.maxAmount * 100) === actual)
+  }
+
+  // Forward preview assumes one more person; only TRUST_WEIGHTED is an estimate
+  const forward = calculateMaxPayout(10000, 0, false, 'FIXED_70_30')
+  check('FIXED_70_30 forward from the root pays 30%', forward.maxAmount === 3000 && !forward.estimated)
+  check('TRUST_WEIGHTED forward is an estimate', calculateMaxPayout(10000, 0, false, 'TRUST_WEIGHTED', { upstream: [], self: 0.2 }).estimated)
+
+  return finish('Payout policy', 'payout policy')
+}
+
+export function testReferralStatusMachine() {
+  console.log('\n🧪 Testing Referral Status State Machine...\n')
+
+  const { check, finish } = createChecker()
+
+  // The happy path, one step at a time
+  const path = ['PENDING', 'SCREENING', 'INTERVIEWING', 'OFFERED', 'HIRED'] as const
+  check('Happy path is allowed', path.every((status, i) => i === 0 || canTransition(path[i - 1], status)))
+
+  // Nothing moves backwards or out of a terminal state
+  check('HIRED can\'t go back to PENDING', !canTransition('HIRED', 'PENDING'))
+  check('REJECTED can\'t become HIRED', !canTransition('REJECTED', 'HIRED'))
+  check('Hiring needs an offer first', !canTransition('INTERVIEWING', 'HIRED'))
+  check('HIRED, REJECTED and WITHDRAWN are terminal',
+    (['HIRED', 'REJECTED', 'WITHDRAWN'] as const).every(status => isTerminalStatus(status)))
+  check('No status transitions to itself', REFERRAL_STATUSES.every(status => !canTransition(status, status)))
+  check('Every open referral can be withdrawn or rejected',
+    REFERRAL_STATUSES.filter(status => !isTerminalStatus(status))
+      .every(status => canTransition(status, 'WITHDRAWN') && canTransition(status, 'REJECTED')))
+
+  return finish('Status state machine', 'status')
+}
+
+export function testChainAttribution() {
+  console.log('\n🧪 Testing Multi-Path Chain Attribution...\n')
+
+  const { check, finish } = createChecker()
+
+  // A and C both forwarded to B, who forwarded to the referrer R; D went straight to R.
+  // E reached B only after B had passed the job on, and R forwarding back to A is a cycle.
+  const at = (minute: number) => new Date(Date.UTC(2025, 0, 1, 0, minute))
+  const forwards = [
+    { id: 'f-ra', fromNodeId: 'R', toNodeId: 'A', createdAt: at(0) },
+    { id: 'f-ab', fromNodeId: 'A', toNodeId: 'B', createdAt: at(1) },
+    { id: 'f-cb', fromNodeId: 'C', toNodeId: 'B', createdAt: at(2) },
+    { id: 'f-br', fromNodeId: 'B', toNodeId: 'R', createdAt: at(3) },
+    { id: 'f-dr', fromNodeId: 'D', toNodeId: 'R', createdAt: at(4) },
+    { id: 'f-eb', fromNodeId: 'E', toNodeId: 'B', createdAt: at(5) }
+  ]
+
+  const equal = buildAttributionGraph(forwards, 'R', 'EQUAL', at(10))
+  const pathKeys = equal.paths.map(path => path.nodes.join('>')).sort()
+  check('Finds every path into the referrer', pathKeys.join(',') === 'A>B>R,C>B>R,D>R')
+  check('Ignores forwards that came too late', !equal.nodes.includes('E'))
+  check('Referrer is the last node', equal.nodes[equal.nodes.length - 1] === 'R')
+  check('EQUAL weights every path the same', equal.paths.every(path => Math.abs(path.weight - 1 / 3) < 1e-9))
+
+  const shorter = buildAttributionGraph(forwards, 'R', 'SHORTER_PATHS', at(10))
+  const direct = shorter.paths.find(path => path.nodes.length === 2)!
+  check('SHORTER_PATHS favors the direct path', shorter.paths.every(path => path === direct || path.weight < direct.weight))
+
+  const earlier = buildAttributionGraph(forwards, 'R', 'EARLIER_PATHS', at(10))
+  const weightOf = (key: string) => earlier.paths.find(path => path.nodes.join('>') === key)!.weight
+  check('EARLIER_PATHS ranks by arrival (A>B>R, then C>B>R, then D>R)',
+    weightOf('A>B>R') > weightOf('C>B>R') && weightOf('C>B>R') > weightOf('D>R'))
+
+  // Splits add up exactly, and the referrer is paid on every path
+  for (const graph of [equal, shorter, earlier]) {
+    const amounts = splitPayoutAcrossPaths(10000, 'USD', 'FIXED_70_30', graph)
+    const total = Array.from(amounts.values()).reduce((sum, amount) => sum + amount, 0)
+    check(`${graph.weighting}: splits sum to the budget`, total === toMinorUnits(10000, 'USD'))
+    check(`${graph.weighting}: referrer gets 70%`, amounts.get('R') === toMinorUnits(7000, 'USD'))
+  }
+
+  // The single earliest-forward chain skips the later forwards into B and R
+  check('Earliest-forward chain is A>B>R', traceEarliestChain(forwards, 'R').join('>') === 'A>B>R')
+
+  // No forwards: the referrer alone
+  const solo = buildAttributionGraph([], 'R', 'EQUAL')
+  check('No forwards leaves the referrer alone', solo.paths.length === 1 && solo.nodes.join() === 'R')
+
+  return finish('Chain attribution', 'attribution')
+}
+
+export function testForwardGraph() {
+  console.log('\n🧪 Testing Forward Graph...\n')
+
+  const { check, finish } = createChecker()
+
+  // The owner O forwards to A and B; both forward to C, who refers a hire. D never passes it on.
+  const at = (minute: number) => new Date(Date.UTC(2025, 0, 1, 0, minute))
+  const graph = buildForwardGraph('job', [
+    { id: 'f-oa', fromNodeId: 'O', toNodeId: 'A', createdAt: at(1) },
+    { id: 'f-ob', fromNodeId: 'O', toNodeId: 'B', createdAt: at(2) },
+    { id: 'f-ac', fromNodeId: 'A', toNodeId: 'C', createdAt: at(3) },
+    { id: 'f-bc', fromNodeId: 'B', toNodeId: 'C', createdAt: at(4) },
+    { id: 'f-bd', fromNodeId: 'B', toNodeId: 'D', createdAt: at(5) }
+  ], [{ id: 'referral', referrerNodeId: 'C', status: 'HIRED' }])
+
+  const node = (id: string) => graph.nodes.find(n => n.id === id)!
+  check('Tree is depth-first from the owner', graph.nodes.map(n => n.id).join() === 'O,A,C,B,D')
+  check('C hangs under whoever reached them first (A)', node('C').parentId === 'A' && node('C').depth === 2)
+  check('B\'s later forward to C is an extra edge', !graph.edges.find(edge => edge.id === 'f-bc')!.isTreeEdge)
+  check('Only the A branch led to a referral',
+    graph.edges.filter(edge => edge.ledToReferral).map(edge => edge.id).join() === 'f-oa,f-ac')
+  check('D is the only dead end', graph.nodes.filter(n => n.isDeadEnd).map(n => n.id).join() === 'D')
+  check('Stats add up', graph.stats.people === 5 && graph.stats.maxDepth === 2 && graph.stats.hires === 1)
+
+  return finish('Forward graph', 'forward graph')
+}
+
+export function testDuplicateReferrals() {
+  console.log('\n🧪 Testing Duplicate Referrals...\n')
+
+  const { check, finish } = createChecker()
+
+  check('Emails are trimmed and lowercased', normalizeEmail('  Jane.Doe@Example.COM ') === 'jane.doe@example.com')
+  check('Duplicates start out by policy',
+    initialDuplicateResolution('SHARED_CREDIT') === 'SHARED'
+    && initialDuplicateResolution('HIRING_MANAGER_DECIDES') === 'PENDING'
+    && initialDuplicateResolution('FIRST_WINS') === 'DISMISSED')
+
+  // R1 was referred along a single chain; R2 (an ALL_PATHS referral) heard from both A and B
+  const at = (minute: number) => new Date(Date.UTC(2025, 0, 1, 0, minute))
+  const duplicateGraph = buildAttributionGraph([
+    { id: 'f-oa', fromNodeId: 'O', toNodeId: 'A', createdAt: at(1) },
+    { id: 'f-ob', fromNodeId: 'O', toNodeId: 'B', createdAt: at(2) },
+    { id: 'f-a2', fromNodeId: 'A', toNodeId: 'R2', createdAt: at(3) },
+    { id: 'f-b2', fromNodeId: 'B', toNodeId: 'R2', createdAt: at(4) }
+  ], 'R2', 'EQUAL', at(10))
+
+  const shared = shareCreditAcrossReferrals([
+    { referrerNodeId: 'R1', chainPath: ['O', 'A', 'R1'], attributionGraph: null },
+    { referrerNodeId: 'R2', chainPath: ['O', 'A', 'R2'], attributionGraph: duplicateGraph }
+  ])
+
+  check('Both referrers come last', shared.nodes.slice(-2).join() === 'R1,R2')
+  check('Each referral gets half, split between its own paths',
+    shared.paths.map(path => path.weight).join() === '0.5,0.25,0.25')
+
+  const amounts = splitPayoutAcrossPaths(10000, 'USD', 'FIXED_70_30', shared)
+  const total = Array.from(amounts.values()).reduce((sum, amount) => sum + amount, 0)
+  check('Splits sum to the budget', total === toMinorUnits(10000, 'USD'))
+  check('Each direct referrer gets 70% of their half', amounts.get('R1') === 350000 && amounts.get('R2') === 350000)
+
+  return finish('Duplicate referral', 'duplicate referral')
+}
+
+export async function testReferralConsent(referralId: string) {
+  console.log('\n🧪 Testing Referral Consent...\n')
+
+  const { check, fail, finish } = createChecker()
+
+  try {
+    const referral = await prisma.referral.findUniqueOrThrow({
+      where: { id: referralId },
+      select: { id: true, jobId: true, candidateId: true, consentStatus: true }
+    })
+    const sig = new URL(getConsentLinkPath(referral), 'http://localhost').searchParams.get('sig')!
+    const ownerSees = async () => (await getReferralsForJob(referral.jobId)).some(r => r.id === referralId)
+
+    check('A tampered link is rejected', (await verifyConsentLink(referralId, sig.slice(1))) === null)
+    check('The job owner can\'t see it yet', referral.consentStatus !== 'PENDING_CANDIDATE_ACTION' || !(await ownerSees()))
+
+    await respondToReferral(referralId, sig, { decision: 'ACCEPT', notes: 'Edited by the candidate' })
+    const accepted = await prisma.referral.findUniqueOrThrow({ where: { id: referralId }, include: { endorsement: true } })
+
+    check('Accepting shares it with the job owner', accepted.consentStatus === 'ACCEPTED' && await ownerSees())
+    check('The candidate\'s edits are what gets shared', accepted.notes === 'Edited by the candidate')
+    check('A linked endorsement follows the answer', !accepted.endorsement || accepted.endorsement.status === 'ACTIVE_MATCHING')
+
+  } catch (error) {
+    console.error('❌ Consent test failed:', error)
+    fail()
+  }
+
+  return finish('Consent', 'consent')
+}
+
+/**
+ * Settles a hired referral twice and pays it twice, checking that nobody
+ * is credited more than once. Needs a referral with status HIRED.
+ */
+export async function testReferralSettlement(referralId: string) {
+  console.log('\n🧪 Testing Referral Settlement...\n')
+
+  const { check, fail, finish } = createChecker()
+
+  try {
+    const first = await settleReferral(referralId)
+    const second = await settleReferral(referralId)
+
+    console.log(`💸 ${first.transactions.length} payouts from ${first.totalAmount} ${first.currency}`)
+
+    check('Second settlement does nothing', !second.settled)
+    check('Both settlements report the same payouts',
+      first.transactions.map(t => t.id).sort().join() === second.transactions.map(t => t.id).sort().join())
+    check('One payout per chain member', new Set(second.transactions.map(t => t.userId)).size === second.transactions.length)
+
+    const paidOut = second.transactions.reduce((sum, t) => sum + toMinorUnits(t.amount, second.currency), 0)
+    check('Payouts add up to the referral budget', paidOut === toMinorUnits(second.totalAmount, second.currency))
+
+    const paid = await markReferralPaid(referralId, 'test')
+    const paidAgain = await markReferralPaid(referralId, 'test')
+    check('Paying twice only pays once', paidAgain.length === 0 && paid.length <= second.transactions.length)
+
+  } catch (error) {
+    console.error('❌ Settlement test failed:', error)
+    fail()
+  }
+
+  return finish('Settlement', 'settlement')
+}
+
+/**
+ * Reports a prorated early departure for a settled hire and checks the
+ * chain keeps exactly what it wasn't clawed back, once. Needs a settled
+ * referral still inside its guarantee period.
+ */
+export async function testEarlyDeparture(referralId: string, daysStayed: number = 30) {
+  console.log('\n🧪 Testing Early Departure Clawback...\n')
+
+  const { check, fail, finish } = createChecker()
+
+  try {
+    const settlement = await settleReferral(referralId)
+    const held = settlement.transactions.filter(t => t.status === 'PENDING')
+    const owed = held.reduce((sum, t) => sum + toMinorUnits(t.amount, settlement.currency), 0)
+
+    const departedAt = new Date(settlement.settledAt.getTime() + daysStayed * 24 * 60 * 60 * 1000)
+    const result = await reportEarlyDeparture(referralId, departedAt, 'PRORATE', 'test')
+
+    const kept = result.transactions
+      .filter(t => t.status === 'CONFIRMED')
+      .reduce((sum, t) => sum + toMinorUnits(t.amount, settlement.currency), 0)
+
+    console.log(`↩️ Kept ${(result.keptFraction * 100).toFixed(1)}%, clawed back ${result.clawedBack} ${settlement.currency}`)
+
+    check('Kept plus clawed back equals what was held', kept + toMinorUnits(result.clawedBack, settlement.currency) === owed)
+    check('Chain keeps no more than its prorated share', kept <= owed * result.keptFraction)
+    check('Clout was reversed', result.cloutReversed > 0)
+
+    let reportedTwice = false
+    try {
+      await reportEarlyDeparture(referralId, departedAt, 'CANCEL')
+      reportedTwice = true
+    } catch {
+      // Expected: a departure can only be reported once
+    }
+    check('A second report is rejected', !reportedTwice)
+
+  } catch (error) {
+    console.error('❌ Early departure test failed:', error)
+    fail()
+  }
+
+  return finish('Early departure', 'early departure')
+}
+
 // Example usage:
 // import { testReferralChain, testEdgeCases } from '@/lib/test-referral-chain'
 // await testReferralChain()
-// await testEdgeCases()
\ No newline at end of file
+// await testEdgeCases()
+// testPayoutPolicies()
+// testReferralStatusMachine()
+// testChainAttribution()
+// testForwardGraph()
+// testDuplicateReferrals()
+// await testReferralConsent('pending-referral-id')
+// await testReferralSettlement('hired-referral-id')
+// await testEarlyDeparture('hired-referral-id')
\ No newline at end of file
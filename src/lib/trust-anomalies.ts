@@ -0,0 +1,459 @@
+/**
+ * SYBIL AND COLLUSION DETECTION
+ *
+ * Scans the trust graph for patterns that suggest gaming:
+ * - COLLUSION_CLUSTER: a group of accounts that mostly allocate to each
+ *   other (dense mutual edges) and receive little trust from outside
+ * - ALLOCATION_SPIKE: many givers newly allocating to the same receiver
+ *   within a short window, far above that receiver's usual inbound.
+ *   Windowed on TrustAllocation.createdAt, which re-saving an allocation
+ *   keeps, so reconfirming old trust doesn't look like new trust
+ * - INVITE_BURST: many accounts created through the same inviter in a
+ *   short window (placeholder users from /api/referrals/delegate, or
+ *   unattributed users from /api/invite/create-batch)
+ *
+ * Detection runs after every trust computation (a queued
+ * TRUST_ANOMALY_DETECTION job) and on demand from the admin page.
+ * Findings are stored as TrustFlag rows for admin review. Quarantining a
+ * flag marks the allocations it covers so computeEigenTrust ignores them.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, TrustFlagType } from '@prisma/client'
+import { scheduleTrustRecomputation } from '@/lib/eigentrust-new'
+import { loadPretrustSeeds } from '@/lib/pretrust'
+
+export interface AllocationRecord {
+  giverId: string
+  receiverId: string
+  proportion: number
+  createdAt: Date  // When the giver first allocated to this receiver; re-saving keeps it
+}
+
+export interface AccountRecord {
+  id: string
+  referredById: string | null
+  inviteToken: string | null
+  isProfileComplete: boolean
+  createdAt: Date
+}
+
+export type AllocationPair = {
+  giverId: string
+  receiverId: string
+}
+
+export interface DetectedAnomaly {
+  type: TrustFlagType
+  severity: number  // 0-1, higher is more suspicious
+  summary: string
+  userIds: string[]
+  pairs: AllocationPair[]  // Allocations quarantined if the flag is actioned
+  details: Prisma.InputJsonObject
+}
+
+export interface DetectionOptions {
+  minClusterSize: number
+  maxClusterFraction: number        // Larger groups are the network itself, not a ring
+  minClusterDensity: number         // Internal edges / possible directed edges
+  minInternalShare: number          // Avg share of members' trust kept inside the cluster
+  maxExternalGiversPerMember: number
+  spikeWindowHours: number
+  minSpikeGivers: number
+  minSpikeShare: number             // Recent givers / all givers to the receiver
+  burstWindowHours: number
+  minBurstAccounts: number
+}
+
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  minClusterSize: 3,
+  maxClusterFraction: 0.25,
+  minClusterDensity: 0.6,
+  minInternalShare: 0.8,
+  maxExternalGiversPerMember: 0.5,
+  spikeWindowHours: 24,
+  minSpikeGivers: 5,
+  minSpikeShare: 0.6,
+  burstWindowHours: 1,
+  minBurstAccounts: 5
+}
+
+const BATCH_INVITER = 'batch_invite'
+
+// =========================================================================
+// Pure detectors (no database)
+// =========================================================================
+
+/**
+ * Finds groups connected by mutual allocations (u → v and v → u) that keep
+ * most of their trust internal and receive little from the rest of the graph.
+ * Groups containing a pretrust seed are where trust originates, so skipped.
+ */
+export function detectCollusionClusters(
+  allocations: AllocationRecord[],
+  seedUserIds: string[] = [],
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): DetectedAnomaly[] {
+  const active = allocations.filter(allocation =>
+    allocation.proportion > 0 && allocation.giverId !== allocation.receiverId
+  )
+
+  const outgoing = new Map<string, Map<string, number>>()
+  for (const allocation of active) {
+    if (!outgoing.has(allocation.giverId)) outgoing.set(allocation.giverId, new Map())
+    outgoing.get(allocation.giverId)!.set(allocation.receiverId, allocation.proportion)
+  }
+
+  // Union-find over mutual edges
+  const parent = new Map<string, string>()
+  const find = (x: string): string => {
+    let root = x
+    while (parent.get(root) !== root) root = parent.get(root)!
+    while (parent.get(x) !== root) {
+      const next = parent.get(x)!
+      parent.set(x, root)
+      x = next
+    }
+    return root
+  }
+
+  for (const [giver, receivers] of outgoing) {
+    for (const receiver of receivers.keys()) {
+      if (!outgoing.get(receiver)?.has(giver)) continue
+      if (!parent.has(giver)) parent.set(giver, giver)
+      if (!parent.has(receiver)) parent.set(receiver, receiver)
+      parent.set(find(giver), find(receiver))
+    }
+  }
+
+  const groups = new Map<string, string[]>()
+  for (const node of parent.keys()) {
+    const root = find(node)
+    if (!groups.has(root)) groups.set(root, [])
+    groups.get(root)!.push(node)
+  }
+
+  const participants = new Set(active.flatMap(a => [a.giverId, a.receiverId]))
+  const seeds = new Set(seedUserIds)
+  const anomalies: DetectedAnomaly[] = []
+
+  for (const members of groups.values()) {
+    if (members.length < options.minClusterSize) continue
+    if (members.length > participants.size * options.maxClusterFraction) continue
+    if (members.some(member => seeds.has(member))) continue
+
+    const memberSet = new Set(members)
+    const pairs: AllocationPair[] = []
+    let internalShareSum = 0
+
+    for (const member of members) {
+      const receivers = outgoing.get(member) || new Map<string, number>()
+      let total = 0
+      let internal = 0
+      for (const [receiver, proportion] of receivers) {
+        total += proportion
+        if (memberSet.has(receiver)) {
+          internal += proportion
+          pairs.push({ giverId: member, receiverId: receiver })
+        }
+      }
+      internalShareSum += total > 0 ? internal / total : 0
+    }
+
+    const density = pairs.length / (members.length * (members.length - 1))
+    const internalShare = internalShareSum / members.length
+
+    const externalGivers = new Set(
+      active
+        .filter(a => memberSet.has(a.receiverId) && !memberSet.has(a.giverId))
+        .map(a => a.giverId)
+    )
+
+    if (
+      density < options.minClusterDensity ||
+      internalShare < options.minInternalShare ||
+      externalGivers.size > members.length * options.maxExternalGiversPerMember
+    ) {
+      continue
+    }
+
+    const isolation = 1 - Math.min(1, externalGivers.size / members.length)
+    anomalies.push({
+      type: 'COLLUSION_CLUSTER',
+      severity: (density + internalShare + isolation) / 3,
+      summary: `${members.length} accounts allocate ${(internalShare * 100).toFixed(0)}% of their trust to each other ` +
+        `with ${externalGivers.size} outside giver${externalGivers.size === 1 ? '' : 's'}`,
+      userIds: [...members].sort(),
+      pairs,
+      details: {
+        density,
+        internalShare,
+        externalGivers: externalGivers.size
+      }
+    })
+  }
+
+  return anomalies
+}
+
+/**
+ * Finds receivers that picked up many new givers within a short window
+ */
+export function detectAllocationSpikes(
+  allocations: AllocationRecord[],
+  now: Date,
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): DetectedAnomaly[] {
+  const windowStart = now.getTime() - options.spikeWindowHours * 60 * 60 * 1000
+
+  const byReceiver = new Map<string, AllocationRecord[]>()
+  for (const allocation of allocations) {
+    if (allocation.proportion <= 0) continue
+    if (!byReceiver.has(allocation.receiverId)) byReceiver.set(allocation.receiverId, [])
+    byReceiver.get(allocation.receiverId)!.push(allocation)
+  }
+
+  const anomalies: DetectedAnomaly[] = []
+
+  for (const [receiverId, inbound] of byReceiver) {
+    const recent = inbound.filter(a => a.createdAt.getTime() >= windowStart)
+    const share = recent.length / inbound.length
+
+    if (recent.length < options.minSpikeGivers || share < options.minSpikeShare) continue
+
+    const recentProportion = recent.reduce((sum, a) => sum + a.proportion, 0)
+    const since = new Date(Math.min(...recent.map(a => a.createdAt.getTime())))
+    anomalies.push({
+      type: 'ALLOCATION_SPIKE',
+      severity: Math.min(1, share * (recent.length / (options.minSpikeGivers * 2))),
+      summary: `${recent.length} of ${inbound.length} givers allocated to this account in the last ` +
+        `${options.spikeWindowHours}h (${(recentProportion * 100).toFixed(0)} trust points)`,
+      userIds: [receiverId, ...recent.map(a => a.giverId).sort()],
+      pairs: recent.map(a => ({ giverId: a.giverId, receiverId })),
+      details: {
+        receiverId,
+        since: since.toISOString(),
+        recentGivers: recent.length,
+        totalGivers: inbound.length,
+        windowHours: options.spikeWindowHours
+      }
+    })
+  }
+
+  return anomalies
+}
+
+/**
+ * Finds inviters who created many accounts within a short window.
+ * Users from /api/invite/create-batch have no inviter recorded, so they
+ * are grouped under a single batch pseudo-inviter.
+ */
+export function detectInviteBursts(
+  accounts: AccountRecord[],
+  allocations: AllocationRecord[],
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): DetectedAnomaly[] {
+  const windowMs = options.burstWindowHours * 60 * 60 * 1000
+
+  const byInviter = new Map<string, AccountRecord[]>()
+  for (const account of accounts) {
+    const inviter = account.referredById ?? (account.inviteToken ? BATCH_INVITER : null)
+    if (!inviter) continue
+    if (!byInviter.has(inviter)) byInviter.set(inviter, [])
+    byInviter.get(inviter)!.push(account)
+  }
+
+  const anomalies: DetectedAnomaly[] = []
+
+  for (const [inviterId, invited] of byInviter) {
+    invited.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+    // Sliding window; report each maximal burst once
+    let start = 0
+    let end = 0
+    while (start < invited.length) {
+      while (end < invited.length && invited[end].createdAt.getTime() - invited[start].createdAt.getTime() <= windowMs) {
+        end++
+      }
+
+      const burst = invited.slice(start, end)
+      if (burst.length >= options.minBurstAccounts) {
+        const burstIds = new Set(burst.map(account => account.id))
+        const placeholders = burst.filter(account => !account.isProfileComplete).length
+        const pairs = allocations
+          .filter(a => burstIds.has(a.giverId) && a.proportion > 0)
+          .map(a => ({ giverId: a.giverId, receiverId: a.receiverId }))
+
+        anomalies.push({
+          type: 'INVITE_BURST',
+          severity: Math.min(1, (burst.length / (options.minBurstAccounts * 2)) * (0.5 + 0.5 * placeholders / burst.length)),
+          summary: `${burst.length} accounts created ${inviterId === BATCH_INVITER ? 'by batch invite' : 'through the same inviter'} ` +
+            `within ${options.burstWindowHours}h (${placeholders} never completed their profile)`,
+          userIds: inviterId === BATCH_INVITER
+            ? Array.from(burstIds).sort()
+            : [inviterId, ...Array.from(burstIds).sort()],
+          pairs,
+          details: {
+            inviterId: inviterId === BATCH_INVITER ? null : inviterId,
+            accounts: burst.length,
+            placeholders,
+            firstCreatedAt: burst[0].createdAt.toISOString(),
+            lastCreatedAt: burst[burst.length - 1].createdAt.toISOString()
+          }
+        })
+
+        start = end
+      } else {
+        start++
+      }
+    }
+  }
+
+  return anomalies
+}
+
+// =========================================================================
+// Detection job
+// =========================================================================
+
+/**
+ * Stable identity for a finding, so re-running detection updates an
+ * existing flag instead of duplicating it (and dismissed flags stay dismissed)
+ */
+function fingerprintAnomaly(anomaly: DetectedAnomaly): string {
+  if (anomaly.type === 'ALLOCATION_SPIKE') {
+    // One flag per receiver per spike, keyed by the day it started
+    return `receiver:${anomaly.details.receiverId}:${String(anomaly.details.since).slice(0, 10)}`
+  }
+  return anomaly.userIds.join(',')
+}
+
+/**
+ * Runs all detectors over the current graph and records the results
+ *
+ * @returns Number of new flags and of existing open flags refreshed
+ */
+export async function runTrustAnomalyDetection(
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): Promise<{ created: number; updated: number; total: number }> {
+  const now = new Date()
+
+  const [allocations, accounts, seeds] = await Promise.all([
+    prisma.trustAllocation.findMany({
+      select: { giverId: true, receiverId: true, proportion: true, createdAt: true }
+    }),
+    prisma.user.findMany({
+      where: {
+        OR: [{ referredById: { not: null } }, { inviteToken: { not: null } }]
+      },
+      select: { id: true, referredById: true, inviteToken: true, isProfileComplete: true, createdAt: true }
+    }),
+    loadPretrustSeeds()
+  ])
+
+  const anomalies = [
+    ...detectCollusionClusters(allocations, seeds.map(seed => seed.userId), options),
+    ...detectAllocationSpikes(allocations, now, options),
+    ...detectInviteBursts(accounts, allocations, options)
+  ]
+
+  let created = 0
+  let updated = 0
+
+  for (const anomaly of anomalies) {
+    const fingerprint = fingerprintAnomaly(anomaly)
+    const details: Prisma.InputJsonObject = { ...anomaly.details, pairs: anomaly.pairs }
+
+    const existing = await prisma.trustFlag.findUnique({
+      where: { type_fingerprint: { type: anomaly.type, fingerprint } },
+      select: { id: true, status: true }
+    })
+
+    if (!existing) {
+      await prisma.trustFlag.create({
+        data: {
+          type: anomaly.type,
+          fingerprint,
+          severity: anomaly.severity,
+          summary: anomaly.summary,
+          userIds: anomaly.userIds,
+          details
+        }
+      })
+      created++
+    } else if (existing.status === 'OPEN') {
+      await prisma.trustFlag.update({
+        where: { id: existing.id },
+        data: {
+          severity: anomaly.severity,
+          summary: anomaly.summary,
+          userIds: anomaly.userIds,
+          details,
+          detectedAt: now
+        }
+      })
+      updated++
+    }
+  }
+
+  console.log(`Trust anomaly detection: ${anomalies.length} findings, ${created} new flags, ${updated} refreshed`)
+
+  return { created, updated, total: anomalies.length }
+}
+
+/**
+ * Excludes a flag's allocations from trust computation
+ */
+export async function quarantineTrustFlag(flagId: string, reviewerId: string): Promise<number> {
+  const flag = await prisma.trustFlag.findUnique({ where: { id: flagId } })
+  if (!flag) throw new Error('Flag not found')
+
+  const pairs = ((flag.details as { pairs?: AllocationPair[] } | null)?.pairs) || []
+
+  const quarantined = await prisma.$transaction(async (tx) => {
+    const result = pairs.length > 0
+      ? await tx.trustAllocation.updateMany({
+          where: { OR: pairs.map(pair => ({ giverId: pair.giverId, receiverId: pair.receiverId })) },
+          data: { quarantineFlagId: flagId }
+        })
+      : { count: 0 }
+
+    await tx.trustFlag.update({
+      where: { id: flagId },
+      data: { status: 'QUARANTINED', reviewedAt: new Date(), reviewedById: reviewerId }
+    })
+
+    return result.count
+  })
+
+  scheduleTrustRecomputation("trust_flag_quarantine")
+  return quarantined
+}
+
+/**
+ * Dismisses a flag, or releases a quarantined one, restoring its allocations
+ */
+export async function resolveTrustFlag(
+  flagId: string,
+  reviewerId: string,
+  status: 'OPEN' | 'DISMISSED'
+): Promise<number> {
+  const released = await prisma.$transaction(async (tx) => {
+    const result = await tx.trustAllocation.updateMany({
+      where: { quarantineFlagId: flagId },
+      data: { quarantineFlagId: null }
+    })
+
+    await tx.trustFlag.update({
+      where: { id: flagId },
+      data: { status, reviewedAt: new Date(), reviewedById: reviewerId }
+    })
+
+    return result.count
+  })
+
+  if (released > 0) {
+    scheduleTrustRecomputation("trust_flag_release")
+  }
+  return released
+}
@@ -0,0 +1,280 @@
+/**
+ * TRUST BUDGET LEDGER
+ *
+ * TrustAllocation is the single source of truth for who trusts whom.
+ * Everything else is derived from it:
+ * - User.allocatedTrust / availableTrust: points spent / left out of
+ *   User.totalTrustPoints (proportion × totalTrustPoints, rounded)
+ * - Relationship.user1TrustAllocated / user2TrustAllocated: the points
+ *   user1 (resp. user2) allocates to the other side of the relationship
+ *
+ * Allocation proportions are fractions of the giver's budget, so a giver's
+ * proportions may sum to at most 1.0. A giver with no allocations
+ * defaults to trusting the pretrust seeds in the computation.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
+
+// Tolerance for floating point proportions summing to exactly 1.0
+const BUDGET_EPSILON = 0.0001
+
+type TransactionClient = Prisma.TransactionClient
+
+export interface BudgetAllocation {
+  receiverId: string
+  proportion: number
+}
+
+/**
+ * Checks a full allocation set against the giver's budget
+ *
+ * @returns An error message, or null if the allocations fit
+ */
+export function validateAllocationBudget(allocations: BudgetAllocation[]): string | null {
+  const receivers = new Set<string>()
+  for (const allocation of allocations) {
+    if (receivers.has(allocation.receiverId)) {
+      return 'Each person can only appear once in your allocations'
+    }
+    receivers.add(allocation.receiverId)
+  }
+
+  const total = allocations.reduce((sum, allocation) => sum + allocation.proportion, 0)
+  if (total > 1 + BUDGET_EPSILON) {
+    return `Allocations exceed your trust budget (${Math.round(total * 100)} of 100 points)`
+  }
+
+  return null
+}
+
+/**
+ * Converts a proportion of the giver's budget into trust points
+ */
+export function proportionToPoints(proportion: number, totalTrustPoints: number): number {
+  return Math.round(proportion * totalTrustPoints)
+}
+
+export interface TrustBudget {
+  totalTrustPoints: number
+  allocatedTrust: number
+  availableTrust: number
+}
+
+/**
+ * Reads a user's budget straight from their allocations rather than the
+ * cached User fields, so checks hold even before drift is reconciled
+ */
+export async function getTrustBudget(userId: string): Promise<TrustBudget> {
+  const [user, allocations] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { totalTrustPoints: true }
+    }),
+    prisma.trustAllocation.findMany({
+      where: { giverId: userId },
+      select: { proportion: true }
+    })
+  ])
+
+  const allocatedTrust = Math.min(
+    user.totalTrustPoints,
+    proportionToPoints(allocations.reduce((sum, a) => sum + a.proportion, 0), user.totalTrustPoints)
+  )
+
+  return {
+    totalTrustPoints: user.totalTrustPoints,
+    allocatedTrust,
+    availableTrust: user.totalTrustPoints - allocatedTrust
+  }
+}
+
+/**
+ * Sets one giver → receiver allocation, keeping the rest of the giver's
+ * allocations intact. Used by flows that add a single person (establishing
+ * a relationship, delegating a referral).
+ *
+ * @throws Error if the new allocation would exceed the giver's budget
+ */
+export async function setTrustAllocation(
+  tx: TransactionClient,
+  giverId: string,
+  receiverId: string,
+  points: number
+): Promise<void> {
+  const giver = await tx.user.findUniqueOrThrow({
+    where: { id: giverId },
+    select: { totalTrustPoints: true }
+  })
+
+  const others = await tx.trustAllocation.findMany({
+    where: { giverId, receiverId: { not: receiverId } },
+    select: { receiverId: true, proportion: true }
+  })
+
+  const proportion = points / giver.totalTrustPoints
+  const error = validateAllocationBudget([...others, { receiverId, proportion }])
+  if (error) {
+    throw new Error(error)
+  }
+
+  if (proportion > 0) {
+    await tx.trustAllocation.upsert({
+      where: { giverId_receiverId: { giverId, receiverId } },
+      create: { giverId, receiverId, proportion },
+      update: { proportion, confirmedAt: new Date() }
+    })
+  } else {
+    await tx.trustAllocation.deleteMany({ where: { giverId, receiverId } })
+  }
+
+  await syncTrustLedger(tx, giverId)
+}
+
+/**
+ * Rewrites a giver's derived budget fields from their TrustAllocation rows.
+ * Call inside the same transaction that changed the allocations.
+ */
+export async function syncTrustLedger(tx: TransactionClient, giverId: string): Promise<void> {
+  const giver = await tx.user.findUniqueOrThrow({
+    where: { id: giverId },
+    select: { totalTrustPoints: true }
+  })
+
+  const allocations = await tx.trustAllocation.findMany({
+    where: { giverId },
+    select: { receiverId: true, proportion: true }
+  })
+
+  const pointsByReceiver = new Map(allocations.map(allocation => [
+    allocation.receiverId,
+    proportionToPoints(allocation.proportion, giver.totalTrustPoints)
+  ]))
+  const allocatedTrust = Math.min(
+    giver.totalTrustPoints,
+    proportionToPoints(allocations.reduce((sum, a) => sum + a.proportion, 0), giver.totalTrustPoints)
+  )
+
+  await tx.user.update({
+    where: { id: giverId },
+    data: {
+      allocatedTrust,
+      availableTrust: giver.totalTrustPoints - allocatedTrust
+    }
+  })
+
+  const relationships = await tx.relationship.findMany({
+    where: { OR: [{ user1Id: giverId }, { user2Id: giverId }] },
+    select: { id: true, user1Id: true, user2Id: true, user1TrustAllocated: true, user2TrustAllocated: true }
+  })
+
+  for (const rel of relationships) {
+    if (rel.user1Id === giverId) {
+      const points = pointsByReceiver.get(rel.user2Id) ?? 0
+      if (rel.user1TrustAllocated !== points) {
+        await tx.relationship.update({ where: { id: rel.id }, data: { user1TrustAllocated: points } })
+      }
+    } else {
+      const points = pointsByReceiver.get(rel.user1Id) ?? 0
+      if (rel.user2TrustAllocated !== points) {
+        await tx.relationship.update({ where: { id: rel.id }, data: { user2TrustAllocated: points } })
+      }
+    }
+  }
+}
+
+export interface ReconciliationReport {
+  usersChecked: number
+  usersRepaired: number
+  relationshipsRepaired: number
+  overBudgetGiversNormalized: number
+}
+
+/**
+ * Repairs drift between TrustAllocation and the derived budget fields.
+ *
+ * Over-budget givers (proportions summing past 1.0, possible before the
+ * budget was enforced) are normalized to exactly 1.0. The computation
+ * already normalized those rows, so trust scores don't change.
+ */
+export async function reconcileTrustLedger(): Promise<ReconciliationReport> {
+  const [users, allocations, relationships] = await Promise.all([
+    prisma.user.findMany({
+      select: { id: true, totalTrustPoints: true, allocatedTrust: true, availableTrust: true }
+    }),
+    prisma.trustAllocation.findMany({
+      select: { id: true, giverId: true, receiverId: true, proportion: true }
+    }),
+    prisma.relationship.findMany({
+      select: { id: true, user1Id: true, user2Id: true, user1TrustAllocated: true, user2TrustAllocated: true }
+    })
+  ])
+
+  const byGiver = new Map<string, typeof allocations>()
+  for (const allocation of allocations) {
+    if (!byGiver.has(allocation.giverId)) byGiver.set(allocation.giverId, [])
+    byGiver.get(allocation.giverId)!.push(allocation)
+  }
+
+  const report: ReconciliationReport = {
+    usersChecked: users.length,
+    usersRepaired: 0,
+    relationshipsRepaired: 0,
+    overBudgetGiversNormalized: 0
+  }
+
+  const pointsByPair = new Map<string, number>()
+  const totalPointsByUser = new Map(users.map(user => [user.id, user.totalTrustPoints]))
+
+  for (const [giverId, given] of byGiver) {
+    const total = given.reduce((sum, allocation) => sum + allocation.proportion, 0)
+
+    if (total > 1 + BUDGET_EPSILON) {
+      await prisma.$transaction(given.map(allocation => prisma.trustAllocation.update({
+        where: { id: allocation.id },
+        data: { proportion: allocation.proportion / total }
+      })))
+      given.forEach(allocation => { allocation.proportion = allocation.proportion / total })
+      report.overBudgetGiversNormalized++
+    }
+
+    const totalTrustPoints = totalPointsByUser.get(giverId) ?? 100
+    for (const allocation of given) {
+      pointsByPair.set(`${giverId}:${allocation.receiverId}`, proportionToPoints(allocation.proportion, totalTrustPoints))
+    }
+  }
+
+  for (const user of users) {
+    const given = byGiver.get(user.id) || []
+    const allocatedTrust = Math.min(
+      user.totalTrustPoints,
+      proportionToPoints(given.reduce((sum, a) => sum + a.proportion, 0), user.totalTrustPoints)
+    )
+    const availableTrust = user.totalTrustPoints - allocatedTrust
+
+    if (user.allocatedTrust !== allocatedTrust || user.availableTrust !== availableTrust) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { allocatedTrust, availableTrust }
+      })
+      report.usersRepaired++
+    }
+  }
+
+  for (const rel of relationships) {
+    const user1TrustAllocated = pointsByPair.get(`${rel.user1Id}:${rel.user2Id}`) ?? 0
+    const user2TrustAllocated = pointsByPair.get(`${rel.user2Id}:${rel.user1Id}`) ?? 0
+
+    if (rel.user1TrustAllocated !== user1TrustAllocated || rel.user2TrustAllocated !== user2TrustAllocated) {
+      await prisma.relationship.update({
+        where: { id: rel.id },
+        data: { user1TrustAllocated, user2TrustAllocated }
+      })
+      report.relationshipsRepaired++
+    }
+  }
+
+  console.log(`Trust ledger reconciled: ${report.usersRepaired} users, ${report.relationshipsRepaired} relationships repaired, ${report.overBudgetGiversNormalized} over-budget givers normalized`)
+
+  return report
+}
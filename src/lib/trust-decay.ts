@@ -0,0 +1,191 @@
+/**
+ * TRUST DECAY
+ *
+ * Allocations fade unless the giver reconfirms them. An allocation's weight
+ * halves every SystemConfig.trustHalfLifeDays since TrustAllocation.confirmedAt:
+ *
+ *   weight = proportion × 0.5^(age / halfLife)
+ *
+ * The faded part of a giver's row goes to the pretrust seed distribution,
+ * the same place a user with no allocations sends their trust. Without this,
+ * row normalization would cancel a uniform decay.
+ *
+ * Givers whose allocations have faded below STALE_WEIGHT get an email
+ * reminder (at most once per REMINDER_INTERVAL_DAYS) to reconfirm them.
+ * Reminders go out from a daily TRUST_DECAY_REMINDERS job (job-queue.ts).
+ */
+
+import { prisma } from '@/lib/prisma'
+import { TrustEdge, WeightedIndex } from '@/lib/eigentrust-sparse'
+import { sendTrustRefreshReminderEmail } from '@/lib/email-service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Remind once an allocation has lost a quarter of its weight
+export const STALE_WEIGHT = 0.75
+const REMINDER_INTERVAL_DAYS = 30
+
+export interface DatedTrustEdge extends TrustEdge {
+  confirmedAt: Date
+}
+
+/**
+ * Remaining weight of an allocation confirmed ageMs ago
+ */
+export function decayWeight(ageMs: number, halfLifeDays: number | null | undefined): number {
+  if (!halfLifeDays || halfLifeDays <= 0 || ageMs <= 0) return 1
+  return Math.pow(0.5, ageMs / (halfLifeDays * DAY_MS))
+}
+
+/**
+ * Decays edge proportions by age and moves the faded mass of each giver's
+ * row to the seeds. Row totals are unchanged.
+ */
+export function applyTrustDecay(
+  edges: DatedTrustEdge[],
+  seedDistribution: WeightedIndex[],
+  halfLifeDays: number | null | undefined,
+  now: Date = new Date()
+): { edges: TrustEdge[], decayedEdges: number } {
+  if (!halfLifeDays || halfLifeDays <= 0) {
+    return { edges, decayedEdges: 0 }
+  }
+
+  // Keyed giver → receiver so faded mass merges into existing seed edges
+  const rows = new Map<number, Map<number, number>>()
+  const faded = new Map<number, number>()
+  let decayedEdges = 0
+
+  for (const edge of edges) {
+    const weight = decayWeight(now.getTime() - edge.confirmedAt.getTime(), halfLifeDays)
+    if (weight < 1) decayedEdges++
+
+    if (!rows.has(edge.giverIndex)) rows.set(edge.giverIndex, new Map())
+    rows.get(edge.giverIndex)!.set(edge.receiverIndex, edge.proportion * weight)
+    faded.set(edge.giverIndex, (faded.get(edge.giverIndex) ?? 0) + edge.proportion * (1 - weight))
+  }
+
+  for (const [giver, lost] of faded) {
+    if (lost <= 0) continue
+    const row = rows.get(giver)!
+    for (const seed of seedDistribution) {
+      if (seed.index === giver) continue
+      row.set(seed.index, (row.get(seed.index) ?? 0) + lost * seed.weight)
+    }
+  }
+
+  const decayed: TrustEdge[] = []
+  for (const [giverIndex, row] of rows) {
+    for (const [receiverIndex, proportion] of row) {
+      decayed.push({ giverIndex, receiverIndex, proportion })
+    }
+  }
+
+  return { edges: decayed, decayedEdges }
+}
+
+/**
+ * Reads the configured half-life (null when decay is off)
+ */
+export async function getTrustHalfLifeDays(): Promise<number | null> {
+  const config = await prisma.systemConfig.findFirst({
+    select: { trustHalfLifeDays: true }
+  })
+  return config?.trustHalfLifeDays ?? null
+}
+
+export interface StaleAllocationSummary {
+  giverId: string
+  email: string
+  firstName: string | null
+  staleReceivers: Array<{ receiverId: string, displayName: string, weight: number }>
+}
+
+/**
+ * Finds givers with allocations that have faded below STALE_WEIGHT
+ */
+export async function findStaleAllocations(
+  halfLifeDays: number,
+  now: Date = new Date()
+): Promise<StaleAllocationSummary[]> {
+  // weight < STALE_WEIGHT  ⇔  age > halfLife × log2(1 / STALE_WEIGHT)
+  const staleAgeMs = halfLifeDays * DAY_MS * Math.log2(1 / STALE_WEIGHT)
+  const cutoff = new Date(now.getTime() - staleAgeMs)
+
+  const allocations = await prisma.trustAllocation.findMany({
+    where: { confirmedAt: { lt: cutoff }, quarantineFlagId: null },
+    include: {
+      giver: { select: { id: true, email: true, firstName: true } },
+      receiver: { select: { email: true, firstName: true, lastName: true } }
+    },
+    orderBy: { confirmedAt: 'asc' }
+  })
+
+  const byGiver = new Map<string, StaleAllocationSummary>()
+  for (const allocation of allocations) {
+    if (!byGiver.has(allocation.giverId)) {
+      byGiver.set(allocation.giverId, {
+        giverId: allocation.giverId,
+        email: allocation.giver.email,
+        firstName: allocation.giver.firstName,
+        staleReceivers: []
+      })
+    }
+
+    byGiver.get(allocation.giverId)!.staleReceivers.push({
+      receiverId: allocation.receiverId,
+      displayName: allocation.receiver.firstName && allocation.receiver.lastName
+        ? `${allocation.receiver.firstName} ${allocation.receiver.lastName}`
+        : allocation.receiver.email,
+      weight: decayWeight(now.getTime() - allocation.confirmedAt.getTime(), halfLifeDays)
+    })
+  }
+
+  return Array.from(byGiver.values())
+}
+
+/**
+ * Emails givers whose allocations are getting stale, skipping anyone
+ * reminded within the last REMINDER_INTERVAL_DAYS
+ */
+export async function sendTrustDecayReminders(now: Date = new Date()): Promise<{
+  staleGivers: number
+  remindersSent: number
+}> {
+  const halfLifeDays = await getTrustHalfLifeDays()
+  if (!halfLifeDays) {
+    return { staleGivers: 0, remindersSent: 0 }
+  }
+
+  const stale = await findStaleAllocations(halfLifeDays, now)
+  const recentlyReminded = new Set((await prisma.user.findMany({
+    where: {
+      id: { in: stale.map(summary => summary.giverId) },
+      trustDecayRemindedAt: { gte: new Date(now.getTime() - REMINDER_INTERVAL_DAYS * DAY_MS) }
+    },
+    select: { id: true }
+  })).map(user => user.id))
+
+  let remindersSent = 0
+  for (const summary of stale) {
+    if (recentlyReminded.has(summary.giverId)) continue
+
+    try {
+      await sendTrustRefreshReminderEmail({
+        recipientEmail: summary.email,
+        recipientName: summary.firstName || undefined,
+        staleNames: summary.staleReceivers.map(receiver => receiver.displayName)
+      })
+
+      await prisma.user.update({
+        where: { id: summary.giverId },
+        data: { trustDecayRemindedAt: now }
+      })
+      remindersSent++
+    } catch (error) {
+      console.error(`Failed to send trust refresh reminder to ${summary.email}:`, error)
+    }
+  }
+
+  return { staleGivers: stale.length, remindersSent }
+}
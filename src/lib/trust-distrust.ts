@@ -0,0 +1,109 @@
+/**
+ * DISTRUST SIGNALS
+ *
+ * A user can record distrust against someone they have a relationship with.
+ * Distrust is NOT propagated through the trust graph: "the enemy of my
+ * enemy" doesn't compose the way trust does, and propagated distrust lets
+ * a small clique push penalties across the whole network. Instead it is a
+ * single step applied after trust propagation (Guha et al., 2004):
+ *
+ *   penalty(i) = Σ_j  λ × t(j) / k(j)      over givers j distrusting i
+ *   score(i)   = t(i) - penalty(i)
+ *
+ * where t is the propagated trust vector and k(j) the number of users j
+ * distrusts. Each giver has one unit of distrust, weighted by their own
+ * trust and split across everyone they distrust.
+ *
+ * Safeguards:
+ * - Weighted by the giver's trust, so fresh or sybil accounts carry ~nothing
+ * - One giver can take at most maxSingleGiverShare of a target's score
+ * - All distrust together can take at most maxTotalShare of it
+ * - Pretrust seeds are exempt (they anchor the scale)
+ * - Recording distrust removes any trust allocation to the same person
+ *
+ * Since the penalty isn't fed back into propagation, a user's own signals
+ * never change their own score, which keeps MODIFIED's guarantee.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export interface DistrustEdge {
+  giverIndex: number
+  receiverIndex: number
+}
+
+export interface DistrustOptions {
+  distrustWeight: number       // λ
+  maxSingleGiverShare: number  // Cap per giver, as a fraction of the target's score
+  maxTotalShare: number        // Cap across all givers
+}
+
+export const DEFAULT_DISTRUST_OPTIONS: DistrustOptions = {
+  distrustWeight: 0.5,
+  maxSingleGiverShare: 0.1,
+  maxTotalShare: 0.5
+}
+
+/**
+ * Computes each user's distrust penalty from the propagated trust vector
+ *
+ * @param scores - Propagated trust, indexed like the edges
+ * @param exempt - Indices that can't be penalized (the seeds)
+ * @returns Penalty per user, never more than maxTotalShare × score
+ */
+export function computeDistrustPenalties(
+  scores: ArrayLike<number>,
+  edges: DistrustEdge[],
+  exempt: Set<number>,
+  options: Partial<DistrustOptions> = {}
+): Float64Array {
+  const { distrustWeight, maxSingleGiverShare, maxTotalShare } = { ...DEFAULT_DISTRUST_OPTIONS, ...options }
+  const penalties = new Float64Array(scores.length)
+
+  // Collapse duplicates and self-signals before counting k(j)
+  const targetsByGiver = new Map<number, Set<number>>()
+  for (const edge of edges) {
+    if (edge.giverIndex === edge.receiverIndex) continue
+    if (!targetsByGiver.has(edge.giverIndex)) targetsByGiver.set(edge.giverIndex, new Set())
+    targetsByGiver.get(edge.giverIndex)!.add(edge.receiverIndex)
+  }
+
+  for (const [giver, targets] of targetsByGiver) {
+    const giverTrust = scores[giver]
+    if (!(giverTrust > 0)) continue
+
+    const perTarget = distrustWeight * giverTrust / targets.size
+    for (const target of targets) {
+      if (exempt.has(target) || !(scores[target] > 0)) continue
+      penalties[target] += Math.min(perTarget, maxSingleGiverShare * scores[target])
+    }
+  }
+
+  for (let i = 0; i < penalties.length; i++) {
+    if (penalties[i] > 0) {
+      penalties[i] = Math.min(penalties[i], maxTotalShare * scores[i])
+    }
+  }
+
+  return penalties
+}
+
+/**
+ * Loads all distrust signals as index edges
+ */
+export async function loadDistrustEdges(userToIndex: Map<string, number>): Promise<DistrustEdge[]> {
+  const signals = await prisma.distrustSignal.findMany({
+    select: { giverId: true, receiverId: true }
+  })
+
+  const edges: DistrustEdge[] = []
+  for (const signal of signals) {
+    const giverIndex = userToIndex.get(signal.giverId)
+    const receiverIndex = userToIndex.get(signal.receiverId)
+    if (giverIndex !== undefined && receiverIndex !== undefined) {
+      edges.push({ giverIndex, receiverIndex })
+    }
+  }
+
+  return edges
+}
@@ -0,0 +1,128 @@
+/**
+ * DOMAIN (TOPICAL) TRUST SCORES
+ *
+ * Trust in someone's engineering judgment isn't trust in their design
+ * judgment. Allocations can be tagged with domains; each domain gets its
+ * own EigenTrust run over:
+ * - untagged (general) allocations, which count in every domain
+ * - allocations tagged with that domain
+ *
+ * Same seeds, decay and distrust as the global run. Domains nobody has
+ * tagged would just reproduce the global scores, so they're skipped and
+ * lookups fall back to ComputedTrustScore.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { TrustDomain } from '@prisma/client'
+import { computeEigenTrust } from '@/lib/eigentrust-new'
+import { TRUST_DOMAINS } from '@/lib/trust-domains'
+
+export interface ReferrerTrust {
+  trustScore: number
+  displayScore: number
+  rank: number
+  domain: TrustDomain | null  // null when falling back to the global score
+}
+
+/**
+ * Recomputes DomainTrustScore for every domain with tagged allocations
+ *
+ * @returns Domains that were computed
+ */
+export async function computeDomainTrustScores(triggeredBy: string = "manual"): Promise<TrustDomain[]> {
+  const tagged = await prisma.trustAllocation.findMany({
+    where: { quarantineFlagId: null, NOT: { domains: { isEmpty: true } } },
+    select: { domains: true }
+  })
+  const activeDomains = TRUST_DOMAINS.filter(domain => tagged.some(allocation => allocation.domains.includes(domain)))
+
+  // Stale rows for domains that no longer have tags would shadow the global fallback
+  await prisma.domainTrustScore.deleteMany({
+    where: { domain: { notIn: activeDomains } }
+  })
+
+  const computed: TrustDomain[] = []
+
+  for (const domain of activeDomains) {
+    const result = await computeEigenTrust(0.15, 100, 0.000001, `domain:${domain} (${triggeredBy})`, {
+      warmStart: true,
+      dryRun: true,
+      domain
+    })
+
+    if (!result.success) {
+      console.error(`Domain trust computation failed for ${domain}:`, result.error)
+      continue
+    }
+
+    const computedAt = new Date()
+    await prisma.$transaction([
+      prisma.domainTrustScore.deleteMany({ where: { domain } }),
+      prisma.domainTrustScore.createMany({
+        data: result.scores.map(score => ({
+          userId: score.userId,
+          domain,
+          trustScore: score.trustScore,
+          displayScore: score.displayScore,
+          rank: score.rank,
+          computedAt
+        }))
+      })
+    ])
+
+    computed.push(domain)
+  }
+
+  if (computed.length > 0) {
+    console.log(`✓ Domain trust scores computed for ${computed.join(', ')}`)
+  }
+
+  return computed
+}
+
+/**
+ * Looks up trust for a set of users in a domain, falling back to the
+ * global score when the domain has no scores of its own
+ */
+export async function getTrustForDomain(
+  userIds: string[],
+  domain: TrustDomain | null
+): Promise<Map<string, ReferrerTrust>> {
+  const trust = new Map<string, ReferrerTrust>()
+  if (userIds.length === 0) return trust
+
+  if (domain) {
+    const domainScores = await prisma.domainTrustScore.findMany({
+      where: { domain, userId: { in: userIds } },
+      select: { userId: true, trustScore: true, displayScore: true, rank: true }
+    })
+
+    for (const score of domainScores) {
+      trust.set(score.userId, {
+        trustScore: score.trustScore,
+        displayScore: score.displayScore,
+        rank: score.rank,
+        domain
+      })
+    }
+  }
+
+  const missing = userIds.filter(userId => !trust.has(userId))
+  if (missing.length > 0) {
+    const globalScores = await prisma.computedTrustScore.findMany({
+      where: { userId: { in: missing } },
+      select: { userId: true, trustScore: true, displayScore: true, rank: true }
+    })
+
+    for (const score of globalScores) {
+      trust.set(score.userId, {
+        trustScore: score.trustScore,
+        displayScore: score.displayScore,
+        rank: score.rank,
+        domain: null
+      })
+    }
+  }
+
+  return trust
+}
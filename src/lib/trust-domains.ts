@@ -0,0 +1,32 @@
+/**
+ * TRUST DOMAINS
+ *
+ * Curated taxonomy for topical trust. Safe to import from client
+ * components (no database access).
+ */
+
+import type { TrustDomain } from '@prisma/client'
+
+export const TRUST_DOMAINS: TrustDomain[] = [
+  'ENGINEERING',
+  'DESIGN',
+  'PRODUCT',
+  'DATA',
+  'SALES',
+  'MARKETING',
+  'OPERATIONS'
+]
+
+export const TRUST_DOMAIN_LABELS: Record<TrustDomain, string> = {
+  ENGINEERING: 'Engineering',
+  DESIGN: 'Design',
+  PRODUCT: 'Product',
+  DATA: 'Data',
+  SALES: 'Sales',
+  MARKETING: 'Marketing',
+  OPERATIONS: 'Operations'
+}
+
+export function isTrustDomain(value: unknown): value is TrustDomain {
+  return typeof value === 'string' && (TRUST_DOMAINS as string[]).includes(value)
+}
@@ -0,0 +1,324 @@
+/**
+ * TRUST SCORE EXPLANATION
+ *
+ * Decomposes a user's computed score into where it came from:
+ *
+ * - Direct contributions: each incoming allocator j adds
+ *   proportion(j → i) × score(j) × (1-α)
+ * - Path attribution: all trust originates at the pretrust seeds, so a
+ *   non-seed score is the sum over trust paths seed → ... → i of
+ *   score(seed) × Π proportion × (1-α). The strongest simple paths are
+ *   listed; coverage is the fraction of the score they account for.
+ *
+ * Proportions are the effective row-normalized ones the computation uses,
+ * so users who haven't allocated show up as giving to the seeds, and
+ * stale allocations are decayed the same way.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { TrustAlgorithm } from '@prisma/client'
+import { buildSparseTrustMatrix, SparseTrustMatrix } from '@/lib/eigentrust-sparse'
+import { loadPretrustSeeds } from '@/lib/pretrust'
+import { applyTrustDecay, DatedTrustEdge } from '@/lib/trust-decay'
+
+export interface DirectContribution {
+  giverIndex: number
+  proportion: number
+  giverScore: number
+  contribution: number
+}
+
+export interface TrustPath {
+  nodes: number[]  // Seed first, target last
+  contribution: number
+}
+
+export interface PathAttributionOptions {
+  maxHops: number
+  maxPaths: number
+  minContribution: number
+  maxExpansions: number
+}
+
+const DEFAULT_PATH_OPTIONS: PathAttributionOptions = {
+  maxHops: 6,
+  maxPaths: 10,
+  minContribution: 0.0001,
+  maxExpansions: 20000
+}
+
+// =========================================================================
+// Pure computations (no database)
+// =========================================================================
+
+/**
+ * Lists every giver with a nonzero effective proportion into target
+ */
+export function computeDirectContributions(
+  matrix: SparseTrustMatrix,
+  scores: ArrayLike<number>,
+  target: number,
+  decayFactor: number
+): DirectContribution[] {
+  const contributions: DirectContribution[] = []
+
+  for (let giver = 0; giver < matrix.size; giver++) {
+    for (let k = matrix.rowPtr[giver]; k < matrix.rowPtr[giver + 1]; k++) {
+      if (matrix.colIdx[k] !== target || matrix.values[k] === 0) continue
+
+      contributions.push({
+        giverIndex: giver,
+        proportion: matrix.values[k],
+        giverScore: scores[giver],
+        contribution: (1 - decayFactor) * matrix.values[k] * scores[giver]
+      })
+    }
+  }
+
+  return contributions.sort((a, b) => b.contribution - a.contribution)
+}
+
+/**
+ * Finds the strongest simple trust paths from any seed to target.
+ * Walks backward from target along incoming edges; a path ends at the
+ * first seed it reaches, since seed trust is the origin of all trust.
+ */
+export function attributeTrustPaths(
+  matrix: SparseTrustMatrix,
+  scores: ArrayLike<number>,
+  seedIndices: number[],
+  target: number,
+  decayFactor: number,
+  options: Partial<PathAttributionOptions> = {}
+): TrustPath[] {
+  const { maxHops, maxPaths, minContribution, maxExpansions } = { ...DEFAULT_PATH_OPTIONS, ...options }
+  const isSeed = new Set(seedIndices)
+
+  // Incoming adjacency: receiver → [giver, proportion]
+  const incoming: Array<Array<[number, number]>> = Array.from({ length: matrix.size }, () => [])
+  for (let giver = 0; giver < matrix.size; giver++) {
+    for (let k = matrix.rowPtr[giver]; k < matrix.rowPtr[giver + 1]; k++) {
+      if (matrix.values[k] > 0 && matrix.colIdx[k] !== giver) {
+        incoming[matrix.colIdx[k]].push([giver, matrix.values[k]])
+      }
+    }
+  }
+
+  const maxSeedScore = Math.max(0, ...seedIndices.map(seed => scores[seed]))
+  const paths: TrustPath[] = []
+  const onPath = new Set<number>([target])
+  let expansions = 0
+
+  // path is built target-first and reversed when recorded
+  const walk = (node: number, weight: number, path: number[]) => {
+    if (expansions++ > maxExpansions) return
+
+    for (const [giver, proportion] of incoming[node]) {
+      if (onPath.has(giver)) continue
+
+      const nextWeight = weight * (1 - decayFactor) * proportion
+
+      if (isSeed.has(giver)) {
+        const contribution = nextWeight * scores[giver]
+        if (contribution >= minContribution) {
+          paths.push({ nodes: [...path, giver].reverse(), contribution })
+        }
+        continue
+      }
+
+      // Even reaching the strongest seed from here wouldn't matter
+      if (path.length >= maxHops || nextWeight * maxSeedScore < minContribution) continue
+
+      onPath.add(giver)
+      walk(giver, nextWeight, [...path, giver])
+      onPath.delete(giver)
+    }
+  }
+
+  if (!isSeed.has(target)) {
+    walk(target, 1, [target])
+  }
+
+  return paths
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, maxPaths)
+}
+
+// =========================================================================
+// Database-backed explanation
+// =========================================================================
+
+interface ExplainedUser {
+  userId: string
+  displayName: string
+}
+
+export interface TrustExplanation {
+  user: ExplainedUser
+  score: {
+    trustScore: number
+    displayScore: number
+    rank: number
+    computedAt: Date
+  } | null
+  algorithm: TrustAlgorithm
+  decayFactor: number
+  isSeed: boolean
+  seedTrust: number  // Part of the score that comes from being a pretrust seed
+  distrustPenalty: number  // Subtracted for distrust signals (givers aren't disclosed)
+  contributions: Array<ExplainedUser & {
+    proportion: number
+    allocatorScore: number
+    contribution: number
+    share: number          // contribution / score
+    defaulted: boolean     // Allocator hasn't allocated; their trust defaults to the seeds
+  }>
+  directTotal: number
+  residual: number         // score + distrustPenalty - seedTrust - directTotal (allocations edited since last run, rounding)
+  paths: Array<{
+    nodes: ExplainedUser[]
+    contribution: number
+    share: number
+  }>
+  pathCoverage: number
+}
+
+/**
+ * Explains a user's most recently computed trust score
+ *
+ * @param userId - User to explain
+ * @returns Explanation, or null if the user doesn't exist
+ */
+export async function explainTrustScore(userId: string): Promise<TrustExplanation | null> {
+  const users = await prisma.user.findMany({
+    select: { id: true, email: true, firstName: true, lastName: true }
+  })
+
+  const userToIndex = new Map<string, number>()
+  users.forEach((user, index) => userToIndex.set(user.id, index))
+
+  const target = userToIndex.get(userId)
+  if (target === undefined) return null
+
+  const describe = (index: number): ExplainedUser => {
+    const user = users[index]
+    return {
+      userId: user.id,
+      displayName: user.firstName && user.lastName
+        ? `${user.firstName} ${user.lastName}`
+        : user.email
+    }
+  }
+
+  const [computedScores, lastComputation, config, seedWeights, allocations] = await Promise.all([
+    prisma.computedTrustScore.findMany({
+      select: { userId: true, trustScore: true, displayScore: true, rank: true, distrustPenalty: true, computedAt: true }
+    }),
+    prisma.trustComputationLog.findFirst({
+      orderBy: { computedAt: 'desc' },
+      select: { decayFactor: true, algorithm: true }
+    }),
+    prisma.systemConfig.findFirst({
+      select: { trustAlgorithm: true, trustHalfLifeDays: true }
+    }),
+    loadPretrustSeeds(),
+    prisma.trustAllocation.findMany({
+      where: { quarantineFlagId: null },
+      select: { giverId: true, receiverId: true, proportion: true, confirmedAt: true }
+    })
+  ])
+
+  const decayFactor = lastComputation?.decayFactor ?? 0.15
+  const algorithm: TrustAlgorithm = lastComputation?.algorithm ?? config?.trustAlgorithm ?? 'STANDARD'
+
+  const scores = new Float64Array(users.length)
+  const targetScore = computedScores.find(score => score.userId === userId) ?? null
+  for (const score of computedScores) {
+    const index = userToIndex.get(score.userId)
+    if (index !== undefined) scores[index] = score.trustScore
+  }
+
+  const seeds = seedWeights
+    .filter(seed => userToIndex.has(seed.userId))
+    .map(seed => ({ index: userToIndex.get(seed.userId)!, weight: seed.weight }))
+
+  const datedEdges: DatedTrustEdge[] = []
+  const allocators = new Set<number>()
+  for (const allocation of allocations) {
+    const giverIdx = userToIndex.get(allocation.giverId)
+    const receiverIdx = userToIndex.get(allocation.receiverId)
+    if (giverIdx !== undefined && receiverIdx !== undefined) {
+      datedEdges.push({
+        giverIndex: giverIdx,
+        receiverIndex: receiverIdx,
+        proportion: allocation.proportion,
+        confirmedAt: allocation.confirmedAt
+      })
+      if (allocation.proportion > 0) allocators.add(giverIdx)
+    }
+  }
+
+  // Decay is measured at the last computation, not now, to match its scores
+  const { edges } = applyTrustDecay(datedEdges, seeds, config?.trustHalfLifeDays, targetScore?.computedAt)
+
+  const matrix = buildSparseTrustMatrix(users.length, edges, seeds)
+
+  const score = targetScore?.trustScore ?? 0
+  const distrustPenalty = targetScore?.distrustPenalty ?? 0
+  const targetSeed = seeds.find(seed => seed.index === target)
+  const maxSeedWeight = Math.max(0, ...seeds.map(seed => seed.weight))
+
+  // STANDARD pins seeds relative to the heaviest seed; MODIFIED adds α × p,
+  // which its production scaling of 1/(α × maxSeedWeight) turns into the same ratio
+  let seedTrust = 0
+  if (targetSeed && maxSeedWeight > 0) {
+    seedTrust = algorithm === 'STANDARD' ? score : targetSeed.weight / maxSeedWeight
+  }
+
+  const direct = computeDirectContributions(matrix, scores, target, decayFactor)
+  const paths = attributeTrustPaths(
+    matrix,
+    scores,
+    seeds.map(seed => seed.index),
+    target,
+    decayFactor
+  )
+
+  // A pinned seed's score doesn't depend on what it receives
+  const directTotal = targetSeed && algorithm === 'STANDARD'
+    ? 0
+    : direct.reduce((sum, entry) => sum + entry.contribution, 0)
+  const pathTotal = paths.reduce((sum, path) => sum + path.contribution, 0)
+  const share = (value: number) => score > 0 ? value / score : 0
+
+  return {
+    user: describe(target),
+    score: targetScore ? {
+      trustScore: targetScore.trustScore,
+      displayScore: targetScore.displayScore,
+      rank: targetScore.rank,
+      computedAt: targetScore.computedAt
+    } : null,
+    algorithm,
+    decayFactor,
+    isSeed: targetSeed !== undefined,
+    seedTrust,
+    distrustPenalty,
+    contributions: direct.map(entry => ({
+      ...describe(entry.giverIndex),
+      proportion: entry.proportion,
+      allocatorScore: entry.giverScore,
+      contribution: entry.contribution,
+      share: share(entry.contribution),
+      defaulted: !allocators.has(entry.giverIndex)
+    })),
+    directTotal,
+    residual: score + distrustPenalty - seedTrust - directTotal,
+    paths: paths.map(path => ({
+      nodes: path.nodes.map(describe),
+      contribution: path.contribution,
+      share: share(path.contribution)
+    })),
+    pathCoverage: share(pathTotal)
+  }
+}
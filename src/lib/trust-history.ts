@@ -0,0 +1,263 @@
+/**
+ * TRUST SCORE HISTORY
+ *
+ * Every EigenTrust computation stores a full TrustScoreSnapshot of the
+ * network, keyed by its TrustComputationLog entry. These helpers read a
+ * user's trajectory across snapshots and diff any two snapshots.
+ *
+ * Recomputations are frequent (every coalesced burst of edits), so older
+ * snapshots are thinned out after each run (SNAPSHOT_RETENTION): all of
+ * the last day, the last of each hour for a week, the last of each day for
+ * a year. The computation log itself is kept.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Checked in order; a snapshot older than every tier is dropped
+const SNAPSHOT_RETENTION = [
+  { maxAgeMs: DAY_MS, bucketMs: 0 },          // Keep everything
+  { maxAgeMs: 7 * DAY_MS, bucketMs: HOUR_MS },
+  { maxAgeMs: 365 * DAY_MS, bucketMs: DAY_MS }
+]
+
+// The latest two always stay, for rank movement (getLatestRankChanges)
+const ALWAYS_KEEP_LATEST = 2
+
+export interface TrustHistoryPoint {
+  computationId: string
+  computedAt: Date
+  trustScore: number
+  displayScore: number
+  rank: number
+  numUsers: number
+}
+
+export interface SnapshotDiffEntry {
+  userId: string
+  displayName: string
+  email: string
+  from: { trustScore: number; displayScore: number; rank: number } | null
+  to: { trustScore: number; displayScore: number; rank: number } | null
+  trustScoreChange: number
+  displayScoreChange: number
+  rankChange: number | null  // Positive = moved up (rank number went down)
+}
+
+export interface SnapshotDiff {
+  from: { id: string; computedAt: Date; triggeredBy: string }
+  to: { id: string; computedAt: Date; triggeredBy: string }
+  entries: SnapshotDiffEntry[]
+}
+
+/**
+ * Returns a user's score and rank over their most recent snapshots
+ *
+ * @param userId - User whose trajectory to load
+ * @param limit - Maximum number of points (most recent)
+ * @returns Points in chronological order (oldest first)
+ */
+export async function getTrustScoreHistory(
+  userId: string,
+  limit: number = 50
+): Promise<TrustHistoryPoint[]> {
+  const snapshots = await prisma.trustScoreSnapshot.findMany({
+    where: { userId },
+    include: {
+      computation: {
+        select: { computedAt: true, numUsers: true }
+      }
+    },
+    orderBy: { computation: { computedAt: 'desc' } },
+    take: limit
+  })
+
+  return snapshots.reverse().map(snapshot => ({
+    computationId: snapshot.computationId,
+    computedAt: snapshot.computation.computedAt,
+    trustScore: snapshot.trustScore,
+    displayScore: snapshot.displayScore,
+    rank: snapshot.rank,
+    numUsers: snapshot.computation.numUsers
+  }))
+}
+
+/**
+ * Returns each user's rank movement between the two most recent snapshots
+ *
+ * @returns Map of userId → rank change (positive = moved up). Users
+ *          without a previous snapshot are omitted.
+ */
+export async function getLatestRankChanges(): Promise<Map<string, number>> {
+  const computations = await prisma.trustComputationLog.findMany({
+    where: { snapshots: { some: {} } },
+    orderBy: { computedAt: 'desc' },
+    select: { id: true },
+    take: 2
+  })
+
+  const changes = new Map<string, number>()
+  if (computations.length < 2) return changes
+
+  const [latest, previous] = computations
+  const snapshots = await prisma.trustScoreSnapshot.findMany({
+    where: { computationId: { in: [latest.id, previous.id] } },
+    select: { computationId: true, userId: true, rank: true }
+  })
+
+  const previousRanks = new Map<string, number>()
+  for (const snapshot of snapshots) {
+    if (snapshot.computationId === previous.id) {
+      previousRanks.set(snapshot.userId, snapshot.rank)
+    }
+  }
+
+  for (const snapshot of snapshots) {
+    if (snapshot.computationId !== latest.id) continue
+    const previousRank = previousRanks.get(snapshot.userId)
+    if (previousRank !== undefined) {
+      changes.set(snapshot.userId, previousRank - snapshot.rank)
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Compares two snapshots user by user
+ *
+ * @param fromId - Earlier TrustComputationLog id
+ * @param toId - Later TrustComputationLog id
+ * @returns Diff sorted by absolute score change, or null if either
+ *          computation doesn't exist
+ */
+export async function diffTrustSnapshots(
+  fromId: string,
+  toId: string
+): Promise<SnapshotDiff | null> {
+  const computations = await prisma.trustComputationLog.findMany({
+    where: { id: { in: [fromId, toId] } },
+    select: { id: true, computedAt: true, triggeredBy: true }
+  })
+
+  const from = computations.find(c => c.id === fromId)
+  const to = computations.find(c => c.id === toId)
+  if (!from || !to) return null
+
+  const snapshots = await prisma.trustScoreSnapshot.findMany({
+    where: { computationId: { in: [fromId, toId] } },
+    include: {
+      user: {
+        select: { email: true, firstName: true, lastName: true }
+      }
+    }
+  })
+
+  const entries = new Map<string, SnapshotDiffEntry>()
+
+  for (const snapshot of snapshots) {
+    let entry = entries.get(snapshot.userId)
+    if (!entry) {
+      entry = {
+        userId: snapshot.userId,
+        displayName: snapshot.user.firstName && snapshot.user.lastName
+          ? `${snapshot.user.firstName} ${snapshot.user.lastName}`
+          : snapshot.user.email,
+        email: snapshot.user.email,
+        from: null,
+        to: null,
+        trustScoreChange: 0,
+        displayScoreChange: 0,
+        rankChange: null
+      }
+      entries.set(snapshot.userId, entry)
+    }
+
+    const values = {
+      trustScore: snapshot.trustScore,
+      displayScore: snapshot.displayScore,
+      rank: snapshot.rank
+    }
+
+    // Diffing a snapshot against itself fills both sides
+    if (snapshot.computationId === fromId) entry.from = values
+    if (snapshot.computationId === toId) entry.to = values
+  }
+
+  for (const entry of entries.values()) {
+    entry.trustScoreChange = (entry.to?.trustScore ?? 0) - (entry.from?.trustScore ?? 0)
+    entry.displayScoreChange = (entry.to?.displayScore ?? 0) - (entry.from?.displayScore ?? 0)
+    entry.rankChange = entry.from && entry.to ? entry.from.rank - entry.to.rank : null
+  }
+
+  return {
+    from,
+    to,
+    entries: Array.from(entries.values()).sort(
+      (a, b) => Math.abs(b.trustScoreChange) - Math.abs(a.trustScoreChange)
+    )
+  }
+}
+
+/**
+ * Picks which snapshots survive SNAPSHOT_RETENTION: the latest snapshot in
+ * each hour or day bucket of its tier
+ *
+ * @param computations - Computations that have a snapshot
+ * @returns IDs of the computations whose snapshots should be deleted
+ */
+export function selectSnapshotsToPrune(
+  computations: { id: string; computedAt: Date }[],
+  now: Date = new Date()
+): string[] {
+  const newestFirst = [...computations].sort((a, b) => b.computedAt.getTime() - a.computedAt.getTime())
+  const filledBuckets = new Set<string>()
+  const prune: string[] = []
+
+  newestFirst.forEach((computation, index) => {
+    if (index < ALWAYS_KEEP_LATEST) return
+
+    const age = now.getTime() - computation.computedAt.getTime()
+    const tier = SNAPSHOT_RETENTION.findIndex(t => age <= t.maxAgeMs)
+
+    if (tier === -1) {
+      prune.push(computation.id)
+      return
+    }
+
+    const { bucketMs } = SNAPSHOT_RETENTION[tier]
+    if (bucketMs === 0) return
+
+    const bucket = `${tier}:${Math.floor(computation.computedAt.getTime() / bucketMs)}`
+    if (filledBuckets.has(bucket)) {
+      prune.push(computation.id)
+    } else {
+      filledBuckets.add(bucket)
+    }
+  })
+
+  return prune
+}
+
+/**
+ * Deletes snapshots that have fallen out of SNAPSHOT_RETENTION
+ *
+ * @returns Number of computations whose snapshot was deleted
+ */
+export async function pruneTrustSnapshots(now: Date = new Date()): Promise<number> {
+  const computations = await prisma.trustComputationLog.findMany({
+    where: { snapshots: { some: {} } },
+    select: { id: true, computedAt: true }
+  })
+
+  const prune = selectSnapshotsToPrune(computations, now)
+  if (prune.length === 0) return 0
+
+  await prisma.trustScoreSnapshot.deleteMany({
+    where: { computationId: { in: prune } }
+  })
+
+  return prune.length
+}
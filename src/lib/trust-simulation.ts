@@ -0,0 +1,161 @@
+/**
+ * TRUST ALLOCATION SIMULATOR
+ *
+ * What-if mode for trust allocations: runs EigenTrust in memory once,
+ * with a user's proposed allocations swapped in, and reports how scores
+ * would move from the saved ComputedTrustScore rows. Nothing is persisted.
+ *
+ * The projection warm-starts from the saved scores, so a small change
+ * converges in a few iterations. The baseline is the last computation, so
+ * edits still waiting to be recomputed show up in the deltas too.
+ *
+ * The projection still runs inside the request, so previews are throttled:
+ * one per user every SIMULATION_COOLDOWN_MS, and at most
+ * MAX_CONCURRENT_SIMULATIONS per server process.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { computeEigenTrust, ComputedScore, ProposedAllocation } from '@/lib/eigentrust-new'
+
+const SIMULATION_COOLDOWN_MS = 10 * 1000
+const MAX_CONCURRENT_SIMULATIONS = 2
+
+export const SIMULATION_THROTTLED = 'Too many score previews, try again in a few seconds'
+
+const lastSimulationAt = new Map<string, number>()
+let runningSimulations = 0
+
+export interface ProjectedScoreChange {
+  userId: string
+  displayName: string
+  before: { trustScore: number; displayScore: number; rank: number }
+  after: { trustScore: number; displayScore: number; rank: number }
+  trustScoreChange: number
+  displayScoreChange: number
+  rankChange: number  // Positive = moves up
+}
+
+export interface AllocationSimulation {
+  self: ProjectedScoreChange | null
+  contacts: ProjectedScoreChange[]
+  topN: ProjectedScoreChange[]
+}
+
+/**
+ * Projects the effect of replacing a user's allocations
+ *
+ * @param userId - The giver whose allocations are being changed
+ * @param allocations - Proposed allocations (replace all of the user's current ones)
+ * @param topN - Size of the network leaderboard to include
+ * @throws Error(SIMULATION_THROTTLED) if the user previewed too recently or
+ *   the server is busy with other previews
+ */
+export async function simulateAllocationChange(
+  userId: string,
+  allocations: ProposedAllocation[],
+  topN: number = 10
+): Promise<AllocationSimulation> {
+  const now = Date.now()
+  if (now - (lastSimulationAt.get(userId) ?? 0) < SIMULATION_COOLDOWN_MS ||
+      runningSimulations >= MAX_CONCURRENT_SIMULATIONS) {
+    throw new Error(SIMULATION_THROTTLED)
+  }
+
+  lastSimulationAt.forEach((at, id) => {
+    if (now - at >= SIMULATION_COOLDOWN_MS) lastSimulationAt.delete(id)
+  })
+  lastSimulationAt.set(userId, now)
+
+  runningSimulations++
+  try {
+    return await projectAllocationChange(userId, allocations, topN)
+  } finally {
+    runningSimulations--
+  }
+}
+
+async function projectAllocationChange(
+  userId: string,
+  allocations: ProposedAllocation[],
+  topN: number
+): Promise<AllocationSimulation> {
+  const baselineScores: ComputedScore[] = await prisma.computedTrustScore.findMany({
+    select: { userId: true, trustScore: true, displayScore: true, rank: true }
+  })
+
+  const projected = await computeEigenTrust(0.15, 100, 0.000001, "what_if", {
+    warmStart: true,
+    dryRun: true,
+    allocationOverride: { giverId: userId, allocations }
+  })
+
+  if (!projected.success) {
+    throw new Error(projected.error || 'Trust simulation failed')
+  }
+
+  const beforeByUser = new Map(baselineScores.map(score => [score.userId, score]))
+  const afterByUser = new Map(projected.scores.map(score => [score.userId, score]))
+
+  // Contacts: confirmed relationships plus anyone in the current or proposed allocations
+  const [relationships, currentAllocations] = await Promise.all([
+    prisma.relationship.findMany({
+      where: {
+        status: 'CONFIRMED',
+        OR: [{ user1Id: userId }, { user2Id: userId }]
+      },
+      select: { user1Id: true, user2Id: true }
+    }),
+    prisma.trustAllocation.findMany({
+      where: { giverId: userId },
+      select: { receiverId: true }
+    })
+  ])
+
+  const contactIds = new Set<string>()
+  relationships.forEach(rel => contactIds.add(rel.user1Id === userId ? rel.user2Id : rel.user1Id))
+  currentAllocations.forEach(allocation => contactIds.add(allocation.receiverId))
+  allocations.forEach(allocation => contactIds.add(allocation.receiverId))
+  contactIds.delete(userId)
+
+  // Top N either before or after the change
+  const byRank = (scores: ComputedScore[]) =>
+    scores.filter(score => score.rank <= topN).map(score => score.userId)
+  const topIds = new Set([...byRank(baselineScores), ...byRank(projected.scores)])
+
+  const involvedIds = Array.from(new Set([userId, ...Array.from(contactIds), ...Array.from(topIds)]))
+  const users = await prisma.user.findMany({
+    where: { id: { in: involvedIds } },
+    select: { id: true, email: true, firstName: true, lastName: true }
+  })
+  const namesById = new Map(users.map(user => [
+    user.id,
+    user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email
+  ]))
+
+  const describe = (id: string): ProjectedScoreChange | null => {
+    const before = beforeByUser.get(id)
+    const after = afterByUser.get(id)
+    if (!before || !after) return null
+
+    return {
+      userId: id,
+      displayName: namesById.get(id) || 'Unknown',
+      before: { trustScore: before.trustScore, displayScore: before.displayScore, rank: before.rank },
+      after: { trustScore: after.trustScore, displayScore: after.displayScore, rank: after.rank },
+      trustScoreChange: after.trustScore - before.trustScore,
+      displayScoreChange: after.displayScore - before.displayScore,
+      rankChange: before.rank - after.rank
+    }
+  }
+
+  const collect = (ids: Iterable<string>) =>
+    Array.from(ids)
+      .map(describe)
+      .filter((change): change is ProjectedScoreChange => change !== null)
+
+  return {
+    self: describe(userId),
+    contacts: collect(contactIds).sort((a, b) => Math.abs(b.trustScoreChange) - Math.abs(a.trustScoreChange)),
+    topN: collect(topIds).sort((a, b) => a.after.rank - b.after.rank)
+  }
+}